@@ -4,8 +4,10 @@ import { User } from '../../App';
 import { TopNav } from '../shared/TopNav';
 import { Card } from '../shared/Card';
 import { Badge } from '../shared/Badge';
-import { collection, query, where, onSnapshot, getDocs } from 'firebase/firestore';
-import { db } from '../../firebase';
+import { TripRepository, VehicleRepository } from '../../repositories';
+import { MERGE_QUEUE_STATUSES, MILEAGE_TRIP_STATUSES, tripStatusIn } from '../../utils/tripTransitions';
+import { LiveTrackingMap, LiveVehicleMarker } from '../shared/LiveTrackingMap';
+import { TripBreadcrumb } from '../../types';
 
 // 🔒 ADMIN DASHBOARD COMPONENT
 // ============================================================================
@@ -34,7 +36,8 @@ const getVehicleStats = (vehicle: any, completedAndBrokenTrips: any[]) => {
             // Use distance until breakdown for broken trips
             kmRun = t.breakdownOdometer - t.odometerStart;
         }
-        totalKm += kmRun;
+        // Plus odometer gaps an admin put down to this trip
+        totalKm += kmRun + Number(t.attributedGapKm || 0);
     });
 
     const lastServiceKm = vehicle.lastServiceMileage || 0;
@@ -77,6 +80,9 @@ export function AdminDashboard({ user, onNavigate, onLogout }: AdminDashboardPro
         mergeCandidates: 0,
     });
     const [loading, setLoading] = useState(true);
+    // Fleet map: trip whose breadcrumb trail is drawn
+    const [selectedLiveTripId, setSelectedLiveTripId] = useState<string | null>(null);
+    const [selectedTrail, setSelectedTrail] = useState<TripBreadcrumb[]>([]);
 
     // 2. Security Modal State
     const [showSecurityModal, setShowSecurityModal] = useState(false);
@@ -88,8 +94,7 @@ export function AdminDashboard({ user, onNavigate, onLogout }: AdminDashboardPro
         setLoading(true);
 
         // 3.1. Listener for ALL Trips (for stats, filtering, and risk calculation)
-        const unsubTrips = onSnapshot(collection(db, "trip_requests"), (snap) => {
-            const requests = snap.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+        const unsubTrips = TripRepository.subscribeAll((requests) => {
             setAllTrips(requests);
 
             // Filter lists based on status
@@ -98,7 +103,7 @@ export function AdminDashboard({ user, onNavigate, onLogout }: AdminDashboardPro
             
             const pendingApprovals = requests.filter((r: any) => r.status === 'pending');
             const broken = requests.filter((r: any) => r.status === 'broken-down');
-            const merge = requests.filter((r: any) => ["pending_merge", "awaiting_merge_approval", "approved_merge_request", "merge_rejected"].includes(r.status));
+            const merge = requests.filter((r: any) => tripStatusIn(r, MERGE_QUEUE_STATUSES));
             
             // Set the active queue trips (pending, broken, merge) to show up in the alert/link area
             setActiveQueueTrips([...pendingApprovals, ...broken, ...merge]);
@@ -120,8 +125,7 @@ export function AdminDashboard({ user, onNavigate, onLogout }: AdminDashboardPro
 
 
         // 3.2. Listener for ALL Vehicles (for live tracking and critical risk calculation)
-        const unsubVehicles = onSnapshot(collection(db, "vehicles"), (snap) => {
-            const vehicles = snap.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+        const unsubVehicles = VehicleRepository.subscribeAll((vehicles) => {
             setLiveVehicles(vehicles);
 
             // Update active vehicle count
@@ -132,7 +136,7 @@ export function AdminDashboard({ user, onNavigate, onLogout }: AdminDashboardPro
 
             // Recalculate critical risks using the LATEST trip data
             const completedAndBrokenTrips = allTrips.filter((r: any) => 
-                ['completed', 'broken-down', 'reassigned'].includes(r.status)
+                tripStatusIn(r, MILEAGE_TRIP_STATUSES)
             );
             
             const criticalList = vehicles.filter((v: any) => getVehicleStats(v, completedAndBrokenTrips).isCriticalRisk);
@@ -154,6 +158,16 @@ export function AdminDashboard({ user, onNavigate, onLogout }: AdminDashboardPro
     // when new trip data arrives, compensating for the limitations of combining async states.
 
 
+    // 3.3. Breadcrumb trail of the vehicle selected on the fleet map
+    useEffect(() => {
+        if (!selectedLiveTripId) {
+            setSelectedTrail([]);
+            return;
+        }
+        return TripRepository.subscribeBreadcrumbs(selectedLiveTripId, setSelectedTrail);
+    }, [selectedLiveTripId]);
+
+
     // 4. Handle Security Verification
     const handleAdminPanelAccess = () => {
         if (securityCode === PANEL_ACCESS_CODE) {
@@ -178,8 +192,18 @@ export function AdminDashboard({ user, onNavigate, onLogout }: AdminDashboardPro
     const criticalRisksPresent = criticalVehicles.length > 0;
     const pendingReviewPresent = stats.pendingApprovals > 0 || stats.brokenTrips > 0 || stats.mergeCandidates > 0;
     const completedAndBrokenTrips = allTrips.filter((r: any) => 
-        ['completed', 'broken-down', 'reassigned'].includes(r.status)
+        tripStatusIn(r, MILEAGE_TRIP_STATUSES)
     );
+    const inProgressTrips = allTrips.filter((r: any) => r.status === 'in-progress');
+    const fleetMarkers: LiveVehicleMarker[] = inProgressTrips
+        .filter((t: any) => t.livePosition)
+        .map((t: any) => ({
+            id: t.id,
+            label: t.vehicleNumber || 'Vehicle',
+            detail: `${t.driverName || 'Driver'} • Trip #${t.serialNumber || t.id} to ${t.destination}`,
+            position: t.livePosition,
+        }));
+    const selectedLiveTrip = inProgressTrips.find((t: any) => t.id === selectedLiveTripId);
 
     return (
         <div className="min-h-screen bg-[#F9FAFB]">
@@ -292,13 +316,20 @@ export function AdminDashboard({ user, onNavigate, onLogout }: AdminDashboardPro
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                     <div className="lg:col-span-2">
                         <Card className="p-6">
-                            <h2 className="text-xl text-gray-900 mb-4">Live Vehicle Tracking</h2>
-                            {/* Live Map Placeholder */}
-                            <div className="w-full h-96 bg-gray-200 rounded-xl flex items-center justify-center mb-4 relative overflow-hidden">
-                                <div className="text-center z-10">
-                                    <Navigation className="w-16 h-16 text-[#2563EB] mx-auto mb-3" />
-                                    <p className="text-gray-500">Real-time Vehicle Locations</p>
-                                </div>
+                            <h2 className="text-xl text-gray-900 mb-1">Live Vehicle Tracking</h2>
+                            <p className="text-sm text-gray-500 mb-4 flex items-center gap-1">
+                                <Navigation className="w-4 h-4 text-[#2563EB]" />
+                                {inProgressTrips.length} trip(s) in progress
+                                {inProgressTrips.length > fleetMarkers.length && ` • ${inProgressTrips.length - fleetMarkers.length} without a GPS fix yet`}
+                                {selectedLiveTrip && (
+                                    <button onClick={() => setSelectedLiveTripId(null)} className="ml-auto text-xs text-[#2563EB] hover:underline">
+                                        Hide trail of {selectedLiveTrip.vehicleNumber}
+                                    </button>
+                                )}
+                            </p>
+                            {/* Live Fleet Map: in-progress trips at their last reported position; click a vehicle to draw its trail */}
+                            <div className="w-full h-96 bg-gray-200 rounded-xl mb-4 relative overflow-hidden z-0">
+                                <LiveTrackingMap vehicles={fleetMarkers} trail={selectedTrail} onSelectVehicle={setSelectedLiveTripId} />
                             </div>
                             {/* Live Vehicle List */}
                             <div className="space-y-3 max-h-64 overflow-y-auto">
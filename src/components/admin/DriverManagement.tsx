@@ -1,16 +1,21 @@
 // FILE: src/components/admin/DriverManagement.tsx
 
 import { useState, useEffect, useMemo } from 'react';
-import { User as UserIcon, Plus, Car, Phone, Mail, Trash2, Key, FileText, X, Download, MinusCircle, ArrowLeft, ShieldCheck, History, AlertTriangle, Check, Banknote, MapPin, Clock, MessageSquare, DollarSign } from 'lucide-react';
+import { User as UserIcon, Plus, Car, Phone, Mail, Trash2, Key, FileText, X, Download, MinusCircle, ArrowLeft, ShieldCheck, History, AlertTriangle, Check, Banknote, MapPin, Clock, MessageSquare, DollarSign, Gauge, Landmark } from 'lucide-react';
 import { User } from '../../App';
 import { TopNav } from '../shared/TopNav';
 import { Card } from '../shared/Card';
 import { Badge } from '../shared/Badge';
-import { collection, getDocs, query, where, doc, updateDoc, setDoc, deleteDoc, onSnapshot, addDoc, orderBy, getDoc } from 'firebase/firestore'; // Added getDoc
 import { initializeApp, getApp, getApps } from 'firebase/app'; 
 import { getAuth, createUserWithEmailAndPassword, sendPasswordResetEmail } from 'firebase/auth';
-import { db, firebaseConfig, auth as mainAuth } from '../../firebase';
+import { firebaseConfig, auth as mainAuth } from '../../firebase';
+import { ClaimRepository, DEFAULT_DUTY_SETTINGS, DEFAULT_ODOMETER_SETTINGS, DriverRepository, OdometerExceptionRepository, SettingsRepository, TripRepository, VehicleRepository } from '../../repositories';
 import { logAction } from '../../utils/auditLogger';
+import { ODOMETER_EXCEPTION_LABELS } from '../../utils/odometerChecks';
+import { describeVehicleOdometer, getGapCandidateTrips } from '../../utils/odometerContinuity';
+import { getRecentDuty } from '../../utils/dutyHours';
+import { BANK_ACCOUNT_FIELD_LABELS, getBankAccountProblems } from '../../utils/bankTransfer';
+import { BankAccount, DutySettings, OdometerException, OdometerSettings, Trip } from '../../types';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
@@ -96,6 +101,16 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
     const [showAddModal, setShowAddModal] = useState(false);
     const [showAssignModal, setShowAssignModal] = useState(false);
     const [showHistoryModal, setShowHistoryModal] = useState(false);
+    // Odometer exceptions (implausible readings), all drivers
+    const [odometerExceptions, setOdometerExceptions] = useState<OdometerException[]>([]);
+    const [odometerSettings, setOdometerSettings] = useState<OdometerSettings>(DEFAULT_ODOMETER_SETTINGS);
+    const [toleranceInput, setToleranceInput] = useState('');
+    const [gapTripChoice, setGapTripChoice] = useState<{ [exceptionId: string]: string }>({});
+    const [showOdometerModal, setShowOdometerModal] = useState(false);
+    const [dutySettings, setDutySettings] = useState<DutySettings>(DEFAULT_DUTY_SETTINGS);
+    const [dutyInputs, setDutyInputs] = useState<Record<keyof DutySettings, string>>({ maxDailyHours: '', maxWeeklyHours: '', minRestHours: '', standardDailyHours: '' });
+    const [showDutyModal, setShowDutyModal] = useState(false);
+    const [bankForm, setBankForm] = useState<BankAccount | null>(null); // selected driver's salary account being edited
 
     const [selectedDriver, setSelectedDriver] = useState<any>(null);
     const [selectedVehicleNumber, setSelectedVehicleNumber] = useState('');
@@ -141,29 +156,23 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
 
 
         // 1. Fetch Drivers 
-        const unsubDrivers = onSnapshot(query(collection(db, "users"), where("role", "==", "driver")), (snap) => {
-            currentDriversCache = snap.docs.map(doc => ({
-                id: doc.id,
-                ...doc.data(),
-            }));
+        const unsubDrivers = DriverRepository.subscribeAll((drivers) => {
+            currentDriversCache = drivers;
             updateDriversState(); 
         });
 
         // 2. Fetch Vehicles
-        const unsubVehicles = onSnapshot(collection(db, "vehicles"), (snap) => {
-            setVehicles(snap.docs.map(doc => ({ id: doc.id, ...doc.data() })));
-        });
+        const unsubVehicles = VehicleRepository.subscribeAll(setVehicles);
 
         // 3. Fetch All Trips (REQUIRED for checking 'in-progress' status)
-        const unsubTrips = onSnapshot(collection(db, "trip_requests"), (snap) => {
-            currentTripsCache = snap.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+        const unsubTrips = TripRepository.subscribeAll((trips) => {
+            currentTripsCache = trips;
             setAllTrips(currentTripsCache);
             updateDriversState(); 
         });
 
         // 4. Fetch All Police Claims
-        const unsubClaims = onSnapshot(collection(db, "police_claims"), (snap) => {
-            const claims = snap.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+        const unsubClaims = ClaimRepository.subscribeAll((claims) => {
             currentClaimsCache = claims;
             setFineClaims(claims.filter(c => c.status === 'pending')); 
             updateDriversState(); 
@@ -172,6 +181,53 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
         return () => { unsubDrivers(); unsubVehicles(); unsubTrips(); unsubClaims(); };
     }, [user.id]);
 
+    // 5. Odometer exceptions, for the per-driver review history
+    useEffect(() => {
+        return OdometerExceptionRepository.subscribeAll(setOdometerExceptions);
+    }, []);
+
+    useEffect(() => {
+        return SettingsRepository.subscribeOdometer((settings) => {
+            setOdometerSettings(settings);
+            setToleranceInput(String(settings.startToleranceKm));
+        });
+    }, []);
+
+    useEffect(() => {
+        return SettingsRepository.subscribeDuty((settings) => {
+            setDutySettings(settings);
+            setDutyInputs({
+                maxDailyHours: String(settings.maxDailyHours),
+                maxWeeklyHours: String(settings.maxWeeklyHours),
+                minRestHours: String(settings.minRestHours),
+                standardDailyHours: String(settings.standardDailyHours),
+            });
+        });
+    }, []);
+
+    // Hours on duty today and over the last 7 days, from trip start/end times
+    const recentDuty = useMemo(() => {
+        const now = Date.now();
+        return drivers.reduce((duty: { [driverId: string]: ReturnType<typeof getRecentDuty> }, d) => {
+            duty[d.id] = getRecentDuty(d.id, allTrips, now);
+            return duty;
+        }, {});
+    }, [drivers, allTrips]);
+
+    const pendingOdometerCounts = useMemo(() => {
+        return odometerExceptions.reduce((counts: { [driverId: string]: number }, e) => {
+            if (e.review === 'pending' && e.driverId) counts[e.driverId] = (counts[e.driverId] || 0) + 1;
+            return counts;
+        }, {});
+    }, [odometerExceptions]);
+
+    const selectedDriverOdometerExceptions = useMemo(() => {
+        if (!selectedDriver) return [];
+        return odometerExceptions
+            .filter(e => e.driverId === selectedDriver.id)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }, [odometerExceptions, selectedDriver]);
+
     // --- Core Logic: Check Driver Qualification (Retained) ---
     const isDriverQualified = (driverLicenseType: string, vehicleRequiredType: string) => {
         if (driverLicenseType === vehicleRequiredType) return true;
@@ -188,7 +244,8 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
         const claim = selectedDriver.selectedClaim;
         const settlementAmount = parseFloat(claimSettlementData.amountSettled);
         const driverId = selectedDriver.id;
-        const currentPeriod = getCurrentPayrollMonth();
+        // The payroll calculator reimburses settled claims in the month of settlement
+        const payrollPeriod = (claimSettlementData.settlementDate || getCurrentPayrollMonth()).substring(0, 7);
         
         if (settlementAmount <= 0) {
             alert("Settlement amount must be greater than zero.");
@@ -197,7 +254,7 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
 
         try {
             // 1. Update the Police Claim record status to 'settled'
-            await updateDoc(doc(db, "police_claims", claim.id), {
+            await ClaimRepository.update(claim.id, {
                 status: 'settled',
                 amountSettled: settlementAmount,
                 settlementDate: claimSettlementData.settlementDate,
@@ -205,39 +262,19 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
                 settlementNotes: claimSettlementData.notes
             });
             
-            // 2. Update/Create the Driver Payroll record for this month (FINE REIMBURSEMENT)
-            const payrollRef = doc(db, "driver_payroll", `${driverId}-${currentPeriod}`);
-            const payrollDoc = await getDoc(payrollRef);
-            
-            let currentFineReimbursement = 0; 
-            if (payrollDoc.exists()) {
-                currentFineReimbursement = payrollDoc.data().fineReimbursement || 0;
-            }
-            
-            // ADD the settled amount to the reimbursement total
-            const newFineReimbursement = currentFineReimbursement + settlementAmount;
-
-            await setDoc(payrollRef, {
-                driverId: driverId,
-                driverName: selectedDriver.fullName || selectedDriver.name,
-                period: currentPeriod,
-                // 🌟 FIX: Write the settled amount as a positive reimbursement 🌟
-                fineReimbursement: newFineReimbursement, 
-            }, { merge: true });
-
-            // 3. Log the action
+            // 2. Log the action
             await logAction(user.email, 'FINE_CLAIM_SETTLED', 
-                `Claim #${claim.tripSerialNumber || claim.id} settled for LKR ${settlementAmount}. ADDED as reimbursement in ${currentPeriod} payroll.`, 
+                `Claim #${claim.tripSerialNumber || claim.id} settled for LKR ${settlementAmount}. to be reimbursed in the ${payrollPeriod} payroll.`, 
                 { targetId: driverId, claimId: claim.id, reimbursementAmount: settlementAmount }
             );
 
             setSelectedDriver(prev => ({ ...prev, selectedClaim: null }));
-            alert(`Claim successfully settled and LKR ${settlementAmount} added as reimbursement in ${currentPeriod} payroll.`);
+            alert(`Claim successfully settled. LKR ${settlementAmount} will be reimbursed in the ${payrollPeriod} payroll.`);
             setShowClaimsModal(false); 
 
         } catch (error) {
-            console.error("Error finalizing claim and updating payroll:", error);
-            alert("Failed to finalize claim or update payroll.");
+            console.error("Error finalizing claim:", error);
+            alert("Failed to finalize claim.");
         }
     };
 
@@ -248,7 +285,7 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
             return;
         }
         try {
-            await deleteDoc(doc(db, "police_claims", claimId));
+            await ClaimRepository.remove(claimId);
             
             await logAction(user.email, 'POLICE_CLAIM_DELETED', 
                 `Police Claim ID: ${claimId} deleted.`, 
@@ -278,13 +315,13 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
         let finesFromVehicle: any[] = [];
         if (driver.vehicleId) {
             try {
-                const vehicleDoc = await getDoc(doc(db, "vehicles", driver.vehicleId));
-                if (vehicleDoc.exists()) {
+                const vehicle = await VehicleRepository.get(driver.vehicleId);
+                if (vehicle) {
                     // Filter the vehicle's fines array to only include fines logged while this driver was assigned.
                     // NOTE: This assumes 'fines' in the vehicle document are chronological and track the driver/trip.
                     // Since the current vehicle fines log is simple, we display all of them associated with the current vehicle.
                     // Ideally, we'd cross-reference with assignment history, but for simple fix, we show all vehicle fines.
-                    finesFromVehicle = vehicleDoc.data().fines || [];
+                    finesFromVehicle = vehicle.fines || [];
                 }
             } catch (e) {
                 console.error("Error fetching vehicle fines:", e);
@@ -319,9 +356,9 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
         if (selectedVehicleNumber === 'DO_NOT_ASSIGN') {
             if (selectedDriver.vehicle && selectedDriver.vehicleId) {
                 const vehicleIdToUnassign = selectedDriver.vehicleId;
-                await updateDoc(doc(db, "vehicles", vehicleIdToUnassign), { status: 'available' });
+                await VehicleRepository.update(vehicleIdToUnassign, { status: 'available' });
 
-                await updateDoc(doc(db, "users", selectedDriver.id), {
+                await DriverRepository.update(selectedDriver.id, {
                     vehicle: null,
                     vehicleId: null,
                     status: 'available',
@@ -344,16 +381,16 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
             }
 
             if (selectedDriver.vehicle && selectedDriver.vehicleId && selectedDriver.vehicle !== selectedVehicleNumber) {
-                 await updateDoc(doc(db, "vehicles", selectedDriver.vehicleId), { status: 'available' });
+                 await VehicleRepository.update(selectedDriver.vehicleId, { status: 'available' });
             }
 
-            await updateDoc(doc(db, "users", selectedDriver.id), {
+            await DriverRepository.update(selectedDriver.id, {
                 vehicle: selectedVehicleNumber,
                 vehicleId: vehicleToAssign.id,
                 status: selectedDriver.currentTripId ? 'in-use' : 'assigned'
             });
 
-            await updateDoc(doc(db, "vehicles", vehicleToAssign.id), {
+            await VehicleRepository.update(vehicleToAssign.id, {
                 status: 'assigned',
             });
 
@@ -378,7 +415,7 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
         try {
             const vehicleToUnassign = vehicles.find(v => v.number === driver.vehicle);
 
-            await updateDoc(doc(db, "users", driver.id), {
+            await DriverRepository.update(driver.id, {
                 vehicle: null,
                 vehicleId: null,
                 status: 'available',
@@ -386,7 +423,7 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
             });
 
             if (vehicleToUnassign) {
-                await updateDoc(doc(db, "vehicles", vehicleToUnassign.id), {
+                await VehicleRepository.update(vehicleToUnassign.id, {
                     status: 'available',
                 });
             }
@@ -417,7 +454,7 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
             const userCredential = await createUserWithEmailAndPassword(secondaryAuth, formData.email, formData.password);
             authUID = userCredential.user.uid;
 
-            await setDoc(doc(db, "users", authUID), {
+            await DriverRepository.create(authUID, {
                 id: authUID,
                 fullName: formData.name,
                 email: formData.email,
@@ -426,7 +463,6 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
                 licenseNumber: formData.licenseNumber || null,
                 licenseType: formData.licenseType, // Ensure licenseType is saved
                 licenseExpiry: '2026-01-01', 
-                role: 'driver',
                 driverStatus: 'approved',
                 vehicle: null,
                 createdAt: new Date().toISOString()
@@ -459,12 +495,12 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
         
         try {
             if (driver.vehicle && driver.vehicleId) {
-                await updateDoc(doc(db, "vehicles", driver.vehicleId), {
+                await VehicleRepository.update(driver.vehicleId, {
                     status: 'available',
                 });
             }
 
-            await deleteDoc(doc(db, "users", driver.id));
+            await DriverRepository.remove(driver.id);
 
             await logAction(user.email, 'DRIVER_DELETED', 
                 `Deleted driver ${driver.fullName} (ID: ${driver.id}).`, 
@@ -479,6 +515,109 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
         }
     };
 
+    // Admin decision on a flagged reading: a valid explanation (dismissed) or a confirmed exception
+    const handleReviewOdometerException = async (exception: OdometerException, review: 'dismissed' | 'confirmed') => {
+        try {
+            await OdometerExceptionRepository.update(exception.id, {
+                review,
+                reviewedBy: user.fullName || user.email,
+                reviewedAt: new Date().toISOString(),
+            });
+            await logAction(user.email, 'ODOMETER_EXCEPTION_REVIEW',
+                `${review === 'confirmed' ? 'Confirmed' : 'Dismissed'} odometer exception on trip #${exception.tripSerialNumber || exception.tripId} (${exception.driverName || exception.driverId}): ${exception.message}`,
+                { targetId: exception.driverId, tripId: exception.tripId, code: exception.code, review }
+            );
+        } catch (error) {
+            console.error("Error reviewing odometer exception:", error);
+            alert("Failed to save the review.");
+        }
+    };
+
+    // An odometer gap before a start: the km belong to a trip that under-recorded them, or nobody
+    const handleResolveOdometerGap = async (exception: OdometerException, trip: Trip | null) => {
+        const gapKm = exception.gapKm || 0;
+        try {
+            const resolved = await OdometerExceptionRepository.resolveGap(exception.id, trip, user.fullName || user.email);
+            if (!resolved) {
+                alert("This gap has already been reviewed.");
+                return;
+            }
+            await logAction(user.email, 'ODOMETER_GAP_RESOLVED',
+                `${gapKm} km gap on ${exception.vehicleNumber || 'vehicle'} before trip #${exception.tripSerialNumber || exception.tripId} ${trip ? `attributed to trip #${trip.serialNumber || trip.id}` : 'marked unaccounted'}.`,
+                { targetId: exception.driverId, tripId: exception.tripId, attributedTripId: trip?.id || null, gapKm }
+            );
+        } catch (error) {
+            console.error("Error resolving odometer gap:", error);
+            alert("Failed to save the resolution.");
+        }
+    };
+
+    const handleSaveOdometerTolerance = async () => {
+        const startToleranceKm = Number(toleranceInput);
+        if (isNaN(startToleranceKm) || startToleranceKm < 0) {
+            alert("Enter the allowed km as zero or more.");
+            return;
+        }
+        try {
+            await SettingsRepository.updateOdometer({ startToleranceKm });
+            await logAction(user.email, 'ODOMETER_SETTINGS_UPDATE', `Start odometer tolerance set to ${startToleranceKm} km (was ${odometerSettings.startToleranceKm} km).`, { targetId: 'odometer' });
+        } catch (error) {
+            console.error("Error saving odometer tolerance:", error);
+            alert("Failed to save the tolerance.");
+        }
+    };
+
+    const handleSaveDutySettings = async () => {
+        const settings = Object.fromEntries(Object.entries(dutyInputs).map(([key, value]) => [key, Number(value)])) as unknown as DutySettings;
+        if (Object.values(settings).some(hours => isNaN(hours) || hours <= 0)) {
+            alert("Enter every limit as a number of hours above zero.");
+            return;
+        }
+        if (settings.maxDailyHours + settings.minRestHours > 24) {
+            alert("The daily limit and the minimum rest cannot add up to more than 24 hours.");
+            return;
+        }
+        try {
+            await SettingsRepository.updateDuty(settings);
+            await logAction(user.email, 'DUTY_SETTINGS_UPDATE', `Duty limits set to ${settings.maxDailyHours} h/day, ${settings.maxWeeklyHours} h/week, ${settings.minRestHours} h rest, ${settings.standardDailyHours} h standard day.`, { targetId: 'dutyHours' });
+            setShowDutyModal(false);
+        } catch (error) {
+            console.error("Error saving duty limits:", error);
+            alert("Failed to save the duty limits.");
+        }
+    };
+
+    const handleEditBankAccount = (driver: any) => {
+        setSelectedDriver(driver);
+        setBankForm({ bankName: '', bankCode: '', branchCode: '', accountNumber: '', accountName: driver.fullName || driver.name || '', ...(driver.bankAccount || {}) });
+    };
+
+    const handleSaveBankAccount = async () => {
+        if (!bankForm || !selectedDriver) return;
+        const account: BankAccount = {
+            bankName: bankForm.bankName.trim(),
+            bankCode: bankForm.bankCode.trim(),
+            branchCode: bankForm.branchCode.trim(),
+            accountNumber: bankForm.accountNumber.trim(),
+            accountName: bankForm.accountName.trim(),
+            updatedBy: user.email,
+            updatedAt: new Date().toISOString(),
+        };
+        const problems = getBankAccountProblems(account);
+        if (problems.length > 0) {
+            alert(`Check the bank details: ${problems.join(', ')}.`);
+            return;
+        }
+        try {
+            await DriverRepository.update(selectedDriver.id, { bankAccount: account });
+            await logAction(user.email, 'DRIVER_BANK_UPDATE', `Bank details for ${selectedDriver.fullName || selectedDriver.name} set to ${account.bankName} (${account.bankCode}-${account.branchCode}), account ending ${account.accountNumber.slice(-4)}.`, { targetId: selectedDriver.id });
+            setBankForm(null);
+        } catch (error) {
+            console.error("Error saving bank details:", error);
+            alert("Failed to save the bank details.");
+        }
+    };
+
     const fetchAssignmentHistory = async (driverId: string) => { console.log(`Fetching history for ${driverId}...`); };
 
     const handleViewHistory = async (driver: any) => {
@@ -561,6 +700,9 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
                     
                     {/* PAYROLL BUTTON LINKED TO 'driver-payroll' */}
                     <div className="flex gap-4">
+                        <button onClick={() => setShowDutyModal(true)} className="px-6 py-3 bg-white border border-gray-300 text-gray-700 rounded-xl flex items-center gap-2 hover:bg-gray-50 transition-colors shadow-sm" title="Daily and weekly duty limits, minimum rest">
+                            <Clock className="w-5 h-5"/> Duty Limits
+                        </button>
                         <button 
                             onClick={() => onNavigate('driver-payroll')} 
                             className="px-6 py-3 bg-green-600 text-white rounded-xl flex items-center gap-2 hover:bg-green-700 transition-colors shadow-md"
@@ -598,6 +740,18 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
                                         )}
                                     </button>
 
+                                    <button 
+                                        onClick={() => { setSelectedDriver(driver); setShowOdometerModal(true); }} 
+                                        className={`p-2 rounded-lg transition-colors relative ${pendingOdometerCounts[driver.id] > 0 ? 'bg-orange-50 text-orange-600 hover:bg-orange-100' : 'text-gray-500 hover:bg-gray-100'}`} 
+                                        title={`Odometer Exceptions (${pendingOdometerCounts[driver.id] || 0} pending)`}
+                                    >
+                                        <Gauge className="w-4 h-4"/>
+                                        {pendingOdometerCounts[driver.id] > 0 && (
+                                            <span className="absolute top-0 right-0 inline-flex items-center justify-center px-2 py-1 text-xs font-bold leading-none text-white transform translate-x-1/2 -translate-y-1/2 bg-orange-500 rounded-full">{pendingOdometerCounts[driver.id]}</span>
+                                        )}
+                                    </button>
+
+                                    <button onClick={() => handleEditBankAccount(driver)} className={`p-2 rounded-lg transition-colors ${driver.bankAccount ? 'text-gray-500 hover:bg-gray-100' : 'bg-orange-50 text-orange-600 hover:bg-orange-100'}`} title={driver.bankAccount ? 'Bank Details' : 'No bank details'}><Landmark className="w-4 h-4"/></button>
                                     <button onClick={() => handleViewHistory(driver)} className="p-2 hover:bg-gray-100 rounded-lg text-gray-500 transition-colors" title="View Assignment History"><History className="w-4 h-4"/></button>
                                     <button onClick={() => handleResetPassword(driver.email)} className="p-2 hover:bg-blue-50 rounded-lg text-blue-600 transition-colors" title="Reset Password"><Key className="w-4 h-4"/></button>
                                     <button onClick={() => handleDeleteDriver(driver)} className="p-2 hover:bg-red-50 rounded-lg text-red-600 transition-colors" title="Delete Driver"><Trash2 className="w-4 h-4"/></button>
@@ -610,6 +764,14 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
                                 <div className="flex items-center gap-2 text-xs text-gray-500">
                                     <FileText className="w-4 h-4 text-gray-400"/> **NIC:** {driver.nic || 'N/A'} | **License #:** {driver.licenseNumber || 'N/A'}
                                 </div>
+                                <div className={`flex items-center gap-2 text-xs ${driver.bankAccount ? 'text-gray-500' : 'text-orange-600'}`}>
+                                    <Landmark className="w-4 h-4 text-gray-400"/> {driver.bankAccount ? `${driver.bankAccount.bankName} · A/C ****${driver.bankAccount.accountNumber.slice(-4)}` : 'No bank details for salary transfer'}
+                                </div>
+                                {recentDuty[driver.id] && (
+                                    <div className={`flex items-center gap-2 ${recentDuty[driver.id].todayHours >= dutySettings.maxDailyHours || recentDuty[driver.id].weekHours >= dutySettings.maxWeeklyHours ? 'text-red-600 font-medium' : ''}`}>
+                                        <Clock className="w-4 h-4 text-gray-400"/> Duty: {recentDuty[driver.id].todayHours} h today · {recentDuty[driver.id].weekHours} h in 7 days
+                                    </div>
+                                )}
                                 <div className="flex items-center gap-2"><ShieldCheck className="w-4 h-4 text-gray-400"/> **License Type:** <span className="font-bold text-gray-800">{driver.licenseType || 'N/A'}</span> - {DRIVER_LICENSE_CATEGORIES[driver.licenseType as keyof typeof DRIVER_LICENSE_CATEGORIES] || 'Type Unknown'}</div>
 
                                 {driver.currentTripId && driver.status === 'in-use' && (
@@ -825,6 +987,139 @@ export function DriverManagement({ user, onNavigate, onLogout }: DriverManagemen
                                  </div>
             )}
 
+            {/* Bank Details Modal: the account the driver's net pay is transferred to */}
+            {bankForm && selectedDriver && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <Card className="w-full max-w-md p-6 animate-in fade-in zoom-in duration-200">
+                        <div className="flex justify-between items-start mb-2">
+                            <h3 className="text-xl font-bold">Bank Details</h3>
+                            <button onClick={() => setBankForm(null)} className="p-1 text-gray-400 hover:text-gray-700"><X className="w-5 h-5"/></button>
+                        </div>
+                        <p className="text-gray-500 text-sm mb-4">Salary account for {selectedDriver.fullName || selectedDriver.name}, used in the payroll bank transfer file.</p>
+                        <div className="grid grid-cols-2 gap-4">
+                            {(Object.keys(BANK_ACCOUNT_FIELD_LABELS) as (keyof typeof BANK_ACCOUNT_FIELD_LABELS)[]).map(key => (
+                                <div key={key} className={key === 'bankName' || key === 'accountName' ? 'col-span-2' : ''}>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">{BANK_ACCOUNT_FIELD_LABELS[key]}</label>
+                                    <input type="text" inputMode={key === 'bankName' || key === 'accountName' ? 'text' : 'numeric'} value={bankForm[key]} onChange={e => setBankForm({ ...bankForm, [key]: e.target.value })} className="w-full p-2 border border-gray-300 rounded-xl focus:ring-blue-500 focus:border-blue-500" />
+                                </div>
+                            ))}
+                        </div>
+                        {bankForm.updatedAt && <p className="text-xs text-gray-400 mt-3">Last changed by {bankForm.updatedBy} on {new Date(bankForm.updatedAt).toLocaleString()}</p>}
+                        <div className="flex gap-3 mt-6">
+                            <button onClick={() => setBankForm(null)} className="flex-1 py-2.5 border rounded-xl hover:bg-gray-50 font-medium">Cancel</button>
+                            <button onClick={handleSaveBankAccount} className="flex-1 py-2.5 bg-[#2563EB] text-white rounded-xl hover:bg-blue-700 font-medium shadow-sm">Save Bank Details</button>
+                        </div>
+                    </Card>
+                </div>
+            )}
+
+            {/* Duty Limits Modal: enforced by the approval and reassignment driver pickers */}
+            {showDutyModal && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <Card className="w-full max-w-md p-6 animate-in fade-in zoom-in duration-200">
+                        <div className="flex justify-between items-start mb-2">
+                            <h3 className="text-xl font-bold">Duty Limits</h3>
+                            <button onClick={() => setShowDutyModal(false)} className="p-1 text-gray-400 hover:text-gray-700"><X className="w-5 h-5"/></button>
+                        </div>
+                        <p className="text-gray-500 text-sm mb-4">Drivers who would go past these limits are not offered when approving or reassigning trips. Duty above the standard day is paid as overtime.</p>
+                        <div className="grid grid-cols-2 gap-4">
+                            {([
+                                ['maxDailyHours', 'Max duty per shift (h)'],
+                                ['maxWeeklyHours', 'Max duty per 7 days (h)'],
+                                ['minRestHours', 'Min rest between shifts (h)'],
+                                ['standardDailyHours', 'Standard day (h)'],
+                            ] as [keyof DutySettings, string][]).map(([key, label]) => (
+                                <div key={key}>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                                    <input type="number" min="0" step="0.5" value={dutyInputs[key]} onChange={e => setDutyInputs({ ...dutyInputs, [key]: e.target.value })} className="w-full p-2 border border-gray-300 rounded-xl focus:ring-blue-500 focus:border-blue-500" />
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex gap-3 mt-6">
+                            <button onClick={() => setShowDutyModal(false)} className="flex-1 py-2.5 border rounded-xl hover:bg-gray-50 font-medium">Cancel</button>
+                            <button onClick={handleSaveDutySettings} className="flex-1 py-2.5 bg-[#2563EB] text-white rounded-xl hover:bg-blue-700 font-medium shadow-sm">Save Limits</button>
+                        </div>
+                    </Card>
+                </div>
+            )}
+
+            {/* Odometer Exceptions Modal: readings flagged by the GPS / route plausibility and continuity checks */}
+            {showOdometerModal && selectedDriver && (
+                <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+                    <Card className="w-full max-w-4xl p-0 max-h-[85vh] flex flex-col overflow-hidden animate-in fade-in zoom-in duration-200">
+                        <div className="p-6 border-b flex justify-between items-center bg-orange-50">
+                            <div>
+                                <h3 className="text-xl font-bold text-orange-800 flex items-center gap-2"><Gauge className="w-5 h-5"/> Odometer Exceptions</h3>
+                                <p className="text-sm text-gray-700 mt-1">Driver: {selectedDriver.fullName || selectedDriver.name} | {selectedDriverOdometerExceptions.length} on record, {pendingOdometerCounts[selectedDriver.id] || 0} pending</p>
+                            </div>
+                            <button onClick={() => setShowOdometerModal(false)} className="p-2 hover:bg-orange-100 rounded-full transition-colors"><X className="w-5 h-5 text-gray-700"/></button>
+                        </div>
+                        <div className="px-6 py-3 border-b flex flex-wrap items-center gap-2 text-sm text-gray-700">
+                            <span>Private km allowed between the last known odometer and a trip start (all vehicles):</span>
+                            <input type="number" min={0} value={toleranceInput} onChange={e => setToleranceInput(e.target.value)} className="w-20 p-1 border rounded-lg text-sm" />
+                            <span>km</span>
+                            <button onClick={handleSaveOdometerTolerance} disabled={toleranceInput === String(odometerSettings.startToleranceKm)} className="px-3 py-1 bg-orange-600 text-white rounded-lg text-xs disabled:opacity-50">Save</button>
+                        </div>
+
+                        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                            {selectedDriverOdometerExceptions.length === 0 ? (
+                                <div className="p-4 text-center text-gray-500 border rounded-xl bg-white">No odometer readings have been flagged for this driver.</div>
+                            ) : selectedDriverOdometerExceptions.map((exception) => (
+                                <Card key={exception.id} className={`p-4 border-l-4 ${exception.review === 'pending' ? 'bg-orange-50 border-orange-500' : exception.review === 'confirmed' ? 'bg-red-50 border-red-500' : 'bg-gray-50 border-gray-300'}`}>
+                                    <div className="flex justify-between items-start mb-2">
+                                        <div className="text-sm font-bold text-gray-900">
+                                            {ODOMETER_EXCEPTION_LABELS[exception.code]} • Trip #{exception.tripSerialNumber || exception.tripId}
+                                        </div>
+                                        <span className="text-xs font-semibold text-gray-600 uppercase">{exception.review}</span>
+                                    </div>
+                                    <div className="text-xs text-gray-600 space-y-1">
+                                        <p><AlertTriangle className="w-3 h-3 inline-block mr-1"/> {exception.message}</p>
+                                        <p><Gauge className="w-3 h-3 inline-block mr-1"/> {exception.reading.kind} reading {exception.reading.odometer} km at {new Date(exception.reading.recordedAt).toLocaleString()}</p>
+                                        <p><MapPin className="w-3 h-3 inline-block mr-1"/> {exception.reading.gps ? `${exception.reading.gps.lat.toFixed(5)}, ${exception.reading.gps.lng.toFixed(5)} (fix ${new Date(exception.reading.gps.recordedAt).toLocaleTimeString()})` : 'No GPS'}</p>
+                                        <p><Car className="w-3 h-3 inline-block mr-1"/> {exception.vehicleNumber || 'N/A'}</p>
+                                        {exception.previousOdometer && <p><History className="w-3 h-3 inline-block mr-1"/> Last known before the start: {describeVehicleOdometer(exception.previousOdometer)}</p>}
+                                        {exception.kmAttribution === 'trip' && <p className="font-semibold">{exception.gapKm} km attributed to trip #{exception.attributedTripSerialNumber || exception.attributedTripId}</p>}
+                                        {exception.kmAttribution === 'unaccounted' && <p className="font-semibold text-red-600">{exception.gapKm} km marked unaccounted</p>}
+                                        {exception.reviewedBy && <p><Check className="w-3 h-3 inline-block mr-1"/> Reviewed by {exception.reviewedBy} on {new Date(exception.reviewedAt!).toLocaleDateString()}</p>}
+                                    </div>
+                                    {exception.review === 'pending' && exception.code === 'odometer-gap' && (() => {
+                                        const candidates = getGapCandidateTrips(exception, allTrips);
+                                        const chosen = candidates.find(t => t.id === (gapTripChoice[exception.id] || candidates[0]?.id));
+                                        return (
+                                            <div className="flex flex-wrap justify-end items-center gap-2 pt-3 border-t mt-3">
+                                                {candidates.length > 0 && (
+                                                    <>
+                                                        <select value={chosen?.id || ''} onChange={e => setGapTripChoice(prev => ({ ...prev, [exception.id]: e.target.value }))} className="p-1.5 border rounded-lg text-sm">
+                                                            {candidates.map(t => <option key={t.id} value={t.id}>Trip #{t.serialNumber || t.id} • {t.date} • {t.driverName || 'N/A'}</option>)}
+                                                        </select>
+                                                        <button onClick={() => handleResolveOdometerGap(exception, chosen || null)} disabled={!chosen} className="px-4 py-1.5 border border-gray-300 text-gray-700 rounded-xl text-sm hover:bg-gray-100 flex items-center gap-1">
+                                                            <Check className="w-4 h-4"/> Attribute to Trip
+                                                        </button>
+                                                    </>
+                                                )}
+                                                <button onClick={() => handleResolveOdometerGap(exception, null)} className="px-4 py-1.5 bg-red-600 text-white rounded-xl text-sm hover:bg-red-700 flex items-center gap-1">
+                                                    <AlertTriangle className="w-4 h-4"/> Mark Unaccounted
+                                                </button>
+                                            </div>
+                                        );
+                                    })()}
+                                    {exception.review === 'pending' && exception.code !== 'odometer-gap' && (
+                                        <div className="flex justify-end gap-2 pt-3 border-t mt-3">
+                                            <button onClick={() => handleReviewOdometerException(exception, 'dismissed')} className="px-4 py-1.5 border border-gray-300 text-gray-700 rounded-xl text-sm hover:bg-gray-100 flex items-center gap-1">
+                                                <Check className="w-4 h-4"/> Reading OK
+                                            </button>
+                                            <button onClick={() => handleReviewOdometerException(exception, 'confirmed')} className="px-4 py-1.5 bg-red-600 text-white rounded-xl text-sm hover:bg-red-700 flex items-center gap-1">
+                                                <AlertTriangle className="w-4 h-4"/> Confirm Exception
+                                            </button>
+                                        </div>
+                                    )}
+                                </Card>
+                            ))}
+                        </div>
+                    </Card>
+                </div>
+            )}
+
             {/* Claims Management Modal (UPDATED to include Vehicle Fines) */}
             {showClaimsModal && selectedDriver && (
                 <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
@@ -1,13 +1,20 @@
 import { useState, useEffect, useMemo } from 'react';
-import { User as UserIcon, ArrowLeft, DollarSign, Calendar, Save, History, FileText, X, AlertTriangle, Download } from 'lucide-react';
+import { User as UserIcon, ArrowLeft, DollarSign, Calendar, Save, History, FileText, X, AlertTriangle, Download, Clock, RotateCcw, Settings, Lock, Landmark, Banknote, Mail, Send } from 'lucide-react';
 import { User } from '../../App';
 import { TopNav } from '../shared/TopNav';
 import { Card } from '../shared/Card';
 import { Badge } from '../shared/Badge';
-// Firebase Imports
-import { collection, getDocs, query, where, doc, setDoc, onSnapshot, orderBy } from 'firebase/firestore';
-import { db } from '../../firebase';
+// Data Access
+import { ClaimRepository, DEFAULT_BANK_TRANSFER_SETTINGS, DEFAULT_DUTY_SETTINGS, DEFAULT_PAYROLL_RATES, DEFAULT_STATUTORY_RULES, DriverRepository, PayrollAdjustmentRepository, PayrollRepository, PayrollRunRepository, PaysheetDistributionRepository, SettingsRepository, TripRepository } from '../../repositories';
 import { logAction } from '../../utils/auditLogger';
+import { getMonthlyDuty } from '../../utils/dutyHours';
+import { PAYROLL_LINES, PAYROLL_LINE_LABELS, applyPayrollOverrides, computeDriverPayroll, describePayrollLine, getAdjustmentTotal, getPayrollTotal } from '../../utils/payrollCalculator';
+import { PAYROLL_RUN_ACTIONS, PAYROLL_RUN_STATUS_LABELS, PAYROLL_RUN_TRANSITIONS, PayrollRunError, getAdjustmentTargetPeriod, getPayrollRunBlock, isPayrollRunEditable, isPayrollRunFinalised, toPayrollRun } from '../../utils/payrollRuns';
+import { computeStatutoryDeductions, getStatutoryRuleSet } from '../../utils/statutoryDeductions';
+import { BANK_TRANSFER_FIELD_LABELS, buildBankTransferFile, getBankTransferOverflows, prepareBankTransfer } from '../../utils/bankTransfer';
+import { sendPaysheetEmail } from '../../utils/emailService';
+import { createZipBlob } from '../../utils/zipArchive';
+import { ApitBand, BankTransferField, BankTransferSettings, PayrollAdjustment, PayrollDeductions, PayrollLine, PayrollLineOverride, PayrollLines, PayrollRates, PayrollRun, PayrollRunStatus, PaysheetDistribution, PoliceClaim, StatutoryRuleSet, Trip } from '../../types';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
@@ -17,23 +24,26 @@ interface DriverPayrollManagementProps {
     onLogout: () => void;
 }
 
-// Interface matching the required payroll/expense fields
-interface PayrollData {
-    salary: number;
-    fuelAllowance: number;
-    mobileAllowance: number;
-    mealExpenses: number;
-    otherExpenses: number;
-    fineReimbursement: number; // Correct field name
-}
+// Override inputs per line; blank means the computed figure stands
+type OverrideInputs = Partial<Record<PayrollLine, string>>;
+
+const RATE_FIELDS: [keyof PayrollRates, string][] = [
+    ['baseSalary', 'Base Salary (LKR / month)'],
+    ['fuelAllowancePerKm', 'Fuel Allowance (LKR / km)'],
+    ['mobileAllowance', 'Mobile Allowance (LKR / month)'],
+    ['mealAllowancePerTripDay', 'Meals (LKR / trip day)'],
+    ['outStationNightAllowance', 'Out-Station Night (LKR / night)'],
+];
+
+const formatLkr = (value: number) => `LKR ${(value || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
 
-const initialPayrollData: PayrollData = {
-    salary: 0,
-    fuelAllowance: 0,
-    mobileAllowance: 0,
-    mealExpenses: 0,
-    otherExpenses: 0,
-    fineReimbursement: 0, 
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
 };
 
 // Helper to format a date to 'YYYY-MM'
@@ -81,178 +91,695 @@ const applyReportHeader = (doc: jsPDF, reportName: string, subTitle?: string) =>
     return y; // Return the new starting Y position for the content
 }
 
+// Draws one driver's paysheet onto the current page of `doc`; used for single, combined and emailed copies
+const drawPaysheet = (doc: jsPDF, record: any, epfNumber: string | undefined, generatedBy: string) => {
+    const periodName = new Date(record.period).toLocaleString('en-US', { month: 'long', year: 'numeric' });
+    
+    // 🌟 Apply Report Header and get starting Y coordinate 🌟
+    let y = applyReportHeader(doc, "Driver Monthly Paysheet", record.driverName);
+
+    const marginX = 15;
+
+    // Driver details
+    doc.setFontSize(10);
+    doc.setFont(undefined, 'normal');
+    doc.text(`Period: ${periodName}`, marginX, y);
+    y += 4;
+    doc.text(`EPF/ID: ${epfNumber || record.driverId}`, marginX, y);
+    y += 4;
+    if (record.savedAt) {
+        doc.text(`Version: saved ${new Date(record.savedAt).toLocaleString()}`, marginX, y);
+        y += 4;
+    }
+    if (record.dutyHours != null) {
+        doc.text(`Duty: ${record.dutyHours} h (overtime ${record.overtimeHours || 0} h)`, marginX, y);
+        y += 4;
+    }
+    y += 6;
+    
+    // Pay Breakdown Table (Allowances)
+    const breakdownData = [
+        // Earnings (Positive)
+        ['1. Fixed Salary', `LKR ${record.salary.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Allowance'],
+        ['2. Fuel Allowance', `LKR ${record.fuelAllowance.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Allowance'],
+        ['3. Mobile Allowance', `LKR ${record.mobileAllowance.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Allowance'],
+        ['4. Meal Allowance/Expenses', `LKR ${record.mealExpenses.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Allowance'],
+        ['5. Other Expenses/BOI', `LKR ${record.otherExpenses.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Allowance'],
+        // FINE REIMBURSEMENT: TREATED AS POSITIVE EARNING
+        ['6. Fine Claims Reimbursement', `LKR ${record.fineReimbursement.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Reimb.'],
+    ];
+    // Lines an admin changed from the computed figure are starred
+    const overrides: PayrollLineOverride[] = record.overrides || [];
+    PAYROLL_LINES.forEach((line, i) => {
+        if (overrides.some(o => o.line === line)) breakdownData[i][0] += ' *';
+    });
+    (record.adjustments || []).forEach((a: PayrollAdjustment, i: number) => {
+        breakdownData.push([`${7 + i}. Adjustment for ${a.sourcePeriod}: ${PAYROLL_LINE_LABELS[a.line]}`, `LKR ${a.amount.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Adj.']);
+    });
+
+    autoTable(doc, {
+        startY: y,
+        head: [['Description', 'Amount', 'Type']],
+        body: breakdownData,
+        theme: 'grid',
+        headStyles: { fillColor: [40, 167, 69] }, 
+        styles: { fontSize: 10, cellPadding: 3 },
+        columnStyles: { 
+            1: { fontStyle: 'bold', halign: 'right' },
+            2: { cellWidth: 20, halign: 'center' }
+        },
+    });
+
+    y = (doc as any).lastAutoTable.finalY + 6;
+
+    if (record.basis) {
+        doc.setFontSize(8);
+        doc.setFont(undefined, 'normal');
+        doc.text(`Computed from ${record.basis.tripIds.length} trip(s) driven: ${record.basis.kmRun} km, ${record.basis.tripDays} trip day(s), ${record.basis.outStationNights} night(s) away; ${record.basis.claimIds.length} settled claim(s).`, marginX, y);
+        y += 4;
+        overrides.forEach(o => {
+            doc.text(`* ${PAYROLL_LINE_LABELS[o.line]}: computed LKR ${o.computed.toLocaleString()}, set to LKR ${o.value.toLocaleString()} by ${o.by}.`, marginX, y);
+            y += 4;
+        });
+    }
+    y += 4;
+
+    // Deductions from pay and the employer's contributions on top of it
+    const deductionsApplied: PayrollDeductions | undefined = record.deductions;
+    if (deductionsApplied) {
+        autoTable(doc, {
+            startY: y,
+            head: [['Deductions & Contributions', 'Amount', 'Base']],
+            body: [
+                ['Gross Pay', formatLkr(deductionsApplied.grossPay), ''],
+                ['EPF (Employee)', `- ${formatLkr(deductionsApplied.epfEmployee)}`, formatLkr(deductionsApplied.contributionBase)],
+                ['APIT', `- ${formatLkr(deductionsApplied.apit)}`, formatLkr(deductionsApplied.taxableBase)],
+                ['Total Deductions', `- ${formatLkr(deductionsApplied.totalDeductions)}`, ''],
+                ['EPF (Employer)', formatLkr(deductionsApplied.epfEmployer), formatLkr(deductionsApplied.contributionBase)],
+                ['ETF (Employer)', formatLkr(deductionsApplied.etfEmployer), formatLkr(deductionsApplied.contributionBase)],
+                ['Employer Cost', formatLkr(deductionsApplied.employerCost), ''],
+            ],
+            theme: 'grid',
+            headStyles: { fillColor: [220, 53, 69] },
+            styles: { fontSize: 10, cellPadding: 3 },
+            columnStyles: { 1: { fontStyle: 'bold', halign: 'right' }, 2: { halign: 'right' } },
+        });
+        y = (doc as any).lastAutoTable.finalY + 4;
+        doc.setFontSize(8);
+        doc.setFont(undefined, 'normal');
+        doc.text(`Statutory rules in force from ${deductionsApplied.effectiveFrom}.`, marginX, y);
+    }
+    y += 9;
+    
+    // Total Payout
+    doc.setFontSize(16);
+    doc.setFont(undefined, 'bold');
+    doc.text("NET PAYOUT:", marginX, y);
+    doc.text(`LKR ${record.totalPayout.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 195, y, { align: 'right' });
+    y += 20;
+
+    // Footer / Signature
+    doc.setFontSize(8);
+    doc.setFont(undefined, 'italic');
+    doc.text(`Generated by: ${generatedBy} on ${new Date().toLocaleDateString()}`, marginX, y);
+    y += 15;
+    
+    doc.setFont(undefined, 'bold');
+    doc.line(marginX, y, marginX + 50, y);
+    doc.text("Authorized Signature", marginX, y + 5);
+};
+
 export function DriverPayrollManagement({ user, onNavigate, onLogout }: DriverPayrollManagementProps) {
     const [drivers, setDrivers] = useState<any[]>([]);
     const [payrollHistory, setPayrollHistory] = useState<any[]>([]);
     const [loading, setLoading] = useState(true);
     const [activeDriver, setActiveDriver] = useState<any>(null);
     const [currentPeriod, setCurrentPeriod] = useState(formatMonth(new Date()));
-    const [payrollData, setPayrollData] = useState<PayrollData>(initialPayrollData);
+    const [overrideInputs, setOverrideInputs] = useState<OverrideInputs>({});
     const [statusMessage, setStatusMessage] = useState({ type: '', message: '' });
+    const [trips, setTrips] = useState<Trip[]>([]);
+    const [dutySettings, setDutySettings] = useState(DEFAULT_DUTY_SETTINGS);
+    const [claims, setClaims] = useState<PoliceClaim[]>([]);
+    const [rates, setRates] = useState<PayrollRates>(DEFAULT_PAYROLL_RATES);
+    const [rateInputs, setRateInputs] = useState<Record<keyof PayrollRates, string>>({ baseSalary: '', fuelAllowancePerKm: '', mobileAllowance: '', mealAllowancePerTripDay: '', outStationNightAllowance: '' });
+    const [showRatesModal, setShowRatesModal] = useState(false);
+    const [runs, setRuns] = useState<PayrollRun[]>([]);
+    const [adjustments, setAdjustments] = useState<PayrollAdjustment[]>([]);
+    const [adjustmentForm, setAdjustmentForm] = useState<{ line: PayrollLine, amount: string, reason: string }>({ line: 'salary', amount: '', reason: '' });
+    const [statutoryRules, setStatutoryRules] = useState<StatutoryRuleSet[]>(DEFAULT_STATUTORY_RULES);
+    const [ruleForm, setRuleForm] = useState<StatutoryRuleSet | null>(null); // rule set being edited in the statutory modal
+    const [showStatutoryModal, setShowStatutoryModal] = useState(false);
+    const [bankSettings, setBankSettings] = useState<BankTransferSettings>(DEFAULT_BANK_TRANSFER_SETTINGS);
+    const [bankForm, setBankForm] = useState<BankTransferSettings | null>(null); // layout being edited; the modal is open while set
+    const [distributions, setDistributions] = useState<PaysheetDistribution[]>([]);
+    const [isDistributing, setIsDistributing] = useState(false);
 
     // --- Data Fetching (Retained) ---
     useEffect(() => {
         setLoading(true);
 
-        const unsubDrivers = onSnapshot(query(collection(db, "users"), where("role", "==", "driver")), (snap) => {
-            const driversList = snap.docs.map(doc => ({ id: doc.id, name: doc.data().fullName || doc.data().name, ...doc.data() }));
+        const unsubDrivers = DriverRepository.subscribeAll((drivers) => {
+            const driversList = drivers.map(d => ({ ...d, name: d.fullName || d.name }));
             setDrivers(driversList);
             if (!activeDriver && driversList.length > 0) {
                 setActiveDriver(driversList[0]);
             }
         });
 
-        const unsubPayroll = onSnapshot(query(collection(db, "driver_payroll"), orderBy("period", "desc")), (snap) => {
-            setPayrollHistory(snap.docs.map(doc => ({ id: doc.id, ...doc.data() })));
+        const unsubPayroll = PayrollRepository.subscribeAll((records) => {
+            setPayrollHistory(records);
             setLoading(false);
         });
 
         return () => { unsubDrivers(); unsubPayroll(); };
     }, [activeDriver]);
 
-    // --- Load Data for Selected Period/Driver (Fixed to load fineReimbursement) ---
+    // Trips, settled claims and rates the month is computed from, plus duty settings for overtime
     useEffect(() => {
-        if (!activeDriver || !currentPeriod) return;
+        const unsubTrips = TripRepository.subscribeAll(setTrips);
+        const unsubClaims = ClaimRepository.subscribeAll(setClaims);
+        const unsubDuty = SettingsRepository.subscribeDuty(setDutySettings);
+        const unsubRates = SettingsRepository.subscribePayroll((settings) => {
+            setRates(settings);
+            setRateInputs(Object.fromEntries(RATE_FIELDS.map(([key]) => [key, String(settings[key])])) as Record<keyof PayrollRates, string>);
+        });
+        return () => { unsubTrips(); unsubClaims(); unsubDuty(); unsubRates(); };
+    }, []);
 
-        const record = payrollHistory.find(p => p.driverId === activeDriver.id && p.period === currentPeriod);
+    // Month runs (status, reviewer, approver) and corrections to locked months
+    useEffect(() => {
+        const unsubRuns = PayrollRunRepository.subscribeAll(setRuns);
+        const unsubAdjustments = PayrollAdjustmentRepository.subscribeAll(setAdjustments);
+        const unsubStatutory = SettingsRepository.subscribeStatutory((settings) => setStatutoryRules(settings.rules));
+        const unsubBank = SettingsRepository.subscribeBankTransfer(setBankSettings);
+        const unsubDistributions = PaysheetDistributionRepository.subscribeAll(setDistributions);
+        return () => { unsubRuns(); unsubAdjustments(); unsubStatutory(); unsubBank(); unsubDistributions(); };
+    }, []);
 
-        if (record) {
-            setPayrollData({
-                salary: record.salary || 0,
-                fuelAllowance: record.fuelAllowance || 0,
-                mobileAllowance: record.mobileAllowance || 0,
-                mealExpenses: record.mealExpenses || 0,
-                otherExpenses: record.otherExpenses || 0,
-                fineReimbursement: record.fineReimbursement || 0, 
-            });
+    const currentRun = useMemo(() => runs.find(r => r.period === currentPeriod) || toPayrollRun(currentPeriod, null), [runs, currentPeriod]);
+    const isEditable = isPayrollRunEditable(currentRun);
+
+    // Corrections to earlier locked months paid in this one, and those raised against this month
+    const carriedAdjustments = useMemo(() => {
+        return activeDriver ? adjustments.filter(a => a.driverId === activeDriver.id && a.targetPeriod === currentPeriod) : [];
+    }, [adjustments, activeDriver, currentPeriod]);
+
+    const raisedAdjustments = useMemo(() => {
+        return activeDriver ? adjustments.filter(a => a.driverId === activeDriver.id && a.sourcePeriod === currentPeriod) : [];
+    }, [adjustments, activeDriver, currentPeriod]);
+
+    const periodRecords = useMemo(() => {
+        return payrollHistory.filter(p => p.period === currentPeriod).sort((a, b) => (a.driverName || '').localeCompare(b.driverName || ''));
+    }, [payrollHistory, currentPeriod]);
+
+    // The month's net pay split into bank transfers and drivers whose bank details hold the file back
+    const bankTransfer = useMemo(() => prepareBankTransfer(periodRecords, drivers), [periodRecords, drivers]);
+
+    // Paysheets emailed for the month, and the records whose current version a driver has not been sent
+    const periodDistributions = useMemo(() => distributions.filter(d => d.period === currentPeriod), [distributions, currentPeriod]);
+    const unsentRecords = useMemo(() => {
+        return periodRecords.filter(r => !periodDistributions.some(d => d.driverId === r.driverId && d.status === 'sent' && d.recordSavedAt === (r.savedAt || '')));
+    }, [periodRecords, periodDistributions]);
+    const isFinalised = isPayrollRunFinalised(currentRun);
+
+    const calculation = useMemo(() => {
+        return activeDriver ? computeDriverPayroll(activeDriver.id, currentPeriod, trips, claims, rates) : null;
+    }, [activeDriver, currentPeriod, trips, claims, rates]);
+
+    const periodDuty = useMemo(() => {
+        return activeDriver ? getMonthlyDuty(activeDriver.id, trips, currentPeriod, dutySettings) : null;
+    }, [activeDriver, trips, currentPeriod, dutySettings]);
+
+    const savedRecord = useMemo(() => {
+        return activeDriver ? payrollHistory.find(p => p.driverId === activeDriver.id && p.period === currentPeriod) || null : null;
+    }, [activeDriver, currentPeriod, payrollHistory]);
+
+    // --- Load Overrides for Selected Period/Driver ---
+    // Records saved before the calculator have no computed lines: their hand-entered figures are kept
+    // as overrides wherever they differ from what the calculator now produces. Only those records need the
+    // calculation here, so recomputing (new trips or claims) does not wipe overrides being typed in.
+    const legacyCalculation = useMemo(() => savedRecord && !savedRecord.computed ? calculation : null, [savedRecord, calculation]);
+
+    useEffect(() => {
+        if (!activeDriver || !currentPeriod) return;
+
+        if (savedRecord) {
+            const inputs: OverrideInputs = {};
+            if (savedRecord.computed) {
+                (savedRecord.overrides || []).forEach(o => { inputs[o.line] = String(o.value); });
+            } else if (legacyCalculation) {
+                PAYROLL_LINES.forEach(line => {
+                    const saved = Number(savedRecord[line] || 0);
+                    if (saved !== legacyCalculation.computed[line]) inputs[line] = String(saved);
+                });
+            }
+            setOverrideInputs(inputs);
             setStatusMessage({ type: 'info', message: 'Loaded existing record for this period.' });
         } else {
-            setPayrollData(initialPayrollData);
-            setStatusMessage({ type: 'success', message: 'Ready to enter new payroll data.' });
+            setOverrideInputs({});
+            setStatusMessage({ type: 'success', message: 'Computed from this month\'s trips and settled claims. Override any line before saving.' });
         }
-    }, [activeDriver, currentPeriod, payrollHistory]);
+    }, [activeDriver, currentPeriod, savedRecord, legacyCalculation]);
 
-    const handleChange = (name: keyof PayrollData, value: string) => {
-        setPayrollData(prev => ({ ...prev, [name]: parseFloat(value) || 0 }));
+    const handleOverrideChange = (line: PayrollLine, value: string) => {
+        setOverrideInputs(prev => ({ ...prev, [line]: value }));
     };
-    
-    // 🌟 FIX: Total Payout Calculation (Additive) 🌟
-    const totalPayout = useMemo(() => {
-        return (
-            payrollData.salary + 
-            payrollData.fuelAllowance + 
-            payrollData.mobileAllowance + 
-            payrollData.mealExpenses + 
-            payrollData.otherExpenses +
-            payrollData.fineReimbursement // ADDITIVE: Fine is a reimbursement/allowance
-        );
-    }, [payrollData]);
-
-
-    const handleSavePayroll = async () => { /* ... (Logic retained) ... */
-        if (!activeDriver || totalPayout === 0) {
-            setStatusMessage({ type: 'error', message: 'Total payout is zero. Please enter values first.' });
+
+    const handleResetLine = (line: PayrollLine) => {
+        setOverrideInputs(prev => {
+            const { [line]: _, ...rest } = prev;
+            return rest;
+        });
+    };
+
+    // Overrides that actually change a computed line; an unchanged override keeps who made it and when
+    const buildOverrides = (): PayrollLineOverride[] => {
+        if (!calculation) return [];
+        const by = user.fullName || user.email;
+        const at = new Date().toISOString();
+        return PAYROLL_LINES
+            .filter(line => (overrideInputs[line] ?? '').trim() !== '' && !isNaN(Number(overrideInputs[line])))
+            .map(line => ({ line, computed: calculation.computed[line], value: Number(overrideInputs[line]) }))
+            .filter(o => o.value !== o.computed)
+            .map(o => {
+                const previous = savedRecord?.overrides?.find((p: PayrollLineOverride) => p.line === o.line && p.value === o.value && p.computed === o.computed);
+                return { ...o, by: previous?.by || by, at: previous?.at || at };
+            });
+    };
+
+    const payrollData = calculation ? applyPayrollOverrides(calculation.computed, buildOverrides()) : null;
+    const grossPay = payrollData ? getPayrollTotal(payrollData, carriedAdjustments) : 0;
+
+    const ruleSet = useMemo(() => getStatutoryRuleSet(statutoryRules, currentPeriod), [statutoryRules, currentPeriod]);
+    const deductions: PayrollDeductions | null = payrollData && ruleSet ? computeStatutoryDeductions(payrollData, carriedAdjustments, ruleSet) : null;
+    const totalPayout = deductions ? deductions.netPay : grossPay;
+
+    // The saved record no longer matches the trips, claims, adjustments and deduction rules on record
+    const sameAdjustments = (saved: PayrollAdjustment[] = [], current: PayrollAdjustment[]) => {
+        return saved.length === current.length && current.every(a => saved.some(s => s.id === a.id));
+    };
+    const savedDeductionsChanged = () => {
+        if (!savedRecord || !ruleSet) return false;
+        const savedLines = Object.fromEntries(PAYROLL_LINES.map(line => [line, Number(savedRecord[line] || 0)])) as PayrollLines;
+        return savedRecord.deductions?.netPay !== computeStatutoryDeductions(savedLines, savedRecord.adjustments || [], ruleSet).netPay;
+    };
+    const isRecordStale = !!(savedRecord?.computed && calculation && (
+        PAYROLL_LINES.some(line => savedRecord.computed![line] !== calculation.computed[line]) ||
+        !sameAdjustments(savedRecord.adjustments, carriedAdjustments) ||
+        savedDeductionsChanged()
+    ));
+
+    const handleRunTransition = async (to: PayrollRunStatus) => {
+        const actor = { email: user.email, name: user.fullName || user.name || user.email };
+        const block = getPayrollRunBlock(currentRun, to, actor);
+        if (block) { alert(block); return; }
+
+        // Adjustments carried into this month must be on the drivers' saved records before sign-off
+        if (to === 'reviewed') {
+            const missing = adjustments.filter(a => a.targetPeriod === currentPeriod && !payrollHistory.some(p =>
+                p.driverId === a.driverId && p.period === currentPeriod && (p.adjustments || []).some((s: PayrollAdjustment) => s.id === a.id)));
+            if (missing.length > 0) {
+                alert(`Save the payroll again for ${[...new Set(missing.map(a => a.driverName || a.driverId))].join(', ')} to include adjustments carried into ${currentPeriod}.`);
+                return;
+            }
+        }
+
+        let note = '';
+        if (to === 'draft') {
+            const reason = window.prompt(`Reason for returning the ${currentPeriod} payroll to draft?`);
+            if (reason === null) return;
+            note = reason;
+        } else if (!confirm(`${PAYROLL_RUN_ACTIONS[to]} the ${currentPeriod} payroll?${to === 'locked' ? ' Records cannot be changed after locking.' : ''}`)) {
             return;
         }
 
-        const docId = `${activeDriver.id}-${currentPeriod}`;
-        
         try {
-            await setDoc(doc(db, "driver_payroll", docId), {
+            await PayrollRunRepository.transition(currentPeriod, to, actor, note);
+            await logAction(user.email, 'PAYROLL_RUN_TRANSITION', `${currentPeriod} payroll: ${PAYROLL_RUN_STATUS_LABELS[currentRun.status]} -> ${PAYROLL_RUN_STATUS_LABELS[to]}${note ? ` (${note})` : ''}`, { targetId: currentPeriod });
+        } catch (error) {
+            console.error("Error moving payroll run:", error);
+            alert(error instanceof PayrollRunError ? error.message : "Failed to update the payroll run.");
+        }
+    };
+
+    // --- Statutory rule sets ---
+    const handleEditRuleSet = (rule: StatutoryRuleSet | null) => {
+        const base = rule || ruleSet || DEFAULT_STATUTORY_RULES[0];
+        setRuleForm({ ...base, effectiveFrom: rule ? rule.effectiveFrom : currentPeriod, apitBands: base.apitBands.map(b => ({ ...b })) });
+    };
+
+    const saveStatutoryRules = async (rules: StatutoryRuleSet[], description: string) => {
+        try {
+            await SettingsRepository.updateStatutory({ rules: [...rules].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)) });
+            await logAction(user.email, 'STATUTORY_RULES_UPDATE', description, { targetId: 'statutory' });
+            return true;
+        } catch (error) {
+            console.error("Error saving statutory rules:", error);
+            alert("Failed to save the statutory rules.");
+            return false;
+        }
+    };
+
+    const handleSaveRuleSet = async () => {
+        if (!ruleForm) return;
+        const percents = [ruleForm.epfEmployeePercent, ruleForm.epfEmployerPercent, ruleForm.etfEmployerPercent, ...ruleForm.apitBands.map(b => b.ratePercent)];
+        const limits = ruleForm.apitBands.slice(0, -1).map(b => b.upTo);
+        if (!/^\d{4}-\d{2}$/.test(ruleForm.effectiveFrom)) { alert("Choose the month the rules take effect."); return; }
+        if (percents.some(p => isNaN(p) || p < 0 || p > 100)) { alert("Rates must be between 0 and 100%."); return; }
+        if (ruleForm.apitEnabled && (ruleForm.apitBands.length === 0 || ruleForm.apitBands[ruleForm.apitBands.length - 1].upTo !== null
+            || limits.some((upTo, i) => upTo === null || isNaN(upTo) || upTo <= (i > 0 ? limits[i - 1]! : 0)))) {
+            alert("APIT slab limits must rise from one slab to the next, and the top slab must have no limit.");
+            return;
+        }
+        const rules = [...statutoryRules.filter(r => r.effectiveFrom !== ruleForm.effectiveFrom), ruleForm];
+        const saved = await saveStatutoryRules(rules, `Statutory rules from ${ruleForm.effectiveFrom}: EPF ${ruleForm.epfEmployeePercent}% / ${ruleForm.epfEmployerPercent}%, ETF ${ruleForm.etfEmployerPercent}%, APIT ${ruleForm.apitEnabled ? 'on' : 'off'}.`);
+        if (saved) setRuleForm(null);
+    };
+
+    const handleDeleteRuleSet = async (effectiveFrom: string) => {
+        if (statutoryRules.length <= 1) { alert("At least one rule set is needed."); return; }
+        if (!confirm(`Delete the statutory rules in force from ${effectiveFrom}?`)) return;
+        await saveStatutoryRules(statutoryRules.filter(r => r.effectiveFrom !== effectiveFrom), `Statutory rules from ${effectiveFrom} deleted.`);
+    };
+
+    const updateBand = (index: number, patch: Partial<ApitBand>) => {
+        if (!ruleForm) return;
+        setRuleForm({ ...ruleForm, apitBands: ruleForm.apitBands.map((b, i) => (i === index ? { ...b, ...patch } : b)) });
+    };
+
+    const toggleRuleLine = (key: 'contributionLines' | 'apitLines', line: PayrollLine) => {
+        if (!ruleForm) return;
+        const current = ruleForm[key];
+        setRuleForm({ ...ruleForm, [key]: current.includes(line) ? current.filter(l => l !== line) : [...current, line] });
+    };
+
+    const handleAddAdjustment = async () => {
+        const amount = Number(adjustmentForm.amount);
+        if (!activeDriver || !amount || isNaN(amount) || !adjustmentForm.reason.trim()) {
+            alert("Enter a non-zero amount and a reason.");
+            return;
+        }
+        if (currentRun.status !== 'locked') {
+            alert(`The ${currentPeriod} payroll is not locked. Correct its records directly instead of adding an adjustment.`);
+            return;
+        }
+        const targetPeriod = getAdjustmentTargetPeriod(currentPeriod, runs);
+        try {
+            const id = await PayrollAdjustmentRepository.create({
                 driverId: activeDriver.id,
                 driverName: activeDriver.name,
-                period: currentPeriod,
+                sourcePeriod: currentPeriod,
+                targetPeriod,
+                line: adjustmentForm.line,
+                amount,
+                reason: adjustmentForm.reason.trim(),
+                createdBy: user.fullName || user.email,
+                createdAt: new Date().toISOString(),
+            });
+            await logAction(user.email, 'PAYROLL_ADJUSTMENT', `${activeDriver.name}: ${PAYROLL_LINE_LABELS[adjustmentForm.line]} LKR ${amount} for ${currentPeriod}, paid in ${targetPeriod}. ${adjustmentForm.reason.trim()}`, { targetId: id, driverId: activeDriver.id });
+            setAdjustmentForm({ line: 'salary', amount: '', reason: '' });
+        } catch (error) {
+            console.error("Error adding payroll adjustment:", error);
+            alert(error instanceof PayrollRunError ? error.message : "Failed to add the adjustment.");
+        }
+    };
+
+    const handleSaveRates = async () => {
+        const patch = Object.fromEntries(RATE_FIELDS.map(([key]) => [key, Number(rateInputs[key])])) as unknown as PayrollRates;
+        if (Object.values(patch).some(value => isNaN(value) || value < 0)) {
+            alert("Enter every rate as zero or more.");
+            return;
+        }
+        try {
+            await SettingsRepository.updatePayroll(patch);
+            await logAction(user.email, 'PAYROLL_RATES_UPDATE', `Payroll rates set: ${RATE_FIELDS.map(([key, label]) => `${label} ${patch[key]}`).join(', ')}`, { targetId: 'payroll' });
+            setShowRatesModal(false);
+        } catch (error) {
+            console.error("Error saving payroll rates:", error);
+            alert("Failed to save the payroll rates.");
+        }
+    };
+
+
+    const handleSavePayroll = async () => {
+        if (!activeDriver || !calculation || !payrollData || grossPay === 0) {
+            setStatusMessage({ type: 'error', message: 'Total payout is zero. Please enter values first.' });
+            return;
+        }
+        if (!isEditable) {
+            setStatusMessage({ type: 'error', message: `The ${currentPeriod} payroll is ${PAYROLL_RUN_STATUS_LABELS[currentRun.status].toLowerCase()}. Return it to draft to make changes.` });
+            return;
+        }
+
+        const overrides = buildOverrides();
+        try {
+            await PayrollRepository.save(activeDriver.id, currentPeriod, {
+                driverName: activeDriver.name,
                 ...payrollData,
                 totalPayout: totalPayout,
+                grossPay,
+                ...(deductions ? { deductions } : {}),
+                computed: calculation.computed,
+                overrides,
+                basis: calculation.basis,
+                adjustments: carriedAdjustments,
+                adjustmentTotal: getAdjustmentTotal(carriedAdjustments),
+                dutyHours: periodDuty?.dutyHours ?? 0,
+                overtimeHours: periodDuty?.overtimeHours ?? 0,
                 savedBy: user.fullName || user.email,
                 savedAt: new Date().toISOString(),
-            }, { merge: true });
+            });
 
             await logAction(user.email, 'PAYROLL_SAVE', 
-                `Saved payroll for ${activeDriver.name} (${currentPeriod}). Total: LKR ${totalPayout.toLocaleString()}`, 
-                { driverId: activeDriver.id, period: currentPeriod }
+                `Saved payroll for ${activeDriver.name} (${currentPeriod}). Gross: LKR ${grossPay.toLocaleString()}, net: LKR ${totalPayout.toLocaleString()}` +
+                (overrides.length > 0 ? `. Overrides: ${overrides.map(o => `${PAYROLL_LINE_LABELS[o.line]} ${o.computed} -> ${o.value}`).join('; ')}` : ''),
+                { targetId: activeDriver.id, driverId: activeDriver.id, period: currentPeriod }
             );
 
             setStatusMessage({ type: 'success', message: `Payroll saved successfully for ${currentPeriod}!` });
             
             // Force re-fetch of history to update the view
-            const snap = await getDocs(query(collection(db, "driver_payroll"), orderBy("period", "desc")));
-            setPayrollHistory(snap.docs.map(doc => ({ id: doc.id, ...doc.data() })));
+            setPayrollHistory(await PayrollRepository.listAll());
 
 
         } catch (error) {
             console.error("Error saving payroll:", error);
-            setStatusMessage({ type: 'error', message: 'Failed to save payroll. Check console.' });
+            setStatusMessage({ type: 'error', message: error instanceof PayrollRunError ? error.message : 'Failed to save payroll. Check console.' });
         }
     };
 
     // 🌟 PDF GENERATION LOGIC (UPDATED FOR REIMBURSEMENT + HEADER) 🌟
     const handleDownloadPaysheet = (record: any) => {
         const doc = new jsPDF();
-        
-        const periodName = new Date(record.period).toLocaleString('en-US', { month: 'long', year: 'numeric' });
-        
-        // 🌟 Apply Report Header and get starting Y coordinate 🌟
-        let y = applyReportHeader(doc, "Driver Monthly Paysheet", record.driverName);
+        drawPaysheet(doc, record, drivers.find(d => d.id === record.driverId)?.epfNumber, user.fullName || user.email);
+        doc.save(`Paysheet_${record.driverName.replace(/\s/g, '_')}_${record.period}.pdf`);
+    };
+    // 🌟 END PDF GENERATION LOGIC 🌟
 
-        const marginX = 15;
+    // Monthly EPF/ETF contribution schedule for every saved record of the period
+    const handleDownloadContributionSchedule = () => {
+        const records = payrollHistory.filter(p => p.period === currentPeriod && p.deductions);
+        if (records.length === 0) {
+            alert(`No payroll with deductions has been saved for ${currentPeriod}.`);
+            return;
+        }
 
-        // Driver details
-        doc.setFontSize(10);
-        doc.setFont(undefined, 'normal');
-        doc.text(`Period: ${periodName}`, marginX, y);
-        y += 4;
-        doc.text(`EPF/ID: ${activeDriver.epfNumber || record.driverId}`, marginX, y);
-        y += 10;
-        
-        // Pay Breakdown Table (Allowances)
-        const breakdownData = [
-            // Earnings (Positive)
-            ['1. Fixed Salary', `LKR ${record.salary.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Allowance'],
-            ['2. Fuel Allowance', `LKR ${record.fuelAllowance.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Allowance'],
-            ['3. Mobile Allowance', `LKR ${record.mobileAllowance.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Allowance'],
-            ['4. Meal Allowance/Expenses', `LKR ${record.mealExpenses.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Allowance'],
-            ['5. Other Expenses/BOI', `LKR ${record.otherExpenses.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Allowance'],
-            // FINE REIMBURSEMENT: TREATED AS POSITIVE EARNING
-            ['6. Fine Claims Reimbursement', `LKR ${record.fineReimbursement.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 'Reimb.'],
-        ];
+        const doc = new jsPDF({ orientation: 'landscape' });
+        const periodName = new Date(currentPeriod).toLocaleString('en-US', { month: 'long', year: 'numeric' });
+        const y = applyReportHeader(doc, "EPF / ETF Contribution Schedule", `${periodName} (${PAYROLL_RUN_STATUS_LABELS[currentRun.status]})`);
+
+        const totals = { base: 0, employee: 0, employer: 0, etf: 0 };
+        const body = records.map(p => {
+            const d: PayrollDeductions = p.deductions!;
+            const driver = drivers.find(dr => dr.id === p.driverId);
+            totals.base += d.contributionBase;
+            totals.employee += d.epfEmployee;
+            totals.employer += d.epfEmployer;
+            totals.etf += d.etfEmployer;
+            return [
+                driver?.epfNumber || 'N/A',
+                p.driverName || driver?.name || p.driverId,
+                driver?.nic || 'N/A',
+                formatLkr(d.contributionBase),
+                formatLkr(d.epfEmployee),
+                formatLkr(d.epfEmployer),
+                formatLkr(d.epfEmployee + d.epfEmployer),
+                formatLkr(d.etfEmployer),
+            ];
+        });
+        body.push(['', 'TOTAL', `${records.length} member(s)`, formatLkr(totals.base), formatLkr(totals.employee), formatLkr(totals.employer), formatLkr(totals.employee + totals.employer), formatLkr(totals.etf)]);
 
         autoTable(doc, {
-            startY: y,
-            head: [['Description', 'Amount', 'Type']],
-            body: breakdownData,
+            startY: y + 5,
+            head: [['EPF No', 'Name', 'NIC', 'Earnings', 'EPF Employee', 'EPF Employer', 'EPF Total', 'ETF']],
+            body,
             theme: 'grid',
-            headStyles: { fillColor: [40, 167, 69] }, 
-            styles: { fontSize: 10, cellPadding: 3 },
-            columnStyles: { 
-                1: { fontStyle: 'bold', halign: 'right' },
-                2: { cellWidth: 20, halign: 'center' }
-            },
+            headStyles: { fillColor: [40, 167, 69] },
+            styles: { fontSize: 9 },
+            columnStyles: { 3: { halign: 'right' }, 4: { halign: 'right' }, 5: { halign: 'right' }, 6: { halign: 'right' }, 7: { halign: 'right' } },
         });
 
-        y = (doc as any).lastAutoTable.finalY + 15;
-        
-        // Total Payout
-        doc.setFontSize(16);
-        doc.setFont(undefined, 'bold');
-        doc.text("NET PAYOUT:", marginX, y);
-        doc.text(`LKR ${record.totalPayout.toLocaleString(undefined, { minimumFractionDigits: 2 })}`, 195, y, { align: 'right' });
-        y += 20;
+        doc.save(`EPF_ETF_Schedule_${currentPeriod}.pdf`);
+    };
 
-        // Footer / Signature
-        doc.setFontSize(8);
-        doc.setFont(undefined, 'italic');
-        doc.text(`Generated by: ${user.fullName || user.email} on ${new Date().toLocaleDateString()}`, marginX, y);
-        y += 15;
-        
-        doc.setFont(undefined, 'bold');
-        doc.line(marginX, y, marginX + 50, y);
-        doc.text("Authorized Signature", marginX, y + 5);
 
-        doc.save(`Paysheet_${record.driverName.replace(/\s/g, '_')}_${record.period}.pdf`);
+    // Every saved paysheet of the month, as one PDF with a page per driver or a zip of one PDF each
+    const handleBatchPaysheets = async (mode: 'combined' | 'zip') => {
+        if (periodRecords.length === 0) {
+            alert(`No payroll has been saved for ${currentPeriod}.`);
+            return;
+        }
+        const generatedBy = user.fullName || user.email;
+        const epfNumber = (record: any) => drivers.find(d => d.id === record.driverId)?.epfNumber;
+
+        if (mode === 'combined') {
+            const doc = new jsPDF();
+            periodRecords.forEach((record, i) => {
+                if (i > 0) doc.addPage();
+                drawPaysheet(doc, record, epfNumber(record), generatedBy);
+            });
+            doc.save(`Paysheets_${currentPeriod}.pdf`);
+        } else {
+            const names = new Set<string>();
+            const files = periodRecords.map(record => {
+                const doc = new jsPDF();
+                drawPaysheet(doc, record, epfNumber(record), generatedBy);
+                // Drivers sharing a name would overwrite each other when unzipped
+                const base = `Paysheet_${(record.driverName || record.driverId).replace(/\s/g, '_')}_${record.period}`;
+                let name = `${base}.pdf`;
+                for (let n = 2; names.has(name); n++) name = `${base}_${n}.pdf`;
+                names.add(name);
+                return { name, data: doc.output('arraybuffer') };
+            });
+            downloadBlob(createZipBlob(files), `Paysheets_${currentPeriod}.zip`);
+        }
+
+        try {
+            await logAction(user.email, 'PAYSHEET_BATCH', `Generated ${periodRecords.length} paysheet(s) for ${currentPeriod} as ${mode === 'combined' ? 'one PDF' : 'a zip'}.`, { targetId: currentPeriod });
+        } catch (error) {
+            console.error("Error logging paysheet batch:", error);
+        }
     };
-    // 🌟 END PDF GENERATION LOGIC 🌟
 
+    /**
+     * Emails each driver who has not had the current version of their paysheet a copy, protected with
+     * their NIC number as the PDF password. Every attempt, sent or failed, goes to the distribution log.
+     */
+    const handleEmailPaysheets = async () => {
+        if (!isFinalised) {
+            alert(`The ${currentPeriod} payroll must be approved before paysheets are sent.`);
+            return;
+        }
+        if (unsentRecords.length === 0) {
+            alert(`Every driver has been sent the current version of their ${currentPeriod} paysheet.`);
+            return;
+        }
+        if (!window.confirm(`Email ${unsentRecords.length} paysheet(s) for ${currentPeriod}?`)) return;
+
+        setIsDistributing(true);
+        const failures: string[] = [];
+        try {
+            for (const record of unsentRecords) {
+                const driver = drivers.find(d => d.id === record.driverId);
+                const driverName = record.driverName || driver?.name || record.driverId;
+                let error: string | null = null;
+
+                if (!driver?.email) error = 'no email address';
+                else if (!driver.nic) error = 'no NIC number to protect the PDF with';
+                else {
+                    const doc = new jsPDF({ encryption: { userPassword: String(driver.nic).trim(), ownerPassword: crypto.randomUUID(), userPermissions: ['print'] } });
+                    drawPaysheet(doc, record, driver.epfNumber, user.fullName || user.email);
+                    const sent = await sendPaysheetEmail(driver.email, driverName, record.period, doc.output('datauristring'));
+                    if (!sent) error = 'the email service did not accept the message';
+                }
+
+                await PaysheetDistributionRepository.create({
+                    period: record.period,
+                    driverId: record.driverId,
+                    driverName,
+                    recordId: record.id,
+                    recordSavedAt: record.savedAt || '',
+                    netPay: record.totalPayout || 0,
+                    recipient: driver?.email || '',
+                    status: error ? 'failed' : 'sent',
+                    error,
+                    sentBy: user.email,
+                    sentAt: new Date().toISOString(),
+                });
+                if (error) failures.push(`${driverName}: ${error}`);
+            }
+
+            const sentCount = unsentRecords.length - failures.length;
+            await logAction(user.email, 'PAYSHEET_DISTRIBUTION', `Emailed ${sentCount} ${currentPeriod} paysheet(s)${failures.length ? `; ${failures.length} failed` : ''}.`, { targetId: currentPeriod });
+            alert(`${sentCount} paysheet(s) sent.${failures.length ? `\n\nNot sent:\n${failures.join('\n')}` : ''}`);
+        } catch (error) {
+            console.error("Error distributing paysheets:", error);
+            alert("Paysheet distribution stopped with an error. Check the distribution log before sending again.");
+        } finally {
+            setIsDistributing(false);
+        }
+    };
+
+    // Bulk-transfer file of the month's net pay for the bank portal
+    const handleExportBankFile = async () => {
+        if (!isFinalised) {
+            alert(`The ${currentPeriod} payroll must be approved before the bank file is exported.`);
+            return;
+        }
+        if (bankTransfer.missing.length > 0) {
+            alert(`Add bank details for these drivers first:\n${bankTransfer.missing.map(m => `- ${m.driverName}: ${m.problems.join(', ')}`).join('\n')}`);
+            return;
+        }
+        if (bankTransfer.rows.length === 0) {
+            alert(`No net pay has been saved for ${currentPeriod}.`);
+            return;
+        }
+        const overflows = getBankTransferOverflows(bankTransfer.rows, bankSettings, currentPeriod);
+        if (overflows.length > 0) {
+            alert(`Widen these columns in the bank file layout first:\n${overflows.join('\n')}`);
+            return;
+        }
+
+        const file = buildBankTransferFile(bankTransfer.rows, bankSettings, currentPeriod);
+        if (!window.confirm(`Export ${file.recordCount} transfer(s) totalling ${formatLkr(file.controlTotal)} for ${currentPeriod}?`)) return;
+
+        downloadBlob(new Blob([file.content], { type: 'text/plain' }), `Salary_Transfer_${currentPeriod}.${bankSettings.format === 'csv' ? 'csv' : 'txt'}`);
+
+        try {
+            await logAction(user.email, 'PAYROLL_BANK_EXPORT', `${currentPeriod} bank file: ${file.recordCount} record(s), control total ${formatLkr(file.controlTotal)} (${bankSettings.format}).`, { targetId: currentPeriod });
+        } catch (error) {
+            console.error("Error logging bank file export:", error);
+        }
+    };
+
+    const updateBankColumn = (index: number, patch: Partial<BankTransferSettings['columns'][number]>) => {
+        if (!bankForm) return;
+        setBankForm({ ...bankForm, columns: bankForm.columns.map((c, i) => i === index ? { ...c, ...patch } : c) });
+    };
+
+    const handleSaveBankSettings = async () => {
+        if (!bankForm) return;
+        if (bankForm.columns.length === 0) {
+            alert("Add at least one column.");
+            return;
+        }
+        if (bankForm.format === 'fixed-width' && bankForm.columns.some(c => !(c.width > 0))) {
+            alert("Give every column a width above zero.");
+            return;
+        }
+        if (bankForm.format === 'csv' && !bankForm.delimiter) {
+            alert("Enter a delimiter.");
+            return;
+        }
+        try {
+            await SettingsRepository.updateBankTransfer(bankForm);
+            await logAction(user.email, 'BANK_TRANSFER_SETTINGS_UPDATE', `Bank file layout set to ${bankForm.format}: ${bankForm.columns.map(c => BANK_TRANSFER_FIELD_LABELS[c.field]).join(', ')}.`, { targetId: 'bankTransfer' });
+            setBankForm(null);
+        } catch (error) {
+            console.error("Error saving bank file layout:", error);
+            alert("Failed to save the bank file layout.");
+        }
+    };
 
     const driverHistoryFiltered = payrollHistory.filter(p => p.driverId === activeDriver?.id);
 
@@ -268,7 +795,7 @@ export function DriverPayrollManagement({ user, onNavigate, onLogout }: DriverPa
                     <div>
                         <button onClick={() => onNavigate('admin-dashboard')} className="mb-2 text-gray-500 hover:text-gray-900 flex items-center gap-1 transition-colors"><ArrowLeft className="w-4 h-4"/> Back to Dashboard</button>
                         <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-2"><DollarSign className="w-7 h-7 text-green-600"/> Driver Payroll & Allowances</h1>
-                        <p className="text-gray-600 text-sm">Manage and record monthly pay, fuel, mobile, and meal allowances.</p>
+                        <p className="text-gray-600 text-sm">Monthly pay and allowances, computed from completed trips and settled claims.</p>
                     </div>
                 </div>
                 
@@ -315,6 +842,9 @@ export function DriverPayrollManagement({ user, onNavigate, onLogout }: DriverPa
                             <div className="text-3xl font-extrabold text-blue-900">
                                 {totalPayout.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                             </div>
+                            {deductions && (
+                                <div className="text-xs text-blue-700 mt-1">Gross {formatLkr(deductions.grossPay)} less deductions {formatLkr(deductions.totalDeductions)}</div>
+                            )}
                         </div>
                         {isCurrentPeriodSaved && (
                             <button 
@@ -327,58 +857,225 @@ export function DriverPayrollManagement({ user, onNavigate, onLogout }: DriverPa
                     </Card>
                 </div>
 
+                {/* --- MONTH RUN: review, approval, payment and locking --- */}
+                <Card className="p-4 mb-8">
+                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                        <div>
+                            <div className="text-sm font-bold text-gray-700 flex items-center gap-2">
+                                {!isEditable && <Lock className="w-4 h-4 text-gray-500"/>} {currentPeriod} Payroll Run
+                                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${currentRun.status === 'locked' ? 'bg-gray-800 text-white' : currentRun.status === 'draft' ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'}`}>{PAYROLL_RUN_STATUS_LABELS[currentRun.status]}</span>
+                            </div>
+                            <div className="text-xs text-gray-500 mt-1">
+                                {currentRun.reviewedBy ? `Reviewed by ${currentRun.reviewedBy}` : 'Not reviewed'}{currentRun.approvedBy ? ` · Approved by ${currentRun.approvedBy}` : ''}
+                                {!isEditable && ' · Records are read-only.'}
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                            <button onClick={() => setShowStatutoryModal(true)} className="px-4 py-2 rounded-xl text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 flex items-center gap-1"><Landmark className="w-4 h-4"/> Statutory Rules</button>
+                            <button onClick={handleDownloadContributionSchedule} className="px-4 py-2 rounded-xl text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 flex items-center gap-1"><Download className="w-4 h-4"/> EPF/ETF Schedule</button>
+                            <button onClick={() => setBankForm(bankSettings)} className="px-4 py-2 rounded-xl text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 flex items-center gap-1"><Settings className="w-4 h-4"/> Bank Layout</button>
+                            <button
+                                onClick={handleExportBankFile}
+                                disabled={!isFinalised || bankTransfer.missing.length > 0}
+                                title={!isFinalised ? 'Available once the month is approved' : bankTransfer.missing.length > 0 ? 'Some drivers have no usable bank details' : ''}
+                                className="px-4 py-2 rounded-xl text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 flex items-center gap-1 disabled:opacity-50"
+                            >
+                                <Banknote className="w-4 h-4"/> Bank File
+                            </button>
+                            {PAYROLL_RUN_TRANSITIONS[currentRun.status].map(to => {
+                                const block = getPayrollRunBlock(currentRun, to, { email: user.email, name: user.fullName || user.email });
+                                return (
+                                    <button
+                                        key={to}
+                                        onClick={() => handleRunTransition(to)}
+                                        disabled={!!block}
+                                        title={block || ''}
+                                        className={`px-4 py-2 rounded-xl text-sm font-medium disabled:opacity-50 ${to === 'draft' ? 'border border-gray-300 text-gray-700 hover:bg-gray-50' : 'bg-blue-600 text-white hover:bg-blue-700'}`}
+                                    >
+                                        {PAYROLL_RUN_ACTIONS[to]}
+                                    </button>
+                                );
+                            })}
+                        </div>
+                    </div>
+                    {bankTransfer.missing.length > 0 && (
+                        <div className="mt-3 p-3 bg-orange-50 border border-orange-200 rounded-lg text-xs text-orange-800">
+                            <div className="font-bold mb-1 flex items-center gap-1"><AlertTriangle className="w-4 h-4"/> {bankTransfer.missing.length} driver(s) cannot be paid by bank transfer until their details are added in Driver Management:</div>
+                            {bankTransfer.missing.map(m => <div key={m.driverId}>{m.driverName}: {m.problems.join(', ')}</div>)}
+                        </div>
+                    )}
+                    {currentRun.history.length > 0 && (
+                        <div className="mt-3 pt-3 border-t space-y-1">
+                            {currentRun.history.map((e, i) => (
+                                <div key={i} className="text-xs text-gray-500">
+                                    {new Date(e.at).toLocaleString()}: {e.byName} moved {PAYROLL_RUN_STATUS_LABELS[e.from]} → {PAYROLL_RUN_STATUS_LABELS[e.to]}{e.note ? ` (${e.note})` : ''}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {/* Corrections to a locked month are paid in the next open month */}
+                    {currentRun.status === 'locked' && activeDriver && (
+                        <div className="mt-3 pt-3 border-t">
+                            <div className="text-sm font-bold text-gray-700 mb-2">Adjustments for {activeDriver.name}</div>
+                            {raisedAdjustments.map(a => (
+                                <div key={a.id} className="text-xs text-gray-600 mb-1">
+                                    {PAYROLL_LINE_LABELS[a.line]}: LKR {a.amount.toLocaleString()} paid in {a.targetPeriod}, {a.reason} ({a.createdBy})
+                                </div>
+                            ))}
+                            <div className="flex flex-col md:flex-row gap-2 mt-2">
+                                <select value={adjustmentForm.line} onChange={e => setAdjustmentForm({ ...adjustmentForm, line: e.target.value as PayrollLine })} className="p-2 border border-gray-300 rounded-xl text-sm">
+                                    {PAYROLL_LINES.map(line => <option key={line} value={line}>{PAYROLL_LINE_LABELS[line]}</option>)}
+                                </select>
+                                <input type="number" value={adjustmentForm.amount} onChange={e => setAdjustmentForm({ ...adjustmentForm, amount: e.target.value })} className="p-2 border border-gray-300 rounded-xl text-sm md:w-36" placeholder="LKR (+/-)" />
+                                <input type="text" value={adjustmentForm.reason} onChange={e => setAdjustmentForm({ ...adjustmentForm, reason: e.target.value })} className="flex-1 p-2 border border-gray-300 rounded-xl text-sm" placeholder="Reason" />
+                                <button onClick={handleAddAdjustment} className="px-4 py-2 bg-blue-600 text-white rounded-xl text-sm font-medium hover:bg-blue-700">Add Adjustment</button>
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">Paid in {getAdjustmentTargetPeriod(currentPeriod, runs)}, the next month still in draft. Use a negative amount to recover an overpayment.</p>
+                        </div>
+                    )}
+                </Card>
+
+                {/* --- PAYSHEETS: batch download and emailed copies with their distribution log --- */}
+                <Card className="p-4 mb-8">
+                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                        <div>
+                            <div className="text-sm font-bold text-gray-700 flex items-center gap-2"><FileText className="w-4 h-4 text-gray-500"/> {currentPeriod} Paysheets</div>
+                            <div className="text-xs text-gray-500 mt-1">
+                                {periodRecords.length} saved · {periodRecords.length - unsentRecords.length} emailed in their current version
+                                {!isFinalised && ' · Emailing opens once the month is approved.'}
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                            <button onClick={() => handleBatchPaysheets('combined')} disabled={periodRecords.length === 0} className="px-4 py-2 rounded-xl text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 flex items-center gap-1 disabled:opacity-50"><Download className="w-4 h-4"/> Combined PDF</button>
+                            <button onClick={() => handleBatchPaysheets('zip')} disabled={periodRecords.length === 0} className="px-4 py-2 rounded-xl text-sm font-medium border border-gray-300 text-gray-700 hover:bg-gray-50 flex items-center gap-1 disabled:opacity-50"><Download className="w-4 h-4"/> Zip of PDFs</button>
+                            <button onClick={handleEmailPaysheets} disabled={!isFinalised || unsentRecords.length === 0 || isDistributing} className="px-4 py-2 rounded-xl text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 flex items-center gap-1 disabled:opacity-50">
+                                <Send className="w-4 h-4"/> {isDistributing ? 'Sending...' : `Email Paysheets (${unsentRecords.length})`}
+                            </button>
+                        </div>
+                    </div>
+                    {periodDistributions.length > 0 && (
+                        <div className="mt-3 pt-3 border-t overflow-x-auto">
+                            <table className="w-full text-xs">
+                                <thead>
+                                    <tr className="text-left text-gray-500">
+                                        <th className="py-1 pr-3">Sent</th>
+                                        <th className="py-1 pr-3">Driver</th>
+                                        <th className="py-1 pr-3">Recipient</th>
+                                        <th className="py-1 pr-3">Version</th>
+                                        <th className="py-1 pr-3">Net Pay</th>
+                                        <th className="py-1 pr-3">Status</th>
+                                        <th className="py-1">By</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {periodDistributions.map(d => {
+                                        const current = periodRecords.find(r => r.driverId === d.driverId);
+                                        const superseded = !!current && (current.savedAt || '') !== d.recordSavedAt;
+                                        return (
+                                            <tr key={d.id} className="border-t border-gray-100">
+                                                <td className="py-1 pr-3 text-gray-500">{new Date(d.sentAt).toLocaleString()}</td>
+                                                <td className="py-1 pr-3 font-medium text-gray-800">{d.driverName}</td>
+                                                <td className="py-1 pr-3 text-gray-600"><Mail className="w-3 h-3 inline mr-1"/>{d.recipient || '-'}</td>
+                                                <td className={`py-1 pr-3 ${superseded ? 'text-orange-600' : 'text-gray-600'}`}>{d.recordSavedAt ? new Date(d.recordSavedAt).toLocaleString() : 'Unversioned'}{superseded ? ' (superseded)' : ''}</td>
+                                                <td className="py-1 pr-3 text-gray-600">{formatLkr(d.netPay)}</td>
+                                                <td className={`py-1 pr-3 font-medium ${d.status === 'sent' ? 'text-green-600' : 'text-red-600'}`}>{d.status === 'sent' ? 'Sent' : `Failed: ${d.error}`}</td>
+                                                <td className="py-1 text-gray-500">{d.sentBy}</td>
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </Card>
+
                 {/* --- PAYROLL ENTRY & HISTORY --- */}
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
                     
                     {/* PAYROLL ENTRY FORM (COLUMN 1) */}
                     <div className="lg:col-span-1">
                         <Card className="p-6">
-                            <h2 className="text-xl font-bold mb-4 text-gray-800">Allowance Entry</h2>
+                            <div className="flex justify-between items-center mb-4">
+                                <h2 className="text-xl font-bold text-gray-800">Allowance Entry</h2>
+                                <button onClick={() => setShowRatesModal(true)} className="text-sm text-blue-600 hover:underline flex items-center gap-1"><Settings className="w-4 h-4"/> Rates</button>
+                            </div>
+                            {isRecordStale && (
+                                <p className="text-xs text-orange-700 bg-orange-50 border border-orange-200 p-2 rounded-lg mb-4">Trips, settled claims or adjustments changed since this record was saved.{isEditable ? ' Save again to update it.' : ''}</p>
+                            )}
                             <div className="space-y-4">
-                                
-                                {/* Fixed Allowances */}
-                                <div>
-                                    <label className="block text-sm font-medium text-gray-700 mb-1">1. Salary (Fixed)</label>
-                                    <input type="number" name="salary" value={payrollData.salary} onChange={e => handleChange('salary', e.target.value)} className="w-full p-3 border rounded-xl" placeholder="LKR 0.00" />
-                                </div>
-                                <div>
-                                    <label className="block text-sm font-medium text-gray-700 mb-1">2. Fuel Allowance</label>
-                                    <input type="number" name="fuelAllowance" value={payrollData.fuelAllowance} onChange={e => handleChange('fuelAllowance', e.target.value)} className="w-full p-3 border rounded-xl" placeholder="LKR 0.00" />
-                                </div>
-                                <div>
-                                    <label className="block text-sm font-medium text-gray-700 mb-1">3. Mobile Allowance</label>
-                                    <input type="number" name="mobileAllowance" value={payrollData.mobileAllowance} onChange={e => handleChange('mobileAllowance', e.target.value)} className="w-full p-3 border rounded-xl" placeholder="LKR 0.00" />
-                                </div>
-                                
-                                {/* Variable Expenses */}
-                                <div className="pt-2 border-t">
-                                    <label className="block text-sm font-medium text-gray-700 mb-1">4. Meal Allowance/Expenses</label>
-                                    <input type="number" name="mealExpenses" value={payrollData.mealExpenses} onChange={e => handleChange('mealExpenses', e.target.value)} className="w-full p-3 border rounded-xl" placeholder="LKR 0.00" />
-                                </div>
-                                <div>
-                                    <label className="block text-sm font-medium text-gray-700 mb-1">5. Other Expenses/BOI/Extra</label>
-                                    <input type="number" name="otherExpenses" value={payrollData.otherExpenses} onChange={e => handleChange('otherExpenses', e.target.value)} className="w-full p-3 border rounded-xl" placeholder="LKR 0.00" />
-                                </div>
-                                
-                                {/* 🌟 FINE REIMBURSEMENT FIELD (READ-ONLY) 🌟 */}
-                                <div className="pt-2 border-t">
-                                    <label className="block text-sm font-medium text-green-700 mb-1 flex items-center">
-                                        <DollarSign className="w-4 h-4 mr-1"/> 6. Fine Claims Reimbursement
-                                    </label>
-                                    <input 
-                                        type="number" 
-                                        name="fineReimbursement" 
-                                        value={payrollData.fineReimbursement} 
-                                        readOnly 
-                                        className="w-full p-3 border rounded-xl bg-green-50 font-bold text-green-800" 
-                                        placeholder="LKR 0.00" 
-                                    />
-                                    <p className="text-xs text-green-600 mt-1">This amount is automatically pulled from **settled claims** and added to pay.</p>
-                                </div>
+                                {calculation && payrollData && PAYROLL_LINES.map((line, i) => {
+                                    const overridden = (overrideInputs[line] ?? '').trim() !== '' && payrollData[line] !== calculation.computed[line];
+                                    return (
+                                        <div key={line} className={line === 'mealExpenses' || line === 'fineReimbursement' ? 'pt-2 border-t' : ''}>
+                                            <label className="block text-sm font-medium text-gray-700 mb-1">{i + 1}. {PAYROLL_LINE_LABELS[line]}</label>
+                                            <div className="flex gap-2">
+                                                <input
+                                                    type="number"
+                                                    name={line}
+                                                    value={overrideInputs[line] ?? ''}
+                                                    onChange={e => handleOverrideChange(line, e.target.value)}
+                                                    disabled={!isEditable}
+                                                    className={`w-full p-3 border rounded-xl ${overridden ? 'border-orange-400 bg-orange-50 font-bold text-orange-800' : ''}`}
+                                                    placeholder={`LKR ${calculation.computed[line].toLocaleString(undefined, { minimumFractionDigits: 2 })}`}
+                                                />
+                                                {isEditable && overrideInputs[line] !== undefined && (
+                                                    <button onClick={() => handleResetLine(line)} className="p-3 border rounded-xl text-gray-500 hover:bg-gray-50" title="Use the computed figure"><RotateCcw className="w-4 h-4"/></button>
+                                                )}
+                                            </div>
+                                            <p className="text-xs text-gray-500 mt-1">
+                                                Computed: LKR {calculation.computed[line].toLocaleString(undefined, { minimumFractionDigits: 2 })} ({describePayrollLine(line, calculation.basis, rates)})
+                                                {overridden && <span className="text-orange-700 font-medium"> · overridden</span>}
+                                            </p>
+                                        </div>
+                                    );
+                                })}
+
+                                {carriedAdjustments.length > 0 && (
+                                    <div className="pt-2 border-t">
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">7. Adjustments from Locked Months</label>
+                                        {carriedAdjustments.map(a => (
+                                            <div key={a.id} className="flex justify-between text-sm text-gray-700">
+                                                <span>{a.sourcePeriod} {PAYROLL_LINE_LABELS[a.line]}: {a.reason}</span>
+                                                <span className={`font-medium ${a.amount < 0 ? 'text-red-600' : 'text-green-700'}`}>LKR {a.amount.toLocaleString()}</span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
+                                {/* Statutory deductions on this entry, under the rules in force for the month */}
+                                {deductions && (
+                                    <div className="pt-2 border-t text-sm">
+                                        <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center">
+                                            <Landmark className="w-4 h-4 mr-1"/> Deductions (rules from {deductions.effectiveFrom})
+                                        </label>
+                                        <div className="p-3 border rounded-xl bg-gray-50 space-y-1 text-gray-700">
+                                            <div className="flex justify-between"><span>Gross Pay</span><span className="font-medium">{formatLkr(deductions.grossPay)}</span></div>
+                                            <div className="flex justify-between"><span>EPF Employee ({ruleSet?.epfEmployeePercent}% of {formatLkr(deductions.contributionBase)})</span><span className="text-red-600">- {formatLkr(deductions.epfEmployee)}</span></div>
+                                            <div className="flex justify-between"><span>APIT (on {formatLkr(deductions.taxableBase)})</span><span className="text-red-600">- {formatLkr(deductions.apit)}</span></div>
+                                            <div className="flex justify-between font-bold border-t pt-1"><span>Net Pay</span><span>{formatLkr(deductions.netPay)}</span></div>
+                                            <div className="flex justify-between text-xs text-gray-500 pt-1"><span>Employer EPF {ruleSet?.epfEmployerPercent}% + ETF {ruleSet?.etfEmployerPercent}%</span><span>{formatLkr(deductions.epfEmployer + deductions.etfEmployer)}</span></div>
+                                            <div className="flex justify-between text-xs text-gray-500"><span>Employer Cost</span><span>{formatLkr(deductions.employerCost)}</span></div>
+                                        </div>
+                                    </div>
+                                )}
+
+                                {/* Duty hours from trip start/end times, saved with the record */}
+                                {periodDuty && (
+                                    <div className="pt-2 border-t">
+                                        <label className="block text-sm font-medium text-gray-700 mb-1 flex items-center">
+                                            <Clock className="w-4 h-4 mr-1"/> Duty Hours
+                                        </label>
+                                        <div className="p-3 border rounded-xl bg-gray-50 text-sm text-gray-800">
+                                            {periodDuty.dutyHours} h over {periodDuty.days} day(s) · <span className={periodDuty.overtimeHours > 0 ? 'font-bold text-orange-700' : ''}>{periodDuty.overtimeHours} h overtime</span>
+                                        </div>
+                                        <p className="text-xs text-gray-500 mt-1">Overtime is duty above {dutySettings.standardDailyHours} h in a day.</p>
+                                    </div>
+                                )}
 
                                 {/* 🌟 PRIMARY ACTION SAVE BUTTON (FIX) 🌟 */}
                                 <div className="pt-4 mt-4 border-t">
-                                    <button onClick={handleSavePayroll} className="bg-blue-600 text-white w-full py-3 rounded-xl font-medium hover:bg-blue-700 flex items-center justify-center gap-2 shadow-md">
+                                    <button onClick={handleSavePayroll} disabled={!isEditable} className="bg-blue-600 text-white w-full py-3 rounded-xl font-medium hover:bg-blue-700 flex items-center justify-center gap-2 shadow-md disabled:opacity-50">
                                         <Save className="w-5 h-5"/> Save Current Period Data
                                     </button>
                                 </div>
@@ -435,6 +1132,189 @@ export function DriverPayrollManagement({ user, onNavigate, onLogout }: DriverPa
                     </div>
                 </div>
             </div>
+
+            {/* Payroll Rates Modal: the figures every driver's month is computed with */}
+            {showRatesModal && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <Card className="w-full max-w-md p-6 animate-in fade-in zoom-in duration-200">
+                        <div className="flex justify-between items-start mb-2">
+                            <h3 className="text-xl font-bold">Payroll Rates</h3>
+                            <button onClick={() => setShowRatesModal(false)} className="p-1 text-gray-400 hover:text-gray-700"><X className="w-5 h-5"/></button>
+                        </div>
+                        <p className="text-gray-500 text-sm mb-4">Used to compute every driver's month. Saved records keep the figures they were saved with.</p>
+                        <div className="space-y-3">
+                            {RATE_FIELDS.map(([key, label]) => (
+                                <div key={key}>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                                    <input type="number" min="0" value={rateInputs[key]} onChange={e => setRateInputs({ ...rateInputs, [key]: e.target.value })} className="w-full p-2 border border-gray-300 rounded-xl" />
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex gap-3 mt-6">
+                            <button onClick={() => setShowRatesModal(false)} className="flex-1 py-2.5 border rounded-xl hover:bg-gray-50 font-medium">Cancel</button>
+                            <button onClick={handleSaveRates} className="flex-1 py-2.5 bg-[#2563EB] text-white rounded-xl hover:bg-blue-700 font-medium shadow-sm">Save Rates</button>
+                        </div>
+                    </Card>
+                </div>
+            )}
+
+            {/* Bank File Layout Modal */}
+            {bankForm && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <Card className="w-full max-w-2xl p-6 max-h-[90vh] overflow-y-auto animate-in fade-in zoom-in duration-200">
+                        <div className="flex justify-between items-start mb-2">
+                            <h3 className="text-xl font-bold">Bank File Layout</h3>
+                            <button onClick={() => setBankForm(null)} className="p-1 text-gray-400 hover:text-gray-700"><X className="w-5 h-5"/></button>
+                        </div>
+                        <p className="text-gray-500 text-sm mb-4">One record per driver paid, in the column order below, followed by a control record with the record count and control total.</p>
+
+                        <div className="grid grid-cols-2 gap-4 mb-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+                                <select value={bankForm.format} onChange={e => setBankForm({ ...bankForm, format: e.target.value as BankTransferSettings['format'] })} className="w-full p-2 border border-gray-300 rounded-xl">
+                                    <option value="csv">CSV</option>
+                                    <option value="fixed-width">Fixed width</option>
+                                </select>
+                            </div>
+                            {bankForm.format === 'csv' ? (
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Delimiter</label>
+                                    <input type="text" maxLength={1} value={bankForm.delimiter} onChange={e => setBankForm({ ...bankForm, delimiter: e.target.value })} className="w-full p-2 border border-gray-300 rounded-xl" />
+                                    <label className="text-sm text-gray-700 flex items-center gap-2 mt-2">
+                                        <input type="checkbox" checked={bankForm.includeHeader} onChange={e => setBankForm({ ...bankForm, includeHeader: e.target.checked })} /> Header row
+                                    </label>
+                                </div>
+                            ) : <div />}
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Reference</label>
+                                <input type="text" value={bankForm.reference} onChange={e => setBankForm({ ...bankForm, reference: e.target.value })} className="w-full p-2 border border-gray-300 rounded-xl" placeholder="SALARY {period}" />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Debit Account Number</label>
+                                <input type="text" value={bankForm.debitAccountNumber} onChange={e => setBankForm({ ...bankForm, debitAccountNumber: e.target.value })} className="w-full p-2 border border-gray-300 rounded-xl" />
+                            </div>
+                        </div>
+
+                        <div className="text-sm font-medium text-gray-700 mb-2">Columns</div>
+                        <div className="space-y-2">
+                            {bankForm.columns.map((column, i) => (
+                                <div key={i} className="flex gap-2 items-center text-sm">
+                                    <span className="w-6 text-gray-400">{i + 1}.</span>
+                                    <select value={column.field} onChange={e => updateBankColumn(i, { field: e.target.value as BankTransferField })} className="flex-1 p-2 border border-gray-300 rounded-xl">
+                                        {(Object.keys(BANK_TRANSFER_FIELD_LABELS) as BankTransferField[]).map(field => <option key={field} value={field}>{BANK_TRANSFER_FIELD_LABELS[field]}</option>)}
+                                    </select>
+                                    {bankForm.format === 'fixed-width' && (
+                                        <>
+                                            <input type="number" min="1" value={column.width} onChange={e => updateBankColumn(i, { width: Number(e.target.value) })} className="w-20 p-2 border border-gray-300 rounded-xl" title="Width" />
+                                            <select value={column.align} onChange={e => updateBankColumn(i, { align: e.target.value as 'left' | 'right' })} className="w-24 p-2 border border-gray-300 rounded-xl">
+                                                <option value="left">Left</option>
+                                                <option value="right">Right</option>
+                                            </select>
+                                        </>
+                                    )}
+                                    <button onClick={() => setBankForm({ ...bankForm, columns: bankForm.columns.filter((_, j) => j !== i) })} className="p-1 text-gray-400 hover:text-red-600"><X className="w-4 h-4"/></button>
+                                </div>
+                            ))}
+                            <button onClick={() => setBankForm({ ...bankForm, columns: [...bankForm.columns, { field: 'reference', width: 10, align: 'left' }] })} className="text-sm text-blue-600 hover:underline">Add column</button>
+                        </div>
+
+                        <div className="flex gap-3 mt-6">
+                            <button onClick={() => setBankForm(null)} className="flex-1 py-2.5 border rounded-xl hover:bg-gray-50 font-medium">Cancel</button>
+                            <button onClick={handleSaveBankSettings} className="flex-1 py-2.5 bg-[#2563EB] text-white rounded-xl hover:bg-blue-700 font-medium shadow-sm">Save Layout</button>
+                        </div>
+                    </Card>
+                </div>
+            )}
+
+            {/* Statutory Rules Modal: EPF/ETF/APIT rule sets by effective month */}
+            {showStatutoryModal && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <Card className="w-full max-w-2xl p-6 max-h-[90vh] overflow-y-auto animate-in fade-in zoom-in duration-200">
+                        <div className="flex justify-between items-start mb-2">
+                            <h3 className="text-xl font-bold">Statutory Rules</h3>
+                            <button onClick={() => { setShowStatutoryModal(false); setRuleForm(null); }} className="p-1 text-gray-400 hover:text-gray-700"><X className="w-5 h-5"/></button>
+                        </div>
+                        <p className="text-gray-500 text-sm mb-4">Each payroll month uses the latest rule set in force. Saved records keep the deductions they were saved with.</p>
+
+                        {!ruleForm ? (
+                            <>
+                                <div className="space-y-2 mb-4">
+                                    {[...statutoryRules].sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom)).map(rule => (
+                                        <div key={rule.effectiveFrom} className={`p-3 border rounded-xl flex justify-between items-center ${rule.effectiveFrom === ruleSet?.effectiveFrom ? 'border-blue-400 bg-blue-50' : ''}`}>
+                                            <div className="text-sm">
+                                                <div className="font-bold">From {rule.effectiveFrom}{rule.effectiveFrom === ruleSet?.effectiveFrom ? ` (applies to ${currentPeriod})` : ''}</div>
+                                                <div className="text-xs text-gray-500">EPF {rule.epfEmployeePercent}% + {rule.epfEmployerPercent}%, ETF {rule.etfEmployerPercent}% on {rule.contributionLines.map(l => PAYROLL_LINE_LABELS[l]).join(', ')} · APIT {rule.apitEnabled ? `${rule.apitBands.length} slab(s)` : 'off'}</div>
+                                            </div>
+                                            <div className="flex gap-2">
+                                                <button onClick={() => handleEditRuleSet(rule)} className="text-sm text-blue-600 hover:underline">Edit</button>
+                                                <button onClick={() => handleDeleteRuleSet(rule.effectiveFrom)} className="text-sm text-red-600 hover:underline">Delete</button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                                <button onClick={() => handleEditRuleSet(null)} className="w-full py-2.5 bg-[#2563EB] text-white rounded-xl hover:bg-blue-700 font-medium shadow-sm">New Rule Set</button>
+                            </>
+                        ) : (
+                            <div className="space-y-4">
+                                <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-700 mb-1">Effective From</label>
+                                        <input type="month" value={ruleForm.effectiveFrom} onChange={e => setRuleForm({ ...ruleForm, effectiveFrom: e.target.value })} className="w-full p-2 border border-gray-300 rounded-xl" />
+                                    </div>
+                                    {([
+                                        ['epfEmployeePercent', 'EPF Employee (%)'],
+                                        ['epfEmployerPercent', 'EPF Employer (%)'],
+                                        ['etfEmployerPercent', 'ETF Employer (%)'],
+                                    ] as ['epfEmployeePercent' | 'epfEmployerPercent' | 'etfEmployerPercent', string][]).map(([key, label]) => (
+                                        <div key={key}>
+                                            <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                                            <input type="number" min="0" step="0.5" value={ruleForm[key]} onChange={e => setRuleForm({ ...ruleForm, [key]: Number(e.target.value) })} className="w-full p-2 border border-gray-300 rounded-xl" />
+                                        </div>
+                                    ))}
+                                </div>
+
+                                {([['contributionLines', 'EPF / ETF earnings'], ['apitLines', 'APIT taxable earnings']] as ['contributionLines' | 'apitLines', string][]).map(([key, label]) => (
+                                    <div key={key}>
+                                        <div className="text-sm font-medium text-gray-700 mb-1">{label}</div>
+                                        <div className="flex flex-wrap gap-3">
+                                            {PAYROLL_LINES.map(line => (
+                                                <label key={line} className="text-sm text-gray-700 flex items-center gap-1">
+                                                    <input type="checkbox" checked={ruleForm[key].includes(line)} onChange={() => toggleRuleLine(key, line)} /> {PAYROLL_LINE_LABELS[line]}
+                                                </label>
+                                            ))}
+                                        </div>
+                                    </div>
+                                ))}
+
+                                <div>
+                                    <label className="text-sm font-medium text-gray-700 flex items-center gap-2 mb-2">
+                                        <input type="checkbox" checked={ruleForm.apitEnabled} onChange={e => setRuleForm({ ...ruleForm, apitEnabled: e.target.checked })} /> Deduct APIT (monthly slabs)
+                                    </label>
+                                    {ruleForm.apitEnabled && (
+                                        <div className="space-y-2">
+                                            {ruleForm.apitBands.map((band, i) => (
+                                                <div key={i} className="flex gap-2 items-center text-sm">
+                                                    <span className="w-20 text-gray-500">{i === 0 ? 'Up to' : 'Then to'}</span>
+                                                    <input type="number" min="0" value={band.upTo ?? ''} onChange={e => updateBand(i, { upTo: e.target.value === '' ? null : Number(e.target.value) })} className="flex-1 p-2 border border-gray-300 rounded-xl" placeholder="No limit" />
+                                                    <input type="number" min="0" step="0.5" value={band.ratePercent} onChange={e => updateBand(i, { ratePercent: Number(e.target.value) })} className="w-24 p-2 border border-gray-300 rounded-xl" />
+                                                    <span className="text-gray-500">%</span>
+                                                    <button onClick={() => setRuleForm({ ...ruleForm, apitBands: ruleForm.apitBands.filter((_, j) => j !== i) })} className="p-1 text-gray-400 hover:text-red-600"><X className="w-4 h-4"/></button>
+                                                </div>
+                                            ))}
+                                            <button onClick={() => setRuleForm({ ...ruleForm, apitBands: [...ruleForm.apitBands, { upTo: null, ratePercent: 0 }] })} className="text-sm text-blue-600 hover:underline">Add slab</button>
+                                        </div>
+                                    )}
+                                </div>
+
+                                <div className="flex gap-3 mt-6">
+                                    <button onClick={() => setRuleForm(null)} className="flex-1 py-2.5 border rounded-xl hover:bg-gray-50 font-medium">Back</button>
+                                    <button onClick={handleSaveRuleSet} className="flex-1 py-2.5 bg-[#2563EB] text-white rounded-xl hover:bg-blue-700 font-medium shadow-sm">Save Rule Set</button>
+                                </div>
+                            </div>
+                        )}
+                    </Card>
+                </div>
+            )}
         </div>
     );
 }
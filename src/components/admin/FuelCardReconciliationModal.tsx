@@ -0,0 +1,255 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, CreditCard, Loader2, Save, Upload, X } from 'lucide-react';
+import { User } from '../../App';
+import { Card } from '../shared/Card';
+import { DEFAULT_FUEL_CARD_SETTINGS, FuelLogRepository, SettingsRepository } from '../../repositories';
+import { logAction } from '../../utils/auditLogger';
+import { FUEL_CARD_DATE_FORMATS, FuelCardReconciliation, parseCsv, readCardTransactions, reconcileFuelCard } from '../../utils/fuelCardImport';
+import { FuelCardColumnMapping, FuelCardDateFormat, FuelCardSettings } from '../../types';
+
+interface FuelCardReconciliationModalProps {
+    user: User;
+    onClose: () => void;
+}
+
+const MAPPED_FIELDS: { key: keyof Omit<FuelCardColumnMapping, 'dateFormat'>; label: string; required: boolean }[] = [
+    { key: 'vehicleNumber', label: 'Vehicle Number', required: true },
+    { key: 'date', label: 'Transaction Date', required: true },
+    { key: 'amount', label: 'Amount (LKR)', required: true },
+    { key: 'liters', label: 'Liters', required: false },
+    { key: 'reference', label: 'Reference / Receipt No', required: false },
+];
+
+// Matches a fuel card statement CSV against fuel_logs; finance accepts the matches in bulk
+export function FuelCardReconciliationModal({ user, onClose }: FuelCardReconciliationModalProps) {
+    const [settings, setSettings] = useState<FuelCardSettings>(DEFAULT_FUEL_CARD_SETTINGS);
+    const [fileName, setFileName] = useState('');
+    const [rows, setRows] = useState<string[][]>([]);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [result, setResult] = useState<FuelCardReconciliation | null>(null);
+    const [selected, setSelected] = useState<Set<string>>(new Set()); // fuel log ids of matches to accept
+    const [working, setWorking] = useState(false);
+
+    useEffect(() => {
+        SettingsRepository.getFuelCard().then(setSettings).catch(error => console.error("Error loading fuel card settings:", error));
+    }, []);
+
+    const headers = rows[0] || [];
+
+    const updateMapping = (patch: Partial<FuelCardColumnMapping>) => {
+        setSettings(prev => ({ ...prev, mapping: { ...prev.mapping, ...patch } }));
+        setResult(null);
+    };
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        try {
+            setRows(parseCsv(await file.text()));
+            setFileName(file.name);
+            setResult(null);
+            setErrors([]);
+        } catch (error) {
+            console.error("Error reading statement:", error);
+            alert("The file could not be read. Please upload the statement as CSV.");
+        }
+    };
+
+    const runMatch = async () => {
+        const { transactions, errors: readErrors } = readCardTransactions(rows, settings.mapping);
+        setErrors(readErrors);
+        if (transactions.length === 0) {
+            setResult(null);
+            return;
+        }
+        setWorking(true);
+        try {
+            const reconciliation = reconcileFuelCard(transactions, await FuelLogRepository.listAll(), settings);
+            setResult(reconciliation);
+            setSelected(new Set(reconciliation.matches.map(m => m.log.id)));
+        } catch (error) {
+            console.error("Error matching fuel card statement:", error);
+            alert("Failed to load fuel logs for matching.");
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleSaveSettings = async () => {
+        try {
+            await SettingsRepository.updateFuelCard(settings);
+            await logAction(user.email, 'FUEL_CARD_MAPPING_UPDATE', `Fuel card column mapping saved: ${JSON.stringify(settings.mapping)}`, { targetId: 'fuelCard' });
+            alert("Column mapping saved.");
+        } catch (error) {
+            console.error("Error saving fuel card settings:", error);
+            alert("Failed to save the column mapping.");
+        }
+    };
+
+    const handleAccept = async () => {
+        if (!result) return;
+        const accepted = result.matches.filter(m => selected.has(m.log.id));
+        if (accepted.length === 0) return;
+        setWorking(true);
+        try {
+            const reconciledAt = new Date().toISOString();
+            for (const match of accepted) {
+                await FuelLogRepository.update(match.log.id, {
+                    cardTransaction: match.transaction,
+                    reconciledBy: user.name || user.email,
+                    reconciledAt,
+                });
+            }
+            await logAction(user.email, 'FUEL_CARD_RECONCILED',
+                `Reconciled ${accepted.length} fuel card transaction(s) from ${fileName} against fuel logs.`,
+                { targetId: fileName, logIds: accepted.map(m => m.log.id) }
+            );
+            alert(`${accepted.length} fuel log(s) reconciled.`);
+        } catch (error) {
+            console.error("Error accepting fuel card matches:", error);
+            alert("Some matches could not be saved. Run the match again to see what is left.");
+        } finally {
+            setWorking(false);
+        }
+        await runMatch();
+    };
+
+    const toggle = (logId: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(logId)) next.delete(logId); else next.add(logId);
+            return next;
+        });
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <Card className="w-full max-w-5xl p-6 max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center mb-1">
+                    <h3 className="text-xl font-bold flex items-center gap-2 text-blue-600"><CreditCard className="w-6 h-6"/> Fuel Card Reconciliation</h3>
+                    <button onClick={onClose} className="text-gray-500 hover:text-blue-700 p-1 rounded-full hover:bg-blue-50"><X className="w-6 h-6"/></button>
+                </div>
+                <p className="text-sm text-gray-500 mb-4">Upload the card statement as CSV, map its columns, and match each transaction to a logged fill by vehicle, date and amount.</p>
+
+                <label className="inline-flex px-4 py-2 border border-gray-300 rounded-xl items-center gap-2 text-gray-700 cursor-pointer hover:bg-gray-50 mb-4">
+                    <Upload className="w-4 h-4"/> {fileName || 'Choose Statement CSV'}
+                    <input type="file" accept=".csv,text/csv" className="hidden" onChange={e => handleFile(e.target.files?.[0])} />
+                </label>
+
+                {headers.length > 0 && (
+                    <div className="border rounded-xl p-4 mb-4">
+                        <h4 className="font-semibold text-gray-800 mb-3">Column Mapping <span className="text-xs text-gray-500 font-normal">({rows.length - 1} lines)</span></h4>
+                        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                            {MAPPED_FIELDS.map(field => (
+                                <div key={field.key}>
+                                    <label className="block text-xs font-semibold text-gray-700 mb-1">{field.label}{field.required && ' *'}</label>
+                                    <select className="w-full p-2 border rounded-lg text-sm" value={settings.mapping[field.key]} onChange={e => updateMapping({ [field.key]: e.target.value })}>
+                                        <option value="">{field.required ? '-- Select column --' : '-- Not in file --'}</option>
+                                        {!headers.includes(settings.mapping[field.key]) && settings.mapping[field.key] && <option value={settings.mapping[field.key]}>{settings.mapping[field.key]} (not found)</option>}
+                                        {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                                    </select>
+                                </div>
+                            ))}
+                            <div>
+                                <label className="block text-xs font-semibold text-gray-700 mb-1">Date Format</label>
+                                <select className="w-full p-2 border rounded-lg text-sm" value={settings.mapping.dateFormat} onChange={e => updateMapping({ dateFormat: e.target.value as FuelCardDateFormat })}>
+                                    {FUEL_CARD_DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-xs font-semibold text-gray-700 mb-1">Amount Tolerance (LKR)</label>
+                                <input type="number" min={0} className="w-full p-2 border rounded-lg text-sm" value={settings.amountToleranceLkr} onChange={e => { setSettings({ ...settings, amountToleranceLkr: Number(e.target.value) || 0 }); setResult(null); }} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-semibold text-gray-700 mb-1">Date Tolerance (days)</label>
+                                <input type="number" min={0} className="w-full p-2 border rounded-lg text-sm" value={settings.dateToleranceDays} onChange={e => { setSettings({ ...settings, dateToleranceDays: Number(e.target.value) || 0 }); setResult(null); }} />
+                            </div>
+                        </div>
+                        <div className="flex gap-3 mt-4">
+                            <button onClick={handleSaveSettings} className="px-4 py-2 border border-gray-300 text-gray-700 rounded-xl flex items-center gap-2 hover:bg-gray-50 text-sm"><Save className="w-4 h-4"/> Save Mapping</button>
+                            <button onClick={runMatch} disabled={working} className="px-4 py-2 bg-[#2563EB] text-white rounded-xl flex items-center gap-2 hover:bg-blue-700 text-sm disabled:opacity-50">
+                                {working ? <Loader2 className="w-4 h-4 animate-spin"/> : <CheckCircle className="w-4 h-4"/>} Match Transactions
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                {errors.length > 0 && (
+                    <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 mb-4">
+                        <p className="font-semibold mb-1">{errors.length} line(s) could not be read</p>
+                        <ul className="list-disc ml-5 max-h-32 overflow-y-auto">{errors.map(e => <li key={e}>{e}</li>)}</ul>
+                    </div>
+                )}
+
+                {result && (
+                    <div className="space-y-6">
+                        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-center">
+                            <div className="p-3 bg-green-50 rounded-xl"><div className="text-2xl font-bold text-green-700">{result.matches.length}</div><div className="text-xs text-gray-600">Matched</div></div>
+                            <div className="p-3 bg-red-50 rounded-xl"><div className="text-2xl font-bold text-red-700">{result.unmatchedTransactions.length}</div><div className="text-xs text-gray-600">Unmatched Card Transactions</div></div>
+                            <div className="p-3 bg-orange-50 rounded-xl"><div className="text-2xl font-bold text-orange-700">{result.unmatchedLogs.length}</div><div className="text-xs text-gray-600">Unmatched Fuel Logs</div></div>
+                            <div className="p-3 bg-gray-50 rounded-xl"><div className="text-2xl font-bold text-gray-700">{result.alreadyReconciled.length}</div><div className="text-xs text-gray-600">Already Reconciled</div></div>
+                        </div>
+
+                        {result.matches.length > 0 && (
+                            <div>
+                                <div className="flex justify-between items-center mb-2">
+                                    <h4 className="font-semibold text-gray-800">Matches</h4>
+                                    <button onClick={handleAccept} disabled={working || selected.size === 0} className="px-4 py-2 bg-green-600 text-white rounded-xl text-sm flex items-center gap-2 hover:bg-green-700 disabled:opacity-50">
+                                        <CheckCircle className="w-4 h-4"/> Accept {selected.size} Match(es)
+                                    </button>
+                                </div>
+                                <table className="w-full text-sm divide-y divide-gray-200">
+                                    <thead className="bg-gray-50">
+                                        <tr>
+                                            <th className="px-2 py-2"><input type="checkbox" checked={selected.size === result.matches.length} onChange={e => setSelected(new Set(e.target.checked ? result.matches.map(m => m.log.id) : []))} /></th>
+                                            <th className="px-2 py-2 text-left text-xs text-gray-500 uppercase">Row</th>
+                                            <th className="px-2 py-2 text-left text-xs text-gray-500 uppercase">Vehicle</th>
+                                            <th className="px-2 py-2 text-left text-xs text-gray-500 uppercase">Card (Date / LKR)</th>
+                                            <th className="px-2 py-2 text-left text-xs text-gray-500 uppercase">Fuel Log (Date / LKR / L)</th>
+                                            <th className="px-2 py-2 text-left text-xs text-gray-500 uppercase">Difference</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-100">
+                                        {result.matches.map(m => (
+                                            <tr key={m.log.id}>
+                                                <td className="px-2 py-2 text-center"><input type="checkbox" checked={selected.has(m.log.id)} onChange={() => toggle(m.log.id)} /></td>
+                                                <td className="px-2 py-2 text-gray-500">{m.transaction.row}</td>
+                                                <td className="px-2 py-2 font-medium">{m.log.vehicleNumber}</td>
+                                                <td className="px-2 py-2">{m.transaction.date} / {m.transaction.amount.toLocaleString()}{m.transaction.reference && <div className="text-xs text-gray-500">Ref: {m.transaction.reference}</div>}</td>
+                                                <td className="px-2 py-2">{m.log.date} / {Number(m.log.cost).toLocaleString()} / {m.log.liters} L{m.log.status === 'pending' && <div className="text-xs text-orange-600">Awaiting verification</div>}</td>
+                                                <td className={`px-2 py-2 ${m.amountDiff !== 0 || m.dayDiff > 0 ? 'text-orange-600' : 'text-gray-500'}`}>
+                                                    {m.amountDiff === 0 && m.dayDiff === 0 ? 'Exact' : `LKR ${m.amountDiff}, ${m.dayDiff} day(s)`}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        )}
+
+                        {result.unmatchedTransactions.length > 0 && (
+                            <div>
+                                <h4 className="font-semibold text-red-700 mb-2">Card Transactions With No Fuel Log</h4>
+                                <div className="space-y-1">
+                                    {result.unmatchedTransactions.map(t => (
+                                        <div key={t.row} className="text-sm p-2 bg-red-50 rounded-lg">Row {t.row}: <span className="font-medium">{t.vehicleNumber}</span> on {t.date}, LKR {t.amount.toLocaleString()}{t.liters !== null && `, ${t.liters} L`}{t.reference && ` (Ref: ${t.reference})`}</div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {result.unmatchedLogs.length > 0 && (
+                            <div>
+                                <h4 className="font-semibold text-orange-700 mb-2">Fuel Logs Not On The Statement</h4>
+                                <div className="space-y-1">
+                                    {result.unmatchedLogs.map(log => (
+                                        <div key={log.id} className="text-sm p-2 bg-orange-50 rounded-lg"><span className="font-medium">{log.vehicleNumber}</span> on {log.date}, LKR {Number(log.cost).toLocaleString()}, {log.liters} L. Logged by {log.loggedBy || 'N/A'}</div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+            </Card>
+        </div>
+    );
+}
@@ -1,7 +1,11 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
 import { MapPin, Calendar, Clock, Car, Check, Navigation, ArrowRight, Search, Map as MapIcon, X, Plus, Trash2, ArrowDownUp, Loader2, Building2, Users, UserPlus, Send, AlertCircle } from 'lucide-react';
-import { db } from '../../firebase';
-import { collection, addDoc, query, getDocs, where } from 'firebase/firestore';
+import { DriverRepository, TripRepository, VehicleRepository } from '../../repositories';
+import { nextSerialNumber } from '../../utils/serialNumbers';
+import { getReturnLegKm, priceTrip, quoteToTripPatch, TariffTripInput } from '../../utils/tariffs';
+import { routeThrough } from '../../routing';
+import { ASSIGNED_TRIP_STATUSES } from '../../utils/tripTransitions';
+import { BusyIntervals, buildBusyIntervals, getBookingWindow, getDriverAvailability, getVehicleAvailability, previousDateKey } from '../../utils/availability';
 import { logAction } from '../../utils/auditLogger'; // 💥 LOG ACTION IMPORTED
 
 // Note: Assuming 'Card' and 'Badge' components are available from shared/
@@ -43,16 +47,6 @@ const SPECIAL_LOCATIONS = [
     { display_name: "Eskimo Fashion Knitwear - Negombo (Main)", keywords: ["eskimo", "fashion", "knitwear", "negombo", "main", "kadirana"], lat: "7.2008", lon: "79.8737", type: "special" },
 ];
 
-// Mock/Simple Serial Number Generator
-const generateNextSerialNumber = async (prefix: string): Promise<string> => {
-    // Unique, timestamp-based ID for client-side admin booking
-    const now = new Date();
-    const datePart = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
-    const timePart = `${String(now.getHours()).padStart(2, '0')}${String(now.getMinutes()).padStart(2, '0')}${String(now.getSeconds()).padStart(2, '0')}`;
-    const mockIncrement = String(Math.floor(Math.random() * 900) + 100); 
-    return `ATR-${datePart}${timePart}${mockIncrement}`; // ATR = Admin Trip Request
-};
-
 // Helper: Fix Map View
 function ChangeView({ center, zoom }: { center: [number, number], zoom: number }) {
     const map = useMap();
@@ -114,8 +108,7 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
     const [error, setError] = useState('');
     
     // Vehicle/Driver Availability State
-    const [bookedVehicleIds, setBookedVehicleIds] = useState<string[]>([]);
-    const [bookedDriverIds, setBookedDriverIds] = useState<string[]>([]);
+    const [busyIntervals, setBusyIntervals] = useState<BusyIntervals>({ byVehicle: {}, byDriver: {} });
     const [checkingAvailability, setCheckingAvailability] = useState(false);
     
     // Form State
@@ -149,6 +142,7 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
         driverId: '', 
         distanceText: '',
         distanceValueKm: 0,
+        returnKm: 0, // last stop back to pickup, for tariffs that charge the empty return
         estimatedCost: 0,
     });
     
@@ -188,28 +182,23 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
         const fetchData = async () => {
             try {
                 // Fetch Vehicles
-                const qVehicles = query(collection(db, "vehicles"));
-                const querySnapshotVehicles = await getDocs(qVehicles);
-                const vehicleData = querySnapshotVehicles.docs.map(doc => ({
-                    id: doc.id,
-                    ...doc.data(),
-                    ratePerKm: Number(doc.data().ratePerKm || 0),
-                    seats: Number(doc.data().seats || 0),
-                    status: doc.data().status || 'available', 
+                const vehicleData = (await VehicleRepository.listAll()).map(v => ({
+                    ...v,
+                    ratePerKm: Number(v.ratePerKm || 0),
+                    seats: Number(v.seats || 0),
+                    status: v.status || 'available', 
                     // 💥 Vehicle requires 'licenseTypeRequired' field for filtering (assuming 'licenseType' field on vehicle document)
-                    licenseTypeRequired: doc.data().licenseType || 'B', 
+                    licenseTypeRequired: v.licenseType || 'B', 
                 }));
                 setAllVehicles(vehicleData);
 
                 // 💥 Fetch Drivers from the 'users' collection where role == 'driver' and map fields correctly
-                const qDrivers = query(collection(db, "users"), where("role", "==", "driver")); 
-                const querySnapshotDrivers = await getDocs(qDrivers);
-                const driverData = querySnapshotDrivers.docs.map(doc => ({
-                    id: doc.id,
-                    name: doc.data().fullName || 'N/A Driver', 
-                    phone: doc.data().phone || 'N/A',
-                    status: doc.data().driverStatus || doc.data().status || 'available', 
-                    licenseType: doc.data().licenseType || 'B', 
+                const driverData = (await DriverRepository.listAll()).map(d => ({
+                    id: d.id,
+                    name: d.fullName || 'N/A Driver', 
+                    phone: d.phone || 'N/A',
+                    status: d.driverStatus || d.status || 'available', 
+                    licenseType: d.licenseType || 'B', 
                 })) as Driver[];
                 setAllDrivers(driverData);
 
@@ -224,31 +213,23 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
     // 2. Check Trip Conflicts on Date Change (Vehicle AND Driver)
     useEffect(() => {
         if (!bookingDetails.date) {
-            setBookedVehicleIds([]);
-            setBookedDriverIds([]); 
+            setBusyIntervals({ byVehicle: {}, byDriver: {} });
             return;
         }
 
         setCheckingAvailability(true);
         const checkConflicts = async () => {
             try {
-                const q = query(
-                    collection(db, "trip_requests"),
-                    where("date", "==", bookingDetails.date),
-                    where("status", "in", ["approved", "in-progress", "reassigned"])
-                );
-                const querySnapshot = await getDocs(q);
-                
-                const lockedVehicleIds = querySnapshot.docs.map(doc => doc.data().vehicleId).filter(id => id);
-                setBookedVehicleIds(lockedVehicleIds);
-
-                const lockedDriverIds = querySnapshot.docs.map(doc => doc.data().driverId).filter(id => id);
-                setBookedDriverIds(lockedDriverIds);
+                // Include the previous day so overnight trips still block the early hours
+                const [sameDay, dayBefore] = await Promise.all([
+                    TripRepository.listOnDate(bookingDetails.date, ASSIGNED_TRIP_STATUSES),
+                    TripRepository.listOnDate(previousDateKey(bookingDetails.date), ASSIGNED_TRIP_STATUSES),
+                ]);
+                setBusyIntervals(buildBusyIntervals([...sameDay, ...dayBefore]));
 
             } catch (error) {
                 console.error("Error checking conflicts:", error);
-                setBookedVehicleIds([]);
-                setBookedDriverIds([]); 
+                setBusyIntervals({ byVehicle: {}, byDriver: {} });
             } finally {
                 setCheckingAvailability(false);
             }
@@ -259,29 +240,26 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
 
     }, [bookingDetails.date]);
 
+    // Period this booking will hold its vehicle and driver
+    const bookingWindow = useMemo(() => {
+        return getBookingWindow(bookingDetails.date, bookingDetails.time, bookingDetails.distanceValueKm);
+    }, [bookingDetails.date, bookingDetails.time, bookingDetails.distanceValueKm]);
+
 
-    // Helper: Filter vehicles based on passenger count AND date availability (Retained)
+    // Helper: Vehicles with enough seats, flagged with maintenance / time-window availability
     const getFilteredVehicles = useCallback(() => {
         if (passengers === 0) return [];
         
-        const available = allVehicles.filter(v => {
-            // 1. Capacity Check
-            if (v.seats < passengers) return false;
-
-            // 2. Maintenance Check
-            if (v.status === 'in-maintenance') return false;
-
-            // 3. Date Conflict Check
-            if (bookedVehicleIds.includes(v.id)) return false;
-
-            return true;
-        });
-        
-        return available;
-    }, [allVehicles, passengers, bookedVehicleIds]);
+        return allVehicles
+            .filter(v => v.seats >= passengers)
+            .map(v => {
+                const availability = getVehicleAvailability(v, bookingWindow, busyIntervals);
+                return { ...v, isAvailable: availability.available, blockedReason: availability.reason };
+            });
+    }, [allVehicles, passengers, bookingWindow, busyIntervals]);
 
 
-    // 💥 Helper function to filter drivers (Filters by status, date conflict, AND vehicle license)
+    // 💥 Helper function to filter drivers (Filters by status AND vehicle license, flags time-window conflicts)
     const getFilteredDrivers = useCallback(() => {
         const selectedVehicle = allVehicles.find(v => v.id === bookingDetails.vehicleId);
         const requiredLicenseType = selectedVehicle?.licenseTypeRequired;
@@ -290,17 +268,18 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
             // 1. Status Check (Must be 'approved' or 'available' from the user document)
             if (d.status !== 'approved' && d.status !== 'available') return false; 
             
-            // 2. Date Conflict Check (driver not assigned to an approved trip on this date)
-            if (bookedDriverIds.includes(d.id)) return false;
-
-            // 3. License Match Check (Only if a vehicle is selected and has a license type requirement)
+            // 2. License Match Check (Only if a vehicle is selected and has a license type requirement)
             if (requiredLicenseType && d.licenseType !== requiredLicenseType) {
                 return false;
             }
 
             return true;
+        }).map(d => {
+            // 3. Time-Window Conflict Check (driver not on another trip overlapping this booking)
+            const availability = getDriverAvailability(d, bookingWindow, busyIntervals);
+            return { ...d, isAvailable: availability.available, blockedReason: availability.reason };
         });
-    }, [allDrivers, bookedDriverIds, bookingDetails.vehicleId, allVehicles]);
+    }, [allDrivers, bookingWindow, busyIntervals, bookingDetails.vehicleId, allVehicles]);
     
     // --- Route & Location Handlers (Retained) ---
     const addStop = () => setStops([...stops, { id: Date.now(), address: '', coords: null }]);
@@ -402,19 +381,14 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
             return;
         }
 
-        const coordsUrl = [`${startCoords.lng},${startCoords.lat}`, ...validStops.map(s => `${s.coords!.lng},${s.coords!.lat}`)].join(';');
         try {
-            const response = await fetch(`https://router.project-osrm.org/route/v1/driving/${coordsUrl}?overview=full&geometries=geojson`);
-            const data = await response.json();
-            if (data.routes && data.routes.length > 0) {
-                const route = data.routes[0];
-                const km = (route.distance / 1000);
-                setBookingDetails(prev => ({ ...prev, distanceText: `${km.toFixed(1)} km`, distanceValueKm: km }));
-                const coordinates = route.geometry.coordinates.map((coord: number[]) => [coord[1], coord[0]]);
-                setRoutePolyline(coordinates);
-                setMapCenter([startCoords.lat, startCoords.lng]);
-                setMapZoom(11);
-            }
+            const route = await routeThrough([startCoords, ...validStops.map(s => s.coords)]);
+            const km = route.distanceKm;
+            const returnKm = await getReturnLegKm({ pickup: startCoords, lastStop: validStops[validStops.length - 1].coords });
+            setBookingDetails(prev => ({ ...prev, distanceText: `${km.toFixed(1)} km`, distanceValueKm: km, returnKm }));
+            setRoutePolyline(route.path);
+            setMapCenter([startCoords.lat, startCoords.lng]);
+            setMapZoom(11);
         } catch (error) { console.error("Routing error:", error); }
     };
     
@@ -508,14 +482,24 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
     };
     
     // --- Cost Calculation (Retained) ---
+    // Priced with the vehicle's tariff and the rate in force on the trip date
+    const tariffInput: TariffTripInput = useMemo(() => ({
+        date: bookingDetails.date,
+        time: bookingDetails.time,
+        distanceKm: bookingDetails.distanceValueKm,
+        returnKm: bookingDetails.returnKm,
+    }), [bookingDetails.date, bookingDetails.time, bookingDetails.distanceValueKm, bookingDetails.returnKm]);
+
+    const selectedQuote = useMemo(() => {
+        const vehicle = allVehicles.find(v => v.id === bookingDetails.vehicleId);
+        return vehicle && bookingDetails.distanceValueKm > 0 ? priceTrip(vehicle, tariffInput) : null;
+    }, [allVehicles, bookingDetails.vehicleId, bookingDetails.distanceValueKm, tariffInput]);
+
     useEffect(() => {
         if (bookingDetails.vehicleId && bookingDetails.distanceValueKm > 0) {
-            const vehicle = allVehicles.find(v => v.id === bookingDetails.vehicleId);
-            const rate = vehicle?.ratePerKm ? Number(vehicle.ratePerKm) : 0;
-            const cost = rate > 0 ? Math.round(bookingDetails.distanceValueKm * rate) : 0;
-            setBookingDetails(prev => ({ ...prev, estimatedCost: cost }));
+            setBookingDetails(prev => ({ ...prev, estimatedCost: selectedQuote?.total || 0 }));
         }
-    }, [bookingDetails.vehicleId, bookingDetails.distanceValueKm, allVehicles]);
+    }, [bookingDetails.vehicleId, bookingDetails.distanceValueKm, selectedQuote]);
 
     // --- Admin Booking Submission (MODIFIED with Audit Log) ---
     const handleAdminBooking = async () => {
@@ -527,7 +511,7 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
 
         setLoading(true);
         try {
-            const serialNumber = await generateNextSerialNumber('TRP'); 
+            const serialNumber = await nextSerialNumber('ATR'); // ATR = Admin Trip Request
 
             const vehicle = allVehicles.find(v => v.id === bookingDetails.vehicleId);
             const driver = allDrivers.find(d => d.id === bookingDetails.driverId);
@@ -559,7 +543,7 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
                 driverPhone: driver?.phone || 'N/A',
                 
                 distance: bookingDetails.distanceText,
-                cost: `LKR ${bookingDetails.estimatedCost}`,
+                ...(selectedQuote ? quoteToTripPatch(selectedQuote) : { cost: `LKR ${bookingDetails.estimatedCost}` }),
                 
                 // Set status to approved immediately
                 status: 'approved', 
@@ -568,7 +552,7 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
                 approvedAt: new Date().toISOString(),
             };
 
-            await addDoc(collection(db, "trip_requests"), tripData);
+            await TripRepository.create(tripData);
             
             // 💥 AUDIT LOG: Admin Quick Booking
             await logAction(
@@ -592,7 +576,7 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
             setPickup({ address: '', coords: null });
             setStops([{ id: Date.now(), address: '', coords: null }]);
             setPassengers(1);
-            setBookingDetails({ date: '', time: '', vehicleId: '', driverId: '', distanceText: '', distanceValueKm: 0, estimatedCost: 0 });
+            setBookingDetails({ date: '', time: '', vehicleId: '', driverId: '', distanceText: '', distanceValueKm: 0, returnKm: 0, estimatedCost: 0 });
             setCurrentStep(1); 
             
         } catch (err) {
@@ -604,8 +588,12 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
     };
 
 
-    const availableVehicles = getFilteredVehicles();
-    const availableDrivers = getFilteredDrivers();
+    const vehicleOptions = getFilteredVehicles();
+    const driverOptions = getFilteredDrivers();
+    const availableVehicles = vehicleOptions.filter(v => v.isAvailable);
+    const availableDrivers = driverOptions.filter(d => d.isAvailable);
+    const blockedVehicles = vehicleOptions.filter(v => !v.isAvailable);
+    const blockedDrivers = driverOptions.filter(d => !d.isAvailable);
 
     return (
         <div className="p-5 bg-white border border-gray-200 rounded-xl shadow-sm">
@@ -797,7 +785,7 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
                     {/* Availability Status / Loader (Vehicle) */}
                     <div className={`mb-4 p-3 rounded-xl border ${checkingAvailability ? 'bg-gray-50' : availableVehicles.length === 0 || availableDrivers.length === 0 ? 'bg-red-50 border-red-200 text-red-800' : 'bg-green-50 border-green-200 text-green-800'}`}>
                         {checkingAvailability ? (
-                            <div className="flex items-center gap-2"><Loader2 className="w-4 h-4 animate-spin"/> Checking vehicle/driver availability for **{bookingDetails.date}**...</div>
+                            <div className="flex items-center gap-2"><Loader2 className="w-4 h-4 animate-spin"/> Checking vehicle/driver availability for **{bookingDetails.date} {bookingDetails.time}**...</div>
                         ) : (
                             `Found ${availableVehicles.length} available vehicle(s) and ${availableDrivers.length} available driver(s).`
                         )}
@@ -808,11 +796,11 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
                         {availableVehicles.length === 0 && !checkingAvailability ? (
                             <div className="col-span-full p-4 bg-yellow-50 text-yellow-800 rounded-xl border border-yellow-100">
-                                No available vehicles meet the capacity requirement for {passengers} passengers or are free on this date.
+                                No available vehicles meet the capacity requirement for {passengers} passengers or are free at this time.
                             </div>
                         ) : (
                             availableVehicles.map((vehicle) => {
-                                const previewCost = vehicle.ratePerKm ? Math.round(bookingDetails.distanceValueKm * vehicle.ratePerKm) : 0;
+                                const { total: previewCost, ratePerKm: appliedRatePerKm } = priceTrip(vehicle, tariffInput);
                                 return (
                                     <div key={vehicle.id} onClick={() => setBookingDetails({ ...bookingDetails, vehicleId: vehicle.id })} className={`p-4 border-2 rounded-xl cursor-pointer transition-all ${bookingDetails.vehicleId === vehicle.id ? 'border-green-600 bg-green-50' : 'border-gray-200 hover:border-green-200'}`}>
                                         <div className="flex justify-between items-start">
@@ -822,7 +810,7 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
                                             </div>
                                             <div className="text-right">
                                                 <div className="text-sm font-semibold text-green-600">LKR {previewCost}</div>
-                                                <div className="text-xs text-gray-500">({vehicle.ratePerKm}/km)</div>
+                                                <div className="text-xs text-gray-500">({appliedRatePerKm}/km)</div>
                                             </div>
                                         </div>
                                     </div>
@@ -830,6 +818,14 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
                             })
                         )}
                     </div>
+                    {blockedVehicles.length > 0 && !checkingAvailability && (
+                        <div className="mb-6 p-3 bg-gray-50 border border-gray-200 rounded-xl text-xs text-gray-600">
+                            <div className="font-medium text-gray-700 mb-1">Unavailable at this time</div>
+                            {blockedVehicles.map(v => (
+                                <div key={v.id}>{v.number} ({v.model}): {v.blockedReason}</div>
+                            ))}
+                        </div>
+                    )}
 
                     {/* Driver Selection - 💥 FIXED: Uses availableDrivers, shows name/license */}
                     <h3 className="text-lg font-medium text-gray-700 mb-3 mt-6">Assign Driver</h3>
@@ -842,7 +838,7 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
                         {availableDrivers.length === 0 && !checkingAvailability ? (
                              <div className="col-span-full p-4 bg-yellow-50 text-yellow-800 rounded-xl border border-yellow-100">
-                                No available drivers found or all are booked on this date/license mismatch.
+                                No available drivers found or all are booked at this time/license mismatch.
                             </div>
                         ) : (
                             availableDrivers.map((driver) => {
@@ -876,6 +872,14 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
                             })
                         )}
                     </div>
+                    {blockedDrivers.length > 0 && !checkingAvailability && (
+                        <div className="mb-6 p-3 bg-gray-50 border border-gray-200 rounded-xl text-xs text-gray-600">
+                            <div className="font-medium text-gray-700 mb-1">Unavailable at this time</div>
+                            {blockedDrivers.map(d => (
+                                <div key={d.id}>{d.name}: {d.blockedReason}</div>
+                            ))}
+                        </div>
+                    )}
 
 
                     <div className="flex gap-3">
@@ -903,6 +907,13 @@ export function QuickTripBooking({ adminUser, onTripCreated }: QuickTripBookingP
                             <span className="text-green-800 font-medium">Total Estimated Cost</span>
                             <span className="text-2xl text-green-600 font-bold">LKR {bookingDetails.estimatedCost}</span>
                         </div>
+                        {selectedQuote && selectedQuote.lines.length > 1 && (
+                            <div className="px-4 -mt-2 space-y-1">
+                                {selectedQuote.lines.map((line, i) => (
+                                    <div key={i} className="flex justify-between text-xs text-gray-600"><span>{line.label}</span><span>LKR {line.amount}</span></div>
+                                ))}
+                            </div>
+                        )}
                         
                         <div className="grid grid-cols-3 gap-4">
                             <div className="p-3 border rounded-lg"><div className="text-xs text-gray-500">Date</div><div>{bookingDetails.date}</div></div>
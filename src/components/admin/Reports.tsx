@@ -1,16 +1,23 @@
 import { useState, useEffect, useMemo, useCallback } from 'react';
 import { 
     Download, Calendar, Car, FileText, Edit, X, Check, Banknote, ChevronDown, ChevronUp, Users, Truck, DollarSign, Activity, Settings, BarChart3, TrendingUp, Info, 
-    User as UserIcon, Loader2, Filter, AlertTriangle
+    User as UserIcon, Loader2, Filter, AlertTriangle, RefreshCw
 } from 'lucide-react';
 import { User } from '../../App';
 import { TopNav } from '../shared/TopNav';
 import { Card } from '../shared/Card';
 import { Badge } from '../shared/Badge';
 
-// Firebase Imports
-import { collection, getDocs, query, doc, updateDoc, where, orderBy as orderDB } from 'firebase/firestore';
-import { db } from '../../firebase';
+// Firebase Imports (non-driver user profiles)
+import { DriverRepository, FuelLogRepository, PayrollRepository, TripRepository, UserRepository, VehicleRepository } from '../../repositories';
+import { getTripCostShares } from '../../utils/splitCostSettlement';
+import { getRateForTrip } from '../../utils/rateHistory';
+import { priceSavedTrip } from '../../utils/tariffs';
+import { describeCostComparison } from '../../utils/finalCosting';
+import { getFuelEfficiency, isVerifiedFuelLog } from '../../utils/fuelLogs';
+import { FUEL_ANOMALY_LABELS, detectFuelAnomalies } from '../../utils/fuelAnomalies';
+import { CostComparison } from '../shared/CostComparison';
+import { TripQuote } from '../../types';
 // PDF Imports
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
@@ -25,7 +32,7 @@ interface ReportsProps {
 
 type ReportData = any[];
 type MainTab = 'trips' | 'vehicles' | 'drivers' | 'users' | 'payroll';
-type VehicleSubTab = 'data' | 'performance' | 'history';
+type VehicleSubTab = 'data' | 'performance' | 'history' | 'anomalies';
 
 const TIME_PERIODS = [
     { label: 'All Time', value: 'all' },
@@ -140,24 +147,32 @@ const RouteCell = ({ pickup, destinations, destination }: { pickup: string, dest
 
 // --- API Fetchers (Aggregation and Data Retrieval) ---
 
-const fetchTripRequests = async () => { 
-    const q = query(collection(db, "trip_requests")); 
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
-};
-
-const fetchFuelLogs = async () => {
-    const q = query(collection(db, "fuel_logs")); 
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(doc => doc.data());
-};
-
-const fetchDriverPayrollHistory = async () => {
-    // Fetch all payroll history, ordered by period descending (most recent first)
-    const q = query(collection(db, "driver_payroll"), orderDB("period", "desc"));
-    const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map(doc => doc.data());
-};
+const fetchTripRequests = async () => TripRepository.listAll();
+
+// Driver-logged fills count only once an admin has verified them
+const fetchFuelLogs = async () => (await FuelLogRepository.listAll()).filter(isVerifiedFuelLog);
+
+// Fetch all payroll history, ordered by period descending (most recent first)
+const fetchDriverPayrollHistory = async () => PayrollRepository.listAll();
+
+// Statutory columns for the payroll summary; records saved before deductions were added count their payout as gross and net
+const getPayrollStatutory = (p: any) => ({
+    gross: p.grossPay ?? p.totalPayout ?? 0,
+    epfEmployee: p.deductions?.epfEmployee || 0,
+    apit: p.deductions?.apit || 0,
+    employerContributions: (p.deductions?.epfEmployer || 0) + (p.deductions?.etfEmployer || 0),
+    net: p.totalPayout || 0,
+    employerCost: p.deductions?.employerCost ?? p.totalPayout ?? 0,
+});
+
+const sumPayrollStatutory = (payroll: any[]) => payroll.map(getPayrollStatutory).reduce((sum, s) => ({
+    gross: sum.gross + s.gross,
+    epfEmployee: sum.epfEmployee + s.epfEmployee,
+    apit: sum.apit + s.apit,
+    employerContributions: sum.employerContributions + s.employerContributions,
+    net: sum.net + s.net,
+    employerCost: sum.employerCost + s.employerCost,
+}), { gross: 0, epfEmployee: 0, apit: 0, employerContributions: 0, net: 0, employerCost: 0 });
 
 // 🌟 FIX: Corrected typo (ArrayOf -> Array.isArray) 🌟
 const sumCostsFromHistory = (historyArray: any[] | undefined) => {
@@ -170,25 +185,27 @@ const sumCostsFromHistory = (historyArray: any[] | undefined) => {
 
 const fetchVehicles = async () => { 
     const allTrips = await fetchTripRequests();
-    const q = query(collection(db, "vehicles")); 
-    const querySnapshot = await getDocs(q);
+    const vehicles = await VehicleRepository.listAll();
+    const allFuelLogs = await fetchFuelLogs();
 
-    const vehiclesData = querySnapshot.docs.map(doc => {
-        const baseV = { id: doc.id, ...doc.data() };
+    const vehiclesData = vehicles.map(baseV => {
         
         const vehicleTrips = allTrips.filter(trip => 
             (trip.vehicleNumber === baseV.number) && (trip.status === 'completed')
         );
         
         const totalKmRun = vehicleTrips.reduce((sum, trip) => sum + parseDist(trip.distance), 0);
+
+        // KM/L and fuel Cost/KM from the vehicle's verified fills; stored figures remain the fallback
+        const efficiency = getFuelEfficiency(allFuelLogs.filter(f => f.vehicleId === baseV.id || f.vehicleNumber === baseV.number));
         
         return {
             ...baseV,
             totalKm: totalKmRun, 
             serviceHistory: baseV.serviceHistory || [],
             licenseExpiry: baseV.licenseExpiry || 'N/A',
-            avgKmLtr: baseV.avgKmLtr || 0,
-            costPerKm: baseV.costPerKm || 0,
+            avgKmLtr: efficiency?.kmPerLiter || baseV.avgKmLtr || 0,
+            costPerKm: efficiency?.costPerKm || baseV.costPerKm || 0,
             plant: baseV.plant || 'Unassigned',
         };
     });
@@ -206,7 +223,8 @@ const fetchVehicleOperatingCosts = async (masterVehicles: any[], periodFilter: n
     masterVehicles.forEach(vehicle => {
         
         // --- Filter Trips/Logs by Week ---
-        let filteredTrips = allTrips.filter(t => t.vehicleNumber === vehicle.number);
+        // Reassigned trips count for both the original and the replacement vehicle (see getTripCostShares)
+        let filteredTrips = allTrips.filter(t => getTripCostShares(t, parseCost(t.cost)).some(s => s.vehicleNumber === vehicle.number));
         let filteredFuelLogs = allFuelLogs.filter(f => f.vehicleNumber === vehicle.number);
         
         if (periodFilter > 0) { // Apply Week Filter (1-52)
@@ -239,7 +257,10 @@ const fetchVehicleOperatingCosts = async (masterVehicles: any[], periodFilter: n
         summary.fuelCost += filteredFuelLogs.reduce((sum, log) => sum + parseCost(log.cost), 0);
         
         // Aggregate Trip Cost (from trip_requests)
-        summary.tripCost += filteredTrips.reduce((sum, trip) => sum + parseCost(trip.cost), 0);
+        summary.tripCost += filteredTrips.reduce((sum, trip) => {
+            const share = getTripCostShares(trip, parseCost(trip.cost)).filter(s => s.vehicleNumber === vehicle.number);
+            return sum + share.reduce((s, part) => s + part.cost, 0);
+        }, 0);
         
         // Aggregate Maintenance (0 for weekly view, full sum for aggregated view)
         summary.maintenance += (periodFilter > 0) ? 0 : sumCostsFromHistory(vehicle.repairs) + sumCostsFromHistory(vehicle.services);
@@ -267,17 +288,12 @@ const fetchUsersWithTripAggregation = async (isDriverQuery: boolean = false) =>
         }
     });
 
-    let q = collection(db, "users");
-    if (isDriverQuery) {
-        q = query(q, where('role', '==', 'driver'));
-    } else {
-        q = query(q, where('role', '!=', 'driver'));
-    }
-    
-    const userSnapshot = await getDocs(q);
-    const usersData = userSnapshot.docs.map(doc => {
-        const userData = doc.data();
-        return { id: doc.id, uid: doc.id, name: userData.fullName || userData.name || 'N/A', ...userData };
+    const profiles: any[] = isDriverQuery
+        ? await DriverRepository.listAll()
+        : await UserRepository.listNonDrivers();
+
+    const usersData = profiles.map(userData => {
+        return { uid: userData.id, name: userData.fullName || userData.name || 'N/A', ...userData };
     });
 
     const aggregatedUsers = usersData.map(user => {
@@ -421,6 +437,7 @@ export function Reports({ user, onNavigate, onLogout }: ReportsProps) {
     });
     const [editingTripId, setEditingTripId] = useState<string | null>(null);
     const [editCostValue, setEditCostValue] = useState('');
+    const [editQuote, setEditQuote] = useState<TripQuote | null>(null); // set when re-priced from the vehicle tariff
 
     // Handle Period Change -> Update Start/End Dates
     useEffect(() => { 
@@ -468,6 +485,7 @@ export function Reports({ user, onNavigate, onLogout }: ReportsProps) {
                 const masterCostSummary = await fetchVehicleOperatingCosts(masterVehicles, 0); // Aggregate All Time initially
                 const masterTrips = await fetchTripRequests(); 
                 const masterPayroll = await fetchDriverPayrollHistory();
+                const masterFuelLogs = await FuelLogRepository.listAll(); // pending fills included; anomalies are for checking them
                 
                 // --- Enrichment Logic ---
                 const vehicleMap = new Map(masterVehicles.map((v: any) => [v.number, v]));
@@ -480,11 +498,18 @@ export function Reports({ user, onNavigate, onLogout }: ReportsProps) {
                         ...trip,
                         vehicleType: vehicleDetails.type,
                         plant: vehicleDetails.plant,
+                        // Rate recorded at booking/approval, else the one in force on the trip date
+                        tripRatePerKm: trip.appliedRatePerKm ?? getRateForTrip(vehicleDetails, trip).ratePerKm,
                         driverName: driverDetails.name || trip.driverName,
                         customerName: driverMap.get(trip.userId)?.name || trip.customer,
                     }
                 });
                 
+                const fuelAnomalies = detectFuelAnomalies(masterVehicles, masterFuelLogs, masterTrips).map(anomaly => {
+                    const vehicleDetails = vehicleMap.get(anomaly.vehicleNumber) || {};
+                    return { ...anomaly, date: anomaly.at.split('T')[0], vehicleType: vehicleDetails.type, plant: vehicleDetails.plant };
+                });
+
                 // Add payroll data to drivers
                 const driversWithPayroll = masterDrivers.map((d: any) => {
                     // Find the single most recent payroll record for this driver
@@ -503,6 +528,7 @@ export function Reports({ user, onNavigate, onLogout }: ReportsProps) {
                     users: masterUsers,
                     costSummary: masterCostSummary,
                     payroll: masterPayroll, // Store full payroll history for the Payroll Summary tab
+                    fuelAnomalies,
                 });
 
             } catch (error: any) { 
@@ -536,6 +562,7 @@ export function Reports({ user, onNavigate, onLogout }: ReportsProps) {
         if (activeTab === 'vehicles') {
             if (activeSubTab === 'data' || activeSubTab === 'performance') return 'vehicles';
             if (activeSubTab === 'history') return 'costSummary';
+            if (activeSubTab === 'anomalies') return 'fuelAnomalies';
         }
         if (activeTab === 'drivers') return 'drivers';
         if (activeTab === 'users') return 'users';
@@ -554,7 +581,7 @@ export function Reports({ user, onNavigate, onLogout }: ReportsProps) {
             const driverOrCustomerName = item.driverName || item.name || item.customerName || '';
             
             // 1. Time Filters (only for trips and payroll)
-            if (currentDatasetKey === 'trips' && item.date) {
+            if ((currentDatasetKey === 'trips' || currentDatasetKey === 'fuelAnomalies') && item.date) {
                  // 🌟 FIX: 'All Time' works because the date checks are only applied if startDate is set 🌟
                  if (filters.startDate && item.date < filters.startDate) return false;
                  if (filters.endDate && item.date > filters.endDate) return false;
@@ -582,18 +609,42 @@ export function Reports({ user, onNavigate, onLogout }: ReportsProps) {
     const handleUpdateCost = async (id: string) => { 
         try {
             const formattedCost = editCostValue.startsWith('LKR') ? editCostValue : `LKR ${editCostValue}`;
-            await updateDoc(doc(db, "trip_requests", id), { cost: formattedCost });
+            // A hand-typed cost no longer matches any charge lines
+            const pricePatch = editQuote
+                ? { costQuote: editQuote, appliedRatePerKm: editQuote.ratePerKm, appliedRateEffectiveFrom: editQuote.rateEffectiveFrom }
+                : { costQuote: null };
+            await TripRepository.update(id, { cost: formattedCost, ...pricePatch });
             setData((prev: any) => ({
                 ...prev, 
-                trips: prev.trips.map((trip: any) => trip.id === id ? { ...trip, cost: formattedCost } : trip)
+                trips: prev.trips.map((trip: any) => trip.id === id ? { ...trip, cost: formattedCost, ...pricePatch, ...(editQuote ? { tripRatePerKm: editQuote.ratePerKm } : {}) } : trip)
             }));
             setEditingTripId(null);
+            setEditQuote(null);
         } catch (error) {
             console.error("Failed to update cost:", error);
             alert("Failed to update cost.");
         }
     };
     
+    // Re-price a trip on its vehicle's tariff and the rate in force on its date (actual km when recorded, with any
+    // odometer gap put down to the trip, else booked distance)
+    const handleRecostAtTripRate = async (trip: any) => {
+        const vehicle = data.vehicles.find((v: any) => v.id === trip.vehicleId) || data.vehicles.find((v: any) => v.number === trip.vehicleNumber);
+        if (!vehicle) {
+            alert("Vehicle record not found for this trip.");
+            return;
+        }
+        const km = Number(trip.kmRun) ? Number(trip.kmRun) + Number(trip.attributedGapKm || 0) : parseDist(trip.distance);
+        try {
+            const quote = await priceSavedTrip(vehicle, trip, km);
+            setEditCostValue(String(quote.total));
+            setEditQuote(quote);
+        } catch (error) {
+            console.error("Failed to price trip:", error);
+            alert("Failed to price trip.");
+        }
+    };
+
     // Summary Stats (Retained)
     const totalCost = filteredData.reduce((sum, t) => sum + parseCost(t.cost || t.totalExp), 0);
     const totalDist = filteredData.reduce((sum, t) => sum + parseDist(t.distance), 0);
@@ -617,7 +668,7 @@ export function Reports({ user, onNavigate, onLogout }: ReportsProps) {
                 trip.vehicleNumber || trip.requestedVehicleModel || '-', 
                 `${trip.vehicleType || 'N/A'} / ${trip.plant || 'N/A'}`, 
                 `${trip.customerName || 'N/A'} / Dr: ${trip.driverName || 'Unassigned'}`,
-                trip.cost || '-'
+                [trip.cost || '-', describeCostComparison(trip)].filter(Boolean).join('\n')
             ]);
         } 
         else if (reportName === 'Vehicle Data') {
@@ -654,6 +705,16 @@ export function Reports({ user, onNavigate, onLogout }: ReportsProps) {
                 `LKR ${c.totalOperatingCost || 0}`
             ]);
         }
+        else if (reportName === 'Fuel Anomalies') {
+            head = [['Date', 'Vehicle', 'Type/Plant', 'Anomaly', 'Details']];
+            body = reportData.map(a => [
+                new Date(a.at).toLocaleString(),
+                a.vehicleNumber,
+                `${a.vehicleType || 'N/A'} / ${a.plant || 'N/A'}`,
+                FUEL_ANOMALY_LABELS[a.code as keyof typeof FUEL_ANOMALY_LABELS],
+                a.message,
+            ]);
+        }
         else if (reportName === 'Driver Data') {
             head = [['Name', 'Phone', 'Salary', 'Reimb.', 'Total Trips', 'KM Run', 'Status']]; 
             body = reportData.map(d => [
@@ -679,16 +740,25 @@ export function Reports({ user, onNavigate, onLogout }: ReportsProps) {
         }
         // 🌟 NEW PAYROLL PDF 🌟
         else if (reportName === 'Payroll Summary') {
-            head = [['Driver', 'Period', 'Salary', 'Allowances', 'Reimb.', 'Expenses', 'Net Payout']]; 
-            body = reportData.map(p => [
-                p.driverName || 'N/A', 
-                p.period || 'N/A', 
-                `LKR ${p.salary || 0}`, 
-                `LKR ${((p.fuelAllowance || 0) + (p.mobileAllowance || 0))}`,
-                `LKR ${p.fineReimbursement || 0}`,
-                `LKR ${((p.mealExpenses || 0) + (p.otherExpenses || 0))}`,
-                `LKR ${p.totalPayout || 0}`
-            ]);
+            head = [['Driver', 'Period', 'Salary', 'Allowances', 'Reimb.', 'Expenses', 'Gross', 'EPF (Emp)', 'APIT', 'Er EPF+ETF', 'Net Payout']]; 
+            body = reportData.map(p => {
+                const s = getPayrollStatutory(p);
+                return [
+                    p.driverName || 'N/A', 
+                    p.period || 'N/A', 
+                    `LKR ${p.salary || 0}`, 
+                    `LKR ${((p.fuelAllowance || 0) + (p.mobileAllowance || 0))}`,
+                    `LKR ${p.fineReimbursement || 0}`,
+                    `LKR ${((p.mealExpenses || 0) + (p.otherExpenses || 0))}`,
+                    `LKR ${s.gross}`,
+                    p.deductions ? `LKR ${s.epfEmployee}` : '-',
+                    p.deductions ? `LKR ${s.apit}` : '-',
+                    p.deductions ? `LKR ${s.employerContributions}` : '-',
+                    `LKR ${s.net}`
+                ];
+            });
+            const totals = sumPayrollStatutory(reportData);
+            body.push(['TOTAL', '', '', '', '', '', `LKR ${totals.gross}`, `LKR ${totals.epfEmployee}`, `LKR ${totals.apit}`, `LKR ${totals.employerContributions}`, `LKR ${totals.net}`]);
         }
 
         autoTable(doc, { head, body, startY: startY + 5, theme: 'grid' }); // Use the returned Y coordinate
@@ -733,15 +803,27 @@ export function Reports({ user, onNavigate, onLogout }: ReportsProps) {
                             <td className="px-6 py-4 text-sm text-green-600 font-bold">
                                 {editingTripId === trip.id ? (
                                     <div className="flex items-center gap-1">
-                                        <input className="w-16 border rounded p-1" value={editCostValue} onChange={e => setEditCostValue(e.target.value)} autoFocus />
+                                        <input className="w-16 border rounded p-1" value={editCostValue} onChange={e => { setEditCostValue(e.target.value); setEditQuote(null); }} autoFocus />
+                                        <button onClick={() => handleRecostAtTripRate(trip)} title="Re-price on the vehicle tariff for the trip date" className="text-blue-600"><RefreshCw className="w-4 h-4"/></button>
                                         <button onClick={() => handleUpdateCost(trip.id)} className="text-green-600"><Check className="w-4 h-4"/></button>
-                                        <button onClick={() => setEditingTripId(null)} className="text-red-600"><X className="w-4 h-4"/></button>
+                                        <button onClick={() => { setEditingTripId(null); setEditQuote(null); }} className="text-red-600"><X className="w-4 h-4"/></button>
                                     </div>
                                 ) : (
-                                    <div className="flex items-center gap-2 cursor-pointer group" onClick={() => { setEditCostValue(trip.cost?.replace(/[^0-9.]/g, '') || ''); setEditingTripId(trip.id); }}>
+                                    <div className="flex items-center gap-2 cursor-pointer group" onClick={() => { setEditCostValue(trip.cost?.replace(/[^0-9.]/g, '') || ''); setEditQuote(null); setEditingTripId(trip.id); }}>
                                         {trip.cost || 'LKR 0'} <Edit className="w-3 h-3 opacity-0 group-hover:opacity-100"/>
                                     </div>
                                 )}
+                                {trip.tripRatePerKm > 0 && editingTripId !== trip.id && (
+                                    <div className="text-xs text-gray-400 font-normal">@ LKR {trip.tripRatePerKm}/km</div>
+                                )}
+                                {editingTripId !== trip.id && <CostComparison trip={trip} />}
+                                {((editingTripId === trip.id ? editQuote : trip.costQuote)?.lines || []).length > 1 && (
+                                    <div className="mt-1 space-y-0.5">
+                                        {(editingTripId === trip.id ? editQuote : trip.costQuote).lines.map((line: any, i: number) => (
+                                            <div key={i} className="text-xs text-gray-500 font-normal">{line.label}: LKR {line.amount}</div>
+                                        ))}
+                                    </div>
+                                )}
                             </td>
                             <td className="px-6 py-4"><Badge status={trip.status} size="sm" /></td>
                         </tr>
@@ -816,6 +898,32 @@ export function Reports({ user, onNavigate, onLogout }: ReportsProps) {
         </div>
     );
 
+    const renderFuelAnomalies = (anomalyData: ReportData) => (
+        <div className="overflow-x-auto">
+            <h3 className="text-lg font-semibold text-gray-800 mb-3">Suspicious Fuel Activity</h3>
+            <table className="w-full min-w-[900px] divide-y divide-gray-200">
+                <thead className="bg-gray-50 border-b">
+                    <tr>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Recorded</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Vehicle</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Anomaly</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Details</th>
+                    </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                    {anomalyData.map((a) => (
+                        <tr key={a.id}>
+                            <td className="px-3 py-2 text-sm text-gray-500 whitespace-nowrap">{new Date(a.at).toLocaleString()}</td>
+                            <td className="px-3 py-2 text-sm font-medium text-gray-900">{a.vehicleNumber}<div className="text-xs text-gray-500">{a.vehicleType || 'N/A'} • {a.plant || 'N/A'}</div></td>
+                            <td className="px-3 py-2 text-sm font-bold text-red-600 whitespace-nowrap">{FUEL_ANOMALY_LABELS[a.code as keyof typeof FUEL_ANOMALY_LABELS]}</td>
+                            <td className="px-3 py-2 text-sm text-gray-600">{a.message}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+
     const renderCostSummary = (summaryData: ReportData) => (
         <div className="overflow-x-auto">
             <h3 className="text-lg font-semibold text-gray-800 mb-3">Vehicle Operating Costs Summary</h3>
@@ -915,6 +1023,10 @@ export function Reports({ user, onNavigate, onLogout }: ReportsProps) {
                         <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">F/M Allowance</th>
                         <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Meals/Other Exp</th>
                         <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reimb. (Fine)</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Gross</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">EPF (Emp)</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">APIT</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Employer EPF+ETF</th>
                         <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">NET PAYOUT</th>
                     </tr>
                 </thead>
@@ -927,10 +1039,29 @@ export function Reports({ user, onNavigate, onLogout }: ReportsProps) {
                             <td className="px-3 py-2 text-sm text-gray-500">LKR {(p.fuelAllowance + p.mobileAllowance)?.toLocaleString() || '0'}</td>
                             <td className="px-3 py-2 text-sm text-gray-500">LKR {(p.mealExpenses + p.otherExpenses)?.toLocaleString() || '0'}</td>
                             <td className="px-3 py-2 text-sm font-bold text-green-600">LKR {p.fineReimbursement?.toLocaleString() || '0'}</td>
+                            <td className="px-3 py-2 text-sm text-gray-500">LKR {getPayrollStatutory(p).gross.toLocaleString()}</td>
+                            <td className="px-3 py-2 text-sm text-red-600">{p.deductions ? `LKR ${p.deductions.epfEmployee.toLocaleString()}` : '-'}</td>
+                            <td className="px-3 py-2 text-sm text-red-600">{p.deductions ? `LKR ${p.deductions.apit.toLocaleString()}` : '-'}</td>
+                            <td className="px-3 py-2 text-sm text-gray-500">{p.deductions ? `LKR ${getPayrollStatutory(p).employerContributions.toLocaleString()}` : '-'}</td>
                             <td className="px-3 py-2 text-sm font-bold text-blue-600">LKR {p.totalPayout?.toLocaleString() || '0'}</td>
                         </tr>
                     ))}
                 </tbody>
+                {(() => {
+                    const totals = sumPayrollStatutory(payroll);
+                    return (
+                        <tfoot className="bg-gray-50 border-t font-bold text-sm">
+                            <tr>
+                                <td className="px-3 py-2" colSpan={6}>Totals (employer cost LKR {totals.employerCost.toLocaleString()})</td>
+                                <td className="px-3 py-2">LKR {totals.gross.toLocaleString()}</td>
+                                <td className="px-3 py-2 text-red-600">LKR {totals.epfEmployee.toLocaleString()}</td>
+                                <td className="px-3 py-2 text-red-600">LKR {totals.apit.toLocaleString()}</td>
+                                <td className="px-3 py-2">LKR {totals.employerContributions.toLocaleString()}</td>
+                                <td className="px-3 py-2 text-blue-600">LKR {totals.net.toLocaleString()}</td>
+                            </tr>
+                        </tfoot>
+                    );
+                })()}
             </table>
         </div>
     );
@@ -952,6 +1083,7 @@ export function Reports({ user, onNavigate, onLogout }: ReportsProps) {
             if (activeSubTab === 'data') return renderVehicleMasterData(filteredData);
             if (activeSubTab === 'performance') return renderVehiclePerformance(filteredData);
             if (activeSubTab === 'history') return renderCostSummary(filteredData);
+            if (activeSubTab === 'anomalies') return renderFuelAnomalies(filteredData);
         }
         if (activeTab === 'drivers') return renderDriverReports(filteredData);
         if (activeTab === 'users') return renderUserReports(filteredData);
@@ -982,6 +1114,7 @@ export function Reports({ user, onNavigate, onLogout }: ReportsProps) {
                             <SubTabButton label="Master Data & Documents" subTab="data" activeSubTab={activeSubTab} setActiveSubTab={setActiveSubTab} />
                             <SubTabButton label="Performance (KM/L & Cost/KM)" subTab="performance" activeSubTab={activeSubTab} setActiveSubTab={setActiveSubTab} />
                             <SubTabButton label="Operating Costs (Fuel/Maint/Trip)" subTab="history" activeSubTab={activeSubTab} setActiveSubTab={setActiveSubTab} />
+                            <SubTabButton label="Fuel Anomalies" subTab="anomalies" activeSubTab={activeSubTab} setActiveSubTab={setActiveSubTab} />
                         </div>
                     )}
                 </div>
@@ -1086,7 +1219,7 @@ export function Reports({ user, onNavigate, onLogout }: ReportsProps) {
                         <button 
                             onClick={() => {
                                 const reportName = activeTab === 'vehicles' ? 
-                                    (activeSubTab === 'data' ? 'Vehicle Data' : activeSubTab === 'performance' ? 'Vehicle Performance' : 'Vehicle Operating Costs') : 
+                                    (activeSubTab === 'data' ? 'Vehicle Data' : activeSubTab === 'performance' ? 'Vehicle Performance' : activeSubTab === 'anomalies' ? 'Fuel Anomalies' : 'Vehicle Operating Costs') : 
                                     (activeTab === 'trips' ? 'Trip History' : activeTab === 'drivers' ? 'Driver Data' : activeTab === 'payroll' ? 'Payroll Summary' : 'User Requests');
                                 handleExportPDF(filteredData, reportName);
                             }} 
@@ -1152,7 +1285,12 @@ const DataCollectionSuggestions = ({ activeTab, subTab }: { activeTab: MainTab,
         ];
     } else if (activeTab === 'vehicles' && subTab === 'performance') {
         suggestions = [
-             { title: "KM/L & Cost/KM Aggregation", description: "The fields `avgKmLtr` and `costPerKm` are read directly from the `vehicles` collection. You must implement a Cloud Function or a batch job to process your fuel logs (like your uploaded spreadsheets) and write these aggregate figures to the main vehicle document." }
+             { title: "KM/L & Cost/KM Aggregation", description: "`avgKmLtr` and `costPerKm` are worked out from each vehicle's **verified** `fuel_logs` (odometer distance between the first and last fill over the fuel bought after the first). Driver-logged fills count once verified in Fleet Maintenance. Vehicles with fewer than two fills fall back to the figures stored on the `vehicles` document." }
+        ];
+    } else if (activeTab === 'vehicles' && subTab === 'anomalies') {
+        suggestions = [
+            { title: "Tank Capacity", description: "Fills are checked against the typical tank size for the vehicle type. Set `tankCapacity` (litres) on a `vehicles` document when its tank differs, otherwise large tanks are flagged as over-filled." },
+            { title: "Odometer on Every Fill", description: "KM/L and refuel checks compare each fill's `odometer` with the previous fill, so every entry in `fuel_logs` needs a true odometer reading. Rejected fills are left out; pending ones are included so they can be checked before verification." },
         ];
     } else if (activeTab === 'drivers') {
         suggestions = [
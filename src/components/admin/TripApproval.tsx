@@ -1,14 +1,28 @@
 import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
-import { CheckCircle, XCircle, User as UserIcon, MapPin, Calendar, Clock, Car, X, WifiOff, Banknote, Navigation, ChevronDown, ChevronUp, AlertTriangle, Wrench, ArrowLeft, Gauge, User as PaxIcon, MessageSquare, Plus, Users as CombinedUsers, Search, Phone, Mail, Loader2, Trash2 } from 'lucide-react';
+import { CheckCircle, XCircle, User as UserIcon, MapPin, Calendar, Clock, Car, X, WifiOff, Banknote, Navigation, ChevronDown, ChevronUp, AlertTriangle, Wrench, ArrowLeft, Gauge, User as PaxIcon, MessageSquare, Plus, Users as CombinedUsers, Search, Phone, Mail, Loader2, Trash2, Scale } from 'lucide-react';
 import { User } from '../../App';
 import { TopNav } from '../shared/TopNav';
 import { Card } from '../shared/Card';
 import { Badge } from '../shared/Badge';
-import { collection, query, where, doc, updateDoc, onSnapshot, getDoc, getDocs, deleteDoc, runTransaction } from 'firebase/firestore';
-import { db } from '../../firebase';
 // Assuming these services are defined elsewhere
 // import { sendTripApprovalEmail, sendTripRejectionEmail, sendDriverTripDetailEmail, sendMergeConsolidationRequest } from '../../utils/emailService';
 import { logAction } from '../../utils/auditLogger'; 
+import { ASSIGNED_TRIP_STATUSES, CLOSED_TRIP_STATUSES, MERGE_QUEUE_STATUSES, TripTransitionError, tripStatusIn } from '../../utils/tripTransitions';
+import { DEFAULT_COSTING_SETTINGS, DEFAULT_DUTY_SETTINGS, DriverRepository, SettingsRepository, TripRepository, VehicleRepository } from '../../repositories';
+import { nextSerialNumber } from '../../utils/serialNumbers';
+import { evaluateMerge } from '../../utils/mergeMatching';
+import { geocodeAddress } from '../../routing';
+import { settleBreakdownSplit } from '../../utils/splitCostSettlement';
+import { getRateForTrip } from '../../utils/rateHistory';
+import { priceSavedTrip, quoteToTripPatch } from '../../utils/tariffs';
+import { costReviewPatch, describeKmComparison, isAwaitingCostReview } from '../../utils/finalCosting';
+import { CostComparison } from '../shared/CostComparison';
+import { StopProgressList } from '../shared/StopProgressList';
+import { getTripStopProgress } from '../../utils/stopEvents';
+import { describePositionAge } from '../../utils/breadcrumbs';
+import { TimeWindow, buildBusyIntervals, getDriverAvailability, getReassignmentWindow, getTripWindow, getVehicleAvailability, spanWindows } from '../../utils/availability';
+import { getDriverDutyAvailability } from '../../utils/dutyHours';
+import { LatLng, MergeMatch, SplitCostBreakdown, Trip, VehicleCostLine } from '../../types';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
@@ -40,11 +54,11 @@ const extractDistance = (distanceString: string) => {
 }
 
 // 🎯 NEW HELPER: Check if a trip is ACTIVE or scheduled for TODAY
-const isTripActiveToday = (trip: any) => {
+const isTripActiveToday = (trip: Trip) => {
     if (trip.status === 'in-progress') return true;
     
-    // Check approved/reassigned trips for today's date
-    if (['approved', 'reassigned', 'approved_merge_request'].includes(trip.status)) {
+    // Check assigned trips for today's date
+    if (tripStatusIn(trip, ASSIGNED_TRIP_STATUSES)) {
         const tripDate = new Date(trip.date).setHours(0, 0, 0, 0);
         const today = new Date().setHours(0, 0, 0, 0);
         return tripDate === today;
@@ -52,64 +66,15 @@ const isTripActiveToday = (trip: any) => {
     return false;
 };
 
-// Helper function to simulate distance check (Used in manual scan)
-const locationsOverlap = (loc1: string, loc2: string) => {
-    const name1 = loc1.split(' - ')[0].trim().toLowerCase();
-    const name2 = loc2.split(' - ')[0].trim().toLowerCase();
-    return name1 === name2;
-};
-
-// 🎯 UPDATED: Simple Route Intersection Check (Pickup and Final Destination only)
-const checkRouteIntersection = (tripA: any, tripB: any) => {
-    const routeA = [
-        tripA.pickup, 
-        tripA.destination
-    ].map((loc: string) => loc.split(' - ')[0].trim().toLowerCase());
-
-    const routeB = [
-        tripB.pickup, 
-        tripB.destination
-    ].map((loc: string) => loc.split(' - ')[0].trim().toLowerCase());
 
-    // Find the intersection (at least one shared unique location between A's ends and B's ends)
-    const intersection = routeA.filter((loc, index) => routeA.indexOf(loc) === index && routeB.includes(loc));
-    
-    return intersection.length > 0;
-}
-
-
-// --- KNOWN LOCATIONS FOR RELIABLE GEOCODING ---
-const KNOWN_LOCATIONS: { [key: string]: { lat: number, lng: number } } = {
-     "Carlos Embellishers (Pvt) Ltd - Veyangoda (Head Office)": { lat: 7.1667, lng: 80.0500 },
-     "Eskimo Fashion Knitwear - Koggala": { lat: 5.9936, lng: 80.3236 },
-     "Eskimo Fashion Knitwear - Pallekele": { lat: 7.2803, lng: 80.7062 },
-     "Carlos Embellishers - Trincomalee Branch": { lat: 8.5874, lng: 81.2152 },
-     "D. R. Wijewardene Mawatha, Suduwella, Slave Island, Colombo, Colombo District, Western Province, 00200, Sri Lanka": { lat: 6.9314, lng: 79.8596 },
-     "Veyangoda (Head Office)": { lat: 7.1667, lng: 80.0500 },
-     "Eskimo Fashion Knitwear": { lat: 7.2008, lng: 79.8737 }
-};
-
-// --- ASYNC GEOLOCATION HELPERS (Restored) ---
-const geocodeAddress = async (address: string): Promise<{ lat: number, lng: number } | null> => { 
-     const normalizedAddress = address.toLowerCase();
-     const knownKey = Object.keys(KNOWN_LOCATIONS).find(key => normalizedAddress.includes(key.toLowerCase()));
-     if (knownKey) {
-         return KNOWN_LOCATIONS[knownKey];
-     }
-     // MOCK API CALL fallback
-     return null; 
-};
-const getMapRouteDistanceKm = async (locations: string[]): Promise<number> => { 
-    // MOCK distance: return a predictable value based on number of points
-    return locations.length * 50; 
-};
-
-const generateNextSerialNumber = async (prefix: 'N' | 'B' | 'M'): Promise<string> => {
-     const now = new Date();
-     const datePart = `${now.getFullYear()}${String(now.getMonth() + 1).padStart(2, '0')}${String(now.getDate()).padStart(2, '0')}`;
-     const timePart = `${String(now.getHours()).padStart(2, '0')}${String(now.getMinutes()).padStart(2, '0')}${String(now.getSeconds()).padStart(2, '0')}`;
-     const mockIncrement = String(Math.floor(Math.random() * 900) + 100); 
-     return `${prefix}-${datePart}-${timePart}-${mockIncrement}`;
+// Older trips were saved without coordinates; resolve pickup/destination from known locations for the merge scan
+const withStopCoords = async (trip: Trip): Promise<Trip> => {
+    if (trip.pickupCoords && trip.destinationCoords?.length) return trip;
+    const pickupCoords = trip.pickupCoords || await geocodeAddress(trip.pickup || '');
+    const destinationCoords = trip.destinationCoords?.length
+        ? trip.destinationCoords
+        : [await geocodeAddress(trip.destination || '')].filter(c => c) as { lat: number, lng: number }[];
+    return { ...trip, pickupCoords, destinationCoords };
 };
 
 // 🌟 NEW PDF HEADER HELPER 🌟
@@ -219,6 +184,14 @@ const generateTripTicketHalfA4PDF = async (trip: any, adminUser: User) => {
             ['Prev. Driver Name', trip.originalDriverName || 'N/A'],
             ['Prev. Driver Phone', trip.originalDriverPhone || 'N/A'], // Assuming phone is passed or retrieved
         );
+
+        // Split-cost settlement: what each vehicle owner is paid
+        (trip.costBreakdown?.lines || []).forEach((line: VehicleCostLine) => {
+            tableData.push([
+                `${line.role === 'original' ? 'Prev.' : 'New'} Vehicle Cost`,
+                `${line.vehicleNumber}: ${line.km} km x LKR ${line.ratePerKm} = LKR ${line.cost}`,
+            ]);
+        });
     }
     // Removed Total Cost (Est.) - as requested
 
@@ -265,57 +238,17 @@ const getCustomerDetails = (t: any) => ({
     destination: t.destination 
 });
 
-// 🎯 RESTORED: Calculate Distance Run by Original Vehicle (Map-based)
-const calculateOriginalVehicleDistance = async (trip: any): Promise<number> => {
-    if (trip.odometerStart && trip.breakdownOdometer) {
-        return Math.max(0, trip.breakdownOdometer - trip.odometerStart);
-    }
-
-    const pointsTraveled: string[] = [trip.pickup];
-    
-    if (trip.breakdownLocation) {
-        const lastPoint = pointsTraveled[pointsTraveled.length - 1];
-        if (lastPoint !== trip.breakdownLocation) {
-            pointsTraveled.push(trip.breakdownLocation);
-        }
-    } else {
-        console.warn("Breakdown location missing. Cost calculation cannot rely on map routing.");
-        return 0; 
-    }
-
-    if (pointsTraveled.length <= 1) {
-        return 0;
-    }
-    
-    const distanceKm = await getMapRouteDistanceKm(pointsTraveled);
-    return distanceKm;
-};
-
-// 🎯 RESTORED: Calculate Distance for New Vehicle (Empty Leg + Remaining Route)
-const calculateRemainingDistanceKm = async (trip: any, newStartPlace: string): Promise<number> => {
-    if (!newStartPlace || !trip.breakdownLocation) return 0;
-
-    // 1. Empty Leg (New Vehicle Start -> Breakdown Location)
-    const emptyLegPoints = [newStartPlace, trip.breakdownLocation];
-    const emptyLegDistance = await getMapRouteDistanceKm(emptyLegPoints);
-    
-    // 2. Remaining Passenger Route (Breakdown Location -> Final Destination)
-    const originalStops = trip.destinations || [];
-    const finalDestination = trip.destination;
-
-    let remainingRoutePoints = [trip.breakdownLocation];
-
-    // Add the final destination, avoiding duplicates if breakdown location is the destination
-    if (remainingRoutePoints[remainingRoutePoints.length - 1] !== finalDestination) {
-         remainingRoutePoints.push(finalDestination);
-    }
-    
-    // Ensure unique points
-    remainingRoutePoints = remainingRoutePoints.filter((item, index, self) => index === 0 || item !== self[index - 1]);
-    
-    const remainingRouteDistance = await getMapRouteDistanceKm(remainingRoutePoints);
-
-    return emptyLegDistance + remainingRouteDistance;
+// Legs behind one vehicle's share of a breakdown settlement
+const CostLegList = ({ line }: { line?: VehicleCostLine }) => {
+    if (!line || line.legs.length === 0) return null;
+    return (
+        <ul className="text-xs text-gray-500 mt-1 space-y-0.5">
+            {line.legs.map((leg, i) => (
+                <li key={i}>{leg.label}: {leg.km} km ({leg.source === 'odometer' ? 'odometer' : 'routed'})</li>
+            ))}
+            <li className="font-semibold">{line.km} km x LKR {line.ratePerKm}/km</li>
+        </ul>
+    );
 };
 
 // --- StopList Component (Retained) ---
@@ -348,13 +281,18 @@ const StopList = ({ stops, destination }: { stops?: string[], destination: strin
 
 
 export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps) {
-    const [pendingTrips, setPendingTrips] = useState<any[]>([]);
-    const [brokenTrips, setBrokenTrips] = useState<any[]>([]); 
-    const [mergeCandidateTrips, setMergeCandidateTrips] = useState<any[]>([]); 
+    const [pendingTrips, setPendingTrips] = useState<Trip[]>([]);
+    const [brokenTrips, setBrokenTrips] = useState<Trip[]>([]); 
+    const [mergeCandidateTrips, setMergeCandidateTrips] = useState<Trip[]>([]); 
+    const [costReviewTrips, setCostReviewTrips] = useState<Trip[]>([]); // completed trips whose final cost strayed from the estimate
+    const [inProgressTrips, setInProgressTrips] = useState<Trip[]>([]); // on the road, with stop progress
+    const [costingSettings, setCostingSettings] = useState(DEFAULT_COSTING_SETTINGS);
+    const [thresholdInput, setThresholdInput] = useState('');
+    const [dutySettings, setDutySettings] = useState(DEFAULT_DUTY_SETTINGS);
 
     const [allDrivers, setAllDrivers] = useState<any[]>([]);
     const [allVehicles, setAllVehicles] = useState<any[]>([]);
-    const [allTripsCache, setAllTripsCache] = useState<any[]>([]); // Cache all trips for availability check
+    const [allTripsCache, setAllTripsCache] = useState<Trip[]>([]); // Cache all trips for availability check
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState('');
 
@@ -370,12 +308,17 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
     
     const [costFirstVehicle, setCostFirstVehicle] = useState<number>(0); 
     const [costSecondVehicle, setCostSecondVehicle] = useState<number>(0);
+    const [splitSettlement, setSplitSettlement] = useState<SplitCostBreakdown | null>(null);
 
     const [isCalculatingCost, setIsCalculatingCost] = useState(false);
     
     const [newVehicleStartLocation, setNewVehicleStartLocation] = useState('');
+    const [newVehicleStartCoords, setNewVehicleStartCoords] = useState<LatLng | null>(null);
     const [suggestionsNewStart, setSuggestionsNewStart] = useState<any[]>([]);
     const [activeSearchNewStart, setActiveSearchNewStart] = useState(false);
+    // Nominatim allows one request a second: the start place lookup waits until typing pauses
+    const newStartSearchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    useEffect(() => () => { if (newStartSearchTimer.current) clearTimeout(newStartSearchTimer.current); }, []);
     
     // Merge State
     const [masterTripData, setMasterTripData] = useState<any>(null); // Master (Trip A)
@@ -384,7 +327,7 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
     const [proposedMergeVehicleId, setProposedMergeVehicleId] = useState(''); // New: Vehicle selected for merger
 
     // Collapsible State
-    const [collapsed, setCollapsed] = useState({ pending: false, broken: false, merge: false });
+    const [collapsed, setCollapsed] = useState({ pending: false, broken: false, merge: false, costReview: false, inProgress: true });
 
     // --- Filtering Helpers ---
 
@@ -393,63 +336,51 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
     };
 
     /**
-     * Filters drivers by qualification and **operational availability** on a specific date.
+     * Qualified drivers for a vehicle, each flagged with whether they are free for the time window
+     * and would stay within their duty-hour limits. Blocked drivers stay in the list (disabled) so the
+     * admin can see why they cannot be picked.
      * @param vehicleId The vehicle ID for qualification check.
-     * @param tripDate The date of the trip being approved.
+     * @param window The period the trip will hold the driver.
+     * @param excludeTripIds Trips being re-planned, which must not block their own driver.
      */
-    const getQualifiedDrivers = (vehicleId: string, tripDate: string) => {
+    const getQualifiedDrivers = (vehicleId: string, window: TimeWindow | null, excludeTripIds: string[] = []) => {
         const vehicle = allVehicles.find(v => v.id === vehicleId);
         if (!vehicle) return [];
         
         const requiredType = getVehicleRequiredLicense(vehicle);
-        
-        const dateToCheck = new Date(tripDate).setHours(0, 0, 0, 0);
-
-        const driversInConflict = allTripsCache
-            .filter(t => 
-                 // Check if trip status is approved/reassigned/in-progress
-                 ['approved', 'reassigned', 'approved_merge_request', 'in-progress'].includes(t.status)
-                 && (new Date(t.date).setHours(0, 0, 0, 0) === dateToCheck)
-            )
-            .map(t => t.driverId);
-            
-        return allDrivers.filter(driver => {
-            const driverLicense = driver.licenseType || 'B';
-            
-            // 1. Check Qualification
-            const isQualified = isDriverQualified(driverLicense, requiredType);
-            if (!isQualified) return false;
-            
-            // 2. Check Operational Conflict
-            const isCurrentlyBusy = driver.status === 'in-maintenance' || driversInConflict.includes(driver.id);
-
-            return !isCurrentlyBusy;
-        });
+        const busy = buildBusyIntervals(allTripsCache, excludeTripIds);
+
+        return allDrivers
+            .filter(driver => isDriverQualified(driver.licenseType || 'B', requiredType))
+            .map(driver => {
+                let availability = getDriverAvailability(driver, window, busy);
+                if (availability.available) availability = getDriverDutyAvailability(driver.id, window, allTripsCache, dutySettings, excludeTripIds);
+                return { ...driver, isAvailable: availability.available, blockedReason: availability.reason };
+            });
     };
     
     /**
-     * Gets vehicles available for a SPECIFIC DATE.
-     * @param tripDate The date for which the vehicle is being booked/approved.
+     * All vehicles, each flagged with whether it is free (not in maintenance, no overlapping trip) for the window.
+     * @param window The period the trip will hold the vehicle.
+     * @param excludeTripIds Trips being re-planned, which must not block their own vehicle.
      */
-    const getVehiclesAvailableOnDate = (tripDate: string) => {
-        if (!tripDate) return [];
+    const getVehicleOptions = (window: TimeWindow | null, excludeTripIds: string[] = []) => {
+        const busy = buildBusyIntervals(allTripsCache, excludeTripIds);
 
-        const dateToCheck = new Date(tripDate).setHours(0, 0, 0, 0);
+        return allVehicles.map(v => {
+            const availability = getVehicleAvailability(v, window, busy);
+            return { ...v, isAvailable: availability.available, blockedReason: availability.reason };
+        });
+    };
 
-        // Find vehicles locked by approved/in-progress trips on THIS specific date
-        const vehiclesInConflict = allTripsCache
-            .filter(t => 
-                ['approved', 'in-progress', 'reassigned', 'approved_merge_request'].includes(t.status)
-                && (new Date(t.date).setHours(0, 0, 0, 0) === dateToCheck)
-            )
-            .map(t => t.vehicleId);
+    const getApprovalWindow = (trip: any) => (trip ? getTripWindow(trip) : null);
 
-        // Filter out vehicles that are in maintenance or locked by an active trip on this date
-        return allVehicles.filter(v => 
-            v.status !== 'in-maintenance' && 
-            !vehiclesInConflict.includes(v.id)
-        );
-    };
+    const getMergeWindow = () => spanWindows(
+        masterTripData ? getTripWindow(masterTripData) : null,
+        candidateTripData ? getTripWindow(candidateTripData) : null
+    );
+
+    const getMergeTripIds = () => [masterTripData?.id, candidateTripData?.id].filter(Boolean);
 
     // --- Data Fetch (Retained) ---
 
@@ -457,31 +388,63 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
         setLoading(true);
         
         // 1. Fetch ALL Trips (Pending, Approved, etc.)
-        const unsubAllTrips = onSnapshot(collection(db, "trip_requests"), (snap) => {
-            const trips = snap.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+        const unsubAllTrips = TripRepository.subscribeAll((trips) => {
             setAllTripsCache(trips); // Cache all trips
 
             // Set derived state lists
             setPendingTrips(trips.filter(t => t.status === 'pending'));
             setBrokenTrips(trips.filter(t => t.status === 'broken-down').sort((a, b) => new Date(b.cancelledAt || 0).getTime() - new Date(a.cancelledAt || 0).getTime()));
-            setMergeCandidateTrips(trips.filter(t => ["pending_merge", "awaiting_merge_approval", "approved_merge_request", "merge_rejected"].includes(t.status))); 
+            setMergeCandidateTrips(trips.filter(t => tripStatusIn(t, MERGE_QUEUE_STATUSES))); 
+            setInProgressTrips(trips.filter(t => t.status === 'in-progress'));
+            setCostReviewTrips(trips.filter(isAwaitingCostReview).sort((a, b) => new Date(b.endedAt || 0).getTime() - new Date(a.endedAt || 0).getTime()));
             
             if (trips.length > 0) setLoading(false);
         }, (err) => setError("Connection unstable."));
 
         // 4. Fetch Drivers 
-        const unsubDrivers = onSnapshot(query(collection(db, "users"), where("role", "==", "driver")), (snap) => {
-            setAllDrivers(snap.docs.map(doc => ({ id: doc.id, ...doc.data() })).filter((d: any) => d.driverStatus === 'approved'));
+        const unsubDrivers = DriverRepository.subscribeAll((drivers) => {
+            setAllDrivers(drivers.filter((d: any) => d.driverStatus === 'approved'));
         });
 
         // 5. Fetch Vehicles 
-        const unsubVehicles = onSnapshot(query(collection(db, "vehicles")), (snap) => {
-            setAllVehicles(snap.docs.map(doc => ({ id: doc.id, ...doc.data() })));
+        const unsubVehicles = VehicleRepository.subscribeAll(setAllVehicles);
+
+        // 6. Final costing threshold
+        const unsubCosting = SettingsRepository.subscribeCosting((settings) => {
+            setCostingSettings(settings);
+            setThresholdInput(String(settings.varianceThresholdPercent));
         });
 
-        return () => { unsubAllTrips(); unsubDrivers(); unsubVehicles(); };
+        // 7. Duty-hour limits for the driver pickers
+        const unsubDuty = SettingsRepository.subscribeDuty(setDutySettings);
+
+        return () => { unsubAllTrips(); unsubDrivers(); unsubVehicles(); unsubCosting(); unsubDuty(); };
     }, []);
 
+    // --- Final Cost Review ---
+    const handleCostReview = async (trip: Trip, decision: 'accepted-actual' | 'kept-estimate') => {
+        try {
+            const patch = costReviewPatch(trip, decision, user.name || user.email);
+            await TripRepository.update(trip.id, patch);
+            await logAction(user.email, 'COST_REVIEW', `Trip #${trip.serialNumber || trip.id}: ${decision === 'kept-estimate' ? 'kept estimate' : 'accepted actual'} (${patch.cost})`, { targetId: trip.id });
+        } catch (error) {
+            console.error("Error reviewing trip cost:", error);
+            alert("Failed to save the cost review.");
+        }
+    };
+
+    const handleSaveThreshold = async () => {
+        const threshold = Number(thresholdInput);
+        if (isNaN(threshold) || threshold < 0) { alert("Enter a valid percentage."); return; }
+        try {
+            await SettingsRepository.updateCosting({ varianceThresholdPercent: threshold });
+            await logAction(user.email, 'COSTING_SETTINGS', `Cost variance threshold set to ${threshold}%`);
+        } catch (error) {
+            console.error("Error saving threshold:", error);
+            alert("Failed to save the threshold.");
+        }
+    };
+
     // Helper to find the actual trip data by ID
     const findTripDataById = (id: string) => {
         return allTripsCache.find(t => t.id === id) || null;
@@ -495,7 +458,9 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
     // --- LOCATION SEARCH LOGIC (Restored) ---
     const handleSearchNewStart = async (query: string) => { 
         setNewVehicleStartLocation(query);
+        setNewVehicleStartCoords(null);
         setActiveSearchNewStart(true);
+        if (newStartSearchTimer.current) clearTimeout(newStartSearchTimer.current);
 
         if (!query) {
             setSuggestionsNewStart([]);
@@ -514,17 +479,29 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
         ].filter(loc => loc.keywords.some(k => lowerQuery.includes(k)));
 
 
-        let apiMatches: any[] = [];
-        if (query.length > 2) {
-             // MOCK API CALL
-             apiMatches = [{ display_name: `${query} Address 1 (MOCK)`, type: 'api' }, { display_name: `${query} Warehouse (MOCK)`, type: 'api' }];
-        }
-        setSuggestionsNewStart([...specialMatches, ...apiMatches]);
+        setSuggestionsNewStart(specialMatches);
+        if (query.length <= 2) return;
+
+        const timer = setTimeout(async () => {
+            try {
+                const response = await fetch(`https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(query)}&countrycodes=lk&limit=5`);
+                const apiMatches = (await response.json()).map((place: any) => ({ ...place, type: 'api' }));
+                // Dropped if the text changed or a place was picked while the request was out
+                if (newStartSearchTimer.current === timer) setSuggestionsNewStart([...specialMatches, ...apiMatches]);
+            } catch (err) {
+                console.error("Start place search error:", err);
+            }
+        }, 1000);
+        newStartSearchTimer.current = timer;
     };
 
     const selectSuggestionNewStart = (place: any) => { 
+        if (newStartSearchTimer.current) clearTimeout(newStartSearchTimer.current);
+        newStartSearchTimer.current = null;
         const displayName = place.display_name;
         setNewVehicleStartLocation(displayName); 
+        // Special (company) locations are resolved by the geocoder during settlement
+        setNewVehicleStartCoords(place.lat && place.lon ? { lat: parseFloat(place.lat), lng: parseFloat(place.lon) } : null);
         setSuggestionsNewStart([]);
         setActiveSearchNewStart(false);
     };
@@ -533,28 +510,31 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
     // --- COST CALCULATION EFFECT (Retained) ---
     useEffect(() => {
         const calculateCosts = async () => { 
-            if (!selectedTrip || !selectedVehicle) return;
+            if (!selectedTrip) return;
             
             setIsCalculatingCost(true);
             
-            const originalVehicle = allVehicles.find(v => v.number === selectedTrip.vehicleNumber);
-            const originalRate = originalVehicle?.ratePerKm || 0;
-            
+            const originalVehicle = allVehicles.find(v => v.id === selectedTrip.vehicleId) || allVehicles.find(v => v.number === selectedTrip.vehicleNumber);
             const newVehicle = allVehicles.find(v => v.id === selectedVehicle);
-            const newRate = newVehicle?.ratePerKm || 0;
-
-            // --- Cost 1: Broken Vehicle KM (Restored) ---
-            const distanceRunOriginalVehicle = await calculateOriginalVehicleDistance(selectedTrip);
-            let calculatedCost1 = Math.round(distanceRunOriginalVehicle * originalRate);
-            setCostFirstVehicle(calculatedCost1);
-
-            // --- Cost 2: New Vehicle KM (Restored) ---
-            let calculatedCost2 = 0;
-            if (newVehicleStartLocation && newRate > 0) {
-                const totalRemainingDistanceKm = await calculateRemainingDistanceKm(selectedTrip, newVehicleStartLocation);
-                calculatedCost2 = Math.round(totalRemainingDistanceKm * newRate);
+
+            try {
+                const settlement = await settleBreakdownSplit({
+                    trip: selectedTrip,
+                    // Both owners are paid the rate in force on the trip date
+                    originalVehicle: { vehicleId: originalVehicle?.id, vehicleNumber: selectedTrip.vehicleNumber, ratePerKm: getRateForTrip(originalVehicle, selectedTrip).ratePerKm },
+                    replacementVehicle: { vehicleId: newVehicle?.id, vehicleNumber: newVehicle?.number || '', ratePerKm: getRateForTrip(newVehicle, selectedTrip).ratePerKm },
+                    newVehicleStartPlace: newVehicleStartLocation,
+                    newVehicleStart: newVehicleStartCoords,
+                });
+
+                setSplitSettlement(settlement);
+                setCostFirstVehicle(settlement.oldCost);
+                // The replacement is only costed once its vehicle and start place are known
+                setCostSecondVehicle(newVehicle && newVehicleStartLocation ? settlement.newCost : 0);
+            } catch (err) {
+                console.error("Split-cost settlement failed:", err);
+                setSplitSettlement(null);
             }
-            setCostSecondVehicle(calculatedCost2);
 
             setIsCalculatingCost(false);
         };
@@ -566,25 +546,32 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
         }, 500); 
 
         return () => clearTimeout(timeout);
-    }, [selectedTrip, selectedVehicle, newVehicleStartLocation, allVehicles, showReassignModal]); 
+    }, [selectedTrip, selectedVehicle, newVehicleStartLocation, newVehicleStartCoords, allVehicles, showReassignModal]); 
 
 
     // --- Handlers (Merge, Approve, Reject, Reassign, Delete) ---
 
     const handleScanForMerges = async () => { /* ... */
-        const potentialMerges: { candidateId: string, masterId: string, candidateSN: string, masterSN: string }[] = [];
-        const allTripsForScan = [...pendingTrips, ...mergeCandidateTrips]; 
+        const potentialMerges: { candidateId: string, masterId: string, candidateSN: string, masterSN: string, match: MergeMatch }[] = [];
+        // One at a time: trips without saved coordinates may need a geocoding request each
+        const allTripsForScan: Trip[] = [];
+        for (const trip of [...pendingTrips, ...mergeCandidateTrips]) allTripsForScan.push(await withStopCoords(trip));
+        const flaggedIds = new Set<string>();
+
+        // Seats of the master's assigned (or requested) vehicle; null when none is known yet
+        const getSeatCapacity = (trip: Trip) => {
+            const vehicle = allVehicles.find(v => v.id === (trip.vehicleId || trip.requestedVehicleId));
+            return vehicle?.seats ?? null;
+        };
 
-        for (const candidateTrip of pendingTrips) {
+        for (const candidateTrip of allTripsForScan.filter(t => t.status === 'pending')) {
+            let best: (typeof potentialMerges)[number] | null = null;
             
             for (const tripA of allTripsForScan) {
                 
                 if (tripA.id === candidateTrip.id) continue;
-                if (['broken-down', 'completed', 'rejected', 'cancelled'].includes(tripA.status)) continue; 
-                
-                // Check Overlap Criteria: Same Date AND Intersection Check (Pickup/Destination)
-                const sameDate = tripA.date === candidateTrip.date;
-                const routesIntersect = checkRouteIntersection(tripA, candidateTrip);
+                if (tripStatusIn(tripA, CLOSED_TRIP_STATUSES)) continue; 
+                if (flaggedIds.has(tripA.id) || flaggedIds.has(candidateTrip.id)) continue;
                 
                 let masterTrip;
                 let candidateTripB;
@@ -596,42 +583,58 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
                     masterTrip = candidateTrip;
                     candidateTripB = tripA;
                 }
+                // Only a pending trip can be flagged; one already in the merge queue stays where it is
+                if (candidateTripB.status !== 'pending') continue;
+
+                const alreadyFlagged = candidateTripB.masterTripId === masterTrip.id;
+                if (alreadyFlagged) continue;
+
+                // --- MERGE CRITERIA: detour, pickup time gap and seats (see utils/mergeMatching) ---
+                const match = await evaluateMerge(masterTrip, candidateTripB, getSeatCapacity(masterTrip));
+                if (!match) continue;
 
-                // --- MERGE CRITERIA ---
-                if (sameDate && routesIntersect) {
-                    
-                    const alreadyFlagged = candidateTripB.masterTripId === masterTrip.id;
-                    if (alreadyFlagged) continue;
-                    
-                    potentialMerges.push({
+                // Keep the best-scoring master for this candidate
+                if (!best || match.score > best.match.score) {
+                    best = {
                         candidateId: candidateTripB.id,
                         masterId: masterTrip.id,
                         candidateSN: candidateTripB.serialNumber,
-                        masterSN: masterTrip.serialNumber
-                    });
-                    
-                    break;
+                        masterSN: masterTrip.serialNumber,
+                        match,
+                    };
                 }
             }
+
+            if (best) {
+                potentialMerges.push(best);
+                flaggedIds.add(best.candidateId);
+                flaggedIds.add(best.masterId);
+            }
         }
         
         // 3. Update Database for found candidates
         if (potentialMerges.length > 0) {
             let updatesPerformed = 0;
+            const failures: string[] = [];
             for (const merge of potentialMerges) {
-                
-                await updateDoc(doc(db, "trip_requests", merge.candidateId), {
-                    status: 'pending_merge',
-                    masterTripId: merge.masterId, 
-                    mergeProposal: { 
-                        id: merge.masterId, 
-                        serialNumber: merge.masterSN 
-                    }
-                });
-                updatesPerformed++;
+                try {
+                    await TripRepository.transition(merge.candidateId, 'pending_merge', {
+                        masterTripId: merge.masterId, 
+                        mergeProposal: { 
+                            id: merge.masterId, 
+                            serialNumber: merge.masterSN 
+                        },
+                        mergeMatch: merge.match,
+                    });
+                    updatesPerformed++;
+                } catch (error) {
+                    // The trip moved on since the scan read it (or the transition is not allowed): report it, keep scanning
+                    console.error(`Error flagging trip ${merge.candidateSN || merge.candidateId} for merge:`, error);
+                    failures.push(`#${merge.candidateSN || merge.candidateId}: ${error instanceof TripTransitionError ? error.message : 'update failed'}`);
+                }
             }
-            await logAction(user.email, 'MANUAL_SCAN', `Manual merge scan found and flagged ${updatesPerformed} trips.`, { count: updatesPerformed });
-            alert(`Scan complete. Found ${updatesPerformed} new merge candidate(s)!`);
+            await logAction(user.email, 'MANUAL_SCAN', `Manual merge scan found and flagged ${updatesPerformed} trips.${failures.length ? ` ${failures.length} could not be flagged.` : ''}`, { count: updatesPerformed, failed: failures.length });
+            alert(`Scan complete. Found ${updatesPerformed} new merge candidate(s)!${failures.length ? `\n\nCould not flag:\n${failures.join('\n')}` : ''}`);
         } else {
             alert("Scan complete. No new merge candidates found.");
         }
@@ -666,9 +669,9 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
             const proposedVehicle = allVehicles.find(v => v.id === proposedMergeVehicleId);
             const proposedDriver = allDrivers.find(d => d.id === selectedDriver);
             
-            // 1. Update Candidate Trip B (new request) to 'awaiting_merge_approval'
-            await updateDoc(doc(db, "trip_requests", candidateTripData.id), {
-                status: 'awaiting_merge_approval',
+            await TripRepository.transitionMany([
+            // 1. Move Candidate Trip B (new request) to 'awaiting_merge_approval'
+            { tripId: candidateTripData.id, to: 'awaiting_merge_approval', patch: {
                 masterTripId: masterTripData.id, 
                 mergeProposal: {
                     vehicleId: proposedVehicle.id,
@@ -682,14 +685,14 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
                     consentB: 'pending', 
                 },
                 mergeCandidateDetails: null, 
-            });
+            } },
 
-            // 2. Update Master Trip A status
-            await updateDoc(doc(db, "trip_requests", masterTripData.id), {
-                status: 'awaiting_merge_approval',
+            // 2. Move Master Trip A to 'awaiting_merge_approval'
+            { tripId: masterTripData.id, to: 'awaiting_merge_approval', patch: {
                 linkedProposalTripId: candidateTripData.id,
                 originalStatus: masterTripData.status, 
-            });
+            } },
+            ]);
 
             console.log(`MOCK: Sent merge proposal email to ${masterTripData.email} (User A) and ${candidateTripData.email} (User B)`);
 
@@ -741,55 +744,37 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
         const driver = allDrivers.find(d => d.id === proposal.driverId) || { fullName: 'Pending', id: null };
         
         const finalTripCost = masterTrip.cost;
-        
-        const newSerialNumber = await generateNextSerialNumber('M');
 
 
         // --- Database Transaction for Atomicity ---
         try {
-            await runTransaction(db, async (transaction) => {
-                const masterRef = doc(db, "trip_requests", masterTrip.id);
-                const candidateRef = doc(db, "trip_requests", finalCandidateTrip.id);
-                const driverRef = driver.id ? doc(db, "users", driver.id) : null;
-                const vehicleRef = vehicle.id ? doc(db, "vehicles", vehicle.id) : null;
-
-                // A. Update Master Trip (Trip A)
-                transaction.update(masterRef, {
-                    status: 'approved',
-                    serialNumber: newSerialNumber, // 🎯 SET NEW MERGE SERIAL NUMBER
-                    passengers: combinedPassengers,
-                    destinations: combinedStops,
-                    isMerged: true,
-                    cost: finalTripCost, 
-                    // 🎯 IMPROVED: Use the helper to ensure full customer details are captured
-                    linkedTripDetails: [ 
-                        masterDetails,
-                        candidateDetails,
-                    ],
-                    
-                    // Assign the vehicle proposed in the merge (Sanitized)
-                    vehicleId: vehicle.id ?? null,
-                    vehicleNumber: vehicle.number ?? 'Pending',
-                    driverId: driver.id ?? null,
-                    driverName: driver.fullName ?? 'Pending',
-                    
-                    linkedProposalTripId: null, 
-                    originalStatus: null, 
-                    approvedAt: new Date().toISOString(),
-                    approvedByAdmin: user.name || user.email,
-                });
-
-                // B. Delete Candidate Trip (Trip B)
-                transaction.delete(candidateRef);
+            const newSerialNumber = await nextSerialNumber('M');
+
+            // A. Approve Master Trip (Trip A) - also marks the proposed driver/vehicle 'in-use'
+            // B. Delete Candidate Trip (Trip B) in the same transaction
+            await TripRepository.finalizeMerge(masterTrip.id, {
+                serialNumber: newSerialNumber, // 🎯 SET NEW MERGE SERIAL NUMBER
+                passengers: combinedPassengers,
+                destinations: combinedStops,
+                isMerged: true,
+                cost: finalTripCost, 
+                // 🎯 IMPROVED: Use the helper to ensure full customer details are captured
+                linkedTripDetails: [ 
+                    masterDetails,
+                    candidateDetails,
+                ],
                 
-                // C. Update Driver/Vehicle Status (Driver must be marked 'in-use' with the Master Trip ID)
-                if (driverRef) {
-                    transaction.update(driverRef, { status: 'in-use', currentTripId: masterTrip.id });
-                }
-                if (vehicleRef) {
-                    transaction.update(vehicleRef, { status: 'in-use' });
-                }
-            });
+                // Assign the vehicle proposed in the merge (Sanitized)
+                vehicleId: vehicle.id ?? null,
+                vehicleNumber: vehicle.number ?? 'Pending',
+                driverId: driver.id ?? null,
+                driverName: driver.fullName ?? 'Pending',
+                
+                linkedProposalTripId: null, 
+                originalStatus: null, 
+                approvedAt: new Date().toISOString(),
+                approvedByAdmin: user.name || user.email,
+            }, finalCandidateTrip.id);
 
             await logAction(user.email, 'FINAL_MERGE_COMPLETE', `Trip #${newSerialNumber} (Master: ${masterTrip.serialNumber}) successfully merged with #${finalCandidateTrip.serialNumber}. Total Pax: ${combinedPassengers}. Vehicle: ${vehicle.number}. Final Cost: ${finalTripCost}.`, { tripId: masterTrip.id });
             
@@ -831,25 +816,24 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
         if (!confirm(`Are you sure you want to cancel the merge proposal? This will revert Master Trip #${masterTrip.serialNumber} to ${originalStatus.toUpperCase()} and Candidate Trip #${candidateTrip.serialNumber} to PENDING.`)) return;
 
         try {
-            await runTransaction(db, async (transaction) => {
-                const masterRef = doc(db, "trip_requests", masterTrip.id);
-                const candidateRef = doc(db, "trip_requests", candidateTrip.id);
-                
+            // The master only left its original status once a proposal was sent
+            const masterMoved = tripStatusIn(masterTrip, MERGE_QUEUE_STATUSES);
+
+            await TripRepository.transitionMany([
                 // 1. Revert Master Trip (Trip A) to original status (Approved or Pending)
-                transaction.update(masterRef, {
-                    status: originalStatus,
+                ...(masterMoved ? [{ tripId: masterTrip.id, to: originalStatus, patch: {
                     linkedProposalTripId: null,
                     mergeProposal: null,
                     originalStatus: null, 
-                });
+                } }] : []),
 
                 // 2. Revert Candidate Trip (Trip B) to PENDING
-                transaction.update(candidateRef, {
-                    status: 'pending',
+                { tripId: candidateTrip.id, to: 'pending', patch: {
                     masterTripId: null,
                     mergeProposal: null,
-                });
-            });
+                    mergeMatch: null,
+                } },
+            ]);
 
             await logAction(user.email, 'MERGE_PROPOSAL_CANCELLED', `Merge cancelled between Master #${masterTrip.serialNumber} and Candidate #${candidateTrip.serialNumber}. Master reverted to ${originalStatus.toUpperCase()}, Candidate to PENDING.`, { tripId: masterTrip.id });
 
@@ -868,8 +852,8 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
         try {
             const reason = "Breakdown cancellation (New vehicle could not be assigned or trip manually cancelled by admin).";
 
-            await updateDoc(doc(db, "trip_requests", trip.id), {
-                status: 'cancelled',
+            // Releases the driver; the broken vehicle stays 'in-maintenance'
+            await TripRepository.transition(trip.id, 'cancelled', {
                 cancellationReason: reason,
                 cancelledByAdmin: user.name || user.email,
                 cancelledAt: new Date().toISOString(),
@@ -879,13 +863,6 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
                 lastVisitedStop: null,
             });
 
-            if (trip.driverId) {
-                await updateDoc(doc(db, "users", trip.driverId), { status: 'available', currentTripId: null });
-            }
-            if (trip.vehicleId) {
-                 await updateDoc(doc(db, "vehicles", trip.vehicleId), { status: 'in-maintenance' });
-            }
-
 
             await logAction(user.email, 'BREAKDOWN_CANCELLED', 
                 `Cancelled broken trip #${trip.serialNumber}. Trip marked as cancelled/unassigned.`, 
@@ -932,7 +909,9 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
     const handleReassignVehicleChange = (vehicleId: string) => {
         setSelectedVehicle(vehicleId);
         // Automatically attempt to select a qualified driver
-        const qualifiedDrivers = getQualifiedDrivers(vehicleId, selectedTrip?.date || new Date().toISOString());
+        const qualifiedDrivers = selectedTrip
+            ? getQualifiedDrivers(vehicleId, getReassignmentWindow(selectedTrip), [selectedTrip.id]).filter(d => d.isAvailable)
+            : [];
         setSelectedDriver(qualifiedDrivers.length > 0 ? qualifiedDrivers[0].id : '');
     }
 
@@ -940,28 +919,24 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
         setIsCalculatingCost(true); 
         setCostFirstVehicle(0);
         setCostSecondVehicle(0);
+        setSplitSettlement(null);
         setNewVehicleStartLocation('');
+        setNewVehicleStartCoords(null);
         setSelectedTrip(trip);
         setSelectedDriver('');
         setSelectedVehicle(''); 
         
         
         const timeout = setTimeout(async () => {
-             // 1. Calculate Cost 1 (Restored Async Call)
-             const originalVehicle = allVehicles.find(v => v.number === trip.vehicleNumber);
-             const rate = originalVehicle?.ratePerKm || 0;
-             const distanceRunOriginalVehicle = await calculateOriginalVehicleDistance(trip);
-             const calculatedCost1 = Math.round(distanceRunOriginalVehicle * rate); 
-             setCostFirstVehicle(calculatedCost1);
-             
-             // 2. Attempt to select best replacement vehicle/driver
-             const availableV = getVehiclesAvailableOnDate(trip.date); 
-             const firstAvailableV = availableV.find(v => v.status !== 'in-maintenance'); // Prioritize non-maintenance 
+             // Costs are settled by the cost calculation effect once the modal is open
+             // Attempt to select best replacement vehicle/driver
+             // Replacement leaves now, so check availability from now for the rest of the trip
+             const reassignWindow = getReassignmentWindow(trip);
+             const firstAvailableV = getVehicleOptions(reassignWindow, [trip.id]).find(v => v.isAvailable);
              
              if (firstAvailableV) {
                  setSelectedVehicle(firstAvailableV.id);
-                 const requiredType = getVehicleRequiredLicense(firstAvailableV);
-                 const qualifiedDriversList = getQualifiedDrivers(firstAvailableV.id, trip.date); // Use the correct qualified driver list
+                 const qualifiedDriversList = getQualifiedDrivers(firstAvailableV.id, reassignWindow, [trip.id]).filter(d => d.isAvailable);
                  setSelectedDriver(qualifiedDriversList.length > 0 ? qualifiedDriversList[0].id : '');
              }
              setIsCalculatingCost(false);
@@ -991,44 +966,38 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
                 return;
             }
 
-            // Recalculate Cost based on Map Distance * Rate
-            let finalCost = selectedTrip.cost;
+            // Re-price on the assigned vehicle's tariff (map distance, rate in force on the trip date)
             const distMatch = (selectedTrip.distance || '').toString().match(/([\d.]+)/);
             const distKm = distMatch ? parseFloat(distMatch[0]) : 0;
-            const rate = vehicle?.ratePerKm ? Number(vehicle.ratePerKm) : 0;
-            if (distKm > 0 && rate > 0) finalCost = `LKR ${Math.round(distKm * rate)}`;
+            const quote = await priceSavedTrip(vehicle, selectedTrip, distKm);
+            const costPatch = quote.total > 0 ? quoteToTripPatch(quote) : { cost: selectedTrip.cost };
         
             const driverName = driver?.fullName || 'Unknown';
             const vehicleNum = vehicle?.number || 'Unknown';
             
             // 🎯 NEW: Generate 'N' serial number for normal approval
-            const newSerialNumber = await generateNextSerialNumber('N');
+            const newSerialNumber = await nextSerialNumber('N');
 
 
-            // 1. Update Trip Request
-            await updateDoc(doc(db, "trip_requests", selectedTrip.id), {
-                status: 'approved',
+            // 1. Approve Trip Request (also marks vehicle/driver 'in-use')
+            await TripRepository.transition(selectedTrip.id, 'approved', {
                 serialNumber: newSerialNumber, // 🎯 SET NEW NORMAL SERIAL NUMBER
                 driverId: selectedDriver,
                 driverName: driverName,
                 vehicleId: selectedVehicle,
                 vehicleNumber: vehicleNum,
-                cost: finalCost,
+                ...costPatch,
                 approvedAt: new Date().toISOString(),
                 approvedDate: new Date().toISOString().split('T')[0]
             });
 
-            // 2. Update Vehicle/Driver Status
-            await updateDoc(doc(db, "vehicles", selectedVehicle), { status: 'in-use' });
-            await updateDoc(doc(db, "users", selectedDriver), { status: 'in-use', currentTripId: selectedTrip.id });
-
-            // 3. Send Notifications/PDF (Generate Half A4 PDF for user ticket)
+            // 2. Send Notifications/PDF (Generate Half A4 PDF for user ticket)
             generateTripTicketHalfA4PDF({ 
                 ...selectedTrip, 
                 serialNumber: newSerialNumber, // Use the new N serial number
                 vehicleNumber: vehicleNum, 
                 driverName: driverName, 
-                cost: finalCost, 
+                ...costPatch, 
                 status: 'approved',
                 linkedTripDetails: null, // Ensure this is null for a standard trip
                 // Pass customer details for single trip ticket generation
@@ -1039,7 +1008,7 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
             console.log(`MOCK: Sent Driver email to ${driver.email} with new trip details.`);
 
 
-            // 4. Log History
+            // 3. Log History
             await logAction(user.email, 'TRIP_APPROVAL', `Approved trip for ${selectedTrip.customerName}. Vehicle: ${vehicleNum}. Driver required to input starting ODO. New SN: ${newSerialNumber}`, { targetId: selectedTrip.id });
 
             alert(`Trip Approved! Driver will input starting odometer. Ticket PDF generated. Serial: ${newSerialNumber}`);
@@ -1055,7 +1024,7 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
     
     // Reassignment Approve Logic
     const handleApproveReassignment = async () => { /* ... (Reassignment logic retained and FIXED) ... */
-        if (costSecondVehicle <= 0) {
+        if (!splitSettlement || costSecondVehicle <= 0) {
             alert('Cost for New Vehicle is zero. Please verify the New Vehicle Start Place and the vehicle rate.');
             return;
         }
@@ -1073,7 +1042,6 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
             return;
         }
 
-        const newSerialNumber = await generateNextSerialNumber('B');
         const oldVehicleNumber = selectedTrip.vehicleNumber;
         const oldDriverId = selectedTrip.driverId;
         const oldDriverName = selectedTrip.driverName;
@@ -1084,53 +1052,27 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
         const finalCostString = `LKR ${costFirstVehicle + costSecondVehicle}`;
 
         try {
-            await runTransaction(db, async (transaction) => {
-                const tripRef = doc(db, "trip_requests", selectedTrip.id);
-                const newDriverRef = doc(db, "users", newDriver.id);
-                const newVehicleRef = doc(db, "vehicles", newVehicle.id);
-                const oldVehicleInUsersRef = allVehicles.find(v => v.number === oldVehicleNumber);
-                const oldDriverRef = oldDriverId ? doc(db, "users", oldDriverId) : null;
-                
-                // 💥 FIX: READ PHASE START (Read all necessary data first) 💥
-                let oldDriverSnap = null;
-                if (oldDriverRef) {
-                    oldDriverSnap = await transaction.get(oldDriverRef);
-                }
-                // 💥 FIX: READ PHASE END 💥
-                
-                transaction.update(tripRef, {
-                    status: 'reassigned', 
-                    serialNumber: newSerialNumber, 
-                    originalDriverId: oldDriverId,
-                    originalDriverName: oldDriverName,
-                    originalVehicleNumber: oldVehicleNumber,
-                    // 🎯 Update trip record with old driver phone for historical tracking (optional)
-                    originalDriverPhone: oldDriverPhone, 
-                    driverId: newDriver.id,
-                    driverName: newDriver.fullName,
-                    vehicleId: newVehicle.id,
-                    vehicleNumber: newVehicle.number,
-                    cost: finalCostString, // Use the pre-calculated string
-                    costBreakdown: {
-                        oldVehicle: oldVehicleNumber, oldCost: costFirstVehicle,
-                        newVehicle: newVehicle.number, newCost: costSecondVehicle,
-                        newVehicleStartPlace: newVehicleStartLocation,
-                    },
-                    approvedAt: new Date().toISOString(), approvedByAdmin: user.name || user.email, approvedDate: new Date().toISOString().split('T')[0],
-                    // IMPORTANT: Clearing breakdown data as the trip is now reassigned/fixed
-                    breakdownOdometer: null, breakdownLocation: null, lastVisitedStop: null,
-                });
+            const newSerialNumber = await nextSerialNumber('B');
 
-                transaction.update(newVehicleRef, { status: 'in-use' });
-                transaction.update(newDriverRef, { status: 'in-use', currentTripId: selectedTrip.id });
-
-                if (oldDriverRef && oldDriverSnap?.exists() && oldDriverSnap.data().currentTripId === selectedTrip.id) {
-                     transaction.update(oldDriverRef, { status: 'available', currentTripId: null });
-                }
-                if(oldVehicleInUsersRef?.id) {
-                    // Mark original vehicle for maintenance
-                    transaction.update(doc(db, "vehicles", oldVehicleInUsersRef.id), { status: 'in-maintenance' });
-                }
+            // New driver/vehicle go 'in-use'; the old driver is released (unless already on another trip)
+            // and the original vehicle stays in maintenance.
+            await TripRepository.transition(selectedTrip.id, 'reassigned', {
+                serialNumber: newSerialNumber, 
+                originalDriverId: oldDriverId,
+                originalDriverName: oldDriverName,
+                originalVehicleNumber: oldVehicleNumber,
+                originalStartedAt: selectedTrip.startedAt || null,
+                // 🎯 Update trip record with old driver phone for historical tracking (optional)
+                originalDriverPhone: oldDriverPhone, 
+                driverId: newDriver.id,
+                driverName: newDriver.fullName,
+                vehicleId: newVehicle.id,
+                vehicleNumber: newVehicle.number,
+                cost: finalCostString, // Use the pre-calculated string
+                costBreakdown: splitSettlement,
+                approvedAt: new Date().toISOString(), approvedByAdmin: user.name || user.email, approvedDate: new Date().toISOString().split('T')[0],
+                // IMPORTANT: Clearing breakdown data as the trip is now reassigned/fixed
+                breakdownOdometer: null, breakdownLocation: null, lastVisitedStop: null,
             });
             
             // 🎯 NEW: PDF Generation for the Reassignment Ticket
@@ -1140,6 +1082,7 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
                 vehicleNumber: newVehicle.number, // Use new vehicle
                 driverName: newDriver.fullName, // Use new driver
                 cost: finalCostString, 
+                costBreakdown: splitSettlement,
                 status: 'reassigned', // New status
                 linkedTripDetails: null, // Ensure this is null for a standard/reassigned trip
                 
@@ -1168,20 +1111,24 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
 
     if (loading) return <div className="p-10 text-center">Loading...</div>;
     
-    // Filtered lists for Modals
-    const vehiclesForSelectedTripDate = selectedTrip ? getVehiclesAvailableOnDate(selectedTrip.date) : [];
-    
-    // Qualified drivers for normal approval (filtered by selectedVehicle ID and selectedTrip Date)
-    const qualifiedDriversForApproval = selectedTrip && selectedVehicle ? getQualifiedDrivers(selectedVehicle, selectedTrip.date) : [];
+    // Option lists for Modals (blocked entries are shown disabled with the reason)
+    const approvalVehicleOptions = selectedTrip ? getVehicleOptions(getApprovalWindow(selectedTrip), [selectedTrip.id]) : [];
+    const approvalDriverOptions = selectedTrip && selectedVehicle ? getQualifiedDrivers(selectedVehicle, getApprovalWindow(selectedTrip), [selectedTrip.id]) : [];
+
+    const reassignWindow = showReassignModal && selectedTrip ? getReassignmentWindow(selectedTrip) : null;
+    const reassignVehicleOptions = reassignWindow ? getVehicleOptions(reassignWindow, [selectedTrip.id]) : [];
+    const reassignDriverOptions = reassignWindow && selectedVehicle ? getQualifiedDrivers(selectedVehicle, reassignWindow, [selectedTrip.id]) : [];
     
     const getMergeQualifiedVehicles = () => {
           if (!masterTripData || !candidateTripData) return [];
           
           const combinedPax = (masterTripData.passengers || 1) + (candidateTripData.passengers || 1);
-          // Filter for vehicles that are available and have enough SEATS and are not busy on the trip date
-          return getVehiclesAvailableOnDate(masterTripData.date).filter(v => v.seats >= combinedPax);
+          // Vehicles with enough SEATS; the merged run holds the vehicle across both trips' windows
+          return getVehicleOptions(getMergeWindow(), getMergeTripIds()).filter(v => v.seats >= combinedPax);
     };
 
+    const mergeDriverOptions = proposedMergeVehicleId ? getQualifiedDrivers(proposedMergeVehicleId, getMergeWindow(), getMergeTripIds()) : [];
+
 
     return (
         <div className="min-h-screen bg-[#F9FAFB]">
@@ -1302,6 +1249,11 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
                                          <p className="text-sm text-gray-700 font-medium mb-3">
                                              {statusText}
                                          </p>
+                                         {candidateTrip.mergeMatch && (
+                                             <p className="text-xs text-purple-800 bg-purple-100 rounded-lg px-3 py-2 mb-3">
+                                                 <span className="font-bold">Match score {candidateTrip.mergeMatch.score}/100</span> — {candidateTrip.mergeMatch.explanation}
+                                             </p>
+                                         )}
                                          <div className="flex justify-end gap-2">
                                              {buttonAction}
                                          </div>
@@ -1325,9 +1277,14 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
                             {brokenTrips.map((trip) => (
                                  <Card key={trip.id} className="p-4 border-l-4 border-yellow-500 bg-yellow-50">
                                      <div className="flex justify-between mb-4">
-                                         <div className="text-lg text-gray-900 font-bold">Trip #{trip.serialNumber || trip.id} - Breakdown</div>
+                                         <div className="text-lg text-gray-900 font-bold">Trip #{trip.serialNumber || trip.id} - {trip.breakdownSource === 'inspection' ? 'Failed Inspection' : 'Breakdown'}</div>
                                          <Badge status="broken-down" size="md" />
                                      </div>
+                                     {trip.breakdownSource === 'inspection' && (
+                                         <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex items-center gap-2">
+                                             <AlertTriangle className="w-4 h-4 flex-shrink-0"/> {trip.breakdownReason}. The trip was not started and {trip.vehicleNumber} is in maintenance.
+                                         </div>
+                                     )}
                                      <div className="grid grid-cols-2 gap-4 text-sm mb-4">
                                          <div>
                                              <p className="font-medium text-gray-700">Original Vehicle:</p>
@@ -1351,6 +1308,80 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
                 </div>
                 
                 
+                {/* COST VARIANCE REVIEW SECTION */}
+                <div className="mb-8 border border-gray-200 rounded-2xl overflow-hidden shadow-sm">
+                    <div className="flex justify-between items-center bg-red-50 p-4">
+                        <div onClick={() => setCollapsed(prev => ({ ...prev, costReview: !prev.costReview }))} className="cursor-pointer flex items-center gap-2">
+                            <h2 className="text-xl text-red-700 font-bold flex items-center gap-2"><Scale className="w-5 h-5"/> Cost Variance Review ({costReviewTrips.length})</h2>
+                            {collapsed.costReview ? <ChevronDown className="w-5 h-5 text-red-700"/> : <ChevronUp className="w-5 h-5 text-red-700"/>}
+                        </div>
+                        <div className="flex items-center gap-2 text-sm">
+                            <span className="text-gray-600">Flag above</span>
+                            <input type="number" min="0" value={thresholdInput} onChange={e => setThresholdInput(e.target.value)} className="w-16 p-1 border rounded-lg text-right" />
+                            <span className="text-gray-600">%</span>
+                            <button onClick={handleSaveThreshold} disabled={Number(thresholdInput) === costingSettings.varianceThresholdPercent} className="px-3 py-1 bg-red-600 text-white rounded-lg disabled:opacity-50">Save</button>
+                        </div>
+                    </div>
+                    {!collapsed.costReview && (
+                        <div className="p-4 space-y-4 bg-white">
+                            {costReviewTrips.map((trip) => (
+                                <Card key={trip.id} className="p-4 border-l-4 border-red-500">
+                                    <div className="flex justify-between mb-3">
+                                        <div className="text-lg text-gray-900 font-bold">Trip #{trip.serialNumber || trip.id}</div>
+                                        <Badge status="completed" size="sm" />
+                                    </div>
+                                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm mb-4">
+                                        <div>
+                                            <p className="font-medium text-gray-700">{trip.vehicleNumber} • {trip.driverName}</p>
+                                            <p className="text-gray-600">{trip.pickup} → {trip.destination}</p>
+                                            <p className="text-gray-500">{trip.date} {trip.time}</p>
+                                        </div>
+                                        <div>
+                                            <p className="text-gray-700">{describeKmComparison(trip)}</p>
+                                            <CostComparison trip={trip} className="text-sm" />
+                                            {trip.waitingMinutes ? <p className="text-xs text-gray-500">Waiting: {trip.waitingMinutes} min</p> : null}
+                                            {getTripStopProgress(trip).some(s => s.waitingMinutes) && (
+                                                <p className="text-xs text-gray-500">At stops: {getTripStopProgress(trip).filter(s => s.waitingMinutes).map(s => `${s.label} ${s.waitingMinutes} min`).join(', ')}</p>
+                                            )}
+                                        </div>
+                                    </div>
+                                    <div className="flex justify-end gap-3 pt-3 border-t">
+                                        <button onClick={() => handleCostReview(trip, 'kept-estimate')} className="px-4 py-2 border border-gray-300 text-gray-700 rounded-xl">Keep Estimate (LKR {trip.finalCosting!.estimatedCost})</button>
+                                        <button onClick={() => handleCostReview(trip, 'accepted-actual')} className="px-4 py-2 bg-green-600 text-white rounded-xl">Accept Actual (LKR {trip.finalCosting!.actualCost})</button>
+                                    </div>
+                                </Card>
+                            ))}
+                            {costReviewTrips.length === 0 && <p className="text-center text-gray-500 p-4">No completed trips outside the {costingSettings.varianceThresholdPercent}% variance threshold.</p>}
+                        </div>
+                    )}
+                </div>
+
+                {/* IN-PROGRESS TRIPS: stop-by-stop progress from the drivers' geofence events */}
+                <div className="mb-8 border border-gray-200 rounded-2xl overflow-hidden shadow-sm">
+                    <div onClick={() => setCollapsed(prev => ({ ...prev, inProgress: !prev.inProgress }))} className="flex justify-between items-center bg-green-50 p-4 cursor-pointer">
+                        <h2 className="text-xl text-green-700 font-bold flex items-center gap-2"><Navigation className="w-5 h-5"/> Trips In Progress ({inProgressTrips.length})</h2>
+                        {collapsed.inProgress ? <ChevronDown className="w-5 h-5 text-green-700"/> : <ChevronUp className="w-5 h-5 text-green-700"/>}
+                    </div>
+                    {!collapsed.inProgress && (
+                        <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-4 bg-white">
+                            {inProgressTrips.map((trip) => (
+                                <Card key={trip.id} className="p-4 border-l-4 border-green-500">
+                                    <div className="flex justify-between mb-1">
+                                        <div className="text-lg text-gray-900 font-bold">Trip #{trip.serialNumber || trip.id}</div>
+                                        <Badge status="in-progress" size="sm" />
+                                    </div>
+                                    <p className="text-sm text-gray-600 mb-3">
+                                        {trip.vehicleNumber} • {trip.driverName}
+                                        {trip.livePosition && <span className="text-xs text-gray-500"> • GPS {describePositionAge(trip.livePosition)}</span>}
+                                    </p>
+                                    <StopProgressList progress={getTripStopProgress(trip)} />
+                                </Card>
+                            ))}
+                            {inProgressTrips.length === 0 && <p className="text-center text-gray-500 p-4 md:col-span-2">No trips are on the road right now.</p>}
+                        </div>
+                    )}
+                </div>
+
                 {/* PENDING TRIPS SECTION (Retained) */}
                 <div className="mb-8 border border-gray-200 rounded-2xl overflow-hidden shadow-sm">
                     <div className="flex justify-between items-center bg-blue-100 p-4">
@@ -1432,9 +1463,9 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
                                     onChange={e => setSelectedVehicle(e.target.value)}
                                 >
                                     <option value="">Select Available Vehicle</option>
-                                    {getVehiclesAvailableOnDate(selectedTrip.date).map(v => (
-                                        <option key={v.id} value={v.id}>
-                                            {v.number} - {v.model} (Req: {getVehicleRequiredLicense(v)})
+                                    {approvalVehicleOptions.map(v => (
+                                        <option key={v.id} value={v.id} disabled={!v.isAvailable}>
+                                            {v.number} - {v.model} (Req: {getVehicleRequiredLicense(v)}){v.blockedReason ? ` — ${v.blockedReason}` : ''}
                                         </option>
                                     ))}
                                 </select>
@@ -1450,14 +1481,14 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
                                     disabled={!selectedVehicle}
                                 >
                                     <option value="">Select Qualified Driver</option>
-                                    {/* 💥 FIX: Uses the filter that checks operational availability on selectedTrip.date 💥 */}
-                                    {getQualifiedDrivers(selectedVehicle, selectedTrip.date).map(d => (
-                                        <option key={d.id} value={d.id}>
-                                            {d.fullName} (Lic: {d.licenseType}) {d.vehicle ? `[Assigned: ${d.vehicle}]` : '[Unassigned]'}
+                                    {/* Busy drivers are listed but disabled, with the overlapping trip */}
+                                    {approvalDriverOptions.map(d => (
+                                        <option key={d.id} value={d.id} disabled={!d.isAvailable}>
+                                            {d.fullName} (Lic: {d.licenseType}) {d.blockedReason ? `— ${d.blockedReason}` : d.vehicle ? `[Assigned: ${d.vehicle}]` : '[Unassigned]'}
                                         </option>
                                     ))}
                                 </select>
-                                {selectedVehicle && getQualifiedDrivers(selectedVehicle, selectedTrip.date).length === 0 && (
+                                {selectedVehicle && approvalDriverOptions.filter(d => d.isAvailable).length === 0 && (
                                     <p className='text-xs text-red-500 mt-1'>No **operationally available** drivers are qualified for this vehicle type ({getVehicleRequiredLicense(allVehicles.find(v => v.id === selectedVehicle))}).</p>
                                 )}
                             </div>
@@ -1528,9 +1559,9 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
                                       onChange={e => handleReassignVehicleChange(e.target.value)}
                                   >
                                       <option value="">Select Available Vehicle</option>
-                                      {getVehiclesAvailableOnDate(selectedTrip.date).map(v => (
-                                          <option key={v.id} value={v.id}>
-                                              {v.number} - {v.model} (Req: {getVehicleRequiredLicense(v)})
+                                      {reassignVehicleOptions.map(v => (
+                                          <option key={v.id} value={v.id} disabled={!v.isAvailable}>
+                                              {v.number} - {v.model} (Req: {getVehicleRequiredLicense(v)}){v.blockedReason ? ` — ${v.blockedReason}` : ''}
                                           </option>
                                       ))}
                                   </select>
@@ -1546,13 +1577,13 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
                                       disabled={!selectedVehicle}
                                   >
                                       <option value="">Select Qualified Driver</option>
-                                      {getQualifiedDrivers(selectedVehicle, selectedTrip.date).map(d => (
-                                          <option key={d.id} value={d.id}>
-                                              {d.fullName} (Lic: {d.licenseType}) {d.vehicle ? `[Assigned: ${d.vehicle}]` : '[Unassigned]'}
+                                      {reassignDriverOptions.map(d => (
+                                          <option key={d.id} value={d.id} disabled={!d.isAvailable}>
+                                              {d.fullName} (Lic: {d.licenseType}) {d.blockedReason ? `— ${d.blockedReason}` : d.vehicle ? `[Assigned: ${d.vehicle}]` : '[Unassigned]'}
                                           </option>
                                       ))}
                                   </select>
-                                  {selectedVehicle && getQualifiedDrivers(selectedVehicle, selectedTrip.date).length === 0 && (
+                                  {selectedVehicle && reassignDriverOptions.filter(d => d.isAvailable).length === 0 && (
                                        <p className='text-xs text-red-500 mt-1'>No available drivers are qualified for this vehicle type.</p>
                                    )}
                               </div>
@@ -1608,6 +1639,7 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
                                   {costFirstVehicle === 0 && !isCalculatingCost && (
                                        <p className='text-xs text-red-500 font-semibold'>Warning: Cost 1 is 0. Check addresses or ODO data.</p>
                                    )}
+                                  <CostLegList line={splitSettlement?.lines?.find(l => l.role === 'original')} />
                               </div>
 
                               {/* Cost Second Vehicle (Automated Calculation - NEW VEHICLE COST) */}
@@ -1634,6 +1666,7 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
                                   {costSecondVehicle === 0 && !isCalculatingCost && selectedVehicle && (
                                        <p className='text-xs text-red-500 font-semibold'>Waiting for New Start Place calculation.</p>
                                    )}
+                                  {costSecondVehicle > 0 && <CostLegList line={splitSettlement?.lines?.find(l => l.role === 'replacement')} />}
                               </div>
                           </div>
                           
@@ -1699,12 +1732,12 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
                               >
                                    <option value="">Select Suitable Vehicle</option>
                                    {getMergeQualifiedVehicles().map(v => (
-                                       <option key={v.id} value={v.id}>
-                                           {v.number} - {v.model} (Seats: {v.seats})
+                                       <option key={v.id} value={v.id} disabled={!v.isAvailable}>
+                                           {v.number} - {v.model} (Seats: {v.seats}){v.blockedReason ? ` — ${v.blockedReason}` : ''}
                                        </option>
                                    ))}
                               </select>
-                              {getMergeQualifiedVehicles().length === 0 && (
+                              {getMergeQualifiedVehicles().filter(v => v.isAvailable).length === 0 && (
                                    <p className='text-xs text-red-500 mt-1'>No vehicles available with enough seating capacity for the merge.</p>
                               )}
                          </div>
@@ -1719,13 +1752,13 @@ export function TripApproval({ user, onNavigate, onLogout }: TripApprovalProps)
                                        onChange={e => setSelectedDriver(e.target.value)}
                                   >
                                        <option value="">Select Qualified Driver</option>
-                                       {getQualifiedDrivers(proposedMergeVehicleId, masterTripData.date).map(d => (
-                                           <option key={d.id} value={d.id}>
-                                               {d.fullName} (Lic: {d.licenseType}) {d.currentTripId ? '[In Trip]' : d.vehicle ? `[Assigned: ${d.vehicle}]` : '[Unassigned]'}
+                                       {mergeDriverOptions.map(d => (
+                                           <option key={d.id} value={d.id} disabled={!d.isAvailable}>
+                                               {d.fullName} (Lic: {d.licenseType}) {d.blockedReason ? `— ${d.blockedReason}` : d.currentTripId ? '[In Trip]' : d.vehicle ? `[Assigned: ${d.vehicle}]` : '[Unassigned]'}
                                            </option>
                                        ))}
                                   </select>
-                                  {getQualifiedDrivers(proposedMergeVehicleId, masterTripData.date).length === 0 && (
+                                  {mergeDriverOptions.filter(d => d.isAvailable).length === 0 && (
                                        <p className='text-xs text-red-500 mt-1'>No qualified drivers found for this vehicle type.</p>
                                    )}
                               </div>
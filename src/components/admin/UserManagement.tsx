@@ -4,10 +4,10 @@ import { User } from '../../App';
 import { TopNav } from '../shared/TopNav';
 import { Card } from '../shared/Card';
 // Firebase Imports
-import { collection, query, where, setDoc, doc, deleteDoc, onSnapshot } from 'firebase/firestore';
 import { initializeApp, deleteApp, getApp, getApps } from 'firebase/app';
 import { getAuth, createUserWithEmailAndPassword, sendPasswordResetEmail } from 'firebase/auth';
-import { db, firebaseConfig, auth as mainAuth } from '../../firebase';
+import { firebaseConfig, auth as mainAuth } from '../../firebase';
+import { TripRepository, UserRepository } from '../../repositories';
 // Email & Logging
 import emailjs from '@emailjs/browser';
 import { logAction } from '../../utils/auditLogger'; // 1. Import Logger
@@ -35,13 +35,10 @@ export function UserManagement({ user, onNavigate, onLogout }: UserManagementPro
     setLoading(true);
     
     // 1. Listen to Users
-    const usersQuery = query(collection(db, "users"), where("role", "==", "user"));
-    const unsubscribeUsers = onSnapshot(usersQuery, (userSnap) => {
-      const usersList = userSnap.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+    const unsubscribeUsers = UserRepository.subscribeByRole('user', (usersList) => {
 
       // 2. Listen to Trips (Nested Listener for Stats)
-      const unsubscribeTrips = onSnapshot(collection(db, "trip_requests"), (tripSnap) => {
-        const allTrips = tripSnap.docs.map(doc => doc.data());
+      const unsubscribeTrips = TripRepository.subscribeAll((allTrips) => {
 
         const usersWithStats = usersList.map((u: any) => {
           const userTrips = allTrips.filter((t: any) => 
@@ -82,7 +79,7 @@ export function UserManagement({ user, onNavigate, onLogout }: UserManagementPro
       const userCredential = await createUserWithEmailAndPassword(secondaryAuth, newUser.email, newUser.password);
       const uid = userCredential.user.uid;
 
-      await setDoc(doc(db, "users", uid), {
+      await UserRepository.create(uid, {
         uid: uid,
         name: newUser.name,
         email: newUser.email,
@@ -127,7 +124,7 @@ export function UserManagement({ user, onNavigate, onLogout }: UserManagementPro
     if (!selectedUser) return;
     if (!window.confirm(`Are you sure you want to remove ${selectedUser.name}?`)) return;
     try {
-      await deleteDoc(doc(db, "users", selectedUser.id));
+      await UserRepository.remove(selectedUser.id);
 
       // 📝 3. Log Action (Deletion)
       await logAction({
@@ -1,14 +1,20 @@
 import { useState, useEffect } from 'react';
-import { Car, Plus, Edit, Wrench, DollarSign, Trash2, X, FileText, ShieldAlert, ShieldCheck, TrendingUp, Printer, CheckCircle, Fuel, Clock, ArrowLeft, AlertTriangle, Check } from 'lucide-react';
+import { Car, Plus, Edit, Wrench, DollarSign, Trash2, X, FileText, ShieldAlert, ShieldCheck, TrendingUp, Printer, CheckCircle, Fuel, Clock, ArrowLeft, AlertTriangle, Check, Receipt, ClipboardCheck, CreditCard } from 'lucide-react';
 import { User } from '../../App';
 import { TopNav } from '../shared/TopNav';
 import { Card } from '../shared/Card';
 import { Badge } from '../shared/Badge';
-// Firebase Imports
-import { collection, addDoc, doc, updateDoc, deleteDoc, onSnapshot, arrayUnion, query, orderBy, limit, getDocs, where } from 'firebase/firestore';
-import { db } from '../../firebase';
+import { FuelCardReconciliationModal } from './FuelCardReconciliationModal';
+// Data Access
+import { DEFAULT_INSPECTION_CHECKLIST, FuelLogRepository, InspectionRepository, SettingsRepository, TripRepository, VehicleRepository, appendToArray, getChecklistForType } from '../../repositories';
 // Logger Import
 import { logAction } from '../../utils/auditLogger';
+import { DEFAULT_TARIFF, getCurrentTariff } from '../../utils/tariffs';
+import { FUEL_LEVEL_LABELS, INSPECTION_CATEGORY_LABELS } from '../../utils/inspections';
+import { isVerifiedFuelLog } from '../../utils/fuelLogs';
+import { describeVehicleOdometer, recordVehicleOdometer } from '../../utils/odometerContinuity';
+import { FUEL_ANOMALY_ALERT_DAYS, FUEL_ANOMALY_LABELS, FuelAnomaly, detectFuelAnomalies, isRecentFuelAnomaly } from '../../utils/fuelAnomalies';
+import { FuelLog, InspectionCategory, InspectionChecklistItem, InspectionSettings, TariffRuleSet, VehicleInspection } from '../../types';
 // PDF Imports
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
@@ -20,6 +26,8 @@ const LICENSE_TYPES_VEHICLE = {
     'C': 'Heavy Motor Vehicle (C)',
 };
 
+const VEHICLE_TYPES = ['Car', 'Van', 'Bike', 'Bus', 'Lorry', 'Jeep', 'Three Wheeler'];
+
 // Placeholder list for plants/locations (Customize this list)
 const PLANT_LOCATIONS = [
     'Veyangoda (Head Office)',
@@ -82,6 +90,7 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
     const [vehicles, setVehicles] = useState<any[]>([]);
     const [trips, setTrips] = useState<any[]>([]); // All trips for calculation and status check
     const [fuelLogs, setFuelLogs] = useState<any[]>([]); 
+    const [pendingFuelLogs, setPendingFuelLogs] = useState<FuelLog[]>([]); // driver fills awaiting verification
     const [loading, setLoading] = useState(true);
     
     // Updated to store both header and footer image data
@@ -89,6 +98,7 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
     const [footerImageData, setFooterImageData] = useState<{ data: string; width: number; height: number; type: string } | null>(null);
     
     const [criticalVehicles, setCriticalVehicles] = useState<any[]>([]); 
+    const [recentFuelAnomalies, setRecentFuelAnomalies] = useState<FuelAnomaly[]>([]);
     const [licenseAlerts, setLicenseAlerts] = useState<any[]>([]); 
 
     // Modals
@@ -98,9 +108,13 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
     const [showServiceModal, setShowServiceModal] = useState(false);
     const [showRateModal, setShowRateModal] = useState(false); 
     const [showRateHistoryModal, setShowRateHistoryModal] = useState(false); 
+    const [showTariffModal, setShowTariffModal] = useState(false);
     const [showLicenseModal, setShowLicenseModal] = useState(false); 
     const [showFuelLogModal, setShowFuelLogModal] = useState(false); 
     const [showReportOptionsModal, setShowReportOptionsModal] = useState(false);
+    const [showInspectionHistoryModal, setShowInspectionHistoryModal] = useState(false);
+    const [showChecklistModal, setShowChecklistModal] = useState(false);
+    const [showFuelCardModal, setShowFuelCardModal] = useState(false);
     
     const [selectedVehicle, setSelectedVehicle] = useState<any>(null);
     const [isEditing, setIsEditing] = useState(false);
@@ -116,6 +130,10 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
 
     const [newRate, setNewRate] = useState(''); // Rate Update State
 
+    // Tariff Editor State (holidays edited as comma-separated dates)
+    const [tariffForm, setTariffForm] = useState({ ...DEFAULT_TARIFF, holidaysText: '', effectiveDate: '' });
+    const [applyTariffToOwner, setApplyTariffToOwner] = useState(false);
+
     const [repairStartData, setRepairStartData] = useState({
         issue: '', date: new Date().toISOString().split('T')[0], reportedBy: 'Admin'
     });
@@ -143,12 +161,19 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
         location: '',
     });
 
+    // Pre-Trip Inspections: history of the selected vehicle, and the checklist editor (per vehicle type)
+    const [vehicleInspections, setVehicleInspections] = useState<VehicleInspection[] | null>(null);
+    const [inspectionSettings, setInspectionSettings] = useState<InspectionSettings | null>(null);
+    const [checklistType, setChecklistType] = useState('default');
+    const [checklistDraft, setChecklistDraft] = useState<InspectionChecklistItem[]>([]);
+
     // Report Filter State
     const [reportSections, setReportSections] = useState({
         repair: true,
         service: true,
         fuel: true,
         license: true,
+        inspection: true,
     });
     
     // 2. Helper: Check if a trip is active today (in-progress or starting today) (Retained)
@@ -182,7 +207,8 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
             if (t.kmRun) { 
                 kmRun = Number(t.kmRun);
             }
-            totalKmRun += kmRun;
+            // Odometer gaps an admin put down to this trip were driven too
+            totalKmRun += kmRun + Number(t.attributedGapKm || 0);
         });
 
         const totalVehicleMileage = vehicle.initialMileage ? Number(vehicle.initialMileage) + totalKmRun : totalKmRun;
@@ -244,6 +270,7 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
         const unsubscribers: (() => void)[] = [];
         let latestVehicles: any[] = [];
         let latestTrips: any[] = [];
+        let latestFuelLogs: FuelLog[] = [];
 
         const recalculateStatus = () => {
             const vehiclesWithStats = latestVehicles.map(v => ({ ...v, stats: getVehicleStats(v, latestTrips) }));
@@ -257,7 +284,13 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
             
             setVehicles(vehiclesForState); 
             
-            const criticals = vehiclesWithStats.filter(v => v.stats.isCriticalRisk);
+            // Suspicious fuel activity in the last few weeks also puts a vehicle on the critical list
+            const anomalies = detectFuelAnomalies(latestVehicles, latestFuelLogs, latestTrips).filter(a => isRecentFuelAnomaly(a));
+            setRecentFuelAnomalies(anomalies);
+
+            const criticals = vehiclesWithStats
+                .map(v => ({ ...v, fuelAnomalies: anomalies.filter(a => a.vehicleNumber === v.number) }))
+                .filter(v => v.stats.isCriticalRisk || v.fuelAnomalies.length > 0);
             setCriticalVehicles(criticals);
             
             const alerts = vehiclesWithStats
@@ -270,8 +303,8 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
             setLicenseAlerts(alerts);
         };
 
-        const unsubVehicles = onSnapshot(collection(db, "vehicles"), (snapshot) => {
-            latestVehicles = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+        const unsubVehicles = VehicleRepository.subscribeAll((vehicles) => {
+            latestVehicles = vehicles;
             if (latestTrips.length > 0) {
                 recalculateStatus();
             } else {
@@ -280,8 +313,8 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
         });
         unsubscribers.push(unsubVehicles);
         
-        const unsubTrips = onSnapshot(collection(db, "trip_requests"), (snapshot) => {
-            latestTrips = snapshot.docs.map(doc => doc.data());
+        const unsubTrips = TripRepository.subscribeAll((trips) => {
+            latestTrips = trips;
             setTrips(latestTrips);
             recalculateStatus(); // Recalculate whenever trips change
             setLoading(false);
@@ -289,10 +322,20 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
         unsubscribers.push(unsubTrips);
         
         // Fetch Fuel Logs for Report Generation
-        const unsubFuelLogs = onSnapshot(query(collection(db, "fuel_logs"), orderBy("timestamp", "desc"), limit(100)), (snapshot) => {
-            setFuelLogs(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })));
-        });
+        const unsubFuelLogs = FuelLogRepository.subscribeRecent(100, setFuelLogs);
         unsubscribers.push(unsubFuelLogs);
+
+        // Full fuel history for anomaly detection
+        unsubscribers.push(FuelLogRepository.subscribeAll((logs) => {
+            latestFuelLogs = logs;
+            if (latestTrips.length > 0) recalculateStatus();
+        }));
+
+        unsubscribers.push(SettingsRepository.subscribeInspection(setInspectionSettings));
+
+        unsubscribers.push(FuelLogRepository.subscribePending((logs) => {
+            setPendingFuelLogs(logs.sort((a, b) => a.timestamp.localeCompare(b.timestamp)));
+        }));
         
 
         return () => unsubscribers.forEach(unsub => unsub());
@@ -376,7 +419,8 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
         }
         
         try {
-            await addDoc(collection(db, "fuel_logs"), {
+            const timestamp = new Date().toISOString();
+            const fuelLogId = await FuelLogRepository.create({
                 vehicleId: selectedVehicle.id,
                 vehicleNumber: selectedVehicle.number,
                 date: fuelData.date,
@@ -385,8 +429,11 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
                 cost: cost,
                 location: fuelData.location,
                 loggedBy: user.name || user.email,
-                timestamp: new Date().toISOString()
+                timestamp,
+                source: 'admin',
+                status: 'verified',
             });
+            await recordVehicleOdometer(selectedVehicle.id, odometer, timestamp, 'fuel-log', fuelLogId);
             
             console.log(`Fuel log saved for ${selectedVehicle.number}.`);
             alert(`Fuel log saved for ${selectedVehicle.number}.`);
@@ -398,6 +445,32 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
         }
     };
 
+    // --- Driver Fuel Log Verification ---
+    const handleReviewFuelLog = async (log: FuelLog, approve: boolean) => {
+        let rejectionReason = '';
+        if (!approve) {
+            rejectionReason = window.prompt(`Reason for rejecting the fuel log for ${log.vehicleNumber} (${log.liters} L, LKR ${log.cost})?`) || '';
+            if (!rejectionReason.trim()) return;
+        }
+        try {
+            await FuelLogRepository.update(log.id, {
+                status: approve ? 'verified' : 'rejected',
+                reviewedBy: user.name || user.email,
+                reviewedAt: new Date().toISOString(),
+                ...(approve ? {} : { rejectionReason: rejectionReason.trim() }),
+            });
+            // Only a verified fill is trusted as the vehicle's odometer
+            if (approve) await recordVehicleOdometer(log.vehicleId, log.odometer, log.timestamp, 'fuel-log', log.id, log.tripId || null);
+            await logAction(user.email, approve ? 'FUEL_LOG_VERIFIED' : 'FUEL_LOG_REJECTED',
+                `Fuel log for ${log.vehicleNumber} by ${log.loggedBy || 'driver'}: ${log.liters} L, LKR ${log.cost} at ${log.odometer} km${approve ? '' : `. Reason: ${rejectionReason.trim()}`}`,
+                { targetId: log.id }
+            );
+        } catch (error) {
+            console.error("Failed to review fuel log:", error);
+            alert("Failed to update the fuel log.");
+        }
+    };
+
     // --- Core Action: Force Set Vehicle to Available (Retained) ---
     const handleForceAvailable = async (vehicle: any) => { /* ... (Logic retained) ... */
         if (vehicle.status === 'in-use') {
@@ -415,7 +488,7 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
 
         try {
             // Update Firestore status to 'available'
-            await updateDoc(doc(db, "vehicles", vehicle.id), {
+            await VehicleRepository.update(vehicle.id, {
                 status: 'available',
             });
             
@@ -484,12 +557,12 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
             };
 
             if (isEditing && selectedVehicleId) {
-                await updateDoc(doc(db, "vehicles", selectedVehicleId), data);
+                await VehicleRepository.update(selectedVehicleId, data);
                 await logAction(user.email, 'VEHICLE_UPDATE', `Updated vehicle ${formData.number} (Plant: ${formData.plant})`, { targetId: selectedVehicleId });
                 alert('Vehicle updated!');
             } else {
                 const initialLog = { rate: parseFloat(formData.rate.toString()), changedBy: `${user.name} (Admin)`, date: new Date().toISOString(), previousRate: 0 };
-                const newDocRef = await addDoc(collection(db, "vehicles"), {
+                const newVehicleId = await VehicleRepository.create({
                     ...data,
                     chassisNumber: formData.chassisNumber,
                     engineNumber: formData.engineNumber,
@@ -499,7 +572,7 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
                     repairs: [], services: [], rateHistory: [initialLog], licenseHistory: [], fuelHistory: [],
                     createdAt: new Date().toISOString()
                 });
-                await logAction(user.email, 'VEHICLE_ADD', `Added vehicle ${formData.number} (Plant: ${formData.plant})`, { targetId: newDocRef.id });
+                await logAction(user.email, 'VEHICLE_ADD', `Added vehicle ${formData.number} (Plant: ${formData.plant})`, { targetId: newVehicleId });
                 alert('Vehicle added!');
             }
             setShowAddModal(false);
@@ -510,7 +583,7 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
         const vehicle = vehicles.find(v => v.id === id);
         if (confirm(`Are you sure you want to delete vehicle ${vehicle?.number}?`)) {
             try { 
-                await deleteDoc(doc(db, "vehicles", id)); 
+                await VehicleRepository.remove(id); 
                 await logAction(user.email, 'DELETE_VEHICLE', `Deleted vehicle ID: ${id} (${vehicle?.number})`, { targetId: id });
             } catch (error) { console.error("Error deleting:", error); alert("Failed to delete."); }
         }
@@ -521,16 +594,15 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
         if (!selectedVehicle || !newRate) return;
         try {
             const rateVal = parseFloat(newRate);
-            const vehicleRef = doc(db, "vehicles", selectedVehicle.id); 
             const newLog = {
                 rate: rateVal,
                 previousRate: selectedVehicle.ratePerKm || 0,
                 changedBy: `${user.name} (Admin)`,
                 date: new Date().toISOString()
             };
-            await updateDoc(vehicleRef, {
+            await VehicleRepository.update(selectedVehicle.id, {
                 ratePerKm: rateVal,
-                rateHistory: arrayUnion(newLog)
+                rateHistory: appendToArray(newLog)
             });
             await logAction(user.email, 'RATE_UPDATE', `Updated rate for ${selectedVehicle.number} from ${selectedVehicle.ratePerKm} to ${rateVal}`, { targetId: selectedVehicle.id });
             alert(`Rate updated to LKR ${rateVal}/km`);
@@ -539,11 +611,50 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
         } catch(e) { console.error(e); alert("Failed to update rate"); }
     };
     
+    // --- Tariff Logic ---
+    const openTariffModal = (vehicle: any) => {
+        const current = getCurrentTariff(vehicle);
+        const { version, effectiveFrom, createdBy, ...rules } = current || { ...DEFAULT_TARIFF, version: 0, effectiveFrom: '', createdBy: '' };
+        setSelectedVehicle(vehicle);
+        setTariffForm({ ...DEFAULT_TARIFF, ...rules, holidaysText: (rules.holidays || []).join(', '), effectiveDate: new Date().toISOString().split('T')[0] });
+        setApplyTariffToOwner(false);
+        setShowTariffModal(true);
+    };
+
+    // Appends a new rule set version; trips already priced keep the version they were priced with
+    const handleSaveTariff = async () => {
+        if (!selectedVehicle) return;
+        const { holidaysText, effectiveDate, ...rules } = tariffForm;
+        const holidays = holidaysText.split(',').map(d => d.trim()).filter(d => /^\d{4}-\d{2}-\d{2}$/.test(d));
+        const today = new Date().toISOString().split('T')[0];
+        const effectiveFrom = !effectiveDate || effectiveDate === today ? new Date().toISOString() : new Date(`${effectiveDate}T00:00`).toISOString();
+
+        const targets = applyTariffToOwner && selectedVehicle.ownerName
+            ? vehicles.filter(v => v.ownerName === selectedVehicle.ownerName)
+            : [selectedVehicle];
+
+        try {
+            for (const vehicle of targets) {
+                const version = Math.max(0, ...(vehicle.tariffHistory || []).map((t: TariffRuleSet) => t.version || 0)) + 1;
+                const ruleSet: TariffRuleSet = {
+                    ...rules,
+                    holidays,
+                    version,
+                    effectiveFrom,
+                    createdBy: `${user.name} (Admin)`,
+                };
+                await VehicleRepository.update(vehicle.id, { tariffHistory: appendToArray(ruleSet) });
+            }
+            await logAction(user.email, 'TARIFF_UPDATE', `Updated tariff for ${targets.map(v => v.number).join(', ')} effective ${effectiveFrom}`, { targetId: selectedVehicle.id });
+            alert(`Tariff saved for ${targets.length} vehicle(s).`);
+            setShowTariffModal(false);
+        } catch (e) { console.error(e); alert("Failed to save tariff"); }
+    };
+    
     // --- Repair Logic (Retained) ---
     const handleStartRepair = async () => { /* ... (Logic retained) ... */
         if (!selectedVehicle || !repairStartData.issue) return;
         try {
-            const vehicleRef = doc(db, "vehicles", selectedVehicle.id);
             const startLog = {
                 status: 'in-progress',
                 issue: repairStartData.issue,
@@ -552,9 +663,9 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
                 timestamp: new Date().toISOString()
             };
 
-            await updateDoc(vehicleRef, {
+            await VehicleRepository.update(selectedVehicle.id, {
                 status: 'in-maintenance', 
-                repairs: arrayUnion(startLog) 
+                repairs: appendToArray(startLog) 
             });
             
             await logAction(user.email, 'MAINTENANCE_START', `Vehicle ${selectedVehicle.number} maintenance started: ${repairStartData.issue}`, { targetId: selectedVehicle.id });
@@ -567,8 +678,6 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
     const handleFinishRepair = async () => { /* ... (Logic retained) ... */
         if (!selectedVehicle) return;
         try {
-            const vehicleRef = doc(db, "vehicles", selectedVehicle.id);
-            
             const repairs = selectedVehicle.repairs || [];
             let updatedRepairs = [...repairs];
             const lastInProgressIndex = updatedRepairs.findIndex((r: any) => r.status === 'in-progress');
@@ -588,7 +697,7 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
                 updatedRepairs.push({ issue: repairEndData.description, ...completionLog });
             }
 
-            await updateDoc(vehicleRef, {
+            await VehicleRepository.update(selectedVehicle.id, {
                 status: 'available', // Mark available again
                 repairs: updatedRepairs 
             });
@@ -613,8 +722,6 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
         }
 
         try {
-            const vehicleRef = doc(db, "vehicles", selectedVehicle.id);
-            
             const newService = { 
                 ...serviceData, 
                 mileage: mileage,
@@ -623,11 +730,12 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
                 timestamp: new Date().toISOString()
             };
 
-            await updateDoc(vehicleRef, {
+            await VehicleRepository.update(selectedVehicle.id, {
                 status: 'available', 
                 lastServiceMileage: mileage, // CRITICAL FIX: Reset service tracking to current odometer
-                services: arrayUnion(newService)
+                services: appendToArray(newService)
             });
+            await recordVehicleOdometer(selectedVehicle.id, mileage, newService.timestamp, 'service', `service-${newService.timestamp}`);
 
             await logAction(user.email, 'SERVICE_LOG', `Vehicle ${selectedVehicle.number} serviced at ${mileage} km. Cost: ${newService.cost}`, { targetId: selectedVehicle.id });
             alert(`Service recorded. Next service due at ${mileage + (parseFloat(selectedVehicle.serviceInterval) || 5000)} km.`);
@@ -636,22 +744,62 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
         } catch (error) { console.error(error); }
     };
 
+    // --- Pre-Trip Inspections ---
+    const openInspectionHistory = async (vehicle: any) => {
+        setSelectedVehicle(vehicle);
+        setVehicleInspections(null);
+        setShowInspectionHistoryModal(true);
+        try {
+            setVehicleInspections(await InspectionRepository.listByVehicle(vehicle.id));
+        } catch (error) {
+            console.error("Failed to fetch inspections:", error);
+            setVehicleInspections([]);
+        }
+    };
+
+    const selectChecklistType = (vehicleType: string) => {
+        setChecklistType(vehicleType);
+        setChecklistDraft((inspectionSettings ? getChecklistForType(inspectionSettings, vehicleType) : DEFAULT_INSPECTION_CHECKLIST).map(item => ({ ...item })));
+    };
+
+    const openChecklistModal = () => {
+        selectChecklistType('default');
+        setShowChecklistModal(true);
+    };
+
+    const updateChecklistItem = (index: number, patch: Partial<InspectionChecklistItem>) => {
+        setChecklistDraft(prev => prev.map((item, i) => i === index ? { ...item, ...patch } : item));
+    };
+
+    const handleSaveChecklist = async () => {
+        const items = checklistDraft.map(item => ({ ...item, label: item.label.trim() })).filter(item => item.label);
+        if (items.length === 0) { alert("A checklist needs at least one item."); return; }
+        try {
+            await SettingsRepository.updateInspectionChecklist(checklistType, items);
+            await logAction(user.email, 'INSPECTION_CHECKLIST_UPDATE', `Pre-trip checklist for ${checklistType === 'default' ? 'all vehicle types' : checklistType} saved: ${items.length} item(s), ${items.filter(i => i.critical).length} critical.`, { targetId: checklistType });
+            alert("Inspection checklist saved.");
+            setShowChecklistModal(false);
+        } catch (error) {
+            console.error("Failed to save checklist:", error);
+            alert("Failed to save the checklist.");
+        }
+    };
+
     // --- License Logic (Retained) ---
     const handleRenewLicense = async () => { /* ... (Logic retained) ... */
         if(!selectedVehicle) return;
         try {
-            const vehicleRef = doc(db, "vehicles", selectedVehicle.id); 
             const newLog = {
                 ...licenseData,
                 updatedBy: `${user.name} (Admin)`,
                 previousLicenseExpiry: selectedVehicle.licenseExpiry || 'N/A'
             };
-            await updateDoc(vehicleRef, {
+            await VehicleRepository.update(selectedVehicle.id, {
                 licenseExpiry: licenseData.newLicenseExpiry,
                 insuranceExpiry: licenseData.newInsuranceExpiry,
                 insurancePolicyNo: licenseData.insurancePolicyNo, 
                 insuranceProvider: licenseData.insuranceProvider,
-                licenseHistory: arrayUnion(newLog)
+                licenseHistory: appendToArray(newLog)
             });
 
             await logAction(user.email, 'LICENSE_UPDATE', `Vehicle ${selectedVehicle.number} license/insurance renewed. New expiry: ${licenseData.newLicenseExpiry}`, { targetId: selectedVehicle.id });
@@ -737,24 +885,29 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
     };
     
     // --- GENERATE REPORT (Retained) ---
-    const generateReport = async (v: any, selectedSections?: ('repair' | 'service' | 'fuel' | 'license')[] | undefined) => { /* ... (Logic retained) ... */
+    const generateReport = async (v: any, selectedSections?: ('repair' | 'service' | 'fuel' | 'license' | 'inspection')[] | undefined) => { /* ... (Logic retained) ... */
         const doc = new jsPDF();
         
         const marginX = 14; 
         
-        const sectionsToInclude = selectedSections || ['repair', 'service', 'fuel', 'license'];
+        const sectionsToInclude = selectedSections || ['repair', 'service', 'fuel', 'license', 'inspection'];
 
         const imageData = headerImageData;
 
         let vehicleFuelLogs: any[] = [];
         if (sectionsToInclude.includes('fuel')) {
             try {
-                const q = query(collection(db, "fuel_logs"), where("vehicleId", "==", v.id), orderBy("timestamp", "desc"));
-                const fuelSnap = await getDocs(q);
-                vehicleFuelLogs = fuelSnap.docs.map(doc => doc.data());
+                vehicleFuelLogs = (await FuelLogRepository.listByVehicle(v.id)).filter(isVerifiedFuelLog);
             } catch (error) { console.error("Failed to fetch Fuel Logs:", error); }
         }
 
+        let inspections: VehicleInspection[] = [];
+        if (sectionsToInclude.includes('inspection')) {
+            try {
+                inspections = await InspectionRepository.listByVehicle(v.id);
+            } catch (error) { console.error("Failed to fetch inspections:", error); }
+        }
+
         const stats = getVehicleStats(v, trips);
         let currentY = 0;
         let tableCounter = 0; 
@@ -934,6 +1087,42 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
                     },
                     margin: { top: 30, left: marginX, right: marginX } 
                 });
+                currentY = (doc as any).lastAutoTable.finalY + 10;
+                tableCounter++;
+            }
+
+            // --- SECTION 5: PRE-TRIP INSPECTIONS ---
+            if (sectionsToInclude.includes('inspection') && inspections.length > 0) {
+                if (currentY > 260 || (tableCounter > 0 && currentY < 35)) { doc.addPage(); currentY = drawHeaderForPage({ pageNumber: doc.internal.pages.length }); }
+
+                doc.setFontSize(14);
+                doc.text(`${tableCounter + 1}. Pre-Trip Inspections`, marginX, currentY);
+                currentY += 5;
+
+                const inspectionData = inspections.map(i => [
+                    new Date(i.inspectedAt).toLocaleString(),
+                    i.driverName || '-',
+                    i.tripSerialNumber || '-',
+                    FUEL_LEVEL_LABELS[i.fuelLevel] || '-',
+                    i.passed ? 'Passed' : 'FAILED',
+                    i.results.filter(r => !r.passed).map(r => `${r.label}${r.note ? `: ${r.note}` : ''}`).join('; ') || '-',
+                ]);
+
+                autoTable(doc, {
+                    startY: currentY,
+                    head: [['Date', 'Driver', 'Trip', 'Fuel', 'Result', 'Problems']],
+                    body: inspectionData,
+                    theme: 'grid',
+                    headStyles: { fillColor: [37, 99, 235] },
+                    styles: { fontSize: 8, cellPadding: 2, overflow: 'linebreak' },
+                    didDrawPage: (data) => { 
+                        if (data.pageNumber > 1 && data.cursor.y < 35) {
+                            currentY = drawHeaderForPage(data);
+                            data.cursor.y = currentY; 
+                        }
+                    },
+                    margin: { top: 30, left: marginX, right: marginX } 
+                });
             }
 
             // Save PDF
@@ -948,18 +1137,19 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
     // Handler to open modal and select vehicle (Retained)
     const handleOpenReportModal = (vehicle: any) => {
         setSelectedVehicle(vehicle);
-        setReportSections({ repair: true, service: true, fuel: true, license: true }); // Default selection
+        setReportSections({ repair: true, service: true, fuel: true, license: true, inspection: true }); // Default selection
         setShowReportOptionsModal(true);
     };
     
     // Handler to execute report from modal (Retained)
     const handleGenerateFilteredReport = () => {
         if (!selectedVehicle) return;
-        const sections: ('repair' | 'service' | 'fuel' | 'license')[] = [];
+        const sections: ('repair' | 'service' | 'fuel' | 'license' | 'inspection')[] = [];
         if (reportSections.repair) sections.push('repair');
         if (reportSections.service) sections.push('service');
         if (reportSections.fuel) sections.push('fuel');
         if (reportSections.license) sections.push('license');
+        if (reportSections.inspection) sections.push('inspection');
 
         setShowReportOptionsModal(false);
         generateReport(selectedVehicle, sections);
@@ -978,9 +1168,17 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
                         <h1 className="text-3xl text-gray-900 mb-2">Fleet Maintenance</h1>
                         <p className="text-gray-600">Manage fleet, repairs, service and pricing</p>
                     </div>
-                    <button onClick={openAddModal} className="px-6 py-3 bg-[#2563EB] text-white rounded-xl flex items-center gap-2 hover:bg-[#1E40AF]">
-                        <Plus className="w-5 h-5" /> Add Vehicle
-                    </button>
+                    <div className="flex gap-3">
+                        <button onClick={openChecklistModal} className="px-6 py-3 border border-gray-300 text-gray-700 rounded-xl flex items-center gap-2 hover:bg-gray-50">
+                            <ClipboardCheck className="w-5 h-5" /> Inspection Checklists
+                        </button>
+                        <button onClick={() => setShowFuelCardModal(true)} className="px-6 py-3 border border-gray-300 text-gray-700 rounded-xl flex items-center gap-2 hover:bg-gray-50">
+                            <CreditCard className="w-5 h-5" /> Fuel Card Statement
+                        </button>
+                        <button onClick={openAddModal} className="px-6 py-3 bg-[#2563EB] text-white rounded-xl flex items-center gap-2 hover:bg-[#1E40AF]">
+                            <Plus className="w-5 h-5" /> Add Vehicle
+                        </button>
+                    </div>
                 </div>
                 
                 {/* 🚨 ALERT SECTIONS (Retained) */}
@@ -1015,6 +1213,32 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
                     </div>
                 )}
 
+                {/* DRIVER FUEL LOGS AWAITING VERIFICATION */}
+                {pendingFuelLogs.length > 0 && (
+                    <Card className="p-6 mb-8 border-l-4 border-yellow-500">
+                        <h3 className="text-lg font-bold text-gray-900 mb-1 flex items-center gap-2"><Fuel className="w-5 h-5 text-yellow-600" /> Fuel Logs Awaiting Verification ({pendingFuelLogs.length})</h3>
+                        <p className="text-sm text-gray-500 mb-4">Logged by drivers on the road. Check each against its receipt; only verified fills count in fuel costs and KM/L.</p>
+                        <div className="space-y-3">
+                            {pendingFuelLogs.map(log => (
+                                <div key={log.id} className="flex gap-4 items-center p-3 bg-gray-50 rounded-xl border border-gray-100">
+                                    {log.receiptPhoto
+                                        ? <a href={log.receiptPhoto} target="_blank" rel="noreferrer"><img src={log.receiptPhoto} alt="Receipt" className="h-16 w-16 object-cover rounded-lg border" /></a>
+                                        : <div className="h-16 w-16 rounded-lg border border-dashed flex items-center justify-center text-xs text-gray-400">No photo</div>}
+                                    <div className="flex-1 text-sm">
+                                        <div className="font-semibold text-gray-900">{log.vehicleNumber} • {log.liters} L • LKR {Number(log.cost).toFixed(2)}</div>
+                                        <div className="text-xs text-gray-600">{log.date} • {log.odometer} km • {log.location || 'Station not given'}</div>
+                                        <div className="text-xs text-gray-500">By {log.loggedBy || 'driver'}{log.tripSerialNumber ? ` on Trip #${log.tripSerialNumber}` : ''}</div>
+                                    </div>
+                                    <div className="flex gap-2">
+                                        <button onClick={() => handleReviewFuelLog(log, true)} className="px-3 py-2 bg-green-600 text-white rounded-lg text-sm flex items-center gap-1 hover:bg-green-700"><Check className="w-4 h-4" /> Verify</button>
+                                        <button onClick={() => handleReviewFuelLog(log, false)} className="px-3 py-2 border border-red-300 text-red-600 rounded-lg text-sm flex items-center gap-1 hover:bg-red-50"><X className="w-4 h-4" /> Reject</button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </Card>
+                )}
+
                 {criticalVehicles.length > 0 && (
                     <div className="mb-8">
                         <div className="bg-orange-50 border-2 border-orange-200 rounded-2xl p-6">
@@ -1025,8 +1249,32 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
                                 <div className="flex-1">
                                     <h3 className="text-lg text-gray-900 mb-2 font-bold">SERVICE/MILEAGE ALERT! ({criticalVehicles.length})</h3>
                                     <p className="text-gray-600 mb-4 text-sm">
-                                        {criticalVehicles.length} vehicle(s) require immediate attention due to service or license issues.
+                                        {criticalVehicles.length} vehicle(s) require immediate attention due to service, license or fuel issues.
                                     </p>
+                                    <div className="space-y-2">
+                                        {criticalVehicles.map(v => (
+                                            <div key={v.id} className="bg-white rounded-xl border border-orange-200 p-3 text-sm">
+                                                <div className="font-semibold text-gray-900">{v.number}</div>
+                                                <div className="flex flex-wrap gap-x-4 text-xs text-gray-600">
+                                                    {v.stats.remainingKm <= 500 && <span>Service due in {v.stats.remainingKm.toFixed(0)} km</span>}
+                                                    {v.stats.licenseStatus === 'expired' && <span className="text-red-600">License expired</span>}
+                                                    {v.stats.licenseStatus === 'warning' && <span>License expires in {v.stats.daysToExpiry} days</span>}
+                                                </div>
+                                                {v.fuelAnomalies.length > 0 && (
+                                                    <ul className="mt-1 space-y-1">
+                                                        {v.fuelAnomalies.map((a: FuelAnomaly) => (
+                                                            <li key={a.id} className="text-xs text-red-700">
+                                                                <span className="font-semibold">{FUEL_ANOMALY_LABELS[a.code]}</span> ({new Date(a.at).toLocaleDateString()}): {a.message}
+                                                            </li>
+                                                        ))}
+                                                    </ul>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                    {recentFuelAnomalies.length > 0 && (
+                                        <p className="text-xs text-gray-500 mt-3">Fuel anomalies from the last {FUEL_ANOMALY_ALERT_DAYS} days. The full history is in Reports → Vehicle Data → Fuel Anomalies.</p>
+                                    )}
                                 </div>
                             </div>
                         </div>
@@ -1070,6 +1318,7 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
                                                 </div>
                                                 <div className="text-sm text-gray-500">{vehicle.model} • {vehicle.type}</div>
                                                 <div className="text-sm text-green-600 font-bold">LKR {vehicle.ratePerKm}/km</div>
+                                                {getCurrentTariff(vehicle) && <div className="text-xs text-purple-600">Tariff v{getCurrentTariff(vehicle)!.version}</div>}
                                             </div>
                                         </div>
 
@@ -1078,6 +1327,9 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
                                             <div className="text-sm text-gray-500 mb-1">
                                                 Plant: <span className="font-semibold text-gray-700">{vehicle.plant || 'N/A'}</span>
                                             </div>
+                                            {vehicle.lastOdometer && (
+                                                <div className="text-xs text-gray-500 mb-1">Last odometer: <span className="font-semibold text-gray-700">{describeVehicleOdometer(vehicle.lastOdometer)}</span></div>
+                                            )}
                                             <div className={`text-xs font-medium ${stats.licenseStatus !== 'valid' ? 'text-red-600' : 'text-gray-400'} mb-1`}>
                                                 Lic. Exp: {vehicle.licenseExpiry || 'N/A'} (Req: {vehicle.requiredLicenseType || 'N/A'})
                                             </div>
@@ -1115,6 +1367,7 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
                                             <button onClick={() => generateVehiclePass(vehicle)} className="p-2 bg-gray-100 text-gray-600 rounded-lg" title="Print Pass"><Printer className="w-5 h-5" /></button>
                                             <button onClick={() => { setSelectedVehicle(vehicle); setNewRate(vehicle.ratePerKm || ''); setShowRateModal(true); }} className="p-2 bg-green-50 text-green-600 rounded-lg" title="Change Rate"><DollarSign className="w-5 h-5" /></button>
                                             <button onClick={() => { setSelectedVehicle(vehicle); setShowRateHistoryModal(true); }} className="p-2 bg-blue-50 text-blue-600 rounded-lg" title="Rate History"><TrendingUp className="w-5 h-5" /></button>
+                                            <button onClick={() => openTariffModal(vehicle)} className="p-2 bg-purple-50 text-purple-600 rounded-lg" title="Tariff"><Receipt className="w-5 h-5" /></button>
                                         </div>
 
                                         {/* CRUD/Repair Icons */}
@@ -1126,6 +1379,8 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
                                             )}
 
                                             <button onClick={() => { setSelectedVehicle(vehicle); setShowServiceModal(true); }} className="p-2 bg-green-50 text-green-600 rounded-lg" title="Log Service"><Clock className="w-5 h-5" /></button>
+
+                                            <button onClick={() => openInspectionHistory(vehicle)} className="p-2 bg-blue-50 text-blue-600 rounded-lg" title="Inspection History"><ClipboardCheck className="w-5 h-5" /></button>
                                             
                                             <button onClick={() => handleOpenReportModal(vehicle)} className="p-2 bg-gray-100 text-gray-700 rounded-lg" title="Generate Report"><FileText className="w-5 h-5" /></button>
                                             
@@ -1166,6 +1421,73 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
                 </div>
             )}
             
+            {showTariffModal && selectedVehicle && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <Card className="w-full max-w-lg p-6 max-h-[90vh] overflow-y-auto">
+                        <h3 className="text-xl font-bold mb-1 flex items-center gap-2 text-purple-600"><Receipt className="w-6 h-6"/> Tariff for {selectedVehicle.number}</h3>
+                        <p className="text-sm text-gray-500 mb-4">Per-km rate comes from the rate history (currently LKR {selectedVehicle.ratePerKm}/km). Saving creates a new version.</p>
+
+                        <div className="grid grid-cols-2 gap-3">
+                            {([
+                                ['minimumCharge', 'Minimum Charge (LKR)'],
+                                ['freeWaitingMinutes', 'Free Waiting (min)'],
+                                ['waitingRatePerHour', 'Waiting Rate (LKR/h)'],
+                                ['nightSurchargePercent', 'Night Surcharge (%)'],
+                                ['holidaySurchargePercent', 'Holiday Surcharge (%)'],
+                                ['returnLegPercent', 'Empty Return Leg (% of rate)'],
+                                ['dayRate', 'Day Rate (LKR/day)'],
+                                ['dayRateAfterHours', 'Day Rate After (hours)'],
+                                ['dayKmAllowance', 'Km Included per Day'],
+                            ] as const).map(([field, label]) => (
+                                <div key={field}>
+                                    <label className="block text-xs font-semibold text-gray-700 mb-1">{label}</label>
+                                    <input type="number" min="0" className="w-full p-2 border rounded-lg" value={tariffForm[field]} onChange={e => setTariffForm({ ...tariffForm, [field]: Number(e.target.value) || 0 })} />
+                                </div>
+                            ))}
+                            <div>
+                                <label className="block text-xs font-semibold text-gray-700 mb-1">Night From</label>
+                                <input type="time" className="w-full p-2 border rounded-lg" value={tariffForm.nightStart} onChange={e => setTariffForm({ ...tariffForm, nightStart: e.target.value })} />
+                            </div>
+                            <div>
+                                <label className="block text-xs font-semibold text-gray-700 mb-1">Night Until</label>
+                                <input type="time" className="w-full p-2 border rounded-lg" value={tariffForm.nightEnd} onChange={e => setTariffForm({ ...tariffForm, nightEnd: e.target.value })} />
+                            </div>
+                            <div className="col-span-2">
+                                <label className="block text-xs font-semibold text-gray-700 mb-1">Holidays (YYYY-MM-DD, comma separated)</label>
+                                <input className="w-full p-2 border rounded-lg" value={tariffForm.holidaysText} onChange={e => setTariffForm({ ...tariffForm, holidaysText: e.target.value })} placeholder="2026-12-25, 2027-01-14" />
+                            </div>
+                            <div className="col-span-2">
+                                <label className="block text-xs font-semibold text-gray-700 mb-1">Effective From</label>
+                                <input type="date" className="w-full p-2 border rounded-lg" value={tariffForm.effectiveDate} onChange={e => setTariffForm({ ...tariffForm, effectiveDate: e.target.value })} />
+                            </div>
+                            {selectedVehicle.ownerName && (
+                                <label className="col-span-2 flex items-center gap-2 text-sm text-gray-700">
+                                    <input type="checkbox" checked={applyTariffToOwner} onChange={e => setApplyTariffToOwner(e.target.checked)} />
+                                    Apply to all vehicles of {selectedVehicle.ownerName}
+                                </label>
+                            )}
+                        </div>
+
+                        {(selectedVehicle.tariffHistory || []).length > 0 && (
+                            <div className="mt-4 space-y-2">
+                                <h4 className="text-sm font-bold text-gray-500 border-b pb-1">Versions</h4>
+                                {(selectedVehicle.tariffHistory as TariffRuleSet[]).slice().reverse().map((t) => (
+                                    <div key={t.version} className="text-xs text-gray-600 flex justify-between">
+                                        <span>v{t.version} • min LKR {t.minimumCharge} • night {t.nightSurchargePercent}% • return {t.returnLegPercent}%</span>
+                                        <span>{new Date(t.effectiveFrom).toLocaleDateString()} by {t.createdBy}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        <div className="flex gap-3 mt-6">
+                            <button onClick={() => setShowTariffModal(false)} className="flex-1 py-3 border rounded-xl">Cancel</button>
+                            <button onClick={handleSaveTariff} className="flex-1 py-3 bg-purple-600 text-white rounded-xl">Save New Version</button>
+                        </div>
+                    </Card>
+                </div>
+            )}
+
             {showLicenseModal && selectedVehicle && (
                 <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
                     <Card className="w-full max-w-lg p-6 max-h-[90vh] overflow-y-auto">
@@ -1218,13 +1540,17 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
                                 <input type="checkbox" id="report_fuel" checked={reportSections.fuel} onChange={(e) => setReportSections({...reportSections, fuel: e.target.checked})} className="w-4 h-4 text-blue-600 rounded" />
                                 <label htmlFor="report_fuel" className="font-medium text-gray-700">Fuel Log History</label>
                             </div>
+                            <div className="flex items-center gap-3">
+                                <input type="checkbox" id="report_inspection" checked={reportSections.inspection} onChange={(e) => setReportSections({...reportSections, inspection: e.target.checked})} className="w-4 h-4 text-blue-600 rounded" />
+                                <label htmlFor="report_inspection" className="font-medium text-gray-700">Pre-Trip Inspections</label>
+                            </div>
                         </div>
                         
                         <div className="flex gap-3">
                             <button onClick={() => setShowReportOptionsModal(false)} className="flex-1 py-3 border rounded-xl">Cancel</button>
                             <button 
                                 onClick={handleGenerateFilteredReport} 
-                                disabled={!reportSections.repair && !reportSections.service && !reportSections.fuel && !reportSections.license}
+                                disabled={!reportSections.repair && !reportSections.service && !reportSections.fuel && !reportSections.license && !reportSections.inspection}
                                 className="flex-1 py-3 bg-green-600 text-white rounded-xl disabled:opacity-50"
                             >
                                 Generate PDF
@@ -1282,6 +1608,86 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
                 </div>
             )}
             
+            {showInspectionHistoryModal && selectedVehicle && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <Card className="w-full max-w-2xl p-6 max-h-[85vh] overflow-y-auto">
+                        <h3 className="text-xl font-bold mb-4 flex items-center gap-2 text-blue-600"><ClipboardCheck className="w-6 h-6"/> Inspection History: {selectedVehicle.number}</h3>
+
+                        <div className="space-y-3">
+                            {vehicleInspections === null && <p className="text-center text-gray-500">Loading...</p>}
+                            {vehicleInspections?.map(inspection => (
+                                <div key={inspection.id} className={`p-4 rounded-xl border ${inspection.passed ? 'bg-gray-50 border-gray-100' : 'bg-red-50 border-red-200'}`}>
+                                    <div className="flex justify-between items-center text-sm font-medium">
+                                        <span className={inspection.passed ? 'text-green-700' : 'text-red-700'}>{inspection.passed ? 'Passed' : `Failed: ${inspection.failedCritical.join(', ')}`}</span>
+                                        <span className="text-xs text-gray-500">{new Date(inspection.inspectedAt).toLocaleString()}</span>
+                                    </div>
+                                    <div className="text-xs text-gray-600 mt-1">
+                                        {inspection.driverName || 'Unknown driver'} • Trip #{inspection.tripSerialNumber || inspection.tripId} • Fuel {FUEL_LEVEL_LABELS[inspection.fuelLevel]}
+                                    </div>
+                                    {inspection.results.filter(r => !r.passed).map(r => (
+                                        <div key={r.itemId} className="flex gap-3 items-start mt-2 text-xs">
+                                            {r.photo && <a href={r.photo} target="_blank" rel="noreferrer"><img src={r.photo} alt={r.label} className="h-14 w-14 object-cover rounded-lg border" /></a>}
+                                            <div>
+                                                <div className="font-semibold text-gray-800">{INSPECTION_CATEGORY_LABELS[r.category]}{r.critical ? ' (critical)' : ''}: {r.label}</div>
+                                                <div className="text-gray-600">{r.note || '-'}</div>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            ))}
+                            {vehicleInspections?.length === 0 && <p className="text-center text-gray-500">No inspections recorded.</p>}
+                        </div>
+
+                        <div className="flex justify-end mt-6">
+                            <button onClick={() => setShowInspectionHistoryModal(false)} className="px-6 py-2 border rounded-xl">Close</button>
+                        </div>
+                    </Card>
+                </div>
+            )}
+
+            {showFuelCardModal && <FuelCardReconciliationModal user={user} onClose={() => setShowFuelCardModal(false)} />}
+
+            {showChecklistModal && (
+                <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+                    <Card className="w-full max-w-2xl p-6 max-h-[90vh] overflow-y-auto">
+                        <h3 className="text-xl font-bold mb-1 flex items-center gap-2 text-blue-600"><ClipboardCheck className="w-6 h-6"/> Pre-Trip Inspection Checklists</h3>
+                        <p className="text-sm text-gray-500 mb-4">Drivers complete the checklist before starting a trip. A failed critical item stops the trip and sends the vehicle to maintenance.</p>
+
+                        <label className="block text-xs font-semibold text-gray-700 mb-1">Vehicle Type</label>
+                        <select className="w-full p-2 border rounded-lg mb-1" value={checklistType} onChange={e => selectChecklistType(e.target.value)}>
+                            <option value="default">Default (all other types)</option>
+                            {VEHICLE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                        </select>
+                        {checklistType !== 'default' && !inspectionSettings?.checklists[checklistType] && (
+                            <p className="text-xs text-gray-500 mb-3">{checklistType} uses the default checklist until saved.</p>
+                        )}
+
+                        <div className="space-y-2 mt-3">
+                            {checklistDraft.map((item, index) => (
+                                <div key={item.id} className="flex gap-2 items-center">
+                                    <input className="flex-1 p-2 border rounded-lg text-sm" value={item.label} onChange={e => updateChecklistItem(index, { label: e.target.value })} placeholder="What the driver checks" />
+                                    <select className="p-2 border rounded-lg text-sm" value={item.category} onChange={e => updateChecklistItem(index, { category: e.target.value as InspectionCategory })}>
+                                        {(Object.keys(INSPECTION_CATEGORY_LABELS) as InspectionCategory[]).map(c => <option key={c} value={c}>{INSPECTION_CATEGORY_LABELS[c]}</option>)}
+                                    </select>
+                                    <label className="flex items-center gap-1 text-xs text-gray-700">
+                                        <input type="checkbox" checked={item.critical} onChange={e => updateChecklistItem(index, { critical: e.target.checked })} /> Critical
+                                    </label>
+                                    <button onClick={() => setChecklistDraft(prev => prev.filter((_, i) => i !== index))} className="p-2 hover:bg-red-50 text-red-600 rounded-lg" title="Remove"><Trash2 className="w-4 h-4" /></button>
+                                </div>
+                            ))}
+                        </div>
+                        <button onClick={() => setChecklistDraft(prev => [...prev, { id: `item-${Date.now()}`, label: '', category: 'other', critical: false }])} className="mt-3 px-3 py-1 text-sm border rounded-lg flex items-center gap-1 text-gray-700">
+                            <Plus className="w-4 h-4" /> Add Item
+                        </button>
+
+                        <div className="flex gap-3 mt-6">
+                            <button onClick={() => setShowChecklistModal(false)} className="flex-1 py-3 border rounded-xl">Cancel</button>
+                            <button onClick={handleSaveChecklist} className="flex-1 py-3 bg-blue-600 text-white rounded-xl">Save Checklist</button>
+                        </div>
+                    </Card>
+                </div>
+            )}
+
             {showRepairModal && (
                 <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
                     <Card className="w-full max-w-md p-6">
@@ -1357,7 +1763,7 @@ export function VehicleManagement({ user, onNavigate, onLogout }: VehicleManagem
                             <div>
                                 <label className="block text-xs font-semibold text-gray-700 mb-1">Type</label>
                                 <select className="w-full p-2 border rounded" value={formData.type} onChange={e => setFormData({...formData, type: e.target.value})}>
-                                    {['Car', 'Van', 'Bike', 'Bus', 'Lorry', 'Jeep', 'Three Wheeler'].map(t => <option key={t} value={t}>{t}</option>)}
+                                    {VEHICLE_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
                                 </select>
                             </div>
 
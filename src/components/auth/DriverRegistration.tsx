@@ -2,8 +2,8 @@ import { useState } from 'react';
 import { ArrowLeft, User, Mail, Phone, Lock, CreditCard, IdCard, Eye, EyeOff } from 'lucide-react';
 // Firebase Imports
 import { createUserWithEmailAndPassword, signInWithPopup } from 'firebase/auth';
-import { doc, setDoc } from 'firebase/firestore';
-import { auth, db, googleProvider } from '../../firebase'; // Adjust path if needed
+import { auth, googleProvider } from '../../firebase'; // Adjust path if needed
+import { DriverRepository } from '../../repositories';
 
 interface DriverRegistrationProps {
   onBack: () => void;
@@ -52,14 +52,13 @@ export function DriverRegistration({ onBack, onRegister }: DriverRegistrationPro
       const user = userCredential.user;
 
       // Save Driver Details to Firestore
-      await setDoc(doc(db, "users", user.uid), {
+      await DriverRepository.create(user.uid, {
         uid: user.uid,
         email: user.email,
         fullName: formData.fullName,
         phone: formData.phone,
         licenseNumber: formData.licenseNumber,
         nic: formData.nic,
-        role: 'driver',
         driverStatus: 'pending', // Drivers usually need admin approval
         createdAt: new Date().toISOString()
       });
@@ -99,14 +98,13 @@ export function DriverRegistration({ onBack, onRegister }: DriverRegistrationPro
       const user = result.user;
 
       // Save to Firestore
-      await setDoc(doc(db, "users", user.uid), {
+      await DriverRepository.create(user.uid, {
         uid: user.uid,
         email: user.email,
         fullName: formData.fullName || user.displayName, // Use form name or Google name
         phone: formData.phone,
         licenseNumber: formData.licenseNumber,
         nic: formData.nic,
-        role: 'driver',
         driverStatus: 'pending',
         authProvider: 'google',
         createdAt: new Date().toISOString()
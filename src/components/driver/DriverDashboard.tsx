@@ -1,12 +1,15 @@
 import { useState, useEffect } from 'react';
-import { Car, Calendar, Clock, MapPin, User as UserIcon, Phone, Navigation, Play, Bell, Check, Gauge, FileText, Wrench, MessageSquare, Phone as PhoneIcon } from 'lucide-react';
+import { Car, Calendar, Clock, MapPin, User as UserIcon, Phone, Navigation, Play, Bell, Check, Gauge, FileText, Wrench, MessageSquare, Phone as PhoneIcon, Fuel } from 'lucide-react';
 import { User } from '../../App';
 import { TopNav } from '../shared/TopNav';
 import { Card } from '../shared/Card';
 import { Badge } from '../shared/Badge';
-// Firebase Imports
-import { collection, getDocs, query, where, onSnapshot, doc, orderBy, limit } from 'firebase/firestore';
-import { db } from '../../firebase';
+// Data Access
+import { DriverRepository, TripRepository, VehicleRepository } from '../../repositories';
+import { CLOSED_TRIP_STATUSES, STARTABLE_TRIP_STATUSES, tripStatusIn } from '../../utils/tripTransitions';
+import { applyQueuedActions } from '../../utils/driverOutbox';
+import { SyncStatusIndicator } from './SyncStatusIndicator';
+import { DriverFuelLogModal } from './DriverFuelLogModal';
 
 interface DriverDashboardProps {
     user: User;
@@ -26,12 +29,12 @@ const isToday = (dateString: string) => {
 // Filters out completed, cancelled, rejected, and any past 'approved' trips.
 const isRelevantTrip = (trip: any) => {
     // 1. Exclude final states immediately
-    if (['completed', 'cancelled', 'rejected','broken-down'].includes(trip.status)) {
+    if (tripStatusIn(trip, CLOSED_TRIP_STATUSES)) {
         return false;
     }
 
     // 2. Keep active states (in-progress, reassigned) regardless of date, as they need immediate action.
-    if (['in-progress', 'reassigned'].includes(trip.status)) {
+    if (tripStatusIn(trip, ['in-progress', 'reassigned'])) {
         return true;
     }
 
@@ -86,22 +89,17 @@ export function DriverDashboard({ user, onNavigate, onLogout }: DriverDashboardP
     // State for trip categorization
     const [currentTrip, setCurrentTrip] = useState<any>(null);
     const [upcomingSchedule, setUpcomingSchedule] = useState<any[]>([]);
+    const [showFuelLogModal, setShowFuelLogModal] = useState(false);
 
     useEffect(() => {
         setLoading(true);
         
         // 1. Fetch all trips assigned to this driver
-        const tripsQuery = query(
-            collection(db, "trip_requests"), 
-            where("driverId", "==", user.uid)
-            // Note: We deliberately exclude status filtering in the query to handle complex client-side filtering logic
-        );
-        
-        const unsubTrips = onSnapshot(tripsQuery, (snap) => {
-            const rawTripList = snap.docs.map(doc => ({ id: doc.id, ...doc.data() }));
-            
+        // Note: We deliberately exclude status filtering in the query to handle complex client-side filtering logic
+        const unsubTrips = TripRepository.subscribeByDriver(user.uid, (rawTripList) => {
+            
             // 1. FILTER: Exclude irrelevant trips, including 'broken-down'. (This must be working)
-            const filteredTrips = rawTripList.filter(isRelevantTrip); 
+            const filteredTrips = rawTripList.map(applyQueuedActions).filter(isRelevantTrip); 
             
             // 2. SORT: Order the remaining relevant trips.
             const sortedTrips = sortTrips(filteredTrips);
@@ -121,7 +119,7 @@ export function DriverDashboard({ user, onNavigate, onLogout }: DriverDashboardP
                 const nextTrip = sortedTrips[0] || null;
                 
                 // Use the next trip only if it is explicitly approved or reassigned (the states that require action)
-                if (nextTrip && (nextTrip.status === 'approved' || nextTrip.status === 'reassigned')) {
+                if (tripStatusIn(nextTrip, STARTABLE_TRIP_STATUSES)) {
                     finalCurrentTrip = nextTrip;
                     tripsForSchedule = sortedTrips.filter(t => t.id !== nextTrip.id);
                 } else {
@@ -136,22 +134,20 @@ export function DriverDashboard({ user, onNavigate, onLogout }: DriverDashboardP
             // 🔥 CRITICAL FINAL FIX: Filter `tripsForSchedule` again using the same logic 
             // as `isRelevantTrip` to forcefully remove all final/invalid statuses from the upcoming list.
             setUpcomingSchedule(tripsForSchedule.filter(t => 
-                !['completed', 'cancelled', 'rejected', 'broken-down'].includes(t.status)
+                !tripStatusIn(t, CLOSED_TRIP_STATUSES)
             ));
             
             setLoading(false);
         });
 
         // 2. Listen to MY User Profile (To see assigned vehicle)
-        const unsubUser = onSnapshot(doc(db, "users", user.uid), async (docSnap) => {
-            if (docSnap.exists()) {
-                const userData = docSnap.data();
+        const unsubUser = DriverRepository.subscribe(user.uid, async (userData) => {
+            if (userData) {
                 if (userData.vehicle) {
                     // Fetch vehicle details if assigned
-                    const vQuery = query(collection(db, "vehicles"), where("number", "==", userData.vehicle));
-                    const vSnap = await getDocs(vQuery);
-                    if (!vSnap.empty) {
-                        setAssignedVehicle({ id: vSnap.docs[0].id, ...vSnap.docs[0].data() });
+                    const vehicle = await VehicleRepository.findByNumber(userData.vehicle);
+                    if (vehicle) {
+                        setAssignedVehicle(vehicle);
                     } else {
                         setAssignedVehicle({ number: userData.vehicle, model: 'Unknown', type: 'Vehicle' });
                     }
@@ -162,15 +158,7 @@ export function DriverDashboard({ user, onNavigate, onLogout }: DriverDashboardP
         });
 
         // 3. Listen to Notifications (Assignment Logs)
-        const notifQuery = query(
-            collection(db, "assignment_logs"), 
-            where("driverId", "==", user.uid),
-            orderBy("timestamp", "desc"),
-            limit(1)
-        );
-        const unsubNotif = onSnapshot(notifQuery, (snap) => {
-            setNotifications(snap.docs.map(doc => doc.data()));
-        });
+        const unsubNotif = DriverRepository.subscribeLatestAssignmentLog(user.uid, setNotifications);
 
         return () => {
             unsubTrips();
@@ -184,10 +172,15 @@ export function DriverDashboard({ user, onNavigate, onLogout }: DriverDashboardP
     const isTripActive = currentTrip?.status === 'in-progress'; // Only in-progress is 'active' for continuation
     
     // Condition to allow 'Start Trip': Must be the next approved/reassigned trip AND must be today's date
-    const isStartable = currentTrip && (currentTrip.status === 'approved' || currentTrip.status === 'reassigned') && isToday(currentTrip.date);
+    const isStartable = currentTrip && tripStatusIn(currentTrip, STARTABLE_TRIP_STATUSES) && isToday(currentTrip.date);
     
     const currentTripType = currentTrip ? getTripType(currentTrip.serialNumber) : null;
 
+    // A fill during a trip belongs to that trip's vehicle; otherwise to the driver's assigned vehicle
+    const fuelVehicle = isTripActive && currentTrip.vehicleId
+        ? { id: currentTrip.vehicleId, number: currentTrip.vehicleNumber }
+        : assignedVehicle?.id ? { id: assignedVehicle.id, number: assignedVehicle.number } : null;
+
 
     return (
         <div className="min-h-screen bg-[#F9FAFB]">
@@ -199,6 +192,8 @@ export function DriverDashboard({ user, onNavigate, onLogout }: DriverDashboardP
                     <p className="text-gray-600">Manage your trips and assignments</p>
                 </div>
 
+                <SyncStatusIndicator />
+
                 {/* NOTIFICATION SECTION (Retained) */}
                 {notifications.length > 0 && (
                     <Card className={`mb-8 border p-4 flex items-start gap-4 animate-in slide-in-from-top ${
@@ -292,6 +287,13 @@ export function DriverDashboard({ user, onNavigate, onLogout }: DriverDashboardP
                                         <div className="text-sm text-gray-700">{assignedVehicle.licenseExpiry || 'N/A'}</div>
                                     </div>
                                 </div>
+                                {fuelVehicle && (
+                                    <div className="flex justify-end mt-4 pt-4 border-t border-gray-100">
+                                        <button onClick={() => setShowFuelLogModal(true)} className="px-4 py-2 border border-yellow-500 text-yellow-700 rounded-xl flex items-center gap-2 hover:bg-yellow-50 font-medium">
+                                            <Fuel className="w-4 h-4" /> Log Fuel
+                                        </button>
+                                    </div>
+                                )}
                             </Card>
                         ) : (
                             <Card className="p-6 border-2 border-red-200 border-dashed bg-red-50/50">
@@ -428,6 +430,14 @@ export function DriverDashboard({ user, onNavigate, onLogout }: DriverDashboardP
                     </div>
                 </div>
 
+                {showFuelLogModal && fuelVehicle && (
+                    <DriverFuelLogModal
+                        user={user}
+                        vehicle={fuelVehicle}
+                        trip={isTripActive ? currentTrip : null}
+                        onClose={() => setShowFuelLogModal(false)}
+                    />
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { Camera, CheckCircle, Fuel, Loader2, X } from 'lucide-react';
+import { User } from '../../App';
+import { Card } from '../shared/Card';
+import { GpsFix, Trip } from '../../types';
+import { OutboxStorageFullError, submitDriverAction } from '../../utils/driverOutbox';
+import { compressPhoto } from '../../utils/photos';
+
+interface DriverFuelLogModalProps {
+    user: User;
+    vehicle: { id: string; number: string };
+    trip?: Trip | null;       // the fill is tied to this trip when logged during one
+    gps?: GpsFix | null;
+    onClose: () => void;
+}
+
+// A fill logged by the driver on the road, sent for admin verification with a photo of the receipt
+export function DriverFuelLogModal({ user, vehicle, trip, gps, onClose }: DriverFuelLogModalProps) {
+    const [fuelData, setFuelData] = useState({
+        date: new Date().toISOString().split('T')[0],
+        odometer: '',
+        liters: '',
+        cost: '',
+        location: '',
+    });
+    const [receiptPhoto, setReceiptPhoto] = useState<string | null>(null);
+    const [photoLoading, setPhotoLoading] = useState(false);
+    const [submitting, setSubmitting] = useState(false);
+
+    const handlePhoto = async (file: File | undefined) => {
+        if (!file) return;
+        setPhotoLoading(true);
+        try {
+            setReceiptPhoto(await compressPhoto(file));
+        } catch (error) {
+            console.error("Error reading receipt photo:", error);
+            alert("The photo could not be attached. Please try again.");
+        } finally {
+            setPhotoLoading(false);
+        }
+    };
+
+    const handleSubmit = async () => {
+        const odometer = Number(fuelData.odometer);
+        const liters = Number(fuelData.liters);
+        const cost = Number(fuelData.cost);
+
+        if (!fuelData.odometer || !fuelData.liters || !fuelData.cost || !receiptPhoto) {
+            alert("Please fill in Odometer, Liters and Cost, and add a photo of the receipt.");
+            return;
+        }
+        if (odometer <= 0 || liters <= 0 || cost <= 0) {
+            alert("Values must be greater than zero.");
+            return;
+        }
+        if (trip?.status === 'in-progress' && odometer < (trip.odometerStart || 0)) {
+            alert(`Error: Odometer (${odometer}) cannot be less than this trip's Start Odometer (${trip.odometerStart}).`);
+            return;
+        }
+
+        setSubmitting(true);
+        try {
+            const result = await submitDriverAction({
+                kind: 'fuel-log',
+                tripId: trip?.id || '',
+                tripSerialNumber: trip?.serialNumber,
+                expectedDriverId: user.id,
+                actorEmail: user.email,
+                recordedAt: new Date().toISOString(),
+                gps: gps || null,
+                payload: {
+                    vehicleId: vehicle.id,
+                    vehicleNumber: vehicle.number,
+                    date: fuelData.date,
+                    odometer,
+                    liters,
+                    cost,
+                    location: fuelData.location,
+                    loggedBy: user.name || user.email,
+                    driverId: user.id,
+                    tripId: trip?.id || null,
+                    tripSerialNumber: trip?.serialNumber || null,
+                    receiptPhoto,
+                },
+            });
+
+            if (result === 'synced') {
+                alert(`Fuel log sent for ${vehicle.number}. It will count once the transport office verifies the receipt.`);
+            } else if (result === 'queued') {
+                alert("No connection. The fuel log is saved on this phone and will sync automatically when you are back online.");
+            } else {
+                alert("The fuel log could not be sent. Open the sync status at the top of the screen for details.");
+                return;
+            }
+            onClose();
+        } catch (error) {
+            console.error("Error logging fuel:", error);
+            alert(error instanceof OutboxStorageFullError ? error.message : "Failed to save fuel log.");
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+            <Card className="w-full max-w-md p-6 max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center pb-4 border-b mb-4">
+                    <h3 className="text-xl font-bold text-yellow-700 flex items-center gap-2">
+                        <Fuel className="w-6 h-6"/> Log Fuel for {vehicle.number}
+                    </h3>
+                    <button onClick={onClose} className="text-gray-500 hover:text-yellow-700 p-1 rounded-full hover:bg-yellow-50"><X className="w-6 h-6"/></button>
+                </div>
+                {trip && <p className="text-xs text-gray-500 mb-3">Logged against Trip #{trip.serialNumber || trip.id}</p>}
+
+                <div className="space-y-4">
+                    <div><label className="text-sm">Date</label><input type="date" className="w-full p-3 border rounded-xl" value={fuelData.date} onChange={e => setFuelData({...fuelData, date: e.target.value})} /></div>
+                    <div><label className="text-sm">Current Odometer (km)</label><input type="number" className="w-full p-3 border rounded-xl" value={fuelData.odometer} onChange={e => setFuelData({...fuelData, odometer: e.target.value})} placeholder="e.g. 528735" /></div>
+                    <div><label className="text-sm">Liters Purchased</label><input type="number" className="w-full p-3 border rounded-xl" value={fuelData.liters} onChange={e => setFuelData({...fuelData, liters: e.target.value})} placeholder="e.g. 35.5" /></div>
+                    <div><label className="text-sm">Total Cost (LKR)</label><input type="number" className="w-full p-3 border rounded-xl" value={fuelData.cost} onChange={e => setFuelData({...fuelData, cost: e.target.value})} placeholder="e.g. 9826" /></div>
+                    <div><label className="text-sm">Location/Station</label><input type="text" className="w-full p-3 border rounded-xl" value={fuelData.location} onChange={e => setFuelData({...fuelData, location: e.target.value})} placeholder="e.g. Negombo Filling Station" /></div>
+                    <div>
+                        <label className="text-sm block mb-1">Receipt Photo</label>
+                        <div className="flex items-center gap-3">
+                            <label className="px-4 py-2 text-sm border border-gray-300 rounded-xl flex items-center gap-2 text-gray-700 cursor-pointer">
+                                {photoLoading ? <Loader2 className="w-4 h-4 animate-spin"/> : <Camera className="w-4 h-4"/>} {receiptPhoto ? 'Retake Photo' : 'Take Photo'}
+                                <input type="file" accept="image/*" capture="environment" className="hidden" onChange={e => handlePhoto(e.target.files?.[0])} />
+                            </label>
+                            {receiptPhoto && <img src={receiptPhoto} alt="Fuel receipt" className="h-16 w-16 object-cover rounded-lg border" />}
+                        </div>
+                    </div>
+                </div>
+
+                <div className="flex gap-3 mt-6">
+                    <button onClick={onClose} className="flex-1 py-3 border rounded-xl">Cancel</button>
+                    <button onClick={handleSubmit} disabled={submitting || photoLoading} className="flex-1 py-3 bg-green-600 text-white rounded-xl disabled:opacity-50 flex justify-center items-center gap-2">
+                        {submitting ? <Loader2 className="w-5 h-5 animate-spin"/> : <CheckCircle className="w-5 h-5"/>} Submit Fuel Log
+                    </button>
+                </div>
+            </Card>
+        </div>
+    );
+}
@@ -3,21 +3,29 @@ import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { 
     MapPin, User as UserIcon, Phone, Navigation, Play, Square, CheckCircle, ChevronDown, ChevronUp, AlertTriangle, 
     Wrench, ArrowLeft, Gauge, MessageSquare, Plus, Users as CombinedUsers, Search, Phone as PhoneIcon, Mail, Loader2, 
-    Trash2, Car, Calendar, Clock, FileText, Banknote, Upload, X 
+    Trash2, Car, Calendar, Clock, FileText, Banknote, Upload, X, Fuel 
 } from 'lucide-react'; 
 import { User } from '../../App';
 import { TopNav } from '../shared/TopNav';
 import { Card } from '../shared/Card';
 import { Badge } from '../shared/Badge';
-// Firebase Imports
-import { doc, getDoc, updateDoc, addDoc, collection } from 'firebase/firestore';
-import { db } from '../../firebase';
-import { logAction } from '../../utils/auditLogger'; 
+import { CostComparison } from '../shared/CostComparison';
+// Firebase Imports (requester profile lookup)
+import { DEFAULT_INSPECTION_CHECKLIST, DriverRepository, SettingsRepository, TripRepository, UserRepository, VehicleRepository, getChecklistForType } from '../../repositories';
+import { CLOSED_TRIP_STATUSES, STARTABLE_TRIP_STATUSES, tripStatusIn } from '../../utils/tripTransitions';
+import { describeKmComparison } from '../../utils/finalCosting';
+import { OutboxActionKind, OutboxEntryState, OutboxStorageFullError, applyQueuedActions, submitDriverAction } from '../../utils/driverOutbox';
+import { SyncStatusIndicator } from './SyncStatusIndicator';
+import { InspectionChecklistModal } from './InspectionChecklistModal';
+import { DriverFuelLogModal } from './DriverFuelLogModal';
+import { describeFailedInspection, evaluateInspection } from '../../utils/inspections';
+import { StopProgressList } from '../shared/StopProgressList';
+import { TripStop, evaluateStopGeofence, getStopProgress, getTotalStopWaitingMinutes, getTripStops, manualStopEvents, resolveStopCoords } from '../../utils/stopEvents';
+import { toBreadcrumb, shouldRecordBreadcrumb } from '../../utils/breadcrumbs';
+import { checkStartContinuity, describeVehicleOdometer } from '../../utils/odometerContinuity';
+import { FuelLevel, GpsFix, InspectionChecklistItem, InspectionItemResult, StopEvent, Trip, TripBreadcrumb, VehicleOdometer } from '../../types';
 
 // --- ASYNC HELPERS (MOCK FUNCTIONS RETAINED FOR COMPILATION) ---
-const getMapRouteDistanceKm = async (locations: string[]): Promise<number> => { return 0; };
-const calculateOriginalVehicleDistance = async (trip: any): Promise<number> => { return 0; };
-const calculateRemainingDistanceKm = async (trip: any, newStartPlace: string): Promise<number> => { return 0; };
 
 // ⭐️ NEW MOCK: Simulates calling a Reverse Geocoding API to get a place name from GPS
 const mockReverseGeocode = async (lat: number, lng: number): Promise<string> => {
@@ -46,25 +54,34 @@ const isToday = (dateString: string) => {
     return tripDateTime === today;
 };
 
-// 🚨 GPS Hook: Uses real browser API (RETAINED)
-const useDriverGPS = () => {
-    const [location, setLocation] = useState<{ lat: number; lng: number } | null>(null);
+// 🚨 GPS Hook: Watches the browser position; the latest fix (with its time) stamps odometer readings.
+// While `trackTripId` is set (trip in progress) it also records a throttled breadcrumb trail under that trip.
+const useDriverGPS = (trackTripId: string | null) => {
+    const [location, setLocation] = useState<GpsFix | null>(null);
+    const lastBreadcrumb = useRef<TripBreadcrumb | null>(null);
     
     useEffect(() => {
-        if (navigator.geolocation) {
-            navigator.geolocation.getCurrentPosition(
-                (position) => {
-                    setLocation({ lat: position.coords.latitude, lng: position.coords.longitude });
-                },
-                (error) => {
-                    console.warn(`Geolocation error: ${error.message}`);
-                    setLocation(null); 
-                },
-                { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 }
-            );
-        }
-        return () => { /* Cleanup if necessary */ };
-    }, []); 
+        if (!navigator.geolocation) return;
+        lastBreadcrumb.current = null;
+
+        const watchId = navigator.geolocation.watchPosition(
+            (position) => {
+                const crumb = toBreadcrumb(position);
+                setLocation(crumb);
+
+                if (!trackTripId) return;
+                if (!shouldRecordBreadcrumb(lastBreadcrumb.current, crumb)) return;
+                lastBreadcrumb.current = crumb;
+                TripRepository.recordBreadcrumb(trackTripId, crumb)
+                    .catch(error => console.error("Error recording breadcrumb:", error));
+            },
+            (error) => {
+                console.warn(`Geolocation error: ${error.message}`);
+            },
+            { enableHighAccuracy: true, timeout: 20000, maximumAge: 10000 }
+        );
+        return () => navigator.geolocation.clearWatch(watchId);
+    }, [trackTripId]); 
     
     return location;
 
@@ -94,6 +111,36 @@ const useDriverGPS = () => {
     }, [trip]);
 };
 
+// 📍 Stop Geofence Hook: raises arrive / depart events from the GPS while the trip is in progress.
+// Returns the recorder, which the driver's manual override uses too.
+const useStopGeofence = (trip: Trip | null, location: GpsFix | null, setTrip: (update: (prev: Trip | null) => Trip | null) => void) => {
+    const [stops, setStops] = useState<TripStop[]>([]);
+    const active = trip?.status === 'in-progress';
+
+    useEffect(() => {
+        if (!trip || !active) return;
+        let cancelled = false;
+        resolveStopCoords(getTripStops(trip))
+            .then(resolved => { if (!cancelled) setStops(resolved); })
+            .catch(error => console.error("Error resolving stop coordinates:", error));
+        return () => { cancelled = true; };
+    }, [trip?.id, active]);
+
+    const recordStopEvents = useCallback((events: StopEvent[]) => {
+        if (!trip || events.length === 0) return;
+        setTrip(prev => prev ? { ...prev, stopEvents: [...(prev.stopEvents || []), ...events] } : prev);
+        TripRepository.recordStopEvents(trip.id, events)
+            .catch(error => console.error("Error recording stop events:", error));
+    }, [trip?.id]);
+
+    useEffect(() => {
+        if (!trip || !active || !location || stops.length === 0) return;
+        recordStopEvents(evaluateStopGeofence(stops, trip.stopEvents || [], location));
+    }, [location]);
+
+    return recordStopEvents;
+};
+
 interface DriverTripDetailProps {
     user: User;
     tripId: string | null;
@@ -190,15 +237,24 @@ const DriverStopList = ({ destinations, finalDestination }: { destinations?: str
     
 
 export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverTripDetailProps) {
-    const [trip, setTrip] = useState<any>(null);
+    const [trip, setTrip] = useState<Trip | null>(null);
     const [loading, setLoading] = useState(true);
     const [showSummary, setShowSummary] = useState(false);
     
     // Odometer Modal State (RETAINED)
     const [showOdometerModal, setShowOdometerModal] = useState(false);
     const [odometerInput, setOdometerInput] = useState('');
+    const [waitingInput, setWaitingInput] = useState(''); // minutes kept waiting, billed per the vehicle tariff
     const [modalActionType, setModalActionType] = useState<'start' | 'end' | null>(null);
 
+    // Pre-trip inspection (must pass before the start odometer is taken)
+    const [inspectionItems, setInspectionItems] = useState<InspectionChecklistItem[] | null>(null);
+    const [inspectionVehicleType, setInspectionVehicleType] = useState<string | null>(null);
+    const [passedInspectionId, setPassedInspectionId] = useState<string | null>(null);
+    const [startContinuity, setStartContinuity] = useState<{ lastOdometer: VehicleOdometer | null; toleranceKm: number } | null>(null); // null: unknown (offline)
+
+    const [showFuelLogModal, setShowFuelLogModal] = useState(false);
+
     // Breakdown Modal State
     const [showBreakdownModal, setShowBreakdownModal] = useState(false);
     const [breakdownReason, setBreakdownReason] = useState('');
@@ -224,7 +280,9 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
     const [activeSearchIndex, setActiveSearchIndex] = useState<number | 'pickup' | null>(null);
 
 
-    const driverLocation = useDriverGPS();
+    const driverLocation = useDriverGPS(trip?.status === 'in-progress' ? trip.id : null);
+    const recordStopEvents = useStopGeofence(trip, driverLocation, setTrip);
+    const stopProgress = useMemo(() => trip ? getStopProgress(getTripStops(trip), trip.stopEvents || []) : [], [trip]);
 
     // Collect all destinations and the final drop-off
     const allTripStops = useMemo(() => {
@@ -301,37 +359,40 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
             if (!tripId) return;
 
             try {
-                const docRef = doc(db, "trip_requests", tripId);
-                const docSnap = await getDoc(docRef);
+                let data = await TripRepository.get(tripId);
 
-                if (docSnap.exists()) {
-                    let data: any = { id: docSnap.id, ...docSnap.data() };
-                        
-                    // 🚨 Fetch Customer details 
-                    if (data.userId) {
-                        const userSnap = await getDoc(doc(db, "users", data.userId));
-                        if (userSnap.exists()) {
-                            const userData = userSnap.data();
-                            data = { ...data, customerName: userData.fullName || userData.name, customerPhone: userData.phone };
+                if (data) {
+                    // Actions still waiting in the outbox (e.g. a start recorded offline)
+                    data = applyQueuedActions(data);
+
+                    // Contact lookups are optional; offline they may not be in the local cache
+                    try {
+                        // 🚨 Fetch Customer details 
+                        if (data.userId) {
+                            const userData = await UserRepository.get(data.userId);
+                            if (userData) {
+                                data = { ...data, customerName: userData.fullName || userData.name, customerPhone: userData.phone };
+                            }
                         }
-                    }
 
-                    // 🚨 Fetch Original Driver details
-                    if (data.originalDriverId) {
-                        const driverSnap = await getDoc(doc(db, "users", data.originalDriverId));
-                        if (driverSnap.exists()) {
-                            const driverData = driverSnap.data();
-                            data = { 
-                                ...data, 
-                                originalDriverName: driverData.fullName, 
-                                originalDriverPhone: driverData.phone 
-                            };
+                        // 🚨 Fetch Original Driver details
+                        if (data.originalDriverId) {
+                            const driverData = await DriverRepository.get(data.originalDriverId);
+                            if (driverData) {
+                                data = { 
+                                    ...data, 
+                                    originalDriverName: driverData.fullName, 
+                                    originalDriverPhone: driverData.phone 
+                                };
+                            }
                         }
+                    } catch (error) {
+                        console.warn("Contact details unavailable:", error);
                     }
 
                     setTrip(data);
                     
-                    if (['completed', 'broken-down', 'cancelled', 'rejected'].includes(data.status)) {
+                    if (tripStatusIn(data, CLOSED_TRIP_STATUSES)) {
                         setShowSummary(true);
                     } else {
                         setShowSummary(false);
@@ -351,14 +412,84 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
     }, [tripId, onNavigate, user.id]);
 
     // 2. Handlers (RETAINED)
-    const handleStartTripClick = () => {
-        setOdometerInput(trip?.odometerStart || '');
-        setModalActionType('start');
-        setShowOdometerModal(true);
+    // Starting opens the inspection checklist for the vehicle's type; the odometer follows once it passes
+    const handleStartTripClick = async () => {
+        if (!trip) return;
+        let items = DEFAULT_INSPECTION_CHECKLIST;
+        try {
+            const [settings, vehicle, odometerSettings] = await Promise.all([
+                SettingsRepository.getInspection(),
+                trip.vehicleId ? VehicleRepository.get(trip.vehicleId) : Promise.resolve(null),
+                SettingsRepository.getOdometer(),
+            ]);
+            items = getChecklistForType(settings, vehicle?.type);
+            setInspectionVehicleType(vehicle?.type || null);
+            setStartContinuity({ lastOdometer: vehicle?.lastOdometer || null, toleranceKm: odometerSettings.startToleranceKm });
+        } catch (error) {
+            console.error("Error loading inspection checklist, using the default:", error); // e.g. no signal
+        }
+        setInspectionItems(items);
+    };
+
+    const handleSubmitInspection = async (results: InspectionItemResult[], fuelLevel: FuelLevel) => {
+        if (!trip) return;
+        const inspectionId = `${trip.id}-${Date.now()}`;
+        const { passed, failedCritical } = evaluateInspection(results);
+
+        try {
+            const result = await queueDriverAction('inspection', {
+                inspectionId,
+                vehicleId: trip.vehicleId || null,
+                vehicleNumber: trip.vehicleNumber || null,
+                vehicleType: inspectionVehicleType,
+                tripId: trip.id,
+                tripSerialNumber: trip.serialNumber || null,
+                driverId: trip.driverId || null,
+                driverName: trip.driverName || null,
+                fuelLevel,
+                results,
+                passed,
+                failedCritical,
+            });
+
+            if (!passed) {
+                // The trip is grounded and goes to the admin breakdown queue for a replacement vehicle
+                if (!reportSyncResult(result, 'Inspection failed. The vehicle has been sent for maintenance and the transport office will arrange a replacement.')) return;
+                setTrip((prev: any) => ({
+                    ...prev,
+                    status: 'broken-down',
+                    breakdownSource: 'inspection',
+                    breakdownReason: describeFailedInspection(failedCritical),
+                    breakdownLocation: prev.pickup,
+                    inspectionId,
+                }));
+                setInspectionItems(null);
+                setShowSummary(true);
+                return;
+            }
+
+            if (!reportSyncResult(result, null)) return;
+            setPassedInspectionId(inspectionId);
+            setInspectionItems(null);
+            setOdometerInput(trip.odometerStart || '');
+            setModalActionType('start');
+            setShowOdometerModal(true);
+        } catch (error) {
+            console.error("Error saving inspection:", error);
+            alert(error instanceof OutboxStorageFullError ? error.message : "Failed to save the inspection. Please try again.");
+        }
+    };
+
+    // Manual override of the stop geofence
+    const handleMarkStop = (stopIndex: number, kind: StopEvent['kind']) => {
+        recordStopEvents(manualStopEvents(stopProgress, stopIndex, kind, driverLocation));
     };
 
     const handleEndTripClick = () => {
         setOdometerInput(''); 
+        // Prefilled from the stop arrivals/departures; the driver can still correct it
+        const stopWaiting = getTotalStopWaitingMinutes(stopProgress);
+        setWaitingInput(stopWaiting > 0 ? String(stopWaiting) : '');
         setModalActionType('end');
         setShowOdometerModal(true);
     };
@@ -370,26 +501,22 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
         if (isNaN(odometer) || odometer <= 0) { alert("Invalid odometer value."); return; }
         
         try {
-            const tripRef = doc(db, "trip_requests", trip.id);
-            
             if (modalActionType === 'start') {
                 if (odometer <= (trip.odometerEndPrevious || 0) && trip.odometerEndPrevious > 0) {
                     alert(`Error: Start Odometer (${odometer}) cannot be less than or equal to the last recorded End Odometer (${trip.odometerEndPrevious}).`);
                     return;
                 }
+                // Checked again when the start syncs; the driver can go ahead, but admins review the gap
+                const continuity = startContinuity && checkStartContinuity(startContinuity.lastOdometer, odometer, startContinuity.toleranceKm);
+                if (continuity && !window.confirm(`${continuity.message}\n\nPlease check the reading. Start anyway? The difference will be reported to the transport office.`)) {
+                    return;
+                }
                 
-                await updateDoc(tripRef, {
-                    status: 'in-progress',
-                    startedAt: new Date().toISOString(),
-                    odometerStart: odometer 
-                });
-
-                if (trip.vehicleId) { await updateDoc(doc(db, "vehicles", trip.vehicleId), { status: 'in-use' }); }
-                if (user.id) { await updateDoc(doc(db, "users", user.id), { status: 'in-use', currentTripId: trip.id }); }
-
+                // Marks the vehicle and this driver 'in-use' once synced
+                const result = await queueDriverAction('trip-start', { odometerStart: odometer, inspectionId: passedInspectionId });
+                if (!reportSyncResult(result, 'Trip started! Odometer recorded.')) return;
 
                 setTrip((prev: any) => ({ ...prev, status: 'in-progress', odometerStart: odometer }));
-                alert('Trip started! Odometer recorded.');
                 
             } else if (modalActionType === 'end') {
                 if (odometer < (trip.odometerStart || 0)) {
@@ -398,18 +525,17 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
                 }
                 
                 const distanceRun = odometer - (trip.odometerStart || 0);
+                const waitingMinutes = Math.max(0, Number(waitingInput) || 0);
+
+                // Releases the vehicle and this driver; final costing runs when the action syncs
+                const result = await queueDriverAction('trip-end', { odometerEnd: odometer, kmRun: distanceRun, waitingMinutes });
+                if (!reportSyncResult(result, null)) return;
                 
-                await updateDoc(tripRef, {
-                    status: 'completed', 
-                    endedAt: new Date().toISOString(),
-                    odometerEnd: odometer, 
-                    kmRun: distanceRun
-                });
-
-                if (trip.vehicleId) { await updateDoc(doc(db, "vehicles", trip.vehicleId), { status: 'available' }); }
-                if (user.id) { await updateDoc(doc(db, "users", user.id), { status: 'available', currentTripId: null }); }
-                
-                setTrip((prev: any) => ({ ...prev, status: 'completed', odometerEnd: odometer, kmRun: distanceRun }));
+                setTrip((prev: any) => ({ ...prev, status: 'completed', odometerEnd: odometer, kmRun: distanceRun, waitingMinutes }));
+                if (result === 'synced') {
+                    const saved = await TripRepository.get(trip.id); // picks up the final cost
+                    if (saved) setTrip((prev: any) => ({ ...prev, ...saved }));
+                }
                 
                 setShowOdometerModal(false); 
                 setShowSummary(true);
@@ -423,8 +549,32 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
 
         } catch (error) {
             console.error(`Error ${modalActionType}ing trip:`, error);
-            alert(`Failed to ${modalActionType} trip. Please try again.`);
+            alert(error instanceof OutboxStorageFullError ? error.message : `Failed to ${modalActionType} trip. Please try again.`);
+        }
+    };
+
+    // Driver writes go through the outbox so they survive a lost signal
+    const queueDriverAction = (kind: OutboxActionKind, payload: Record<string, any>) => submitDriverAction({
+        kind,
+        tripId: trip!.id,
+        tripSerialNumber: trip!.serialNumber,
+        expectedDriverId: trip!.driverId || null,
+        actorEmail: user.email,
+        recordedAt: new Date().toISOString(),
+        gps: driverLocation,
+        payload,
+    });
+
+    // Tells the driver where the action ended up; false when it was not accepted
+    const reportSyncResult = (result: 'synced' | OutboxEntryState, syncedMessage: string | null) => {
+        if (result === 'synced') {
+            if (syncedMessage) alert(syncedMessage);
+        } else if (result === 'queued') {
+            alert("No connection. Saved on this phone with the current time and location; it will sync automatically when you are back online.");
+        } else {
+            alert("This action could not be applied. Open the sync status at the top of the screen for details.");
         }
+        return result === 'synced' || result === 'queued';
     };
 
     // Breakdown/Cancel Trip (RETAINED)
@@ -448,48 +598,18 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
         // DriverTripDetail.tsx (Inside handleReportBreakdown)
 
         
-        try {
-          const tripRef = doc(db, "trip_requests", trip.id);
-          
-          // 1. Store raw GPS coordinates here
-          const breakdownLocationGPS = driverLocation ? `${driverLocation.lat},${driverLocation.lng}` : 'N/A';
-
-          // The definition of originalBreakdownDisplay is only for logging/local UI update, can be removed 
-            // from here as it's defined globally later, but let's keep the logic clean:
-          
-          // 1. Update Trip Status (Use the correct variables)
-          await updateDoc(tripRef, {
-            status: 'broken-down', 
-            cancelledAt: new Date().toISOString(),
-            breakdownReason: breakdownReason, 
-            breakdownLocation: breakdownAddress, // Stores readable address (e.g., "Near Colombo Port City...")
-            breakdownGPS: breakdownLocationGPS, // 🔥 FIX: Stores raw coordinates (e.g., "6.9271,79.8612")
-            breakdownOdometer: Number(breakdownOdometer), 
-            lastVisitedStop: lastVisitedStop, 
-            odometerEndPrevious: Number(breakdownOdometer)
-          });
-// ...
-
-          // 2. Update Vehicle Status for maintenance
-          if (trip.vehicleId) {
-            const vehicleRef = doc(db, "vehicles", trip.vehicleId);
-            await updateDoc(vehicleRef, { 
-                status: 'in-maintenance', 
-                lastTripId: trip.id 
-            });
-          }
-          
-          // 3. Update Driver Status (optional, but clean)
-          if (user.id) { await updateDoc(doc(db, "users", user.id), { status: 'available', currentTripId: null }); }
-
-
-          // 4. Log the action for admin
-          await logAction(user.email, 'BREAKDOWN_REPORTED',
-              `Driver reported breakdown for ${trip.vehicleNumber} during trip #${trip.serialNumber}. Reason: ${breakdownReason}. Stop: ${lastVisitedStop}`,
-              { tripId: trip.id, breakdownLocation: breakdownAddress }
-             );
+        try {
+          // 1. Update Trip Status (also releases the driver and sends the vehicle to maintenance) and log it
+          //    for admin. The raw GPS fix is stored with the action as breakdownGPS.
+          const result = await queueDriverAction('breakdown', {
+            breakdownReason: breakdownReason, 
+            breakdownLocation: breakdownAddress, // Stores readable address (e.g., "Near Colombo Port City...")
+            breakdownOdometer: Number(breakdownOdometer), 
+            lastVisitedStop: lastVisitedStop, 
+          });
+          if (!reportSyncResult(result, null)) return;
           
-          // 5. Update UI
+          // 2. Update UI
           setTrip((prev: any) => ({ 
               ...prev, 
               status: 'broken-down', 
@@ -498,11 +618,11 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
           }));
           setShowBreakdownModal(false);
           setShowSummary(true); 
-          alert('Breakdown reported. Admin has been notified for vehicle replacement.');
+          if (result === 'synced') alert('Breakdown reported. Admin has been notified for vehicle replacement.');
 
         } catch (error) {
           console.error("Error reporting breakdown:", error);
-          alert("Failed to report breakdown. Please try again.");
+          alert(error instanceof OutboxStorageFullError ? error.message : "Failed to report breakdown. Please try again.");
         }
     };
     
@@ -514,7 +634,7 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
         }
 
         try {
-            await addDoc(collection(db, "police_claims"), {
+            const result = await queueDriverAction('fine-claim', {
                 driverId: user.id,
                 driverName: user.fullName || user.name,
                 vehicleNumber: trip.vehicleNumber || 'N/A',
@@ -529,18 +649,17 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
                 description: fineClaimData.fineDescription, 
                 fineTicketUrl: fineClaimData.photoUrl || 'N/A',
                 
-                // Status
+                // Status (claimedDate is the time the driver filed it)
                 status: 'pending', 
-                claimedDate: new Date().toISOString()
             });
+            if (!reportSyncResult(result, "Fine claim submitted successfully! Admin will review.")) return;
 
-            alert("Fine claim submitted successfully! Admin will review.");
             setShowFineClaimModal(false);
             setShowSummary(true); 
             
         } catch (e) {
             console.error(e);
-            alert("Failed to submit claim.");
+            alert(e instanceof OutboxStorageFullError ? e.message : "Failed to submit claim.");
         }
     };
 
@@ -558,10 +677,8 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
     // 🎯 Start Button Logic: Allow start immediately if reassigned and odometer not set.
     const isReadyToStart = 
         (!trip.odometerStart) && 
-        (
-            (trip.status === 'approved' && isToday(trip.date)) || 
-            (trip.status === 'reassigned') 
-        );
+        tripStatusIn(trip, STARTABLE_TRIP_STATUSES) &&
+        (trip.status === 'reassigned' || isToday(trip.date));
 
 
     // Determine the pickup location for the route overview
@@ -589,6 +706,8 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
             <TopNav user={user} onNavigate={onNavigate} onLogout={onLogout} />
             <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
                 
+                <SyncStatusIndicator />
+
                 {/* Header and Status (RETAINED) */}
                 <div className="mb-6">
                     <button onClick={() => onNavigate('driver-dashboard')} className="text-blue-600 mb-4 font-medium hover:text-blue-800 transition-colors flex items-center gap-1">
@@ -605,6 +724,12 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
                             <AlertTriangle className='w-4 h-4'/> This trip was re-assigned to you due to a breakdown.
                         </p>
                     )}
+
+                    {isTripActive && (
+                        <p className={`text-sm mt-2 flex items-center gap-1 ${driverLocation ? 'text-green-700' : 'text-gray-500'}`}>
+                            <Navigation className='w-4 h-4'/> {driverLocation ? 'Your location is shared with the transport office and passenger during this trip.' : 'Waiting for GPS… keep location turned on during the trip.'}
+                        </p>
+                    )}
                 </div>
                 
                 {/* --- Main Content Layout --- (RETAINED)*/}
@@ -616,6 +741,10 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
                         {/* Route Details Card */}
                         <Card className="p-6">
                             <h2 className="text-xl font-bold mb-6 text-gray-800 flex items-center gap-2"><MapPin className='w-5 h-5'/> Route Overview</h2>
+                            {/* Stop progress once the trip is under way: arrivals from the GPS, or marked by hand */}
+                            {(isTripActive || trip.stopEvents?.length) ? (
+                                <StopProgressList progress={stopProgress} onMark={isTripActive ? handleMarkStop : undefined} />
+                            ) : (
                             <div className="space-y-4">
                                 {/* Pickup (Effective Pickup Location) */}
                                 <div className="flex gap-4 items-start">
@@ -633,6 +762,7 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
                                 <DriverStopList destinations={trip.destinations} finalDestination={trip.destination} />
                                 
                             </div>
+                            )}
                         </Card>
                         
                         {/* Odometer Summary (Conditional Card) */}
@@ -710,7 +840,7 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
                                 {/* 🎯 Start Button visible if ready to start */}
                                 {isReadyToStart && (
                                     <button onClick={handleStartTripClick} className="w-full py-4 bg-green-600 text-white rounded-xl flex justify-center gap-2 hover:bg-green-700 transition-all font-semibold shadow-lg">
-                                        <Play className="w-5 h-5" /> Start Trip (Record Odometer)
+                                        <Play className="w-5 h-5" /> Start Trip (Inspection & Odometer)
                                     </button>
                                 )}
                                 
@@ -725,6 +855,14 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
                                         >
                                             <Wrench className="w-5 h-5" /> Report Breakdown / Cancel
                                         </button>
+                                        {trip.vehicleId && (
+                                            <button 
+                                                onClick={() => setShowFuelLogModal(true)} 
+                                                className="w-full py-3 border border-gray-300 text-gray-700 rounded-xl flex justify-center gap-2 hover:bg-gray-50 transition-all font-medium"
+                                            >
+                                                <Fuel className="w-5 h-5" /> Log Fuel
+                                            </button>
+                                        )}
                                     </>
                                 )}
                                 
@@ -780,6 +918,18 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
                                     <span>{trip.kmRun || 'N/A'} km</span>
                                 </div>
                             )}
+                            {isTripCompleted && trip.finalCosting && (
+                                <div className="text-xs text-gray-500 text-right">{describeKmComparison(trip)}</div>
+                            )}
+                            {isTripCompleted && trip.costQuote && (
+                                <div className="pt-2 border-t border-gray-200 space-y-1">
+                                    {trip.costQuote.lines.map((line, i) => (
+                                        <div key={i} className="flex justify-between text-xs text-gray-600"><span>{line.label}</span><span>LKR {line.amount}</span></div>
+                                    ))}
+                                    <div className="flex justify-between font-bold text-gray-800"><span>Trip Cost:</span><span>{trip.cost}</span></div>
+                                    <CostComparison trip={trip} className="text-right" />
+                                </div>
+                            )}
                             {trip.status === 'broken-down' && (
                                 <div className="pt-2 border-t border-gray-200">
                                     <span className="font-semibold text-yellow-700 block mb-1">Breakdown Report:</span>
@@ -987,6 +1137,26 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
                     </div>
                 )}
                 
+                {showFuelLogModal && trip.vehicleId && (
+                    <DriverFuelLogModal
+                        user={user}
+                        vehicle={{ id: trip.vehicleId, number: trip.vehicleNumber || '' }}
+                        trip={trip}
+                        gps={driverLocation}
+                        onClose={() => setShowFuelLogModal(false)}
+                    />
+                )}
+
+                {/* PRE-TRIP INSPECTION MODAL */}
+                {inspectionItems && (
+                    <InspectionChecklistModal
+                        vehicleNumber={trip.vehicleNumber || 'the vehicle'}
+                        items={inspectionItems}
+                        onCancel={() => setInspectionItems(null)}
+                        onSubmit={handleSubmitInspection}
+                    />
+                )}
+
                 {/* ODOMETER INPUT MODAL (Retained) */}
                 {showOdometerModal && (
                     <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
@@ -1007,6 +1177,12 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
                                     </p>
                                 </div>
                             )}
+                            {modalActionType === 'start' && startContinuity?.lastOdometer && (
+                                <div className='bg-gray-50 border border-gray-200 p-3 rounded-lg mb-4 text-sm'>
+                                    <p className='font-semibold text-gray-800'>Last known odometer: <span className='text-gray-900'>{describeVehicleOdometer(startContinuity.lastOdometer)}</span></p>
+                                    <p className='text-xs text-gray-500 mt-1'>The start should be at most {startContinuity.toleranceKm} km above this.</p>
+                                </div>
+                            )}
                             {modalActionType === 'start' && trip.odometerEndPrevious && (
                                 <div className='bg-yellow-50 border border-yellow-200 p-3 rounded-lg mb-4 text-sm'>
                                     <p className='font-semibold text-gray-800'>
@@ -1020,8 +1196,33 @@ export function DriverTripDetail({ user, tripId, onNavigate, onLogout }: DriverT
                                 value={odometerInput}
                                 onChange={e => setOdometerInput(e.target.value)}
                                 placeholder='Enter mileage (km)'
-                                className='w-full p-3 border border-gray-300 rounded-xl text-lg mb-6 focus:ring-blue-500 focus:border-blue-500 font-mono'
+                                className='w-full p-3 border border-gray-300 rounded-xl text-lg mb-2 focus:ring-blue-500 focus:border-blue-500 font-mono'
                             />
+                            {/* The reading is stamped with this position and checked against the route */}
+                            <p className={`text-xs mb-6 flex items-center gap-1 ${driverLocation ? 'text-gray-500' : 'text-orange-600'}`}>
+                                <MapPin className='w-3 h-3'/>
+                                {driverLocation
+                                    ? `GPS ${driverLocation.lat.toFixed(5)}, ${driverLocation.lng.toFixed(5)}${driverLocation.accuracyM !== null ? ` (±${driverLocation.accuracyM} m)` : ''}`
+                                    : 'No GPS position yet. The reading will be flagged for admin review without one.'}
+                            </p>
+                            {modalActionType === 'end' && (
+                                <div className='mb-6 -mt-2'>
+                                    <label className='block text-sm font-medium text-gray-700 mb-1'>Waiting time (minutes)</label>
+                                    {getTotalStopWaitingMinutes(stopProgress) > 0 && (
+                                        <p className='text-xs text-gray-500 mb-1'>
+                                            From stops: {stopProgress.filter(s => s.waitingMinutes).map(s => `${s.label} ${s.waitingMinutes} min`).join(', ')}
+                                        </p>
+                                    )}
+                                    <input 
+                                        type='number'
+                                        min='0'
+                                        value={waitingInput}
+                                        onChange={e => setWaitingInput(e.target.value)}
+                                        placeholder='0'
+                                        className='w-full p-3 border border-gray-300 rounded-xl focus:ring-blue-500 focus:border-blue-500 font-mono'
+                                    />
+                                </div>
+                            )}
                             
                             <div className="flex gap-3">
                                 <button onClick={() => setShowOdometerModal(false)} className="flex-1 py-3 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors">Cancel</button>
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { AlertTriangle, Camera, CheckCircle, ClipboardCheck, Loader2, X, XCircle } from 'lucide-react';
+import { Card } from '../shared/Card';
+import { FuelLevel, InspectionChecklistItem, InspectionItemResult } from '../../types';
+import { FUEL_LEVEL_LABELS, INSPECTION_CATEGORY_LABELS, evaluateInspection, getUnansweredItems, newInspectionResults } from '../../utils/inspections';
+import { compressPhoto } from '../../utils/photos';
+
+interface InspectionChecklistModalProps {
+    vehicleNumber: string;
+    items: InspectionChecklistItem[];
+    onCancel: () => void;
+    onSubmit: (results: InspectionItemResult[], fuelLevel: FuelLevel) => Promise<void>;
+}
+
+// Pre-trip walk-round: the driver marks each checklist item OK or a problem, optionally with a photo
+export function InspectionChecklistModal({ vehicleNumber, items, onCancel, onSubmit }: InspectionChecklistModalProps) {
+    const [results, setResults] = useState<InspectionItemResult[]>(() => newInspectionResults(items));
+    const [fuelLevel, setFuelLevel] = useState<FuelLevel>('half');
+    const [photoLoading, setPhotoLoading] = useState<string | null>(null);
+    const [submitting, setSubmitting] = useState(false);
+
+    const { passed, failedCritical } = evaluateInspection(results);
+    const unanswered = getUnansweredItems(results);
+
+    const updateResult = (itemId: string, patch: Partial<InspectionItemResult>) => {
+        setResults(prev => prev.map(r => r.itemId === itemId ? { ...r, ...patch } : r));
+    };
+
+    const handlePhoto = async (itemId: string, file: File | undefined) => {
+        if (!file) return;
+        setPhotoLoading(itemId);
+        try {
+            updateResult(itemId, { photo: await compressPhoto(file) });
+        } catch (error) {
+            console.error("Error reading inspection photo:", error);
+            alert("The photo could not be attached. Please try again.");
+        } finally {
+            setPhotoLoading(null);
+        }
+    };
+
+    const handleSubmit = async () => {
+        if (unanswered.length > 0) {
+            alert(`Please mark every item OK or Problem. Still to check: ${unanswered.map(r => r.label).join(', ')}.`);
+            return;
+        }
+        if (results.some(r => r.passed === false && !r.note.trim())) {
+            alert("Please describe each problem you marked.");
+            return;
+        }
+        setSubmitting(true);
+        try {
+            await onSubmit(results, fuelLevel);
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4">
+            <Card className="w-full max-w-lg p-6 max-h-[90vh] overflow-y-auto">
+                <div className="flex justify-between items-center pb-4 border-b">
+                    <h3 className="text-2xl font-bold flex items-center gap-2 text-blue-600">
+                        <ClipboardCheck className='w-6 h-6'/> Pre-Trip Inspection
+                    </h3>
+                    <button onClick={onCancel} className="text-gray-500 hover:text-blue-700 p-1 rounded-full hover:bg-blue-50"><X className="w-6 h-6"/></button>
+                </div>
+                <p className='text-sm text-gray-600 my-4'>
+                    Check <span className='font-semibold'>{vehicleNumber}</span> before starting. Mark every item OK or Problem.
+                </p>
+
+                <div className="space-y-3">
+                    {results.map(result => (
+                        <div key={result.itemId} className={`p-3 rounded-xl border ${result.passed === false ? 'border-red-300 bg-red-50' : result.passed ? 'border-gray-200' : 'border-amber-300'}`}>
+                            <div className="flex justify-between items-start gap-2">
+                                <div>
+                                    <div className="text-xs text-gray-500 uppercase">
+                                        {INSPECTION_CATEGORY_LABELS[result.category]}{result.critical && <span className="text-red-600"> • Critical</span>}
+                                    </div>
+                                    <div className="text-sm font-medium text-gray-900">{result.label}</div>
+                                </div>
+                                <div className="flex gap-1 flex-shrink-0">
+                                    <button onClick={() => updateResult(result.itemId, { passed: true })} className={`px-3 py-1 text-xs rounded-lg border ${result.passed ? 'bg-green-600 text-white border-green-600' : 'border-gray-300 text-gray-600'}`}>OK</button>
+                                    <button onClick={() => updateResult(result.itemId, { passed: false })} className={`px-3 py-1 text-xs rounded-lg border ${result.passed === false ? 'bg-red-600 text-white border-red-600' : 'border-gray-300 text-gray-600'}`}>Problem</button>
+                                </div>
+                            </div>
+
+                            {result.passed === false && (
+                                <div className="mt-2 space-y-2">
+                                    <input
+                                        type="text"
+                                        value={result.note}
+                                        onChange={e => updateResult(result.itemId, { note: e.target.value })}
+                                        placeholder="What is wrong?"
+                                        className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                                    />
+                                    <div className="flex items-center gap-3">
+                                        <label className="px-3 py-1 text-xs border border-gray-300 rounded-lg flex items-center gap-1 text-gray-700 cursor-pointer">
+                                            {photoLoading === result.itemId ? <Loader2 className="w-3 h-3 animate-spin"/> : <Camera className="w-3 h-3"/>} {result.photo ? 'Retake Photo' : 'Add Photo'}
+                                            <input type="file" accept="image/*" capture="environment" className="hidden" onChange={e => handlePhoto(result.itemId, e.target.files?.[0])} />
+                                        </label>
+                                        {result.photo && <img src={result.photo} alt={result.label} className="h-12 w-12 object-cover rounded-lg border" />}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                <div className="mt-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Fuel Gauge</label>
+                    <div className="flex gap-2">
+                        {(Object.keys(FUEL_LEVEL_LABELS) as FuelLevel[]).map(level => (
+                            <button key={level} onClick={() => setFuelLevel(level)} className={`flex-1 py-2 text-sm rounded-lg border ${fuelLevel === level ? 'bg-blue-600 text-white border-blue-600' : 'border-gray-300 text-gray-700'}`}>
+                                {FUEL_LEVEL_LABELS[level]}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {!passed && (
+                    <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 flex gap-2">
+                        <AlertTriangle className="w-5 h-5 flex-shrink-0"/>
+                        <span>Critical problem: {failedCritical.join(', ')}. The trip cannot start; the vehicle will be sent for maintenance and the transport office will arrange a replacement.</span>
+                    </div>
+                )}
+
+                <div className="flex gap-3 mt-6">
+                    <button onClick={onCancel} className="flex-1 py-3 border border-gray-300 text-gray-700 rounded-xl hover:bg-gray-50 transition-colors">Cancel</button>
+                    <button
+                        onClick={handleSubmit}
+                        disabled={submitting || photoLoading !== null || unanswered.length > 0}
+                        className={`flex-1 py-3 text-white rounded-xl disabled:opacity-50 font-semibold flex justify-center items-center gap-2 ${passed ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'}`}
+                    >
+                        {unanswered.length > 0 ? `${unanswered.length} item(s) to check` : passed ? <><CheckCircle className='w-5 h-5'/> Continue to Odometer</> : <><XCircle className='w-5 h-5'/> Report Failed Inspection</>}
+                    </button>
+                </div>
+            </Card>
+        </div>
+    );
+}
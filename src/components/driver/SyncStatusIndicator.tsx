@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, CloudOff, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { OutboxEntry, OutboxStatus, discardOutboxEntry, getOutboxStatus, retryOutboxEntry, startOutboxSync, subscribeOutbox } from '../../utils/driverOutbox';
+
+const ACTION_LABELS: Record<OutboxEntry['kind'], string> = {
+    'inspection': 'Pre-trip inspection',
+    'trip-start': 'Trip start',
+    'trip-end': 'Trip end',
+    'breakdown': 'Breakdown report',
+    'fine-claim': 'Fine claim',
+    'fuel-log': 'Fuel log',
+};
+
+// Sync state of the driver outbox, with the actions that need the driver's attention
+export function SyncStatusIndicator() {
+    const [status, setStatus] = useState<OutboxStatus>(getOutboxStatus());
+    const [expanded, setExpanded] = useState(false);
+
+    useEffect(() => {
+        const stopSync = startOutboxSync();
+        const unsubscribe = subscribeOutbox(setStatus);
+        return () => { unsubscribe(); stopSync(); };
+    }, []);
+
+    const handleDiscard = (entry: OutboxEntry) => {
+        const forTrip = entry.tripId ? ` for trip #${entry.tripSerialNumber || entry.tripId}` : '';
+        if (!window.confirm(`Discard the ${ACTION_LABELS[entry.kind].toLowerCase()}${forTrip}? It will not be sent.`)) return;
+        discardOutboxEntry(entry.id);
+    };
+
+    let pill;
+    if (status.blocked.length > 0) {
+        pill = <span className="flex items-center gap-1 px-3 py-1 rounded-full border text-red-700 bg-red-50 border-red-200"><AlertTriangle className="w-4 h-4" /> {status.blocked.length} action(s) need attention</span>;
+    } else if (status.syncing) {
+        pill = <span className="flex items-center gap-1 px-3 py-1 rounded-full border text-blue-700 bg-blue-50 border-blue-200"><Loader2 className="w-4 h-4 animate-spin" /> Syncing {status.queued} action(s)…</span>;
+    } else if (!status.online || status.queued > 0) {
+        pill = <span className="flex items-center gap-1 px-3 py-1 rounded-full border text-yellow-800 bg-yellow-50 border-yellow-200"><CloudOff className="w-4 h-4" /> {status.online ? '' : 'Offline • '}{status.queued} action(s) waiting to sync</span>;
+    } else {
+        pill = <span className="flex items-center gap-1 px-3 py-1 rounded-full border text-green-700 bg-green-50 border-green-200"><CheckCircle className="w-4 h-4" /> All changes synced</span>;
+    }
+
+    return (
+        <div className="mb-4">
+            <button onClick={() => setExpanded(!expanded)} className="text-sm font-medium">
+                {pill}
+            </button>
+            {expanded && status.blocked.length > 0 && (
+                <div className="mt-2 space-y-2">
+                    {status.blocked.map(entry => (
+                        <div key={entry.id} className="p-3 bg-white border border-red-200 rounded-xl text-sm">
+                            <div className="font-semibold text-gray-800">{ACTION_LABELS[entry.kind]}{entry.tripId && <> • Trip #{entry.tripSerialNumber || entry.tripId}</>}</div>
+                            <div className="text-xs text-gray-500">Recorded {new Date(entry.recordedAt).toLocaleString()}</div>
+                            <div className="text-xs text-red-600 mt-1">{entry.lastError}</div>
+                            <div className="flex gap-2 mt-2">
+                                <button onClick={() => retryOutboxEntry(entry.id)} className="px-3 py-1 border rounded-lg flex items-center gap-1 text-gray-700"><RefreshCw className="w-3 h-3" /> Retry</button>
+                                <button onClick={() => handleDiscard(entry)} className="px-3 py-1 border border-red-300 text-red-600 rounded-lg flex items-center gap-1"><Trash2 className="w-3 h-3" /> Discard</button>
+                            </div>
+                        </div>
+                    ))}
+                    <p className="text-xs text-gray-500">Contact the transport office if a conflicting action still needs to be recorded.</p>
+                </div>
+            )}
+        </div>
+    );
+}
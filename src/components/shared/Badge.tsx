@@ -1,8 +1,9 @@
 import React from 'react';
+import { TripStatus, VehicleStatus } from '../../types';
 
 interface BadgeProps {
-  // 🆕 Added merge statuses
-  status: 'available' | 'in-use' | 'maintenance' | 'requested' | 'pending' | 'approved' | 'in-progress' | 'completed' | 'cancelled' | 'rejected' | 'broken-down' | 're-assigned' | 'pending_merge' | 'awaiting_merge_approval' | 'merged';
+  // 🆕 Trip statuses come from the shared TripStatus union (see utils/tripTransitions)
+  status: TripStatus | VehicleStatus | 'maintenance' | 'requested' | 're-assigned';
   size?: 'sm' | 'md';
 }
 
@@ -21,11 +22,15 @@ export function Badge({ status, size = 'md' }: BadgeProps) {
     cancelled: { bg: 'bg-red-100', text: 'text-red-800', label: 'Cancelled' },
     rejected: { bg: 'bg-red-100', text: 'text-red-800', label: 'Rejected' },
     'broken-down': { bg: 'bg-red-200', text: 'text-red-800', label: 'Broken Down' },
-    're-assigned': { bg: 'bg-orange-200', text: 'text-orange-800', label: 'Re-Assigned' },
+    'reassigned': { bg: 'bg-orange-200', text: 'text-orange-800', label: 'Re-Assigned' },
+    're-assigned': { bg: 'bg-orange-200', text: 'text-orange-800', label: 'Re-Assigned' }, // Legacy spelling
+    'in-maintenance': { bg: 'bg-orange-100', text: 'text-orange-800', label: 'Maintenance' },
     
     // 🆕 New Merge Statuses
     'pending_merge': { bg: 'bg-purple-100', text: 'text-purple-800', label: 'Merge Check' },
     'awaiting_merge_approval': { bg: 'bg-indigo-100', text: 'text-indigo-800', label: 'Awaiting User Approval' },
+    'approved_merge_request': { bg: 'bg-indigo-200', text: 'text-indigo-900', label: 'Merge Accepted' },
+    'merge_rejected': { bg: 'bg-red-100', text: 'text-red-800', label: 'Merge Rejected' },
     'merged': { bg: 'bg-purple-300', text: 'text-purple-900', label: 'Merged' },
     
     info: { bg: 'bg-gray-100', text: 'text-gray-600', label: 'Info' }
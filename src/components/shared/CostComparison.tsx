@@ -0,0 +1,28 @@
+import { Trip } from '../../types';
+
+interface CostComparisonProps {
+  trip: Pick<Trip, 'finalCosting'>;
+  className?: string;
+}
+
+// Estimated vs actual cost of a completed trip; renders nothing until the trip has been final-costed
+export function CostComparison({ trip, className = '' }: CostComparisonProps) {
+  const costing = trip.finalCosting;
+  if (!costing) return null;
+
+  const variance = costing.costVariancePercent;
+  const reviewLabel = costing.review === 'pending' ? 'Awaiting review'
+    : costing.review === 'kept-estimate' ? 'Estimate kept'
+    : costing.review === 'accepted-actual' ? 'Actual accepted'
+    : null;
+
+  return (
+    <div className={`text-xs font-normal ${className}`}>
+      <span className="text-gray-500">Est. LKR {costing.estimatedCost.toLocaleString()}</span>
+      <span className="text-gray-400"> / </span>
+      <span className="text-gray-700">Actual LKR {costing.actualCost.toLocaleString()}</span>
+      <span className={costing.flagged ? 'text-red-600 font-semibold' : 'text-gray-500'}> ({variance > 0 ? '+' : ''}{variance}%)</span>
+      {reviewLabel && <span className={costing.review === 'pending' ? 'ml-1 text-orange-600' : 'ml-1 text-gray-500'}>• {reviewLabel}</span>}
+    </div>
+  );
+}
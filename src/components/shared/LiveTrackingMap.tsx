@@ -0,0 +1,85 @@
+import { useEffect } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import L from 'leaflet';
+import { LatLng, TripBreadcrumb } from '../../types';
+import { describePositionAge, isLivePositionStale } from '../../utils/breadcrumbs';
+
+const COLOMBO: [number, number] = [6.9271, 79.8612];
+
+export interface LiveVehicleMarker {
+  id: string;
+  label: string;       // vehicle number
+  detail?: string;     // driver / trip line for the popup
+  position: TripBreadcrumb;
+}
+
+interface LiveTrackingMapProps {
+  vehicles: LiveVehicleMarker[];
+  pickup?: LatLng | null;
+  trail?: TripBreadcrumb[];
+  onSelectVehicle?: (id: string) => void;
+}
+
+const vehicleIcon = (label: string, stale: boolean) => L.divIcon({
+  className: 'custom-div-icon',
+  html: `<div style="background-color: ${stale ? '#9CA3AF' : '#2563EB'}; color: white; border-radius: 9999px; padding: 2px 8px; font-weight: bold; font-size: 11px; white-space: nowrap; border: 2px solid white; box-shadow: 0 2px 4px rgba(0,0,0,0.3);">${label}</div>`,
+  iconSize: [80, 22],
+  iconAnchor: [40, 11],
+});
+
+const pickupIcon = L.divIcon({
+  className: 'custom-div-icon',
+  html: `<div style="background-color: #16A34A; border-radius: 50%; width: 16px; height: 16px; border: 3px solid white; box-shadow: 0 2px 4px rgba(0,0,0,0.3);"></div>`,
+  iconSize: [16, 16],
+  iconAnchor: [8, 8],
+});
+
+// Re-fits the view when vehicles appear or leave; position updates alone do not move the map under the user
+const FitToPoints = ({ points, fitKey }: { points: [number, number][]; fitKey: string }) => {
+  const map = useMap();
+  useEffect(() => {
+    if (points.length === 1) map.setView(points[0], 14);
+    else if (points.length > 1) map.fitBounds(L.latLngBounds(points), { padding: [40, 40], maxZoom: 15 });
+  }, [fitKey]);
+  return null;
+};
+
+// Live positions of in-progress trips, with an optional pickup pin and breadcrumb trail
+export function LiveTrackingMap({ vehicles, pickup, trail = [], onSelectVehicle }: LiveTrackingMapProps) {
+  const points: [number, number][] = vehicles.map(v => [v.position.lat, v.position.lng]);
+  if (pickup) points.push([pickup.lat, pickup.lng]);
+  const fitKey = [...vehicles.map(v => v.id), pickup ? 'pickup' : ''].join('|');
+
+  return (
+    <MapContainer center={points[0] || COLOMBO} zoom={11} style={{ height: '100%', width: '100%' }}>
+      <FitToPoints points={points} fitKey={fitKey} />
+      <TileLayer attribution='&copy; OpenStreetMap contributors' url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png" />
+
+      {trail.length > 1 && <Polyline positions={trail.map(c => [c.lat, c.lng] as [number, number])} color="#2563EB" weight={4} opacity={0.6} />}
+
+      {pickup && (
+        <Marker position={[pickup.lat, pickup.lng]} icon={pickupIcon}><Popup>Pickup</Popup></Marker>
+      )}
+
+      {vehicles.map(v => {
+        const stale = isLivePositionStale(v.position);
+        return (
+          <Marker
+            key={v.id}
+            position={[v.position.lat, v.position.lng]}
+            icon={vehicleIcon(v.label, stale)}
+            eventHandlers={onSelectVehicle ? { click: () => onSelectVehicle(v.id) } : undefined}
+          >
+            <Popup>
+              <div className="text-sm font-bold">{v.label}</div>
+              {v.detail && <div className="text-xs">{v.detail}</div>}
+              <div className="text-xs">{v.position.speedKmh !== null ? `${v.position.speedKmh} km/h • ` : ''}updated {describePositionAge(v.position)}</div>
+              {stale && <div className="text-xs text-red-600">No recent GPS signal</div>}
+            </Popup>
+          </Marker>
+        );
+      })}
+    </MapContainer>
+  );
+}
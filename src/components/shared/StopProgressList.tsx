@@ -0,0 +1,59 @@
+import { StopEvent } from '../../types';
+import { StopProgress, getTotalStopWaitingMinutes } from '../../utils/stopEvents';
+
+interface StopProgressListProps {
+  progress: StopProgress[];
+  // Driver's manual override; omitted on read-only screens
+  onMark?: (stopIndex: number, kind: StopEvent['kind']) => void;
+}
+
+const clock = (iso: string | null) => iso ? new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '';
+
+const DOT_CLASSES: Record<StopProgress['state'], string> = {
+  pending: 'bg-gray-300',
+  arrived: 'bg-blue-600 animate-pulse',
+  departed: 'bg-green-600',
+};
+
+// Stops of a trip with arrival / departure times and the waiting at each
+export function StopProgressList({ progress, onMark }: StopProgressListProps) {
+  const reached = progress.filter(stop => stop.state !== 'pending').length;
+  const totalWaiting = getTotalStopWaitingMinutes(progress);
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-500 mb-1">
+        <span>{reached} of {progress.length} stops reached</span>
+        {totalWaiting > 0 && <span>Waiting {totalWaiting} min</span>}
+      </div>
+      <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden mb-4">
+        <div className="h-2 bg-green-600 rounded-full" style={{ width: `${progress.length ? (reached / progress.length) * 100 : 0}%` }} />
+      </div>
+
+      <div className="space-y-3">
+        {progress.map(stop => (
+          <div key={stop.index} className="flex gap-3 items-start">
+            <div className={`w-3 h-3 rounded-full mt-1.5 flex-shrink-0 ${DOT_CLASSES[stop.state]}`} />
+            <div className="flex-1 min-w-0">
+              <div className="text-xs text-gray-500 uppercase">{stop.label}</div>
+              <div className="text-sm text-gray-900 font-medium">{stop.address}</div>
+              {stop.state !== 'pending' && (
+                <div className="text-xs text-gray-500">
+                  Arrived {clock(stop.arrivedAt)}
+                  {stop.departedAt && <> • Left {clock(stop.departedAt)}</>}
+                  {stop.waitingMinutes ? <> • waited {stop.waitingMinutes} min</> : null}
+                </div>
+              )}
+            </div>
+            {onMark && stop.state === 'pending' && (
+              <button onClick={() => onMark(stop.index, 'arrive')} className="px-3 py-1 text-xs border border-blue-300 text-blue-700 rounded-lg hover:bg-blue-50">Arrived</button>
+            )}
+            {onMark && stop.state === 'arrived' && !stop.isFinal && (
+              <button onClick={() => onMark(stop.index, 'depart')} className="px-3 py-1 text-xs border border-green-300 text-green-700 rounded-lg hover:bg-green-50">Departed</button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -4,10 +4,12 @@ import { User } from '../../App';
 import { TopNav } from './TopNav';
 import { Card } from './Card';
 import { Badge } from './Badge';
-// Firebase Imports
-import { collection, getDocs, query, where, doc, updateDoc } from 'firebase/firestore'; 
-import { db } from '../../firebase';
+// Data Access
+import { TripRepository } from '../../repositories';
 import { logAction } from '../../utils/auditLogger';
+import { tripStatusIn } from '../../utils/tripTransitions';
+import { describeCostComparison } from '../../utils/finalCosting';
+import { CostComparison } from './CostComparison';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
@@ -109,23 +111,16 @@ export function TripHistory({ user, onNavigate, onLogout }: TripHistoryProps) {
         setLoading(true);
         const fetchTrips = async () => {
             try {
-                let q;
-                const tripsRef = collection(db, "trip_requests");
+                let fetchedTrips;
 
                 if (user.role === 'admin') {
-                    q = query(tripsRef); 
+                    fetchedTrips = await TripRepository.listAll(); 
                 } else if (user.role === 'driver') {
-                    q = query(tripsRef, where('driverId', '==', user.id));
+                    fetchedTrips = await TripRepository.listByDriver(user.id);
                 } else {
-                    q = query(tripsRef, where('userId', '==', user.id));
+                    fetchedTrips = await TripRepository.listByUser(user.id);
                 }
 
-                const querySnapshot = await getDocs(q);
-                const fetchedTrips = querySnapshot.docs.map(doc => ({
-                    id: doc.id,
-                    ...doc.data()
-                }));
-
                 fetchedTrips.sort((a: any, b: any) => {
                     const timeA = new Date(a.requestedAt || a.date).getTime() || 0;
                     const timeB = new Date(b.requestedAt || b.date).getTime() || 0;
@@ -171,17 +166,14 @@ export function TripHistory({ user, onNavigate, onLogout }: TripHistoryProps) {
         }
 
         try {
-            const tripRef = doc(db, "trip_requests", trip.id);
-            
-            // 1. Update trip status to 'cancelled'
-            await updateDoc(tripRef, {
-                status: 'cancelled',
+            // 1. Update trip status to 'cancelled' (releases any assigned vehicle/driver)
+            await TripRepository.transition(trip.id, 'cancelled', {
                 cancelledAt: new Date().toISOString(),
                 cancelledBy: user.name || user.email,
                 cancellationReason: 'Admin Cancellation from History Panel' 
             });
 
-            // 2. Unassign vehicle (if one was assigned)
+            // 2. Log against the vehicle/driver (if one was assigned)
             if (trip.vehicleId && trip.driverId) {
                 
                 await logAction(user.email, 'TRIP_CANCELLED', 
@@ -313,6 +305,8 @@ export function TripHistory({ user, onNavigate, onLogout }: TripHistoryProps) {
                 ['Distance', trip.distance || '-'],
                 ['Total Cost', trip.cost || '-']
             ];
+            const costComparison = describeCostComparison(trip);
+            if (costComparison) rows.push(['Estimated vs Actual', costComparison]);
 
             if(trip.destinations && trip.destinations.length > 0) {
                 // Inserting stops after Pickup row (row index 2 + 1)
@@ -344,7 +338,7 @@ export function TripHistory({ user, onNavigate, onLogout }: TripHistoryProps) {
     // Check if the selected trip is cancellable by the admin
    const isTripCancellableByRole = selectedTrip && 
     (user.role === 'admin' || user.role === 'driver') &&
-    (selectedTrip.status === 'approved' || selectedTrip.status === 'reassigned' || selectedTrip.status === 'in-progress' || selectedTrip.status === 'pending'); // Included 'pending' const isCancellable = user.role === 'admin' && 
+    tripStatusIn(selectedTrip, ['approved', 'reassigned', 'in-progress', 'pending']); // Included 'pending' const isCancellable = user.role === 'admin' && 
                           selectedTrip && 
                           (selectedTrip.status === 'approved' || selectedTrip.status === 'reassigned');
 
@@ -507,6 +501,7 @@ export function TripHistory({ user, onNavigate, onLogout }: TripHistoryProps) {
                                             <div className="p-4 bg-gray-50 rounded-xl">
                                                 <div className="text-xs text-gray-500 mb-1">Cost</div>
                                                 <div className="text-gray-900 font-bold text-green-600">{selectedTrip.cost || '-'}</div>
+                                                <CostComparison trip={selectedTrip} />
                                             </div>
                                         </div>
                                     </div>
@@ -4,9 +4,13 @@ import { User } from '../../App';
 import { TopNav } from '../shared/TopNav';
 import { Card } from '../shared/Card';
 import { Badge } from '../shared/Badge';
-// Firebase Imports
-import { collection, getDocs, addDoc, query, where, orderBy, limit } from 'firebase/firestore';
-import { db } from '../../firebase';
+// Data Access
+import { TripRepository, VehicleRepository } from '../../repositories';
+import { nextSerialNumber } from '../../utils/serialNumbers';
+import { getReturnLegKm, priceTrip, quoteToTripPatch, TariffTripInput } from '../../utils/tariffs';
+import { routeThrough } from '../../routing';
+import { ASSIGNED_TRIP_STATUSES } from '../../utils/tripTransitions';
+import { BusyIntervals, buildBusyIntervals, getBookingWindow, getVehicleAvailability, previousDateKey } from '../../utils/availability';
 import { sendTripBookingEmail } from '../../utils/emailService';
 
 // Leaflet Imports
@@ -78,7 +82,7 @@ export function BookVehicle({ user, onNavigate, onLogout }: BookVehicleProps) {
     const [loading, setLoading] = useState(false);
     const [gpsLoading, setGpsLoading] = useState(false);
     // 💥 NEW STATE: IDs of vehicles booked on the selected date
-    const [bookedVehicleIds, setBookedVehicleIds] = useState<string[]>([]);
+    const [busyIntervals, setBusyIntervals] = useState<BusyIntervals>({ byVehicle: {}, byDriver: {} });
     // 💥 NEW STATE: Loading state for vehicle availability check
     const [checkingAvailability, setCheckingAvailability] = useState(false);
 
@@ -113,6 +117,7 @@ export function BookVehicle({ user, onNavigate, onLogout }: BookVehicleProps) {
         vehicleId: '',
         distanceText: '',
         distanceValueKm: 0,
+        returnKm: 0, // last stop back to pickup, for tariffs that charge the empty return
         estimatedCost: 0,
     });
 
@@ -151,14 +156,11 @@ export function BookVehicle({ user, onNavigate, onLogout }: BookVehicleProps) {
         const fetchVehicles = async () => {
             try {
                 // Fetch ALL vehicles (regardless of status, we filter later)
-                const q = query(collection(db, "vehicles"));
-                const querySnapshot = await getDocs(q);
-                const data = querySnapshot.docs.map(doc => ({
-                    id: doc.id,
-                    ...doc.data(),
-                    ratePerKm: Number(doc.data().ratePerKm || 0),
-                    seats: Number(doc.data().seats || 0),
-                    status: doc.data().status || 'available', // Use database status as baseline
+                const data = (await VehicleRepository.listAll()).map(v => ({
+                    ...v,
+                    ratePerKm: Number(v.ratePerKm || 0),
+                    seats: Number(v.seats || 0),
+                    status: v.status || 'available', // Use database status as baseline
                 }));
                 setAllVehicles(data);
             } catch (error) {
@@ -171,28 +173,23 @@ export function BookVehicle({ user, onNavigate, onLogout }: BookVehicleProps) {
     // 💥 EFFECT 2: Check Trip Conflicts on Date Change
     useEffect(() => {
         if (!bookingDetails.date) {
-            setBookedVehicleIds([]);
+            setBusyIntervals({ byVehicle: {}, byDriver: {} });
             return;
         }
 
         setCheckingAvailability(true);
         const checkConflicts = async () => {
             try {
-                // Fetch all APPROVED/IN-PROGRESS trips for the selected date
-                const q = query(
-                    collection(db, "trip_requests"),
-                    where("date", "==", bookingDetails.date),
-                    where("status", "in", ["approved", "in-progress", "reassigned"])
-                );
-                const querySnapshot = await getDocs(q);
-                
-                // Collect IDs of vehicles that are locked on this specific date
-                const lockedIds = querySnapshot.docs.map(doc => doc.data().vehicleId).filter(id => id);
-                setBookedVehicleIds(lockedIds);
+                // Fetch assigned trips for the selected date and the day before (overnight trips)
+                const [sameDay, dayBefore] = await Promise.all([
+                    TripRepository.listOnDate(bookingDetails.date, ASSIGNED_TRIP_STATUSES),
+                    TripRepository.listOnDate(previousDateKey(bookingDetails.date), ASSIGNED_TRIP_STATUSES),
+                ]);
+                setBusyIntervals(buildBusyIntervals([...sameDay, ...dayBefore]));
 
             } catch (error) {
                 console.error("Error checking conflicts:", error);
-                setBookedVehicleIds([]);
+                setBusyIntervals({ byVehicle: {}, byDriver: {} });
             } finally {
                 setCheckingAvailability(false);
             }
@@ -204,8 +201,13 @@ export function BookVehicle({ user, onNavigate, onLogout }: BookVehicleProps) {
 
     }, [bookingDetails.date]);
 
+    // Period this booking will hold the vehicle
+    const bookingWindow = useMemo(() => {
+        return getBookingWindow(bookingDetails.date, bookingDetails.time, bookingDetails.distanceValueKm);
+    }, [bookingDetails.date, bookingDetails.time, bookingDetails.distanceValueKm]);
 
-    // Helper: Filter vehicles based on passenger count AND date availability
+
+    // Helper: Filter vehicles based on passenger count AND time-window availability
     const getFilteredVehicles = useCallback(() => {
         if (passengers === 0) return [];
         
@@ -213,17 +215,12 @@ export function BookVehicle({ user, onNavigate, onLogout }: BookVehicleProps) {
             // 1. Capacity Check
             if (v.seats < passengers) return false;
 
-            // 2. Maintenance Check
-            if (v.status === 'in-maintenance') return false;
-
-            // 3. Date Conflict Check (Only show vehicles that are NOT booked for the selected date)
-            if (bookedVehicleIds.includes(v.id)) return false;
-
-            return true;
+            // 2. Maintenance and Time Conflict Check (Only show vehicles free for the requested time)
+            return getVehicleAvailability(v, bookingWindow, busyIntervals).available;
         });
         
         return available;
-    }, [allVehicles, passengers, bookedVehicleIds]);
+    }, [allVehicles, passengers, bookingWindow, busyIntervals]);
 
 
     // 2. Stop Management (Retained)
@@ -330,19 +327,14 @@ export function BookVehicle({ user, onNavigate, onLogout }: BookVehicleProps) {
         const validStops = currentStops.filter(s => s.coords !== null);
         if (validStops.length === 0) return;
 
-        const coordsUrl = [`${startCoords.lng},${startCoords.lat}`, ...validStops.map(s => `${s.coords!.lng},${s.coords!.lat}`)].join(';');
         try {
-            const response = await fetch(`https://router.project-osrm.org/route/v1/driving/${coordsUrl}?overview=full&geometries=geojson`);
-            const data = await response.json();
-            if (data.routes && data.routes.length > 0) {
-                const route = data.routes[0];
-                const km = (route.distance / 1000);
-                setBookingDetails(prev => ({ ...prev, distanceText: `${km.toFixed(1)} km`, distanceValueKm: km }));
-                const coordinates = route.geometry.coordinates.map((coord: number[]) => [coord[1], coord[0]]);
-                setRoutePolyline(coordinates);
-                setMapCenter([startCoords.lat, startCoords.lng]);
-                setMapZoom(11);
-            }
+            const route = await routeThrough([startCoords, ...validStops.map(s => s.coords)]);
+            const km = route.distanceKm;
+            const returnKm = await getReturnLegKm({ pickup: startCoords, lastStop: validStops[validStops.length - 1].coords });
+            setBookingDetails(prev => ({ ...prev, distanceText: `${km.toFixed(1)} km`, distanceValueKm: km, returnKm }));
+            setRoutePolyline(route.path);
+            setMapCenter([startCoords.lat, startCoords.lng]);
+            setMapZoom(11);
         } catch (error) { console.error("Routing error:", error); }
     };
 
@@ -437,35 +429,31 @@ export function BookVehicle({ user, onNavigate, onLogout }: BookVehicleProps) {
     };
 
     // 8. Cost Calculation (Retained)
+    // Priced with the vehicle's tariff and the rate in force on the trip date
+    const tariffInput: TariffTripInput = useMemo(() => ({
+        date: bookingDetails.date,
+        time: bookingDetails.time,
+        distanceKm: bookingDetails.distanceValueKm,
+        returnKm: bookingDetails.returnKm,
+    }), [bookingDetails.date, bookingDetails.time, bookingDetails.distanceValueKm, bookingDetails.returnKm]);
+
+    const selectedQuote = useMemo(() => {
+        const vehicle = allVehicles.find(v => v.id === bookingDetails.vehicleId);
+        return vehicle && bookingDetails.distanceValueKm > 0 ? priceTrip(vehicle, tariffInput) : null;
+    }, [allVehicles, bookingDetails.vehicleId, bookingDetails.distanceValueKm, tariffInput]);
+
     useEffect(() => {
         if (bookingDetails.vehicleId && bookingDetails.distanceValueKm > 0) {
-            const vehicle = allVehicles.find(v => v.id === bookingDetails.vehicleId);
-            const rate = vehicle?.ratePerKm ? Number(vehicle.ratePerKm) : 0;
-            const cost = rate > 0 ? Math.round(bookingDetails.distanceValueKm * rate) : 0;
-            setBookingDetails(prev => ({ ...prev, estimatedCost: cost }));
+            setBookingDetails(prev => ({ ...prev, estimatedCost: selectedQuote?.total || 0 }));
         }
-    }, [bookingDetails.vehicleId, bookingDetails.distanceValueKm, allVehicles]);
+    }, [bookingDetails.vehicleId, bookingDetails.distanceValueKm, selectedQuote]);
 
     // 9. Submit (Updated to include passengers)
     const handleBooking = async () => {
         setLoading(true);
         try {
-            // 1. Fetch ALL trip requests to find the true max ID
-            const q = query(collection(db, "trip_requests"));
-            const querySnapshot = await getDocs(q);
-
-            let maxNum = 0;
-            querySnapshot.forEach((doc) => {
-                const data = doc.data();
-                if (data.serialNumber && data.serialNumber.startsWith('TRP-')) {
-                    const numPart = parseInt(data.serialNumber.split('-')[1]);
-                    if (!isNaN(numPart) && numPart > maxNum) {
-                        maxNum = numPart;
-                    }
-                }
-            });
-
-            const nextId = `TRP-${String(maxNum + 1).padStart(3, '0')}`;
+            // 1. Allocate the next TRP serial from the shared daily counter
+            const nextId = await nextSerialNumber('TRP');
 
             const vehicle = allVehicles.find(v => v.id === bookingDetails.vehicleId);
 
@@ -488,12 +476,12 @@ export function BookVehicle({ user, onNavigate, onLogout }: BookVehicleProps) {
                 requestedVehicleId: bookingDetails.vehicleId,
                 requestedVehicleModel: vehicle?.model || 'N/A', // Added model for admin view
                 distance: bookingDetails.distanceText,
-                cost: `LKR ${bookingDetails.estimatedCost}`,
+                ...(selectedQuote ? quoteToTripPatch(selectedQuote) : { cost: `LKR ${bookingDetails.estimatedCost}` }),
                 status: 'pending',
                 requestedAt: new Date().toISOString(),
             };
 
-            await addDoc(collection(db, "trip_requests"), tripData);
+            await TripRepository.create(tripData);
             // await sendTripBookingEmail(tripData); // MOCK: Email service assumed
             alert(`Booking ${nextId} submitted!`);
             onNavigate('user-dashboard');
@@ -697,12 +685,12 @@ export function BookVehicle({ user, onNavigate, onLogout }: BookVehicleProps) {
                                     </div>
                                 ) : (
                                     availableVehicles.map((vehicle) => {
-                                        const previewCost = vehicle.ratePerKm ? Math.round(bookingDetails.distanceValueKm * vehicle.ratePerKm) : 0;
+                                        const { total: previewCost, ratePerKm: appliedRatePerKm } = priceTrip(vehicle, tariffInput);
                                         return (
                                             <div key={vehicle.id} onClick={() => setBookingDetails({ ...bookingDetails, vehicleId: vehicle.id })} className={`p-4 border-2 rounded-xl cursor-pointer transition-all ${bookingDetails.vehicleId === vehicle.id ? 'border-[#2563EB] bg-blue-50' : 'border-gray-200 hover:border-blue-200'}`}>
                                                 <div className="flex justify-between items-start">
                                                     <div><div className="font-bold text-gray-900">{vehicle.model}</div><div className="text-xs text-gray-500">{vehicle.number} / {vehicle.seats} Seats</div></div>
-                                                    <div className="text-right"><div className="text-sm font-semibold text-[#2563EB]">LKR {previewCost}</div><div className="text-xs text-gray-500">({vehicle.ratePerKm}/km)</div></div>
+                                                    <div className="text-right"><div className="text-sm font-semibold text-[#2563EB]">LKR {previewCost}</div><div className="text-xs text-gray-500">({appliedRatePerKm}/km)</div></div>
                                                 </div>
                                             </div>
                                         );
@@ -733,6 +721,13 @@ export function BookVehicle({ user, onNavigate, onLogout }: BookVehicleProps) {
                                     <span className="text-blue-800 font-medium">Total Estimated Cost</span>
                                     <span className="text-2xl text-[#2563EB] font-bold">LKR {bookingDetails.estimatedCost}</span>
                                 </div>
+                                {selectedQuote && selectedQuote.lines.length > 1 && (
+                                    <div className="px-4 -mt-2 space-y-1">
+                                        {selectedQuote.lines.map((line, i) => (
+                                            <div key={i} className="flex justify-between text-xs text-gray-600"><span>{line.label}</span><span>LKR {line.amount}</span></div>
+                                        ))}
+                                    </div>
+                                )}
                                 <div className="grid grid-cols-3 gap-4">
                                     <div className="p-3 border rounded-lg"><div className="text-xs text-gray-500">Date</div><div>{bookingDetails.date}</div></div>
                                     <div className="p-3 border rounded-lg"><div className="text-xs text-gray-500">Time</div><div>{bookingDetails.time}</div></div>
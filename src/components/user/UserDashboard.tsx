@@ -4,10 +4,10 @@ import { User } from '../../App';
 import { TopNav } from '../shared/TopNav';
 import { Card } from '../shared/Card';
 import { Badge } from '../shared/Badge';
-// Firebase Imports
-import { collection, query, where, getDocs, doc, updateDoc, runTransaction } from 'firebase/firestore';
-import { db } from '../../firebase';
+// Data Access
+import { TripRepository } from '../../repositories';
 import { logAction } from '../../utils/auditLogger';
+import { CLOSED_TRIP_STATUSES, TripMove, tripStatusIn } from '../../utils/tripTransitions';
 
 interface UserDashboardProps {
     user: User;
@@ -24,16 +24,7 @@ export function UserDashboard({ user, onNavigate, onLogout }: UserDashboardProps
     const fetchTrips = async () => {
         try {
             // Fetch trips for the current user
-            const q = query(
-                collection(db, "trip_requests"), 
-                where("userId", "==", user.uid) // Use uid as the identifier
-            );
-            
-            const querySnapshot = await getDocs(q);
-            const allTrips = querySnapshot.docs.map(doc => ({
-                id: doc.id,
-                ...doc.data()
-            }));
+            const allTrips = await TripRepository.listByUser(user.uid); // Use uid as the identifier
 
             // Client-side sorting (newest first)
             allTrips.sort((a: any, b: any) => {
@@ -45,10 +36,10 @@ export function UserDashboard({ user, onNavigate, onLogout }: UserDashboardProps
             // Filter trips
             const mergeAwaiting = allTrips.filter((trip: any) => trip.status === 'awaiting_merge_approval');
             const pendingAndApproved = allTrips.filter((trip: any) => 
-                ['pending', 'approved', 'in-progress', 're-assigned'].includes(trip.status) && trip.status !== 'awaiting_merge_approval'
+                tripStatusIn(trip, ['pending', 'approved', 'in-progress', 'reassigned'])
             );
             const past = allTrips.filter((trip: any) => 
-                ['completed', 'cancelled', 'rejected', 'broken-down'].includes(trip.status)
+                tripStatusIn(trip, CLOSED_TRIP_STATUSES)
             );
 
             setUpcomingTrips(pendingAndApproved);
@@ -83,18 +74,18 @@ export function UserDashboard({ user, onNavigate, onLogout }: UserDashboardProps
             if (!tripIdToUpdate) throw new Error("Could not determine master trip ID for update.");
 
             // 2. Update the master trip's mergeProposal consent status
-            await updateDoc(doc(db, "trip_requests", tripIdToUpdate), {
-                [`mergeProposal.${consentField}`]: 'accepted',
-                status: 'approved_merge_request', // Temporarily set master status to approved_merge_request
-            });
+            // (temporarily set master status to approved_merge_request)
+            const moves: TripMove[] = [
+                { tripId: tripIdToUpdate, to: 'approved_merge_request', patch: { [`mergeProposal.${consentField}`]: 'accepted' } },
+            ];
             
             // If the current trip is the CANDIDATE (B), update its status too.
             if (!isMasterRequester) {
-                await updateDoc(doc(db, "trip_requests", masterTrip.id), {
-                    status: 'approved_merge_request',
-                });
+                moves.push({ tripId: masterTrip.id, to: 'approved_merge_request' });
             }
 
+            await TripRepository.transitionMany(moves);
+
 
             // 3. Log the action
             await logAction(user.email, 'MERGE_CONSENT_ACCEPT', 
@@ -124,8 +115,7 @@ export function UserDashboard({ user, onNavigate, onLogout }: UserDashboardProps
             // We just update the status to trigger the Admin's side logic.
             
             // 2. Update the master trip status to signal rejection
-            await updateDoc(doc(db, "trip_requests", masterTrip.id), {
-                status: 'merge_rejected', // New status to flag for Admin action
+            await TripRepository.transition(masterTrip.id, 'merge_rejected', { // New status to flag for Admin action
                 rejectionReason: `Rejected by User (${user.name}): ${rejectionReason}`,
             });
 
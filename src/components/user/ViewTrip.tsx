@@ -4,12 +4,19 @@ import { User } from '../../App';
 import { TopNav } from '../shared/TopNav';
 import { Card } from '../shared/Card';
 import { Badge } from '../shared/Badge';
-// Firebase Imports
-import { doc, getDoc, updateDoc } from 'firebase/firestore';
-import { db } from '../../firebase';
+// Data Access
+import { TripRepository } from '../../repositories';
 import jsPDF from 'jspdf';
 import { sendMergeRejectionToCandidate } from '../../utils/emailService';
 import { logAction } from '../../utils/auditLogger'; 
+import { tripStatusIn } from '../../utils/tripTransitions';
+import { describeCostComparison } from '../../utils/finalCosting';
+import { CostComparison } from '../shared/CostComparison';
+import { LiveTrackingMap } from '../shared/LiveTrackingMap';
+import { StopProgressList } from '../shared/StopProgressList';
+import { getTripStopProgress } from '../../utils/stopEvents';
+import { PICKUP_ARRIVAL_KM, PickupEta, describePositionAge, getEtaToPickup, isLivePositionStale } from '../../utils/breadcrumbs';
+import { Trip, VehicleCostLine } from '../../types';
 
 interface ViewTripProps {
   user: User;
@@ -57,6 +64,12 @@ const generateTripTicketPDF = (trip: any, user: User) => {
     doc.setFont('helvetica', 'bold'); doc.text("DISTANCE:", margin + 3, boxY + 18); doc.setFont('helvetica', 'normal'); doc.text(trip.distance || 'N/A', margin + 30, boxY + 18);
     doc.setFont('helvetica', 'bold'); doc.text("COST:", margin + 3, boxY + 24); doc.setTextColor(22, 163, 74); 
     doc.text(trip.cost || 'N/A', margin + 30, boxY + 24);
+    const costComparison = describeCostComparison(trip);
+    if (costComparison) {
+        doc.setFontSize(7); doc.setTextColor(100);
+        doc.text(costComparison, margin + 60, boxY + 24);
+        doc.setFontSize(10);
+    }
     
     y += 40;
 
@@ -82,38 +95,50 @@ const generateTripTicketPDF = (trip: any, user: User) => {
     doc.text(`End: ${trip.odometerEnd || 'N/A'} km`, margin + 5, y + 10);
     
     doc.text("Driver Signature: __________________", pageWidth / 2, y + 15);
+
+    // Breakdown reassignment: cost split between the two vehicle owners
+    const splitLines = trip.costBreakdown?.lines || [];
+    if (splitLines.length > 0) {
+        y += 23;
+        doc.setFont('helvetica', 'bold');
+        doc.text("SPLIT-COST SETTLEMENT", margin, y);
+        doc.setFont('helvetica', 'normal');
+        splitLines.forEach((line: VehicleCostLine) => {
+            y += 5;
+            doc.text(`${line.role === 'original' ? 'Original' : 'Replacement'} ${line.vehicleNumber}: ${line.km} km x LKR ${line.ratePerKm} = LKR ${line.cost}`, margin + 5, y);
+        });
+    }
     
     doc.save(`Trip_Ticket_${trip.serialNumber}.pdf`);
 }
 
 
 export function ViewTrip({ user, tripId, onNavigate, onLogout }: ViewTripProps) {
-  const [trip, setTrip] = useState<any>(null);
+  const [trip, setTrip] = useState<Trip | null>(null);
   const [loading, setLoading] = useState(true);
   const [showCancelModal, setShowCancelModal] = useState(false);
   const [cancelReason, setCancelReason] = useState('');
   // 🆕 NEW STATE: Merge decision modal/reason
   const [showMergeDecisionModal, setShowMergeDecisionModal] = useState(false);
   const [mergeRejectReason, setMergeRejectReason] = useState('');
-  const [candidateTrip, setCandidateTrip] = useState<any>(null);
+  const [candidateTrip, setCandidateTrip] = useState<Trip | null>(null);
+  const [pickupEta, setPickupEta] = useState<PickupEta | null>(null);
 
 
   // 1. Fetch Trip Data
   const fetchTrip = async () => {
     if (!tripId) return;
     try {
-      const docRef = doc(db, "trip_requests", tripId);
-      const docSnap = await getDoc(docRef);
+      const data = await TripRepository.get(tripId);
 
-      if (docSnap.exists()) {
-        const data = { id: docSnap.id, ...docSnap.data() };
+      if (data) {
         setTrip(data);
         
         // Check if the trip is the target of a merge request (only if status is awaiting approval)
         if (data.status === 'awaiting_merge_approval' && data.consolidationRequest?.candidateId) {
-            const candidateSnap = await getDoc(doc(db, "trip_requests", data.consolidationRequest.candidateId));
-            if (candidateSnap.exists()) {
-                setCandidateTrip({ id: candidateSnap.id, ...candidateSnap.data() });
+            const candidate = await TripRepository.get(data.consolidationRequest.candidateId);
+            if (candidate) {
+                setCandidateTrip(candidate);
                 // Only show modal if user hasn't decided yet
                 if (data.userId === user.id) setShowMergeDecisionModal(true);
             }
@@ -136,6 +161,28 @@ export function ViewTrip({ user, tripId, onNavigate, onLogout }: ViewTripProps)
       fetchTrip();
   }, [tripId]);
 
+  // Live updates from approval until the trip closes (the start, position, completion)
+  const isLiveStatus = tripStatusIn(trip, ['approved', 'reassigned', 'in-progress']);
+  useEffect(() => {
+      if (!tripId || !isLiveStatus) return;
+      return TripRepository.subscribe(tripId, (latest) => { if (latest) setTrip(latest); });
+  }, [tripId, isLiveStatus]);
+
+  // ETA to the pickup from each new position fix, until the vehicle has left the pickup (stop 0)
+  const pickupDeparted = !!trip?.stopEvents?.some(e => e.stopIndex === 0 && e.kind === 'depart');
+  useEffect(() => {
+      const position = trip?.livePosition;
+      if (!trip || trip.status !== 'in-progress' || !position || pickupDeparted) {
+          setPickupEta(null);
+          return;
+      }
+      let cancelled = false;
+      getEtaToPickup(trip, position)
+          .then(eta => { if (!cancelled) setPickupEta(eta); })
+          .catch(error => console.error("Error estimating ETA:", error));
+      return () => { cancelled = true; };
+  }, [trip?.status, trip?.livePosition?.recordedAt, pickupDeparted]);
+
   // 2. Handle Cancel Trip
   const handleCancelTrip = async () => {
     if (!trip) return;
@@ -145,19 +192,12 @@ export function ViewTrip({ user, tripId, onNavigate, onLogout }: ViewTripProps)
     }
     
     try {
-      const tripRef = doc(db, "trip_requests", trip.id);
-      await updateDoc(tripRef, { 
-          status: 'cancelled', 
+      // Releases the vehicle/driver if the trip was approved/in-progress
+      await TripRepository.transition(trip.id, 'cancelled', { 
           cancellationReason: cancelReason,
           cancelledBy: user.name || user.email,
           cancelledAt: new Date().toISOString()
       });
-
-      // Optionally update vehicle/driver status if it was approved/in-progress
-      if (trip.status === 'approved' || trip.status === 'in-progress') {
-          if (trip.vehicleId) { await updateDoc(doc(db, "vehicles", trip.vehicleId), { status: 'available' }); }
-          if (trip.driverId) { await updateDoc(doc(db, "users", trip.driverId), { status: 'available' }); }
-      }
       
       // Log Cancellation
       await logAction({
@@ -184,28 +224,27 @@ export function ViewTrip({ user, tripId, onNavigate, onLogout }: ViewTripProps)
     if (!trip || !candidateTrip) return;
     
     try {
-        // 1. Update MASTER Trip (this trip) - Mark as merged, update passenger count
-        await updateDoc(doc(db, "trip_requests", trip.id), {
-            status: 'merged',
-            isMerged: true,
-            passengers: (trip.passengers || 1) + (candidateTrip.passengers || 1),
-            linkedTripIds: [...(trip.linkedTripIds || []), candidateTrip.serialNumber],
-            // Clear merge request data
-            consolidationRequest: null,
-            mergeCandidateDetails: null, 
-        });
-
-        // 2. Update CANDIDATE Trip (the new trip) - Mark as merged and link back to master
-        await updateDoc(doc(db, "trip_requests", candidateTrip.id), {
-            status: 'merged',
-            isMerged: true,
-            masterTripId: trip.id, 
-            // Also link the vehicle/driver info to the candidate trip now that the master trip is approved
-            vehicleId: trip.vehicleId, 
-            driverId: trip.driverId,
-            vehicleNumber: trip.vehicleNumber, 
-            driverName: trip.driverName, 
-        });
+        await TripRepository.transitionMany([
+            // 1. MASTER Trip (this trip) - Mark as merged, update passenger count
+            { tripId: trip.id, to: 'merged', patch: {
+                isMerged: true,
+                passengers: (trip.passengers || 1) + (candidateTrip.passengers || 1),
+                linkedTripIds: [...(trip.linkedTripIds || []), candidateTrip.serialNumber],
+                // Clear merge request data
+                consolidationRequest: null,
+                mergeCandidateDetails: null, 
+            } },
+            // 2. CANDIDATE Trip (the new trip) - Mark as merged and link back to master
+            { tripId: candidateTrip.id, to: 'merged', patch: {
+                isMerged: true,
+                masterTripId: trip.id, 
+                // Also link the vehicle/driver info to the candidate trip now that the master trip is approved
+                vehicleId: trip.vehicleId, 
+                driverId: trip.driverId,
+                vehicleNumber: trip.vehicleNumber, 
+                driverName: trip.driverName, 
+            } },
+        ]);
 
         // 3. Log Action
         await logAction({
@@ -236,18 +275,17 @@ export function ViewTrip({ user, tripId, onNavigate, onLogout }: ViewTripProps)
     }
     
     try {
-        // 1. Update MASTER Trip (this trip) - Revert status to pending/approved
-        await updateDoc(doc(db, "trip_requests", trip.id), {
-            status: trip.vehicleId ? 'approved' : 'pending', 
-            consolidationRequest: null,
-            mergeCandidateDetails: null,
-        });
-        
-        // 2. Update CANDIDATE Trip (the new trip) - Reject it and notify the candidate user
-        await updateDoc(doc(db, "trip_requests", candidateTrip.id), {
-            status: 'rejected',
-            rejectionReason: `Merge declined by main traveler. Reason: ${mergeRejectReason}`,
-        });
+        await TripRepository.transitionMany([
+            // 1. MASTER Trip (this trip) - Revert status to pending/approved
+            { tripId: trip.id, to: trip.vehicleId ? 'approved' : 'pending', patch: {
+                consolidationRequest: null,
+                mergeCandidateDetails: null,
+            } },
+            // 2. CANDIDATE Trip (the new trip) - Reject it and notify the candidate user
+            { tripId: candidateTrip.id, to: 'rejected', patch: {
+                rejectionReason: `Merge declined by main traveler. Reason: ${mergeRejectReason}`,
+            } },
+        ]);
         
         // 3. Notify candidate user about rejection
         await sendMergeRejectionToCandidate(candidateTrip, trip, mergeRejectReason);
@@ -277,8 +315,8 @@ export function ViewTrip({ user, tripId, onNavigate, onLogout }: ViewTripProps)
   if (loading) return <div className="p-10 text-center">Loading Trip Details...</div>;
   if (!trip) return null; // Should not happen if fetchTrip works
 
-  const isCancellable = trip.status === 'pending' || trip.status === 'approved';
-  const isTicketReady = trip.status === 'approved' || trip.status === 'in-progress' || trip.status === 'completed' || trip.status === 'merged' || trip.status === 're-assigned';
+  const isCancellable = tripStatusIn(trip, ['pending', 'approved']);
+  const isTicketReady = tripStatusIn(trip, ['approved', 'in-progress', 'completed', 'merged', 'reassigned']);
   const isMergedTrip = trip.linkedTripIds && trip.linkedTripIds.length > 0;
   
   const totalPassengers = isMergedTrip ? (trip.passengers || 1) + (trip.linkedTripIds.reduce((sum: number, linkedTrip: any) => sum + (linkedTrip.passengers || 1), 0) || 0) : trip.passengers || 1;
@@ -295,6 +333,53 @@ export function ViewTrip({ user, tripId, onNavigate, onLogout }: ViewTripProps)
           
           {/* LEFT COLUMN: DETAILS */}
           <div className="lg:col-span-2 space-y-6">
+             {/* Live Tracking: where the vehicle is and when it reaches the pickup */}
+             {trip.status === 'in-progress' && (
+                <Card className="p-6">
+                    <h2 className="text-xl font-bold mb-4 flex items-center gap-2"><Navigation className='w-5 h-5 text-blue-600'/> Live Tracking</h2>
+                    {trip.livePosition ? (
+                        <>
+                            <div className="grid grid-cols-2 gap-4 text-sm mb-4">
+                                <div className='p-3 bg-blue-50 rounded-lg'>
+                                    <p className="text-xs text-gray-500">ETA to Pickup</p>
+                                    <p className="font-bold text-blue-700">
+                                        {pickupDeparted ? 'Picked up'
+                                            : !pickupEta ? 'Calculating…'
+                                            : pickupEta.distanceKm <= PICKUP_ARRIVAL_KM ? 'Arrived at pickup'
+                                            : `${pickupEta.durationMinutes} min (${new Date(pickupEta.arrivesAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })})`}
+                                    </p>
+                                    {pickupEta && pickupEta.distanceKm > PICKUP_ARRIVAL_KM && <p className="text-xs text-gray-500">{pickupEta.distanceKm} km away</p>}
+                                </div>
+                                <div className='p-3 bg-gray-50 rounded-lg'>
+                                    <p className="text-xs text-gray-500">Last Update</p>
+                                    <p className="font-bold text-gray-700">{describePositionAge(trip.livePosition)}</p>
+                                    {trip.livePosition.speedKmh !== null && <p className="text-xs text-gray-500">{trip.livePosition.speedKmh} km/h</p>}
+                                </div>
+                            </div>
+                            {isLivePositionStale(trip.livePosition) && (
+                                <p className="text-xs text-orange-600 mb-3">The vehicle has not reported its position recently; it may be out of coverage.</p>
+                            )}
+                            <div className="w-full h-72 bg-gray-100 rounded-xl overflow-hidden border border-gray-200 relative z-0">
+                                <LiveTrackingMap
+                                    vehicles={[{ id: trip.id, label: trip.vehicleNumber || 'Your vehicle', detail: trip.driverName, position: trip.livePosition }]}
+                                    pickup={trip.pickupCoords}
+                                />
+                            </div>
+                        </>
+                    ) : (
+                        <p className="text-sm text-gray-500">Waiting for the vehicle's first GPS position…</p>
+                    )}
+                </Card>
+             )}
+
+             {/* Trip Progress: arrival and departure at each stop */}
+             {(trip.status === 'in-progress' || trip.stopEvents?.length) ? (
+                <Card className="p-6">
+                    <h2 className="text-xl font-bold mb-4">Trip Progress</h2>
+                    <StopProgressList progress={getTripStopProgress(trip)} />
+                </Card>
+             ) : null}
+
              <Card className="p-6">
                 <div className="flex justify-between items-start mb-4">
                     <h2 className="text-xl font-bold">Route & Schedule</h2>
@@ -340,9 +425,24 @@ export function ViewTrip({ user, tripId, onNavigate, onLogout }: ViewTripProps)
                 <h2 className="text-xl font-bold mb-4">Trip Costs & Metrics</h2>
                 <div className="grid grid-cols-3 gap-4 text-sm">
                     <div className='p-3 bg-gray-50 rounded-lg'><p className="text-xs text-gray-500">Distance</p><p className="font-bold text-blue-600">{trip.distance || 'N/A'}</p></div>
-                    <div className='p-3 bg-gray-50 rounded-lg'><p className="text-xs text-gray-500">Cost</p><p className="font-bold text-green-600">{trip.cost || 'N/A'}</p></div>
+                    <div className='p-3 bg-gray-50 rounded-lg'><p className="text-xs text-gray-500">Cost</p><p className="font-bold text-green-600">{trip.cost || 'N/A'}</p><CostComparison trip={trip} /></div>
                     <div className='p-3 bg-gray-50 rounded-lg'><p className="text-xs text-gray-500">Passengers</p><p className="font-bold text-gray-700">{totalPassengers}</p></div>
                 </div>
+                {trip.costBreakdown?.lines && trip.costBreakdown.lines.length > 0 && (
+                    <div className='mt-4 pt-4 border-t border-gray-100'>
+                        <h4 className="text-sm font-bold mb-2">Split-Cost Settlement (Breakdown)</h4>
+                        {trip.costBreakdown.lines.map((line) => (
+                            <div key={line.role} className="mb-2">
+                                <p className="text-xs text-gray-700">
+                                    <span className='font-bold'>{line.role === 'original' ? 'Original' : 'Replacement'} {line.vehicleNumber}</span>: {line.km} km x LKR {line.ratePerKm} = <span className='font-bold text-green-600'>LKR {line.cost}</span>
+                                </p>
+                                {line.legs.map((leg, i) => (
+                                    <p key={i} className="text-xs text-gray-500 ml-3">{leg.label}: {leg.km} km</p>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+                )}
                 {(trip.odometerStart || trip.kmRun) && (
                     <div className='mt-4 pt-4 border-t border-gray-100'>
                         <h4 className="text-sm font-bold mb-2">Mileage Details</h4>
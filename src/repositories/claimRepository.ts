@@ -0,0 +1,21 @@
+import { PoliceClaim } from '../types';
+import { getDataStore } from './dataStore';
+
+const CLAIMS = "police_claims";
+
+export const ClaimRepository = {
+    subscribeAll: (onChange: (claims: PoliceClaim[]) => void) => {
+        return getDataStore().subscribe(CLAIMS, {}, (docs) => onChange(docs as PoliceClaim[]));
+    },
+
+    create: async (data: Omit<PoliceClaim, 'id'>) => getDataStore().add(CLAIMS, data),
+
+    // Fixed id so a claim replayed from the driver outbox is written once
+    createWithId: async (claimId: string, data: Omit<PoliceClaim, 'id'>) => getDataStore().set(CLAIMS, claimId, data),
+
+    update: async (claimId: string, patch: Partial<PoliceClaim>) => {
+        await getDataStore().update(CLAIMS, claimId, patch);
+    },
+
+    remove: async (claimId: string) => getDataStore().remove(CLAIMS, claimId),
+};
@@ -0,0 +1,67 @@
+import { db } from '../firebase';
+import { createFirestoreStore } from './firestoreStore';
+
+// --- DATA STORE CONTRACT ---
+// Repositories talk to this interface only. The app runs on the Firestore store (firestoreStore.ts);
+// screens can be exercised offline by swapping in the in-memory store (memoryStore.ts) with setDataStore().
+
+export type WhereOp = '==' | '!=' | 'in' | 'array-contains' | '<' | '<=' | '>' | '>=';
+
+export interface WhereClause {
+    field: string;
+    op: WhereOp;
+    value: any;
+}
+
+export interface QueryOptions {
+    where?: WhereClause[];
+    orderBy?: { field: string; direction?: 'asc' | 'desc' };
+    limit?: number;
+}
+
+export type StoredDoc = { id: string; [key: string]: any };
+
+export type Unsubscribe = () => void;
+
+// Reads must happen before writes, matching Firestore's transaction rules
+export interface StoreTransaction {
+    get(collectionName: string, id: string): Promise<StoredDoc | null>;
+    set(collectionName: string, id: string, data: Record<string, any>, options?: { merge?: boolean }): void;
+    update(collectionName: string, id: string, data: Record<string, any>): void;
+    delete(collectionName: string, id: string): void;
+}
+
+export interface DataStore {
+    list(collectionName: string, options?: QueryOptions): Promise<StoredDoc[]>;
+    get(collectionName: string, id: string): Promise<StoredDoc | null>;
+    subscribe(collectionName: string, options: QueryOptions, onChange: (docs: StoredDoc[]) => void, onError?: (error: Error) => void): Unsubscribe;
+    subscribeDoc(collectionName: string, id: string, onChange: (doc: StoredDoc | null) => void): Unsubscribe;
+    add(collectionName: string, data: Record<string, any>): Promise<string>;
+    set(collectionName: string, id: string, data: Record<string, any>, options?: { merge?: boolean }): Promise<void>;
+    update(collectionName: string, id: string, data: Record<string, any>): Promise<void>;
+    remove(collectionName: string, id: string): Promise<void>;
+    runTransaction<T>(work: (transaction: StoreTransaction) => Promise<T>): Promise<T>;
+}
+
+// Store-neutral stand-in for Firestore's arrayUnion() (used for vehicle history logs)
+export class ArrayAppend {
+    items: any[];
+    constructor(items: any[]) {
+        this.items = items;
+    }
+}
+
+export const appendToArray = (...items: any[]) => new ArrayAppend(items);
+
+// --- ACTIVE STORE ---
+
+let activeStore: DataStore | null = null;
+
+export const getDataStore = (): DataStore => {
+    if (!activeStore) activeStore = createFirestoreStore(db);
+    return activeStore;
+};
+
+export const setDataStore = (store: DataStore) => {
+    activeStore = store;
+};
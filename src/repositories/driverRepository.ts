@@ -0,0 +1,41 @@
+import { Driver } from '../types';
+import { getDataStore, StoredDoc, WhereClause } from './dataStore';
+
+// Drivers live in the shared `users` collection
+const USERS = "users";
+const ASSIGNMENT_LOGS = "assignment_logs";
+const IS_DRIVER: WhereClause = { field: 'role', op: '==', value: 'driver' };
+
+export const DriverRepository = {
+    subscribeAll: (onChange: (drivers: Driver[]) => void) => {
+        return getDataStore().subscribe(USERS, { where: [IS_DRIVER] }, (docs) => onChange(docs as Driver[]));
+    },
+
+    subscribe: (driverId: string, onChange: (driver: Driver | null) => void) => {
+        return getDataStore().subscribeDoc(USERS, driverId, (stored) => onChange(stored as Driver | null));
+    },
+
+    listAll: async () => (await getDataStore().list(USERS, { where: [IS_DRIVER] })) as Driver[],
+
+    get: async (driverId: string) => (await getDataStore().get(USERS, driverId)) as Driver | null,
+
+    // Profile id is the Firebase Auth UID; merge keeps fields of an existing profile (e.g. Google sign-in)
+    create: async (driverId: string, data: Omit<Driver, 'id' | 'role'>, options?: { merge?: boolean }) => {
+        await getDataStore().set(USERS, driverId, { ...data, role: 'driver' }, options);
+    },
+
+    update: async (driverId: string, patch: Partial<Driver>) => {
+        await getDataStore().update(USERS, driverId, patch);
+    },
+
+    remove: async (driverId: string) => getDataStore().remove(USERS, driverId),
+
+    // The driver's most recent vehicle assignment notice
+    subscribeLatestAssignmentLog: (driverId: string, onChange: (logs: StoredDoc[]) => void) => {
+        return getDataStore().subscribe(ASSIGNMENT_LOGS, {
+            where: [{ field: 'driverId', op: '==', value: driverId }],
+            orderBy: { field: 'timestamp', direction: 'desc' },
+            limit: 1,
+        }, onChange);
+    },
+};
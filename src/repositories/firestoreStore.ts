@@ -0,0 +1,72 @@
+import {
+    Firestore, collection, doc, getDoc, getDocs, addDoc, setDoc, updateDoc, deleteDoc,
+    onSnapshot, query, where, orderBy, limit, arrayUnion, runTransaction, QueryConstraint, DocumentSnapshot
+} from 'firebase/firestore';
+import { ArrayAppend, DataStore, QueryOptions, StoredDoc } from './dataStore';
+
+const toStoredDoc = (snap: DocumentSnapshot): StoredDoc | null => {
+    return snap.exists() ? { id: snap.id, ...snap.data() } : null;
+};
+
+// Swaps store-neutral sentinels for their Firestore field values
+const toFirestoreData = (data: Record<string, any>) => {
+    const out: Record<string, any> = {};
+    Object.entries(data).forEach(([key, value]) => {
+        out[key] = value instanceof ArrayAppend ? arrayUnion(...value.items) : value;
+    });
+    return out;
+};
+
+const toConstraints = (options: QueryOptions = {}): QueryConstraint[] => {
+    const constraints: QueryConstraint[] = (options.where || []).map(w => where(w.field, w.op, w.value));
+    if (options.orderBy) constraints.push(orderBy(options.orderBy.field, options.orderBy.direction || 'asc'));
+    if (options.limit) constraints.push(limit(options.limit));
+    return constraints;
+};
+
+export const createFirestoreStore = (db: Firestore): DataStore => ({
+    list: async (collectionName, options) => {
+        const snap = await getDocs(query(collection(db, collectionName), ...toConstraints(options)));
+        return snap.docs.map(d => ({ id: d.id, ...d.data() }));
+    },
+
+    get: async (collectionName, id) => {
+        return toStoredDoc(await getDoc(doc(db, collectionName, id)));
+    },
+
+    subscribe: (collectionName, options, onChange, onError) => {
+        return onSnapshot(
+            query(collection(db, collectionName), ...toConstraints(options)),
+            (snap) => onChange(snap.docs.map(d => ({ id: d.id, ...d.data() }))),
+            onError
+        );
+    },
+
+    subscribeDoc: (collectionName, id, onChange) => {
+        return onSnapshot(doc(db, collectionName, id), (snap) => onChange(toStoredDoc(snap)));
+    },
+
+    add: async (collectionName, data) => {
+        const ref = await addDoc(collection(db, collectionName), toFirestoreData(data));
+        return ref.id;
+    },
+
+    set: async (collectionName, id, data, options) => {
+        await setDoc(doc(db, collectionName, id), toFirestoreData(data), options || {});
+    },
+
+    update: async (collectionName, id, data) => {
+        await updateDoc(doc(db, collectionName, id), toFirestoreData(data));
+    },
+
+    remove: async (collectionName, id) => {
+        await deleteDoc(doc(db, collectionName, id));
+    },
+
+    runTransaction: (work) => runTransaction(db, (transaction) => work({
+        get: async (collectionName, id) => toStoredDoc(await transaction.get(doc(db, collectionName, id))),
+        set: (collectionName, id, data, options) => { transaction.set(doc(db, collectionName, id), toFirestoreData(data), options || {}); },
+        update: (collectionName, id, data) => { transaction.update(doc(db, collectionName, id), toFirestoreData(data)); },
+        delete: (collectionName, id) => { transaction.delete(doc(db, collectionName, id)); },
+    })),
+});
@@ -0,0 +1,39 @@
+import { FuelLog } from '../types';
+import { getDataStore } from './dataStore';
+
+const FUEL_LOGS = "fuel_logs";
+
+export const FuelLogRepository = {
+    subscribeRecent: (count: number, onChange: (logs: FuelLog[]) => void) => {
+        return getDataStore().subscribe(FUEL_LOGS, { orderBy: { field: 'timestamp', direction: 'desc' }, limit: count }, (docs) => onChange(docs as FuelLog[]));
+    },
+
+    subscribeAll: (onChange: (logs: FuelLog[]) => void) => {
+        return getDataStore().subscribe(FUEL_LOGS, {}, (docs) => onChange(docs as FuelLog[]));
+    },
+
+    // Driver entries waiting for admin verification
+    subscribePending: (onChange: (logs: FuelLog[]) => void) => {
+        return getDataStore().subscribe(FUEL_LOGS, { where: [{ field: 'status', op: '==', value: 'pending' }] }, (docs) => onChange(docs as FuelLog[]));
+    },
+
+    listAll: async () => (await getDataStore().list(FUEL_LOGS)) as FuelLog[],
+
+    listByVehicle: async (vehicleId: string) => {
+        return (await getDataStore().list(FUEL_LOGS, {
+            where: [{ field: 'vehicleId', op: '==', value: vehicleId }],
+            orderBy: { field: 'timestamp', direction: 'desc' },
+        })) as FuelLog[];
+    },
+
+    create: async (data: Omit<FuelLog, 'id'>) => getDataStore().add(FUEL_LOGS, data),
+
+    // Fixed id (the driver's outbox entry) so a replayed fill is logged once
+    createWithId: async (fuelLogId: string, data: Omit<FuelLog, 'id'>) => {
+        return getDataStore().set(FUEL_LOGS, fuelLogId, data);
+    },
+
+    update: async (fuelLogId: string, patch: Partial<FuelLog>) => {
+        await getDataStore().update(FUEL_LOGS, fuelLogId, patch);
+    },
+};
@@ -0,0 +1,16 @@
+export { getDataStore, setDataStore, appendToArray } from './dataStore';
+export type { DataStore, StoreTransaction, QueryOptions } from './dataStore';
+export { createMemoryStore } from './memoryStore';
+export { TripRepository } from './tripRepository';
+export { VehicleRepository } from './vehicleRepository';
+export { DriverRepository } from './driverRepository';
+export { UserRepository } from './userRepository';
+export { PayrollRepository, payrollRecordId } from './payrollRepository';
+export { PayrollRunRepository } from './payrollRunRepository';
+export { PayrollAdjustmentRepository } from './payrollAdjustmentRepository';
+export { PaysheetDistributionRepository } from './paysheetDistributionRepository';
+export { ClaimRepository } from './claimRepository';
+export { FuelLogRepository } from './fuelLogRepository';
+export { SettingsRepository, DEFAULT_BANK_TRANSFER_SETTINGS, DEFAULT_COSTING_SETTINGS, DEFAULT_DUTY_SETTINGS, DEFAULT_FUEL_CARD_SETTINGS, DEFAULT_INSPECTION_CHECKLIST, DEFAULT_ODOMETER_SETTINGS, DEFAULT_PAYROLL_RATES, DEFAULT_STATUTORY_RULES, getChecklistForType } from './settingsRepository';
+export { OdometerExceptionRepository } from './odometerExceptionRepository';
+export { InspectionRepository } from './inspectionRepository';
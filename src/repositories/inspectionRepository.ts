@@ -0,0 +1,18 @@
+import { VehicleInspection } from '../types';
+import { getDataStore } from './dataStore';
+
+const VEHICLE_INSPECTIONS = "vehicle_inspections";
+
+export const InspectionRepository = {
+    listByVehicle: async (vehicleId: string) => {
+        return (await getDataStore().list(VEHICLE_INSPECTIONS, {
+            where: [{ field: 'vehicleId', op: '==', value: vehicleId }],
+            orderBy: { field: 'inspectedAt', direction: 'desc' },
+        })) as VehicleInspection[];
+    },
+
+    // Id chosen on the phone, so an inspection replayed from the outbox is stored once
+    createWithId: async (inspectionId: string, data: Omit<VehicleInspection, 'id'>) => {
+        return getDataStore().set(VEHICLE_INSPECTIONS, inspectionId, data);
+    },
+};
@@ -0,0 +1,177 @@
+import { ArrayAppend, DataStore, QueryOptions, StoredDoc, StoreTransaction, WhereClause } from './dataStore';
+
+// In-memory DataStore for running screens offline (demo data, manual testing).
+// Usage: setDataStore(createMemoryStore({ vehicles: { v1: { number: 'CAB-1234', status: 'available' } } }))
+
+type Seed = Record<string, Record<string, Record<string, any>>>;
+
+const clone = <T,>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const readField = (data: Record<string, any>, path: string) => {
+    return path.split('.').reduce((value: any, key) => (value == null ? undefined : value[key]), data);
+};
+
+const matches = (data: Record<string, any>, clause: WhereClause) => {
+    const value = readField(data, clause.field);
+    switch (clause.op) {
+        case '==': return value === clause.value;
+        case '!=': return value !== undefined && value !== clause.value;
+        case 'in': return (clause.value as any[]).includes(value);
+        case 'array-contains': return Array.isArray(value) && value.includes(clause.value);
+        case '<': return value < clause.value;
+        case '<=': return value <= clause.value;
+        case '>': return value > clause.value;
+        case '>=': return value >= clause.value;
+        default: return false;
+    }
+};
+
+// Applies "a.b.c" style keys and ArrayAppend values the way Firestore's updateDoc() does
+const applyUpdate = (target: Record<string, any>, data: Record<string, any>) => {
+    Object.entries(data).forEach(([path, value]) => {
+        const keys = path.split('.');
+        const last = keys.pop() as string;
+        const parent = keys.reduce((node, key) => {
+            if (typeof node[key] !== 'object' || node[key] === null) node[key] = {};
+            return node[key];
+        }, target);
+
+        if (value instanceof ArrayAppend) {
+            const current: any[] = Array.isArray(parent[last]) ? parent[last] : [];
+            const seen = new Set(current.map(item => JSON.stringify(item)));
+            parent[last] = [...current, ...value.items.filter(item => !seen.has(JSON.stringify(item)))];
+        } else {
+            parent[last] = clone(value);
+        }
+    });
+};
+
+const runQuery = (docs: StoredDoc[], options: QueryOptions = {}) => {
+    let result = docs.filter(d => (options.where || []).every(clause => matches(d, clause)));
+    if (options.orderBy) {
+        const { field, direction = 'asc' } = options.orderBy;
+        const sign = direction === 'asc' ? 1 : -1;
+        result = [...result].sort((a, b) => {
+            const va = readField(a, field), vb = readField(b, field);
+            return va === vb ? 0 : (va > vb ? sign : -sign);
+        });
+    }
+    if (options.limit) result = result.slice(0, options.limit);
+    return result;
+};
+
+export const createMemoryStore = (seed: Seed = {}): DataStore => {
+    const collections = new Map<string, Map<string, Record<string, any>>>();
+    const listeners = new Map<string, Set<() => void>>();
+    let nextId = 1;
+
+    Object.entries(seed).forEach(([name, docs]) => {
+        collections.set(name, new Map(Object.entries(docs).map(([id, data]) => [id, clone(data)])));
+    });
+
+    const getCollection = (name: string) => {
+        if (!collections.has(name)) collections.set(name, new Map());
+        return collections.get(name)!;
+    };
+
+    const snapshot = (name: string): StoredDoc[] => {
+        return Array.from(getCollection(name).entries()).map(([id, data]) => ({ ...clone(data), id }));
+    };
+
+    const readDoc = (name: string, id: string): StoredDoc | null => {
+        const data = getCollection(name).get(id);
+        return data ? { ...clone(data), id } : null;
+    };
+
+    const notify = (name: string) => {
+        listeners.get(name)?.forEach(listener => listener());
+    };
+
+    const listen = (name: string, listener: () => void) => {
+        if (!listeners.has(name)) listeners.set(name, new Set());
+        listeners.get(name)!.add(listener);
+        listener();
+        return () => { listeners.get(name)?.delete(listener); };
+    };
+
+    const writeSet = (name: string, id: string, data: Record<string, any>, merge?: boolean) => {
+        const existing = getCollection(name).get(id);
+        const next = merge && existing ? existing : {};
+        applyUpdate(next, data);
+        getCollection(name).set(id, next);
+    };
+
+    const writeUpdate = (name: string, id: string, data: Record<string, any>) => {
+        const existing = getCollection(name).get(id);
+        if (!existing) throw new Error(`No document to update: ${name}/${id}`);
+        applyUpdate(existing, data);
+    };
+
+    // Writes are buffered until the work resolves, then applied to copies of the touched collections that
+    // replace the originals only if every write succeeds: a failure anywhere leaves the store untouched
+    const applyTransaction = async <T,>(work: (transaction: StoreTransaction) => Promise<T>): Promise<T> => {
+        const writes: (() => void)[] = [];
+        const touched = new Set<string>();
+        const transaction: StoreTransaction = {
+            get: async (name, id) => readDoc(name, id),
+            set: (name, id, data, options) => { touched.add(name); writes.push(() => writeSet(name, id, data, options?.merge)); },
+            update: (name, id, data) => { touched.add(name); writes.push(() => writeUpdate(name, id, data)); },
+            delete: (name, id) => { touched.add(name); writes.push(() => { getCollection(name).delete(id); }); },
+        };
+
+        const result = await work(transaction);
+        const originals = new Map(Array.from(touched).map(name => [name, getCollection(name)]));
+        originals.forEach((docs, name) => {
+            collections.set(name, new Map(Array.from(docs.entries()).map(([id, data]) => [id, clone(data)])));
+        });
+        try {
+            writes.forEach(write => write());
+        } catch (error) {
+            originals.forEach((docs, name) => collections.set(name, docs));
+            throw error;
+        }
+        touched.forEach(notify);
+        return result;
+    };
+
+    // Transactions run one at a time, so each reads what the previous one wrote (Firestore retries instead)
+    let lastTransaction: Promise<unknown> = Promise.resolve();
+
+    return {
+        list: async (name, options) => runQuery(snapshot(name), options),
+
+        get: async (name, id) => readDoc(name, id),
+
+        subscribe: (name, options, onChange) => listen(name, () => onChange(runQuery(snapshot(name), options))),
+
+        subscribeDoc: (name, id, onChange) => listen(name, () => onChange(readDoc(name, id))),
+
+        add: async (name, data) => {
+            const id = `mem-${nextId++}`;
+            writeSet(name, id, data);
+            notify(name);
+            return id;
+        },
+
+        set: async (name, id, data, options) => {
+            writeSet(name, id, data, options?.merge);
+            notify(name);
+        },
+
+        update: async (name, id, data) => {
+            writeUpdate(name, id, data);
+            notify(name);
+        },
+
+        remove: async (name, id) => {
+            getCollection(name).delete(id);
+            notify(name);
+        },
+
+        runTransaction: (work) => {
+            const run = lastTransaction.catch(() => undefined).then(() => applyTransaction(work));
+            lastTransaction = run;
+            return run;
+        },
+    };
+};
@@ -0,0 +1,52 @@
+import { OdometerException, Trip } from '../types';
+import { getDataStore } from './dataStore';
+
+const ODOMETER_EXCEPTIONS = "odometer_exceptions";
+const TRIPS = "trip_requests";
+
+export const OdometerExceptionRepository = {
+    subscribeAll: (onChange: (exceptions: OdometerException[]) => void) => {
+        return getDataStore().subscribe(ODOMETER_EXCEPTIONS, {}, (docs) => onChange(docs as OdometerException[]));
+    },
+
+    // Fixed id (outbox entry + check) so a replayed reading is flagged once; an existing exception, which
+    // an admin may already have reviewed, is left as it is. Resolves true when the exception was filed.
+    createWithId: async (exceptionId: string, data: Omit<OdometerException, 'id'>) => {
+        return getDataStore().runTransaction(async (transaction) => {
+            if (await transaction.get(ODOMETER_EXCEPTIONS, exceptionId)) return false;
+            transaction.set(ODOMETER_EXCEPTIONS, exceptionId, data);
+            return true;
+        });
+    },
+
+    /**
+     * Settles a start gap: its km are added to the trip that under-recorded them, or with no trip the gap
+     * is confirmed as unaccounted. The exception is re-read first, so a double click or a second admin
+     * cannot count the gap twice. Resolves false when it had already been reviewed.
+     */
+    resolveGap: async (exceptionId: string, trip: Pick<Trip, 'id' | 'serialNumber'> | null, reviewedBy: string) => {
+        return getDataStore().runTransaction(async (transaction) => {
+            const exception = await transaction.get(ODOMETER_EXCEPTIONS, exceptionId) as OdometerException | null;
+            if (!exception || exception.review !== 'pending') return false;
+            const tripDoc = trip ? await transaction.get(TRIPS, trip.id) : null;
+            if (trip && !tripDoc) throw new Error(`Trip ${trip.id} not found.`);
+
+            if (trip) {
+                transaction.update(TRIPS, trip.id, { attributedGapKm: Number(tripDoc!.attributedGapKm || 0) + Number(exception.gapKm || 0) });
+            }
+            transaction.update(ODOMETER_EXCEPTIONS, exceptionId, {
+                review: trip ? 'dismissed' : 'confirmed',
+                kmAttribution: trip ? 'trip' : 'unaccounted',
+                attributedTripId: trip?.id || null,
+                attributedTripSerialNumber: trip?.serialNumber || null,
+                reviewedBy,
+                reviewedAt: new Date().toISOString(),
+            });
+            return true;
+        });
+    },
+
+    update: async (exceptionId: string, patch: Partial<OdometerException>) => {
+        await getDataStore().update(ODOMETER_EXCEPTIONS, exceptionId, patch);
+    },
+};
@@ -0,0 +1,33 @@
+import { PayrollAdjustment } from '../types';
+import { getDataStore } from './dataStore';
+import { PAYROLL_RUN_STATUS_LABELS, PayrollRunError, isPayrollRunEditable, toPayrollRun } from '../utils/payrollRuns';
+
+const PAYROLL_ADJUSTMENTS = "payroll_adjustments";
+const PAYROLL_RUNS = "payroll_runs";
+
+export const PayrollAdjustmentRepository = {
+    subscribeAll: (onChange: (adjustments: PayrollAdjustment[]) => void) => {
+        return getDataStore().subscribe(PAYROLL_ADJUSTMENTS, { orderBy: { field: 'createdAt', direction: 'desc' } }, (docs) => onChange(docs as PayrollAdjustment[]));
+    },
+
+    /**
+     * Records a correction to a locked month, to be paid in a month still in draft. Throws PayrollRunError
+     * when the source month is not locked (it is still corrected by editing its records, and an adjustment
+     * would count twice) or the target month has left draft. Resolves to the new adjustment's id.
+     */
+    create: async (data: Omit<PayrollAdjustment, 'id'>) => {
+        const id = `${data.driverId}-${data.sourcePeriod}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        return getDataStore().runTransaction(async (transaction) => {
+            const source = toPayrollRun(data.sourcePeriod, await transaction.get(PAYROLL_RUNS, data.sourcePeriod));
+            if (source.status !== 'locked') {
+                throw new PayrollRunError(data.sourcePeriod, `The ${data.sourcePeriod} payroll is ${PAYROLL_RUN_STATUS_LABELS[source.status].toLowerCase()}; adjustments are only made to locked months.`);
+            }
+            const target = toPayrollRun(data.targetPeriod, await transaction.get(PAYROLL_RUNS, data.targetPeriod));
+            if (!isPayrollRunEditable(target)) {
+                throw new PayrollRunError(data.targetPeriod, `The ${data.targetPeriod} payroll is ${PAYROLL_RUN_STATUS_LABELS[target.status].toLowerCase()}; an adjustment can only be paid in a month still in draft.`);
+            }
+            transaction.set(PAYROLL_ADJUSTMENTS, id, data);
+            return id;
+        });
+    },
+};
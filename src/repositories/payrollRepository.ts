@@ -0,0 +1,32 @@
+import { PayrollRecord } from '../types';
+import { getDataStore, QueryOptions } from './dataStore';
+import { PAYROLL_RUN_STATUS_LABELS, PayrollRunError, isPayrollRunEditable, toPayrollRun } from '../utils/payrollRuns';
+
+const PAYROLL = "driver_payroll";
+const PAYROLL_RUNS = "payroll_runs";
+const NEWEST_FIRST: QueryOptions = { orderBy: { field: 'period', direction: 'desc' } };
+
+export const payrollRecordId = (driverId: string, period: string) => `${driverId}-${period}`;
+
+export const PayrollRepository = {
+    subscribeAll: (onChange: (records: PayrollRecord[]) => void) => {
+        return getDataStore().subscribe(PAYROLL, NEWEST_FIRST, (docs) => onChange(docs as PayrollRecord[]));
+    },
+
+    listAll: async () => (await getDataStore().list(PAYROLL, NEWEST_FIRST)) as PayrollRecord[],
+
+    get: async (driverId: string, period: string) => {
+        return (await getDataStore().get(PAYROLL, payrollRecordId(driverId, period))) as PayrollRecord | null;
+    },
+
+    // Creates the month's record or merges into it. Throws PayrollRunError once the month's run has left draft.
+    save: async (driverId: string, period: string, data: Partial<PayrollRecord>) => {
+        await getDataStore().runTransaction(async (transaction) => {
+            const run = toPayrollRun(period, await transaction.get(PAYROLL_RUNS, period));
+            if (!isPayrollRunEditable(run)) {
+                throw new PayrollRunError(period, `The ${period} payroll is ${PAYROLL_RUN_STATUS_LABELS[run.status].toLowerCase()}; return it to draft to make changes.`);
+            }
+            transaction.set(PAYROLL, payrollRecordId(driverId, period), { ...data, driverId, period }, { merge: true });
+        });
+    },
+};
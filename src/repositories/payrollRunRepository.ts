@@ -0,0 +1,18 @@
+import { PayrollRun, PayrollRunStatus } from '../types';
+import { getDataStore } from './dataStore';
+import { PayrollActor, applyPayrollRunTransition, toPayrollRun } from '../utils/payrollRuns';
+
+const PAYROLL_RUNS = "payroll_runs";
+
+export const PayrollRunRepository = {
+    subscribeAll: (onChange: (runs: PayrollRun[]) => void) => {
+        return getDataStore().subscribe(PAYROLL_RUNS, {}, (docs) => onChange(docs.map(d => toPayrollRun(d.id, d))));
+    },
+
+    // A month never moved yet comes back as a draft
+    get: async (period: string) => toPayrollRun(period, await getDataStore().get(PAYROLL_RUNS, period)),
+
+    transition: async (period: string, to: PayrollRunStatus, actor: PayrollActor, note?: string) => {
+        return getDataStore().runTransaction((transaction) => applyPayrollRunTransition(transaction, period, to, actor, note));
+    },
+};
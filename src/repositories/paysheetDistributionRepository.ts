@@ -0,0 +1,12 @@
+import { PaysheetDistribution } from '../types';
+import { getDataStore } from './dataStore';
+
+const PAYSHEET_DISTRIBUTIONS = "paysheet_distributions";
+
+export const PaysheetDistributionRepository = {
+    subscribeAll: (onChange: (distributions: PaysheetDistribution[]) => void) => {
+        return getDataStore().subscribe(PAYSHEET_DISTRIBUTIONS, { orderBy: { field: 'sentAt', direction: 'desc' } }, (docs) => onChange(docs as PaysheetDistribution[]));
+    },
+
+    create: async (data: Omit<PaysheetDistribution, 'id'>) => getDataStore().add(PAYSHEET_DISTRIBUTIONS, data),
+};
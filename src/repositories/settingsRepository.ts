@@ -0,0 +1,219 @@
+import { BankTransferSettings, CostingSettings, DutySettings, FuelCardSettings, InspectionChecklistItem, InspectionSettings, OdometerSettings, PayrollRates, StatutoryRuleSet, StatutorySettings } from '../types';
+import { getDataStore, StoredDoc } from './dataStore';
+
+const SETTINGS = "settings";
+const COSTING = "costing";
+const INSPECTION_CHECKLISTS = "inspectionChecklists";
+const FUEL_CARD = "fuelCard";
+const ODOMETER = "odometer";
+const DUTY_HOURS = "dutyHours";
+const PAYROLL = "payroll";
+const STATUTORY = "statutory";
+const BANK_TRANSFER = "bankTransfer";
+
+export const DEFAULT_COSTING_SETTINGS: CostingSettings = {
+    varianceThresholdPercent: 15,
+};
+
+// Used for any vehicle type without its own checklist
+export const DEFAULT_INSPECTION_CHECKLIST: InspectionChecklistItem[] = [
+    { id: 'tyres', label: 'Tyres: pressure, tread and no visible damage', category: 'tyres', critical: true },
+    { id: 'lights', label: 'Head, brake and indicator lights working', category: 'lights', critical: true },
+    { id: 'brakes', label: 'Brakes and handbrake hold', category: 'brakes', critical: true },
+    { id: 'fuel', label: 'Enough fuel for the trip', category: 'fuel', critical: false },
+    { id: 'body', label: 'No new body damage', category: 'body', critical: false },
+];
+
+export const DEFAULT_ODOMETER_SETTINGS: OdometerSettings = {
+    startToleranceKm: 20,
+};
+
+export const DEFAULT_DUTY_SETTINGS: DutySettings = {
+    maxDailyHours: 12,
+    maxWeeklyHours: 60,
+    minRestHours: 8,
+    standardDailyHours: 8,
+};
+
+export const DEFAULT_PAYROLL_RATES: PayrollRates = {
+    baseSalary: 45000,
+    fuelAllowancePerKm: 5,
+    mobileAllowance: 1500,
+    mealAllowancePerTripDay: 750,
+    outStationNightAllowance: 2500,
+};
+
+// EPF 8% / 12%, ETF 3% on salary; APIT Table 1 slabs from April 2025
+export const DEFAULT_STATUTORY_RULES: StatutoryRuleSet[] = [{
+    effectiveFrom: '2025-04',
+    epfEmployeePercent: 8,
+    epfEmployerPercent: 12,
+    etfEmployerPercent: 3,
+    contributionLines: ['salary'],
+    apitEnabled: true,
+    apitLines: ['salary', 'fuelAllowance', 'mobileAllowance'],
+    apitBands: [
+        { upTo: 150000, ratePercent: 0 },
+        { upTo: 233333, ratePercent: 6 },
+        { upTo: 275000, ratePercent: 18 },
+        { upTo: 316667, ratePercent: 24 },
+        { upTo: 358333, ratePercent: 30 },
+        { upTo: null, ratePercent: 36 },
+    ],
+}];
+
+// CSV with one row per driver; fixed-width widths follow the common SLIPS detail layout
+export const DEFAULT_BANK_TRANSFER_SETTINGS: BankTransferSettings = {
+    format: 'csv',
+    columns: [
+        { field: 'bankCode', width: 4, align: 'right' },
+        { field: 'branchCode', width: 3, align: 'right' },
+        { field: 'accountNumber', width: 12, align: 'right' },
+        { field: 'accountName', width: 20, align: 'left' },
+        { field: 'amountCents', width: 12, align: 'right' },
+        { field: 'reference', width: 15, align: 'left' },
+    ],
+    delimiter: ',',
+    includeHeader: true,
+    reference: 'SALARY {period}',
+    debitAccountNumber: '',
+};
+
+export const DEFAULT_FUEL_CARD_SETTINGS: FuelCardSettings = {
+    mapping: {
+        vehicleNumber: 'Vehicle No',
+        date: 'Transaction Date',
+        amount: 'Amount',
+        liters: 'Litres',
+        reference: 'Reference',
+        dateFormat: 'YYYY-MM-DD',
+    },
+    amountToleranceLkr: 50,
+    dateToleranceDays: 1,
+};
+
+// Missing document or fields fall back to the defaults
+const toCostingSettings = (doc: StoredDoc | null): CostingSettings => {
+    const { id, ...stored } = doc || { id: COSTING };
+    return { ...DEFAULT_COSTING_SETTINGS, ...stored };
+};
+
+const toInspectionSettings = (doc: StoredDoc | null): InspectionSettings => ({
+    checklists: { default: DEFAULT_INSPECTION_CHECKLIST, ...(doc?.checklists || {}) },
+});
+
+const toOdometerSettings = (doc: StoredDoc | null): OdometerSettings => {
+    const { id, ...stored } = doc || { id: ODOMETER };
+    return { ...DEFAULT_ODOMETER_SETTINGS, ...stored };
+};
+
+const toDutySettings = (doc: StoredDoc | null): DutySettings => {
+    const { id, ...stored } = doc || { id: DUTY_HOURS };
+    return { ...DEFAULT_DUTY_SETTINGS, ...stored };
+};
+
+const toPayrollRates = (doc: StoredDoc | null): PayrollRates => {
+    const { id, ...stored } = doc || { id: PAYROLL };
+    return { ...DEFAULT_PAYROLL_RATES, ...stored };
+};
+
+const toStatutorySettings = (doc: StoredDoc | null): StatutorySettings => ({
+    rules: doc?.rules?.length ? doc.rules : DEFAULT_STATUTORY_RULES,
+});
+
+const toBankTransferSettings = (doc: StoredDoc | null): BankTransferSettings => {
+    const { id, ...stored } = doc || { id: BANK_TRANSFER };
+    return { ...DEFAULT_BANK_TRANSFER_SETTINGS, ...stored };
+};
+
+const toFuelCardSettings = (doc: StoredDoc | null): FuelCardSettings => {
+    const { id, ...stored } = doc || { id: FUEL_CARD };
+    return { ...DEFAULT_FUEL_CARD_SETTINGS, ...stored, mapping: { ...DEFAULT_FUEL_CARD_SETTINGS.mapping, ...(stored.mapping || {}) } };
+};
+
+// The checklist a vehicle type is inspected against
+export const getChecklistForType = (settings: InspectionSettings, vehicleType?: string | null) => {
+    return (vehicleType && settings.checklists[vehicleType]) || settings.checklists.default || DEFAULT_INSPECTION_CHECKLIST;
+};
+
+export const SettingsRepository = {
+    getCosting: async () => toCostingSettings(await getDataStore().get(SETTINGS, COSTING)),
+
+    subscribeCosting: (onChange: (settings: CostingSettings) => void) => {
+        return getDataStore().subscribeDoc(SETTINGS, COSTING, (doc) => onChange(toCostingSettings(doc)));
+    },
+
+    updateCosting: async (patch: Partial<CostingSettings>) => {
+        await getDataStore().set(SETTINGS, COSTING, patch, { merge: true });
+    },
+
+    getInspection: async () => toInspectionSettings(await getDataStore().get(SETTINGS, INSPECTION_CHECKLISTS)),
+
+    subscribeInspection: (onChange: (settings: InspectionSettings) => void) => {
+        return getDataStore().subscribeDoc(SETTINGS, INSPECTION_CHECKLISTS, (doc) => onChange(toInspectionSettings(doc)));
+    },
+
+    // Replaces one vehicle type's checklist
+    updateInspectionChecklist: async (vehicleType: string, items: InspectionChecklistItem[]) => {
+        const current = await SettingsRepository.getInspection();
+        await getDataStore().set(SETTINGS, INSPECTION_CHECKLISTS, { checklists: { ...current.checklists, [vehicleType]: items } }, { merge: true });
+    },
+
+    getOdometer: async () => toOdometerSettings(await getDataStore().get(SETTINGS, ODOMETER)),
+
+    subscribeOdometer: (onChange: (settings: OdometerSettings) => void) => {
+        return getDataStore().subscribeDoc(SETTINGS, ODOMETER, (doc) => onChange(toOdometerSettings(doc)));
+    },
+
+    updateOdometer: async (patch: Partial<OdometerSettings>) => {
+        await getDataStore().set(SETTINGS, ODOMETER, patch, { merge: true });
+    },
+
+    getDuty: async () => toDutySettings(await getDataStore().get(SETTINGS, DUTY_HOURS)),
+
+    subscribeDuty: (onChange: (settings: DutySettings) => void) => {
+        return getDataStore().subscribeDoc(SETTINGS, DUTY_HOURS, (doc) => onChange(toDutySettings(doc)));
+    },
+
+    updateDuty: async (patch: Partial<DutySettings>) => {
+        await getDataStore().set(SETTINGS, DUTY_HOURS, patch, { merge: true });
+    },
+
+    getPayroll: async () => toPayrollRates(await getDataStore().get(SETTINGS, PAYROLL)),
+
+    subscribePayroll: (onChange: (rates: PayrollRates) => void) => {
+        return getDataStore().subscribeDoc(SETTINGS, PAYROLL, (doc) => onChange(toPayrollRates(doc)));
+    },
+
+    updatePayroll: async (patch: Partial<PayrollRates>) => {
+        await getDataStore().set(SETTINGS, PAYROLL, patch, { merge: true });
+    },
+
+    getStatutory: async () => toStatutorySettings(await getDataStore().get(SETTINGS, STATUTORY)),
+
+    subscribeStatutory: (onChange: (settings: StatutorySettings) => void) => {
+        return getDataStore().subscribeDoc(SETTINGS, STATUTORY, (doc) => onChange(toStatutorySettings(doc)));
+    },
+
+    // Replaces the whole list of rule sets
+    updateStatutory: async (settings: StatutorySettings) => {
+        await getDataStore().set(SETTINGS, STATUTORY, settings);
+    },
+
+    getBankTransfer: async () => toBankTransferSettings(await getDataStore().get(SETTINGS, BANK_TRANSFER)),
+
+    subscribeBankTransfer: (onChange: (settings: BankTransferSettings) => void) => {
+        return getDataStore().subscribeDoc(SETTINGS, BANK_TRANSFER, (doc) => onChange(toBankTransferSettings(doc)));
+    },
+
+    // Replaces the whole layout, so a shortened column list does not keep old columns
+    updateBankTransfer: async (settings: BankTransferSettings) => {
+        await getDataStore().set(SETTINGS, BANK_TRANSFER, settings);
+    },
+
+    getFuelCard: async () => toFuelCardSettings(await getDataStore().get(SETTINGS, FUEL_CARD)),
+
+    updateFuelCard: async (settings: FuelCardSettings) => {
+        await getDataStore().set(SETTINGS, FUEL_CARD, settings);
+    },
+};
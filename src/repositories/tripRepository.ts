@@ -0,0 +1,97 @@
+import { StopEvent, Trip, TripBreadcrumb, TripStatus } from '../types';
+import { appendToArray, getDataStore, QueryOptions } from './dataStore';
+import { TripMove, applyTripTransition, applyTripTransitions, toTrip } from '../utils/tripTransitions';
+
+const TRIPS = "trip_requests";
+
+// Breadcrumbs live in a subcollection under their trip
+const breadcrumbsOf = (tripId: string) => `${TRIPS}/${tripId}/breadcrumbs`;
+
+const toTrips = (docs: { id: string }[]) => docs.map(d => toTrip(d.id, d));
+
+const subscribeTrips = (options: QueryOptions, onChange: (trips: Trip[]) => void, onError?: (error: Error) => void) => {
+    return getDataStore().subscribe(TRIPS, options, (docs) => onChange(toTrips(docs)), onError);
+};
+
+export const TripRepository = {
+    // --- Reads ---
+    subscribeAll: (onChange: (trips: Trip[]) => void, onError?: (error: Error) => void) => {
+        return subscribeTrips({}, onChange, onError);
+    },
+
+    subscribeByDriver: (driverId: string, onChange: (trips: Trip[]) => void) => {
+        return subscribeTrips({ where: [{ field: 'driverId', op: '==', value: driverId }] }, onChange);
+    },
+
+    subscribe: (tripId: string, onChange: (trip: Trip | null) => void) => {
+        return getDataStore().subscribeDoc(TRIPS, tripId, (stored) => onChange(stored ? toTrip(stored.id, stored) : null));
+    },
+
+    subscribeBreadcrumbs: (tripId: string, onChange: (trail: TripBreadcrumb[]) => void) => {
+        return getDataStore().subscribe(breadcrumbsOf(tripId), { orderBy: { field: 'recordedAt' } },
+            (docs) => onChange(docs.map(({ id, ...crumb }) => crumb as TripBreadcrumb)));
+    },
+
+    listAll: async () => toTrips(await getDataStore().list(TRIPS)),
+
+    listByUser: async (userId: string) => {
+        return toTrips(await getDataStore().list(TRIPS, { where: [{ field: 'userId', op: '==', value: userId }] }));
+    },
+
+    listByDriver: async (driverId: string) => {
+        return toTrips(await getDataStore().list(TRIPS, { where: [{ field: 'driverId', op: '==', value: driverId }] }));
+    },
+
+    // Trips on a given date in any of the given statuses (used for double-booking checks)
+    listOnDate: async (date: string, statuses: TripStatus[]) => {
+        return toTrips(await getDataStore().list(TRIPS, { where: [
+            { field: 'date', op: '==', value: date },
+            { field: 'status', op: 'in', value: statuses },
+        ] }));
+    },
+
+    get: async (tripId: string) => {
+        const stored = await getDataStore().get(TRIPS, tripId);
+        return stored ? toTrip(stored.id, stored) : null;
+    },
+
+    // --- Writes ---
+    create: async (data: Omit<Trip, 'id'>) => getDataStore().add(TRIPS, data),
+
+    // Plain field edits only; status changes must go through transition() so side effects are applied
+    update: async (tripId: string, patch: Partial<Trip>) => {
+        if ('status' in patch) throw new Error("Use TripRepository.transition() to change a trip's status.");
+        await getDataStore().update(TRIPS, tripId, patch);
+    },
+
+    // Appends to the trail and moves the trip's live position. Both writes are issued together: offline,
+    // Firestore only settles them once they reach the server, but applies them to its local cache at once.
+    recordBreadcrumb: async (tripId: string, crumb: TripBreadcrumb) => {
+        await Promise.all([
+            getDataStore().add(breadcrumbsOf(tripId), crumb),
+            getDataStore().update(TRIPS, tripId, { livePosition: crumb }),
+        ]);
+    },
+
+    recordStopEvents: async (tripId: string, events: StopEvent[]) => {
+        await getDataStore().update(TRIPS, tripId, { stopEvents: appendToArray(...events) });
+    },
+
+    transition: async (tripId: string, to: TripStatus, patch: Partial<Trip> = {}) => {
+        return getDataStore().runTransaction((transaction) => applyTripTransition(transaction, tripId, to, patch));
+    },
+
+    // Several status moves that must succeed or fail together (e.g. both sides of a merge proposal)
+    transitionMany: async (moves: TripMove[]) => {
+        return getDataStore().runTransaction((transaction) => applyTripTransitions(transaction, moves));
+    },
+
+    // Approves the master trip with the merged details and removes the absorbed candidate in one transaction
+    finalizeMerge: async (masterTripId: string, patch: Partial<Trip>, candidateTripId: string) => {
+        return getDataStore().runTransaction(async (transaction) => {
+            const updated = await applyTripTransition(transaction, masterTripId, 'approved', patch);
+            transaction.delete(TRIPS, candidateTripId);
+            return updated;
+        });
+    },
+};
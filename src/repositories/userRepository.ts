@@ -0,0 +1,22 @@
+import { getDataStore, StoredDoc } from './dataStore';
+
+// Customer and staff accounts in the shared `users` collection; drivers go through DriverRepository
+const USERS = "users";
+
+export const UserRepository = {
+    subscribeByRole: (role: string, onChange: (users: StoredDoc[]) => void) => {
+        return getDataStore().subscribe(USERS, { where: [{ field: 'role', op: '==', value: role }] }, onChange);
+    },
+
+    // Every account that is not a driver (customers and admins), for reports
+    listNonDrivers: async () => getDataStore().list(USERS, { where: [{ field: 'role', op: '!=', value: 'driver' }] }),
+
+    get: async (userId: string) => getDataStore().get(USERS, userId),
+
+    // Profile id is the Firebase Auth UID
+    create: async (userId: string, data: Record<string, any>) => {
+        await getDataStore().set(USERS, userId, data);
+    },
+
+    remove: async (userId: string) => getDataStore().remove(USERS, userId),
+};
@@ -0,0 +1,44 @@
+import { Vehicle, VehicleOdometer } from '../types';
+import { getDataStore } from './dataStore';
+
+const VEHICLES = "vehicles";
+
+export const VehicleRepository = {
+    subscribeAll: (onChange: (vehicles: Vehicle[]) => void, onError?: (error: Error) => void) => {
+        return getDataStore().subscribe(VEHICLES, {}, (docs) => onChange(docs as Vehicle[]), onError);
+    },
+
+    listAll: async () => (await getDataStore().list(VEHICLES)) as Vehicle[],
+
+    get: async (vehicleId: string) => (await getDataStore().get(VEHICLES, vehicleId)) as Vehicle | null,
+
+    findByNumber: async (number: string) => {
+        const [vehicle] = await getDataStore().list(VEHICLES, { where: [{ field: 'number', op: '==', value: number }], limit: 1 });
+        return (vehicle || null) as Vehicle | null;
+    },
+
+    create: async (data: Omit<Vehicle, 'id'>) => getDataStore().add(VEHICLES, data),
+
+    // Accepts appendToArray() values for the history logs (rateHistory, repairs, services, licenseHistory)
+    update: async (vehicleId: string, patch: Partial<Record<keyof Vehicle, any>>) => {
+        await getDataStore().update(VEHICLES, vehicleId, patch);
+    },
+
+    /**
+     * Moves the vehicle's last-known odometer on to `reading` unless a later reading is already stored
+     * (actions replayed out of order). Returns the reading it replaced.
+     */
+    advanceOdometer: async (vehicleId: string, reading: VehicleOdometer) => {
+        return getDataStore().runTransaction(async (transaction) => {
+            const vehicle = await transaction.get(VEHICLES, vehicleId) as Vehicle | null;
+            if (!vehicle) return null;
+            const previous = vehicle.lastOdometer || null;
+            if (!previous || previous.recordedAt <= reading.recordedAt) {
+                transaction.update(VEHICLES, vehicleId, { lastOdometer: reading });
+            }
+            return previous;
+        });
+    },
+
+    remove: async (vehicleId: string) => getDataStore().remove(VEHICLES, vehicleId),
+};
@@ -0,0 +1,43 @@
+import { LatLng } from '../types';
+
+// --- KNOWN LOCATIONS FOR RELIABLE GEOCODING ---
+const KNOWN_LOCATIONS: { [key: string]: LatLng } = {
+     "Carlos Embellishers (Pvt) Ltd - Veyangoda (Head Office)": { lat: 7.1667, lng: 80.0500 },
+     "Eskimo Fashion Knitwear - Koggala": { lat: 5.9936, lng: 80.3236 },
+     "Eskimo Fashion Knitwear - Pallekele": { lat: 7.2803, lng: 80.7062 },
+     "Carlos Embellishers - Trincomalee Branch": { lat: 8.5874, lng: 81.2152 },
+     "D. R. Wijewardene Mawatha, Suduwella, Slave Island, Colombo, Colombo District, Western Province, 00200, Sri Lanka": { lat: 6.9314, lng: 79.8596 },
+     "Veyangoda (Head Office)": { lat: 7.1667, lng: 80.0500 },
+     "Eskimo Fashion Knitwear": { lat: 7.2008, lng: 79.8737 }
+};
+
+// "6.9271,79.8612" (as stored in breakdownGPS) -> { lat, lng }
+export const parseLatLng = (value?: string | null): LatLng | null => {
+    const match = value?.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+    if (!match) return null;
+    return { lat: parseFloat(match[1]), lng: parseFloat(match[2]) };
+};
+
+/**
+ * Resolves an address to coordinates: raw "lat,lng" text first, then the company's known sites,
+ * then OpenStreetMap Nominatim (Sri Lanka only). Returns null when nothing matches or offline.
+ */
+export const geocodeAddress = async (address?: string | null): Promise<LatLng | null> => {
+    if (!address) return null;
+
+    const raw = parseLatLng(address);
+    if (raw) return raw;
+
+    const normalizedAddress = address.toLowerCase();
+    const knownKey = Object.keys(KNOWN_LOCATIONS).find(key => normalizedAddress.includes(key.toLowerCase()));
+    if (knownKey) return KNOWN_LOCATIONS[knownKey];
+
+    try {
+        const response = await fetch(`https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(address)}&countrycodes=lk&limit=1`);
+        const data = await response.json();
+        if (data && data.length > 0) return { lat: parseFloat(data[0].lat), lng: parseFloat(data[0].lon) };
+    } catch (error) {
+        console.error("Geocoding error:", error);
+    }
+    return null;
+};
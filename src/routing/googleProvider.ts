@@ -0,0 +1,32 @@
+import { RoutingError, RoutingProvider } from './routingService';
+
+// Uses the Maps JavaScript API DirectionsService. The script must already be loaded on the page
+// (e.g. via @react-google-maps/api's LoadScript); otherwise routing falls back.
+export const createGoogleProvider = (): RoutingProvider => ({
+    name: 'google',
+    route: async (points) => {
+        const maps = (window as any).google?.maps;
+        if (!maps?.DirectionsService) throw new RoutingError('Google Maps script is not loaded');
+
+        const [origin, ...rest] = points;
+        const destination = rest[rest.length - 1];
+        const waypoints = rest.slice(0, -1).map(p => ({ location: p, stopover: true }));
+
+        const result = await new maps.DirectionsService().route({
+            origin,
+            destination,
+            waypoints,
+            travelMode: maps.TravelMode.DRIVING,
+        });
+        const route = result.routes?.[0];
+        if (!route) throw new RoutingError('Google found no route');
+
+        const legs = route.legs || [];
+        return {
+            distanceKm: legs.reduce((sum: number, leg: any) => sum + (leg.distance?.value || 0), 0) / 1000,
+            durationMinutes: Math.round(legs.reduce((sum: number, leg: any) => sum + (leg.duration?.value || 0), 0) / 60),
+            path: (route.overview_path || []).map((p: any) => [p.lat(), p.lng()]),
+            provider: 'google',
+        };
+    },
+});
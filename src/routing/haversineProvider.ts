@@ -0,0 +1,32 @@
+import { LatLng } from '../types';
+import { RoutingProvider } from './routingService';
+
+// Offline estimate: great-circle distance scaled up to approximate the road network
+export const ROAD_FACTOR = 1.3;
+const AVERAGE_SPEED_KMH = 40;
+const EARTH_RADIUS_KM = 6371;
+
+export const haversineKm = (a: LatLng, b: LatLng) => {
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(b.lat - a.lat);
+    const dLng = toRad(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+};
+
+export const estimateRoadKm = (a: LatLng, b: LatLng) => haversineKm(a, b) * ROAD_FACTOR;
+
+export const createHaversineProvider = (): RoutingProvider => ({
+    name: 'haversine',
+    route: async (points) => {
+        let distanceKm = 0;
+        for (let i = 1; i < points.length; i++) distanceKm += estimateRoadKm(points[i - 1], points[i]);
+
+        return {
+            distanceKm,
+            durationMinutes: Math.round((distanceKm / AVERAGE_SPEED_KMH) * 60),
+            path: points.map(p => [p.lat, p.lng]),
+            provider: 'haversine',
+        };
+    },
+});
@@ -0,0 +1,7 @@
+export { getRoutingProvider, setRoutingProvider, routeThrough, routeDistanceKm, withFallback, RoutingError } from './routingService';
+export type { RoutingProvider, RouteResult } from './routingService';
+export { createOsrmProvider } from './osrmProvider';
+export { createGoogleProvider } from './googleProvider';
+export { createHaversineProvider, haversineKm, estimateRoadKm } from './haversineProvider';
+export { createMockRoutingProvider } from './mockProvider';
+export { geocodeAddress, parseLatLng } from './geocoder';
@@ -0,0 +1,28 @@
+import { LatLng } from '../types';
+import { RoutingProvider } from './routingService';
+
+const pointKey = (p: LatLng) => `${p.lat.toFixed(4)},${p.lng.toFixed(4)}`;
+
+/**
+ * Deterministic provider for offline work and tests. Legs listed in `legs` (keyed "lat,lng>lat,lng",
+ * 4 decimals, either direction) use that distance; every other leg is `defaultLegKm`.
+ */
+export const createMockRoutingProvider = (legs: Record<string, number> = {}, defaultLegKm = 10): RoutingProvider => {
+    const legKm = (a: LatLng, b: LatLng) => {
+        return legs[`${pointKey(a)}>${pointKey(b)}`] ?? legs[`${pointKey(b)}>${pointKey(a)}`] ?? defaultLegKm;
+    };
+
+    return {
+        name: 'mock',
+        route: async (points) => {
+            let distanceKm = 0;
+            for (let i = 1; i < points.length; i++) distanceKm += legKm(points[i - 1], points[i]);
+            return {
+                distanceKm,
+                durationMinutes: Math.round(distanceKm * 1.5),
+                path: points.map(p => [p.lat, p.lng]),
+                provider: 'mock',
+            };
+        },
+    };
+};
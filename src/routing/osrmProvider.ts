@@ -0,0 +1,24 @@
+import { RoutingError, RoutingProvider } from './routingService';
+
+const PUBLIC_OSRM_URL = 'https://router.project-osrm.org';
+
+// Any OSRM-compatible /route/v1 endpoint (public demo server, self-hosted OSRM, Valhalla's OSRM mode)
+export const createOsrmProvider = (baseUrl: string = PUBLIC_OSRM_URL): RoutingProvider => ({
+    name: 'osrm',
+    route: async (points) => {
+        const coordsUrl = points.map(p => `${p.lng},${p.lat}`).join(';');
+        const response = await fetch(`${baseUrl || PUBLIC_OSRM_URL}/route/v1/driving/${coordsUrl}?overview=full&geometries=geojson`);
+        if (!response.ok) throw new RoutingError(`OSRM responded ${response.status}`);
+
+        const data = await response.json();
+        const route = data.routes?.[0];
+        if (!route) throw new RoutingError(`OSRM found no route (${data.code || 'unknown'})`);
+
+        return {
+            distanceKm: route.distance / 1000,
+            durationMinutes: Math.round(route.duration / 60),
+            path: route.geometry.coordinates.map((coord: number[]) => [coord[1], coord[0]]),
+            provider: 'osrm',
+        };
+    },
+});
@@ -0,0 +1,81 @@
+import { LatLng } from '../types';
+import { createOsrmProvider } from './osrmProvider';
+import { createGoogleProvider } from './googleProvider';
+import { createHaversineProvider } from './haversineProvider';
+
+// --- ROUTING CONTRACT ---
+// Every distance in the app (booking cost, breakdown split-cost, merge detours) comes from the active
+// provider, so all screens agree. The provider is picked with VITE_ROUTING_PROVIDER ('osrm' | 'google' |
+// 'haversine'); network providers fall back to straight-line estimates when they fail. Swap in the mock
+// provider (mockProvider.ts) with setRoutingProvider() to work without network access.
+
+export interface RouteResult {
+    distanceKm: number;
+    durationMinutes: number;
+    path: [number, number][]; // [lat, lng] pairs for drawing a Polyline
+    provider: string;
+}
+
+export interface RoutingProvider {
+    name: string;
+    // Driving route through the points in order (at least two)
+    route(points: LatLng[]): Promise<RouteResult>;
+}
+
+export class RoutingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RoutingError';
+    }
+}
+
+// Tries `primary` and quietly answers from `fallback` when it errors (offline, quota, no route)
+export const withFallback = (primary: RoutingProvider, fallback: RoutingProvider): RoutingProvider => ({
+    name: primary.name,
+    route: async (points) => {
+        try {
+            return await primary.route(points);
+        } catch (error) {
+            console.warn(`${primary.name} routing failed, using ${fallback.name}:`, error);
+            return fallback.route(points);
+        }
+    },
+});
+
+const createDefaultProvider = (): RoutingProvider => {
+    const haversine = createHaversineProvider();
+    switch (import.meta.env.VITE_ROUTING_PROVIDER) {
+        case 'haversine':
+            return haversine;
+        case 'google':
+            return withFallback(createGoogleProvider(), haversine);
+        default:
+            return withFallback(createOsrmProvider(import.meta.env.VITE_OSRM_URL), haversine);
+    }
+};
+
+// --- ACTIVE PROVIDER ---
+
+let activeProvider: RoutingProvider | null = null;
+
+export const getRoutingProvider = (): RoutingProvider => {
+    if (!activeProvider) activeProvider = createDefaultProvider();
+    return activeProvider;
+};
+
+export const setRoutingProvider = (provider: RoutingProvider) => {
+    activeProvider = provider;
+};
+
+// Route through the given points, skipping missing ones. Fewer than two points is a zero-length route.
+export const routeThrough = async (points: (LatLng | null | undefined)[]): Promise<RouteResult> => {
+    const valid = points.filter((p): p is LatLng => !!p);
+    if (valid.length < 2) {
+        return { distanceKm: 0, durationMinutes: 0, path: valid.map(p => [p.lat, p.lng]), provider: 'none' };
+    }
+    return getRoutingProvider().route(valid);
+};
+
+export const routeDistanceKm = async (points: (LatLng | null | undefined)[]) => {
+    return (await routeThrough(points)).distanceKm;
+};
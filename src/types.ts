@@ -8,4 +8,682 @@ export interface User {
   department?: string;
   joinDate?: string;
   [key: string]: any;
-}
\ No newline at end of file
+}
+
+// --- TRIP DOMAIN MODEL ---
+
+// Every status a trip_requests document can hold. 're-assigned' is an old spelling
+// still present on some documents; normalizeTripStatus() maps it to 'reassigned'.
+export type TripStatus =
+  | 'pending'
+  | 'pending_merge'
+  | 'awaiting_merge_approval'
+  | 'approved_merge_request'
+  | 'merge_rejected'
+  | 'approved'
+  | 'reassigned'
+  | 'in-progress'
+  | 'completed'
+  | 'broken-down'
+  | 'cancelled'
+  | 'rejected'
+  | 'merged';
+
+export type VehicleStatus = 'available' | 'in-use' | 'in-maintenance';
+export type DriverStatus = 'available' | 'in-use';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// A device position with when it was taken
+export interface GpsFix extends LatLng {
+  accuracyM: number | null;
+  recordedAt: string;       // ISO time of the fix
+}
+
+// One throttled GPS fix recorded while a trip is in progress (trip_requests/{id}/breadcrumbs)
+export interface TripBreadcrumb extends GpsFix {
+  speedKmh: number | null;
+  heading: number | null;   // degrees from north
+}
+
+// Arrival at / departure from a stop (0 = pickup, then drop-offs in order), from the geofence or the driver
+export interface StopEvent {
+  stopIndex: number;
+  kind: 'arrive' | 'depart';
+  at: string;
+  source: 'geofence' | 'manual';
+  gps: GpsFix | null;
+}
+
+// --- ODOMETER READINGS ---
+export type OdometerReadingKind = 'start' | 'end' | 'breakdown';
+
+// An odometer number as the driver entered it, stamped with the phone's position at that moment
+export interface OdometerReading {
+  kind: OdometerReadingKind;
+  odometer: number;
+  gps: GpsFix | null;
+  recordedAt: string;
+}
+
+// The vehicle's authoritative last-known reading, advanced by every later reading wherever it came from
+export type VehicleOdometerSource = 'trip-start' | 'trip-end' | 'breakdown' | 'service' | 'fuel-log';
+
+export interface VehicleOdometer {
+  odometer: number;
+  recordedAt: string;
+  source: VehicleOdometerSource;
+  sourceId: string;        // outbox entry, fuel log or service the reading came from
+  tripId: string | null;
+}
+
+// settings/dutyHours: driving-time rules enforced when drivers are offered for a trip
+export interface DutySettings {
+  maxDailyHours: number;      // duty in one shift
+  maxWeeklyHours: number;     // duty in any 7 days
+  minRestHours: number;       // break that separates one shift from the next
+  standardDailyHours: number; // duty per day above this is overtime
+}
+
+// settings/payroll: rates the monthly payroll is computed with
+export interface PayrollRates {
+  baseSalary: number;               // LKR per month
+  fuelAllowancePerKm: number;       // LKR per km run on completed trips
+  mobileAllowance: number;          // LKR per month
+  mealAllowancePerTripDay: number;  // LKR per calendar day spent on a trip
+  outStationNightAllowance: number; // LKR per night away on a trip
+}
+
+// One APIT slab on monthly taxable pay; `upTo` is cumulative, null for the top slab
+export interface ApitBand {
+  upTo: number | null;
+  ratePercent: number;
+}
+
+// Statutory deduction rules in force from a month on; the latest set not after a payroll month applies
+export interface StatutoryRuleSet {
+  effectiveFrom: string;            // 'YYYY-MM'
+  epfEmployeePercent: number;
+  epfEmployerPercent: number;
+  etfEmployerPercent: number;
+  contributionLines: PayrollLine[]; // earnings EPF and ETF are calculated on
+  apitEnabled: boolean;
+  apitLines: PayrollLine[];         // earnings APIT is calculated on
+  apitBands: ApitBand[];
+}
+
+// settings/statutory
+export interface StatutorySettings {
+  rules: StatutoryRuleSet[];
+}
+
+// A driver's salary account, on the driver's `users` document as `bankAccount`
+export interface BankAccount {
+  bankName: string;
+  bankCode: string;      // CBSL bank code, e.g. '7010'
+  branchCode: string;    // '001'
+  accountNumber: string;
+  accountName: string;   // as held by the bank
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export type BankTransferFormat = 'csv' | 'fixed-width';
+
+export type BankTransferField = 'bankCode' | 'branchCode' | 'accountNumber' | 'accountName' | 'amount' | 'amountCents' | 'reference' | 'epfNumber';
+
+export interface BankTransferColumn {
+  field: BankTransferField;
+  width: number;          // characters, fixed-width files only
+  align: 'left' | 'right';
+}
+
+// settings/bankTransfer: layout of the bulk salary transfer file the bank portal accepts
+export interface BankTransferSettings {
+  format: BankTransferFormat;
+  columns: BankTransferColumn[];
+  delimiter: string;          // csv only
+  includeHeader: boolean;     // csv only: a row of field names first
+  reference: string;          // narration on each transfer; {period} becomes the payroll month
+  debitAccountNumber: string; // company account the transfers are paid from, on the control record
+}
+
+// settings/odometer
+export interface OdometerSettings {
+  startToleranceKm: number; // unlogged private km allowed between the last known reading and a trip start
+}
+
+export type OdometerExceptionCode = 'no-gps' | 'stale-gps' | 'far-from-pickup' | 'far-from-destination' | 'km-over-route' | 'odometer-gap' | 'odometer-rollback';
+export type OdometerExceptionReview = 'pending' | 'dismissed' | 'confirmed';
+
+// An implausible reading waiting for (or cleared by) admin review; kept per driver in odometer_exceptions
+export interface OdometerException {
+  id: string;
+  code: OdometerExceptionCode;
+  message: string;
+  tripId: string;
+  tripSerialNumber: string | null;
+  driverId: string | null;
+  driverName: string | null;
+  vehicleNumber: string | null;
+  reading: OdometerReading;
+  distanceKm?: number | null;   // how far from the expected place
+  plannedKm?: number | null;
+  actualKm?: number | null;
+  previousOdometer?: VehicleOdometer | null; // continuity checks: the last known reading the start was compared with
+  gapKm?: number | null;                     // km since it (negative for a rollback)
+  kmAttribution?: 'trip' | 'unaccounted' | null; // how an admin resolved a gap
+  attributedTripId?: string | null;
+  attributedTripSerialNumber?: string | null;
+  createdAt: string;
+  review: OdometerExceptionReview;
+  reviewedBy?: string;
+  reviewedAt?: string;
+}
+
+export interface TripCustomerDetails {
+  id: string;
+  customerName: string | null;
+  phone: string | null;
+  passengers?: number;
+  epf: string | null;
+  destination: string;
+}
+
+export interface MergeProposal {
+  id?: string;
+  serialNumber?: string;
+  vehicleId?: string;
+  vehicleNumber?: string;
+  driverId?: string;
+  driverName?: string;
+  message?: string;
+  adminName?: string;
+  sentAt?: string;
+  consentA?: 'pending' | 'accepted' | 'rejected';
+  consentB?: 'pending' | 'accepted' | 'rejected';
+}
+
+// --- BREAKDOWN SPLIT-COST SETTLEMENT ---
+export interface CostLeg {
+  label: string;
+  km: number;
+  source: 'odometer' | 'route';
+}
+
+export interface VehicleCostLine {
+  role: 'original' | 'replacement';
+  vehicleId?: string | null;
+  vehicleNumber: string;
+  ratePerKm: number;
+  km: number;
+  cost: number;
+  legs: CostLeg[];
+}
+
+// Stored on reassigned trips. oldVehicle/oldCost/newVehicle/newCost are the summary older screens read.
+export interface SplitCostBreakdown {
+  oldVehicle: string;
+  oldCost: number;
+  newVehicle: string;
+  newCost: number;
+  newVehicleStartPlace: string;
+  lines?: VehicleCostLine[];
+  totalKm?: number;
+  totalCost?: number;
+  settledAt?: string;
+}
+
+// --- TARIFFS ---
+// Versioned billing rules for a hired vehicle. Every change appends a new version; a trip is priced with the
+// version in force at its start time. The per-km rate itself still comes from the vehicle's rateHistory.
+export interface TariffRuleSet {
+  version: number;
+  effectiveFrom: string; // ISO timestamp
+  createdBy: string;
+  minimumCharge: number;           // LKR; trips below it are topped up
+  freeWaitingMinutes: number;
+  waitingRatePerHour: number;      // LKR per hour beyond the free minutes
+  nightStart: string;              // "HH:mm"; the window may wrap past midnight
+  nightEnd: string;
+  nightSurchargePercent: number;
+  holidays: string[];              // "YYYY-MM-DD"
+  holidaySurchargePercent: number;
+  dayRate: number;                 // LKR per day for long trips, 0 = off
+  dayRateAfterHours: number;       // trips longer than this are billed per day
+  dayKmAllowance: number;          // km included in each day; the rest is billed per km
+  returnLegPercent: number;        // % of the per-km rate charged for the empty run back to pickup, 0 = off
+}
+
+export type TariffLineCode = 'distance' | 'day-rate' | 'excess-km' | 'minimum' | 'waiting' | 'return-leg' | 'night' | 'holiday';
+
+export interface TariffLine {
+  code: TariffLineCode;
+  label: string;
+  amount: number; // LKR
+}
+
+// Itemized price of a trip, stored on the trip next to the "LKR ..." cost string
+export interface TripQuote {
+  lines: TariffLine[];
+  total: number;
+  ratePerKm: number;
+  rateEffectiveFrom: string | null;
+  tariffVersion: number | null; // null = flat rate per km, no tariff configured
+  pricedAt: string;
+}
+
+// Final costing at completion: odometer km priced on the tariff vs the booking estimate
+export type CostReviewStatus = 'pending' | 'accepted-actual' | 'kept-estimate';
+
+export interface FinalCosting {
+  estimatedKm: number;
+  actualKm: number;
+  estimatedCost: number;
+  actualCost: number;
+  estimateQuote?: TripQuote | null; // booking-time charge lines, restored if the estimate is kept
+  kmVariancePercent: number;   // (actual - estimated) / estimated
+  costVariancePercent: number;
+  thresholdPercent: number;    // settings/costing threshold when the trip was costed
+  flagged: boolean;            // either variance beyond the threshold; needs admin review
+  review: CostReviewStatus | null; // null when not flagged
+  reviewedBy?: string;
+  reviewedAt?: string;
+  costedAt: string;
+}
+
+// settings/costing
+export interface CostingSettings {
+  varianceThresholdPercent: number;
+}
+
+// --- PRE-TRIP INSPECTIONS ---
+export type InspectionCategory = 'tyres' | 'lights' | 'brakes' | 'fuel' | 'body' | 'other';
+
+export interface InspectionChecklistItem {
+  id: string;
+  label: string;
+  category: InspectionCategory;
+  critical: boolean; // failing it keeps the vehicle off the road
+}
+
+// settings/inspectionChecklists: items per vehicle type ('Car', 'Van', ...); 'default' covers the rest
+export interface InspectionSettings {
+  checklists: Record<string, InspectionChecklistItem[]>;
+}
+
+export interface InspectionItemResult {
+  itemId: string;
+  label: string;
+  category: InspectionCategory;
+  critical: boolean;
+  passed: boolean | null; // null until the driver marks it; every item is answered before submitting
+  note: string;
+  photo: string | null; // compressed JPEG data URL
+}
+
+export type FuelLevel = 'empty' | 'quarter' | 'half' | 'three-quarter' | 'full';
+
+// A driver's walk-round before starting a trip (vehicle_inspections)
+export interface VehicleInspection {
+  id: string;
+  vehicleId: string | null;
+  vehicleNumber: string | null;
+  vehicleType: string | null;
+  tripId: string;
+  tripSerialNumber: string | null;
+  driverId: string | null;
+  driverName: string | null;
+  inspectedAt: string;
+  gps: GpsFix | null;
+  fuelLevel: FuelLevel;
+  results: InspectionItemResult[];
+  passed: boolean;            // no critical item failed
+  failedCritical: string[];   // labels of the critical items that failed
+}
+
+// Result of the geographic merge scan, stored on the candidate trip for the merge queue
+export interface MergeMatch {
+  masterTripId: string;
+  score: number; // 0-100, higher is a better fit
+  detourKm: number;
+  detourMinutes: number;
+  pickupGapMinutes: number | null;
+  combinedPassengers: number;
+  seatCapacity: number | null;
+  explanation: string;
+  scannedAt: string;
+}
+
+export interface Trip {
+  id: string;
+  serialNumber?: string;
+  status: TripStatus;
+
+  // Requester
+  userId?: string;
+  customer?: string;
+  customerName?: string;
+  customerPhone?: string;
+  phone?: string;
+  email?: string;
+  epf?: string;
+  epfNumber?: string;
+  passengers?: number;
+
+  // Route & schedule
+  pickup: string;
+  pickupCoords?: LatLng | null;
+  destinations?: string[];
+  destinationCoords?: LatLng[];
+  destination: string;
+  date: string;
+  time: string;
+  distance?: string;
+  cost?: string;
+  appliedRatePerKm?: number; // vehicle rate in force on the trip date, used for `cost`
+  appliedRateEffectiveFrom?: string | null;
+  costQuote?: TripQuote | null; // charge lines behind `cost`
+  finalCosting?: FinalCosting | null; // set at completion; `cost` then holds the actual (or, if kept, the estimate)
+
+  // Assignment
+  requestedVehicleId?: string;
+  vehicleId?: string | null;
+  vehicleNumber?: string;
+  driverId?: string | null;
+  driverName?: string;
+  approvedAt?: string;
+  approvedDate?: string;
+  approvedByAdmin?: string;
+
+  // Odometer & execution
+  startedAt?: string;
+  endedAt?: string;
+  odometerStart?: number;
+  startGPS?: string | null; // "lat,lng" where the driver started the trip
+  endGPS?: string | null;
+  livePosition?: TripBreadcrumb | null; // latest breadcrumb, for the fleet map and passenger ETA
+  startReading?: OdometerReading | null;
+  endReading?: OdometerReading | null;
+  breakdownReading?: OdometerReading | null;
+  stopEvents?: StopEvent[];
+  inspectionId?: string | null; // pre-trip inspection the start (or grounding) was based on
+  odometerEnd?: number;
+  odometerEndPrevious?: number;
+  kmRun?: number;
+  attributedGapKm?: number; // odometer gaps before later starts that an admin put down to this trip
+  waitingMinutes?: number; // reported by the driver at completion, billed per the vehicle tariff
+
+  // Breakdown & reassignment
+  breakdownReason?: string;
+  breakdownSource?: 'driver' | 'inspection'; // 'inspection': grounded before the start by a failed check
+  breakdownLocation?: string | null;
+  breakdownGPS?: string;
+  breakdownOdometer?: number | null;
+  lastVisitedStop?: string | null;
+  originalDriverId?: string;
+  originalDriverName?: string;
+  originalDriverPhone?: string;
+  originalVehicleNumber?: string;
+  originalStartedAt?: string | null; // the original driver's start, kept when the replacement starts
+  costBreakdown?: SplitCostBreakdown;
+
+  // Merge
+  masterTripId?: string | null;
+  linkedProposalTripId?: string | null;
+  originalStatus?: TripStatus | null;
+  mergeProposal?: MergeProposal | null;
+  mergeMatch?: MergeMatch | null;
+  isMerged?: boolean;
+  linkedTripDetails?: TripCustomerDetails[] | null;
+  linkedTripIds?: string[];
+
+  // Closure
+  cancellationReason?: string;
+  cancelledAt?: string;
+  cancelledBy?: string;
+  rejectionReason?: string;
+
+  [key: string]: any;
+}
+
+// --- FLEET, DRIVER & PAYROLL RECORDS ---
+
+export interface Vehicle {
+  id: string;
+  number: string;
+  model?: string;
+  type?: string;
+  seats?: number;
+  ratePerKm?: number;
+  status?: VehicleStatus | 'assigned';
+  requiredLicenseType?: string;
+  plant?: string;
+  lastServiceMileage?: number;
+  serviceInterval?: number | string;
+  licenseExpiry?: string;
+  insuranceExpiry?: string;
+  rateHistory?: { rate: number; previousRate: number; changedBy: string; date: string }[];
+  tariffHistory?: TariffRuleSet[];
+  repairs?: Record<string, any>[];
+  services?: Record<string, any>[];
+  licenseHistory?: Record<string, any>[];
+  fines?: Record<string, any>[];
+  lastOdometer?: VehicleOdometer | null;
+  [key: string]: any;
+}
+
+// Drivers are `users` documents with role 'driver'
+export interface Driver {
+  id: string;
+  fullName?: string;
+  name?: string;
+  email?: string;
+  phone?: string;
+  nic?: string;
+  licenseNumber?: string | null;
+  licenseType?: string;
+  licenseExpiry?: string;
+  role: 'driver';
+  driverStatus?: 'pending' | 'approved' | string;
+  status?: DriverStatus | 'assigned';
+  currentTripId?: string | null;
+  vehicle?: string | null;
+  vehicleId?: string | null;
+  epfNumber?: string;
+  bankAccount?: BankAccount | null;
+  [key: string]: any;
+}
+
+// Admin entries are verified as saved; driver entries wait for an admin. Older logs carry no status.
+export type FuelLogStatus = 'pending' | 'verified' | 'rejected';
+
+export interface FuelLog {
+  id: string;
+  vehicleId: string;
+  vehicleNumber: string;
+  date: string;
+  odometer: number;
+  liters: number;
+  cost: number;
+  location?: string;
+  loggedBy?: string;
+  timestamp: string;
+  source?: 'admin' | 'driver';
+  status?: FuelLogStatus;
+  driverId?: string | null;
+  tripId?: string | null;
+  tripSerialNumber?: string | null;
+  receiptPhoto?: string | null; // compressed JPEG data URL
+  gps?: GpsFix | null;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  rejectionReason?: string;
+  cardTransaction?: FuelCardTransaction | null; // statement line the fill was reconciled against
+  reconciledBy?: string;
+  reconciledAt?: string;
+  [key: string]: any;
+}
+
+// --- FUEL CARD STATEMENTS ---
+export type FuelCardDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY';
+
+// Statement CSV header for each field; liters and reference are optional columns
+export interface FuelCardColumnMapping {
+  vehicleNumber: string;
+  date: string;
+  amount: string;
+  liters: string;
+  reference: string;
+  dateFormat: FuelCardDateFormat;
+}
+
+// settings/fuelCard
+export interface FuelCardSettings {
+  mapping: FuelCardColumnMapping;
+  amountToleranceLkr: number;  // card amount vs logged cost
+  dateToleranceDays: number;   // card posting date vs fill date
+}
+
+export interface FuelCardTransaction {
+  row: number;                 // line in the CSV, for finance to find it
+  vehicleNumber: string;
+  date: string;                // YYYY-MM-DD
+  amount: number;
+  liters: number | null;
+  reference: string;
+}
+
+export interface PoliceClaim {
+  id: string;
+  driverId: string;
+  driverName?: string;
+  vehicleNumber?: string;
+  tripId?: string;
+  tripSerialNumber?: string;
+  date?: string;
+  police?: string;
+  reason?: string;
+  amount?: number;
+  status: 'pending' | 'settled';
+  amountSettled?: number;
+  settlementDate?: string;
+  [key: string]: any;
+}
+
+export type PayrollLine = 'salary' | 'fuelAllowance' | 'mobileAllowance' | 'mealExpenses' | 'otherExpenses' | 'fineReimbursement';
+
+export type PayrollLines = Record<PayrollLine, number>;
+
+export interface PayrollLineOverride {
+  line: PayrollLine;
+  computed: number;
+  value: number;
+  by: string;
+  at: string;
+}
+
+// The month's trip and claim figures the computed lines came from
+export interface PayrollBasis {
+  tripIds: string[];
+  kmRun: number;
+  tripDays: number;
+  outStationNights: number;
+  claimIds: string[];
+}
+
+// A month's payroll moves draft -> reviewed -> approved -> paid -> locked; records are editable in draft only
+export type PayrollRunStatus = 'draft' | 'reviewed' | 'approved' | 'paid' | 'locked';
+
+export interface PayrollRunEvent {
+  from: PayrollRunStatus;
+  to: PayrollRunStatus;
+  by: string;      // admin email
+  byName: string;
+  at: string;
+  note?: string;
+}
+
+// payroll_runs, keyed by period ('YYYY-MM'); a month without a document is a draft
+export interface PayrollRun {
+  id: string;
+  period: string;
+  status: PayrollRunStatus;
+  reviewedBy?: string | null;
+  approvedBy?: string | null;
+  history: PayrollRunEvent[];
+}
+
+// payroll_adjustments: a correction to a locked month, paid (or recovered) in a later open month
+export interface PayrollAdjustment {
+  id: string;
+  driverId: string;
+  driverName?: string;
+  sourcePeriod: string;   // the locked month being corrected
+  targetPeriod: string;   // the month it is paid in
+  line: PayrollLine;
+  amount: number;         // LKR, negative to recover an overpayment
+  reason: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface PayrollDeductions {
+  effectiveFrom: string;   // the rule set applied
+  grossPay: number;
+  contributionBase: number;
+  taxableBase: number;
+  epfEmployee: number;
+  apit: number;
+  totalDeductions: number; // taken from the driver's pay
+  netPay: number;
+  epfEmployer: number;
+  etfEmployer: number;
+  employerCost: number;    // gross pay plus employer contributions
+}
+
+// paysheet_distributions: one emailed paysheet; the version is the record's savedAt when it was sent
+export interface PaysheetDistribution {
+  id: string;
+  period: string;
+  driverId: string;
+  driverName: string;
+  recordId: string;
+  recordSavedAt: string;
+  netPay: number;
+  recipient: string;
+  status: 'sent' | 'failed';
+  error: string | null;
+  sentBy: string;
+  sentAt: string;
+}
+
+// One document per driver per month, keyed `${driverId}-${period}` (period = 'YYYY-MM')
+export interface PayrollRecord {
+  id: string;
+  driverId: string;
+  driverName?: string;
+  period: string;
+  salary?: number;
+  fuelAllowance?: number;
+  mobileAllowance?: number;
+  mealExpenses?: number;
+  otherExpenses?: number;
+  fineReimbursement?: number;
+  dutyHours?: number;     // from trip start/end times in the month
+  overtimeHours?: number;
+  computed?: PayrollLines;             // what the calculator produced when saved
+  overrides?: PayrollLineOverride[];   // admin changes to computed lines; salary etc. hold the final values
+  basis?: PayrollBasis;
+  adjustments?: PayrollAdjustment[];   // corrections to locked months carried into this one
+  adjustmentTotal?: number;
+  grossPay?: number;
+  deductions?: PayrollDeductions;      // totalPayout is net of these
+  totalPayout?: number;
+  savedBy?: string;
+  savedAt?: string;
+  [key: string]: any;
+}
@@ -0,0 +1,161 @@
+import { Trip } from '../types';
+import { ASSIGNED_TRIP_STATUSES, tripStatusIn } from './tripTransitions';
+
+// --- TIME-WINDOW AVAILABILITY ---
+// A driver or vehicle is blocked only when one of its assigned trips overlaps the requested window,
+// so the same car can run a morning airport drop and an evening pickup on the same day.
+
+// Planning assumptions for estimating how long a trip holds its driver/vehicle
+export const AVERAGE_SPEED_KMH = 40;
+export const MIN_TRIP_MINUTES = 60;
+export const TURNAROUND_MINUTES = 30; // refuel, clean-up and travel back to the next pickup
+
+const MINUTE = 60 * 1000;
+
+export interface TimeWindow {
+    start: number; // epoch ms
+    end: number;   // epoch ms
+}
+
+export interface BusyInterval extends TimeWindow {
+    tripId: string;
+    serialNumber?: string;
+}
+
+export interface Availability {
+    available: boolean;
+    reason?: string;
+}
+
+// "161.7 km" -> 161.7
+export const parseDistanceKm = (distance?: string | number | null) => {
+    if (typeof distance === 'number') return distance;
+    const match = distance?.match(/([\d.]+)/);
+    return parseFloat(match?.[1] || '0');
+};
+
+export const estimateTripDurationMinutes = (distanceKm: number) => {
+    const driving = Math.ceil((distanceKm / AVERAGE_SPEED_KMH) * 60);
+    return Math.max(driving, MIN_TRIP_MINUTES) + TURNAROUND_MINUTES;
+};
+
+/**
+ * Builds a window from a booking date ("YYYY-MM-DD"), optional time ("HH:mm") and distance.
+ * Without a time the booking could run at any hour, so it holds the whole day.
+ */
+export const getBookingWindow = (date: string, time: string | undefined, distanceKm: number): TimeWindow | null => {
+    if (!date) return null;
+
+    if (!time) {
+        const start = new Date(`${date}T00:00`).getTime();
+        if (isNaN(start)) return null;
+        return { start, end: start + 24 * 60 * MINUTE };
+    }
+
+    const start = new Date(`${date}T${time}`).getTime();
+    if (isNaN(start)) return null;
+    return { start, end: start + estimateTripDurationMinutes(distanceKm) * MINUTE };
+};
+
+// Window a trip occupies. A trip still in progress past its estimate keeps holding its resources until now.
+export const getTripWindow = (trip: Trip): TimeWindow | null => {
+    const window = getBookingWindow(trip.date, trip.time, parseDistanceKm(trip.distance));
+    if (!window) return null;
+
+    if (trip.status === 'in-progress') {
+        return { ...window, end: Math.max(window.end, Date.now() + TURNAROUND_MINUTES * MINUTE) };
+    }
+    return window;
+};
+
+// A breakdown replacement leaves now and still has to cover the trip's estimated duration
+export const getReassignmentWindow = (trip: Trip): TimeWindow => {
+    const start = Date.now();
+    return { start, end: start + estimateTripDurationMinutes(parseDistanceKm(trip.distance)) * MINUTE };
+};
+
+// Smallest window covering all of the given ones (used when two trips merge into one run)
+export const spanWindows = (...windows: (TimeWindow | null)[]): TimeWindow | null => {
+    const valid = windows.filter((w): w is TimeWindow => !!w);
+    if (valid.length === 0) return null;
+    return {
+        start: Math.min(...valid.map(w => w.start)),
+        end: Math.max(...valid.map(w => w.end)),
+    };
+};
+
+// "2026-10-19" -> "2026-10-18". Late trips from the day before can still be running the next morning.
+export const previousDateKey = (date: string) => {
+    const d = new Date(`${date}T00:00`);
+    d.setDate(d.getDate() - 1);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const windowsOverlap = (a: TimeWindow, b: TimeWindow) => a.start < b.end && b.start < a.end;
+
+const formatClock = (ms: number) => {
+    const d = new Date(ms);
+    return `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+export const formatWindow = (window: TimeWindow) => {
+    const sameDay = new Date(window.start).toDateString() === new Date(window.end).toDateString();
+    const end = sameDay ? formatClock(window.end) : `${new Date(window.end).toLocaleDateString()} ${formatClock(window.end)}`;
+    return `${formatClock(window.start)}–${end}`;
+};
+
+/**
+ * Groups the busy windows of every assigned trip by vehicle and driver.
+ * @param excludeTripIds Trips being re-planned (e.g. the one being approved or merged) so they do not block themselves.
+ */
+export const buildBusyIntervals = (trips: Trip[], excludeTripIds: string[] = []) => {
+    const byVehicle: Record<string, BusyInterval[]> = {};
+    const byDriver: Record<string, BusyInterval[]> = {};
+
+    trips
+        .filter(t => tripStatusIn(t, ASSIGNED_TRIP_STATUSES) && !excludeTripIds.includes(t.id))
+        .forEach(t => {
+            const window = getTripWindow(t);
+            if (!window) return;
+            const interval: BusyInterval = { ...window, tripId: t.id, serialNumber: t.serialNumber };
+
+            if (t.vehicleId) (byVehicle[t.vehicleId] ||= []).push(interval);
+            if (t.driverId) (byDriver[t.driverId] ||= []).push(interval);
+        });
+
+    return { byVehicle, byDriver };
+};
+
+export type BusyIntervals = ReturnType<typeof buildBusyIntervals>;
+
+const findConflict = (intervals: BusyInterval[] | undefined, window: TimeWindow) => {
+    return intervals?.find(i => windowsOverlap(i, window));
+};
+
+const describeConflict = (conflict: BusyInterval) => {
+    return `Booked on #${conflict.serialNumber || conflict.tripId} ${formatWindow(conflict)}`;
+};
+
+export const getVehicleAvailability = (
+    vehicle: { id: string; status?: string },
+    window: TimeWindow | null,
+    busy: BusyIntervals
+): Availability => {
+    if (vehicle.status === 'in-maintenance') return { available: false, reason: 'In maintenance' };
+    if (!window) return { available: true };
+
+    const conflict = findConflict(busy.byVehicle[vehicle.id], window);
+    return conflict ? { available: false, reason: describeConflict(conflict) } : { available: true };
+};
+
+export const getDriverAvailability = (
+    driver: { id: string; status?: string },
+    window: TimeWindow | null,
+    busy: BusyIntervals
+): Availability => {
+    if (driver.status === 'in-maintenance') return { available: false, reason: 'Unavailable' };
+    if (!window) return { available: true };
+
+    const conflict = findConflict(busy.byDriver[driver.id], window);
+    return conflict ? { available: false, reason: describeConflict(conflict) } : { available: true };
+};
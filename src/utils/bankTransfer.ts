@@ -0,0 +1,144 @@
+import { BankAccount, BankTransferColumn, BankTransferField, BankTransferSettings, Driver, PayrollRecord } from '../types';
+
+// --- BANK TRANSFER FILE ---
+// A finalised month's net pay as one bulk-transfer file for the bank portal: a detail record per driver
+// paid, laid out as CSV or fixed-width columns from settings/bankTransfer, then a control record with
+// the record count and control total the bank checks the upload against. Amounts are summed in cents.
+
+export const BANK_TRANSFER_FIELD_LABELS: Record<BankTransferField, string> = {
+    bankCode: 'Bank Code',
+    branchCode: 'Branch Code',
+    accountNumber: 'Account Number',
+    accountName: 'Account Name',
+    amount: 'Amount (LKR)',
+    amountCents: 'Amount (cents)',
+    reference: 'Reference',
+    epfNumber: 'EPF Number',
+};
+
+type BankAccountField = 'bankName' | 'bankCode' | 'branchCode' | 'accountNumber' | 'accountName';
+
+export const BANK_ACCOUNT_FIELD_LABELS: Record<BankAccountField, string> = {
+    bankName: 'Bank',
+    bankCode: 'Bank Code',
+    branchCode: 'Branch Code',
+    accountNumber: 'Account Number',
+    accountName: 'Account Name',
+};
+
+// Codes and account numbers the portal accepts: digits only
+const NUMERIC_FIELDS: BankAccountField[] = ['bankCode', 'branchCode', 'accountNumber'];
+
+export interface BankTransferRow {
+    driverId: string;
+    driverName: string;
+    epfNumber: string;
+    account: BankAccount;
+    amountCents: number;
+}
+
+export interface BankTransferFile {
+    content: string;
+    recordCount: number;
+    controlTotal: number; // LKR
+    controlTotalCents: number;
+}
+
+// What is missing or malformed in a driver's bank details, empty when the account can be paid into
+export const getBankAccountProblems = (account: BankAccount | null | undefined): string[] => {
+    if (!account) return ['no bank details'];
+    const fields = Object.keys(BANK_ACCOUNT_FIELD_LABELS) as BankAccountField[];
+    const problems = fields.filter(f => !String(account[f] || '').trim()).map(f => `no ${BANK_ACCOUNT_FIELD_LABELS[f].toLowerCase()}`);
+    NUMERIC_FIELDS.forEach(f => {
+        const value = String(account[f] || '').trim();
+        if (value && !/^\d+$/.test(value)) problems.push(`${BANK_ACCOUNT_FIELD_LABELS[f].toLowerCase()} is not numeric`);
+    });
+    return problems;
+};
+
+/**
+ * The period's saved records with net pay to transfer, split into rows ready for the file and drivers
+ * whose bank details stop the export.
+ */
+export const prepareBankTransfer = (records: PayrollRecord[], drivers: Driver[]) => {
+    const rows: BankTransferRow[] = [];
+    const missing: { driverId: string, driverName: string, problems: string[] }[] = [];
+
+    records.filter(r => Number(r.totalPayout) > 0).forEach(record => {
+        const driver = drivers.find(d => d.id === record.driverId);
+        const driverName = record.driverName || driver?.fullName || driver?.name || record.driverId;
+        const problems = driver ? getBankAccountProblems(driver.bankAccount) : ['driver profile not found'];
+        if (problems.length > 0) {
+            missing.push({ driverId: record.driverId, driverName, problems });
+            return;
+        }
+        rows.push({
+            driverId: record.driverId,
+            driverName,
+            epfNumber: driver!.epfNumber || '',
+            account: driver!.bankAccount!,
+            amountCents: Math.round(Number(record.totalPayout) * 100),
+        });
+    });
+    return { rows, missing };
+};
+
+const getFieldValue = (row: BankTransferRow, field: BankTransferField, reference: string) => {
+    switch (field) {
+        case 'bankCode': return row.account.bankCode.trim();
+        case 'branchCode': return row.account.branchCode.trim();
+        case 'accountNumber': return row.account.accountNumber.trim();
+        case 'accountName': return row.account.accountName.trim().toUpperCase();
+        case 'amount': return (row.amountCents / 100).toFixed(2);
+        case 'amountCents': return String(row.amountCents);
+        case 'reference': return reference;
+        case 'epfNumber': return row.epfNumber;
+    }
+};
+
+// Numbers are zero-filled, text space-filled; text longer than the column is cut, a number never is
+const fitColumn = (value: string, column: BankTransferColumn) => {
+    const numeric = /^\d+(\.\d+)?$/.test(value) && column.align === 'right';
+    if (value.length > column.width) return numeric ? null : value.slice(0, column.width);
+    return column.align === 'right' ? value.padStart(column.width, numeric ? '0' : ' ') : value.padEnd(column.width, ' ');
+};
+
+const quoteCsv = (value: string, delimiter: string) => {
+    return value.includes(delimiter) || value.includes('"') ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Drivers whose figures do not fit the fixed-width layout (an account number or amount wider than its
+ * column). Always empty for CSV.
+ */
+export const getBankTransferOverflows = (rows: BankTransferRow[], settings: BankTransferSettings, period: string) => {
+    if (settings.format !== 'fixed-width') return [];
+    const reference = settings.reference.replace('{period}', period);
+    return rows.flatMap(row => settings.columns
+        .filter(column => fitColumn(getFieldValue(row, column.field, reference), column) === null)
+        .map(column => `${row.driverName}: ${BANK_TRANSFER_FIELD_LABELS[column.field]} does not fit in ${column.width} characters`));
+};
+
+export const buildBankTransferFile = (rows: BankTransferRow[], settings: BankTransferSettings, period: string): BankTransferFile => {
+    const reference = settings.reference.replace('{period}', period);
+    const controlTotalCents = rows.reduce((sum, row) => sum + row.amountCents, 0);
+    const controlTotal = (controlTotalCents / 100).toFixed(2);
+    const lines: string[] = [];
+
+    if (settings.format === 'fixed-width') {
+        rows.forEach(row => {
+            lines.push(settings.columns.map(column => fitColumn(getFieldValue(row, column.field, reference), column) ?? '').join(''));
+        });
+        // Control record: type, record count, total in cents, debit account
+        lines.push(['T', String(rows.length).padStart(6, '0'), String(controlTotalCents).padStart(15, '0'), settings.debitAccountNumber.padEnd(12, ' ')].join(''));
+    } else {
+        const d = settings.delimiter || ',';
+        if (settings.includeHeader) lines.push(settings.columns.map(column => quoteCsv(BANK_TRANSFER_FIELD_LABELS[column.field], d)).join(d));
+        rows.forEach(row => {
+            lines.push(settings.columns.map(column => quoteCsv(getFieldValue(row, column.field, reference), d)).join(d));
+        });
+        lines.push(['CONTROL', String(rows.length), controlTotal, settings.debitAccountNumber].map(v => quoteCsv(v, d)).join(d));
+    }
+
+    return { content: lines.join('\r\n') + '\r\n', recordCount: rows.length, controlTotal: controlTotalCents / 100, controlTotalCents };
+};
@@ -0,0 +1,69 @@
+import { LatLng, Trip, TripBreadcrumb } from '../types';
+import { geocodeAddress, haversineKm, routeThrough } from '../routing';
+
+// --- GPS BREADCRUMBS ---
+// While a trip is in progress the driver's phone reports its position continuously; only a throttled
+// subset is stored (trip_requests/{id}/breadcrumbs) so the trail stays cheap to write and to read back.
+// The latest crumb is also copied onto the trip as livePosition for the fleet map and passenger view.
+
+export const BREADCRUMB_MIN_INTERVAL_MS = 30000;  // never more often than this
+export const BREADCRUMB_MIN_DISTANCE_M = 50;      // ...and only once the vehicle has moved this far
+export const BREADCRUMB_MAX_INTERVAL_MS = 120000; // a parked vehicle still reports, so it does not look lost
+export const BREADCRUMB_MAX_ACCURACY_M = 100;     // coarser fixes (cell towers, indoors) are dropped
+export const LIVE_POSITION_STALE_MS = 5 * 60000;
+export const PICKUP_ARRIVAL_KM = 0.2;             // within this the vehicle is shown as arrived
+
+export const toBreadcrumb = (position: GeolocationPosition): TripBreadcrumb => {
+    const { latitude, longitude, speed, heading, accuracy } = position.coords;
+    return {
+        lat: latitude,
+        lng: longitude,
+        speedKmh: speed === null || isNaN(speed) ? null : Math.round(speed * 3.6),
+        heading: heading === null || isNaN(heading) ? null : Math.round(heading),
+        accuracyM: accuracy === null || isNaN(accuracy) ? null : Math.round(accuracy),
+        recordedAt: new Date(position.timestamp).toISOString(),
+    };
+};
+
+// True when `next` should be stored, given the last crumb that was
+export const shouldRecordBreadcrumb = (last: TripBreadcrumb | null, next: TripBreadcrumb) => {
+    if (next.accuracyM !== null && next.accuracyM > BREADCRUMB_MAX_ACCURACY_M) return false;
+    if (!last) return true;
+
+    const elapsed = new Date(next.recordedAt).getTime() - new Date(last.recordedAt).getTime();
+    if (elapsed < BREADCRUMB_MIN_INTERVAL_MS) return false;
+    if (elapsed >= BREADCRUMB_MAX_INTERVAL_MS) return true;
+    return haversineKm(last, next) * 1000 >= BREADCRUMB_MIN_DISTANCE_M;
+};
+
+export const isLivePositionStale = (crumb: Pick<TripBreadcrumb, 'recordedAt'> | null | undefined, now = new Date()) => {
+    if (!crumb) return true;
+    return now.getTime() - new Date(crumb.recordedAt).getTime() > LIVE_POSITION_STALE_MS;
+};
+
+// "2 min ago" style age of a position fix
+export const describePositionAge = (crumb: Pick<TripBreadcrumb, 'recordedAt'>, now = new Date()) => {
+    const minutes = Math.floor((now.getTime() - new Date(crumb.recordedAt).getTime()) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes} min ago`;
+    return `${Math.floor(minutes / 60)} h ${minutes % 60} min ago`;
+};
+
+export interface PickupEta {
+    distanceKm: number;
+    durationMinutes: number;
+    arrivesAt: string; // ISO
+}
+
+// Driving distance and time from the vehicle's last position to the trip pickup
+export const getEtaToPickup = async (trip: Pick<Trip, 'pickup' | 'pickupCoords'>, from: LatLng): Promise<PickupEta | null> => {
+    const pickup = trip.pickupCoords || await geocodeAddress(trip.pickup);
+    if (!pickup) return null;
+
+    const route = await routeThrough([from, pickup]);
+    return {
+        distanceKm: Math.round(route.distanceKm * 10) / 10,
+        durationMinutes: route.durationMinutes,
+        arrivesAt: new Date(Date.now() + route.durationMinutes * 60000).toISOString(),
+    };
+};
@@ -0,0 +1,434 @@
+import { FuelLog, GpsFix, LatLng, OdometerReading, PoliceClaim, Trip, TripStatus, VehicleInspection } from '../types';
+import { ClaimRepository, FuelLogRepository, InspectionRepository, TripRepository, VehicleRepository, appendToArray } from '../repositories';
+import { logAction } from './auditLogger';
+import { STARTABLE_TRIP_STATUSES, tripStatusIn } from './tripTransitions';
+import { getCompletionCostPatch } from './finalCosting';
+import { recordOdometerChecks, toOdometerReading } from './odometerChecks';
+import { recordStartContinuity, recordVehicleOdometer } from './odometerContinuity';
+import { describeFailedInspection } from './inspections';
+
+// --- DRIVER OUTBOX ---
+// Driver actions are saved on the device first and replayed against the store in the order they were
+// taken, so a trip can be started or ended in an estate with no signal. Each action keeps the time and
+// GPS fix of when the driver performed it. Before replaying, the trip is re-read: if an admin reassigned
+// or closed it in the meantime the action is held as a conflict for the driver to resolve.
+
+export type OutboxActionKind = 'inspection' | 'trip-start' | 'trip-end' | 'breakdown' | 'fine-claim' | 'fuel-log';
+export type OutboxEntryState = 'queued' | 'conflict' | 'failed';
+
+export interface OutboxEntry {
+    id: string;
+    kind: OutboxActionKind;
+    tripId: string;                  // '' for actions not tied to a trip (a fuel fill between trips)
+    tripSerialNumber?: string;
+    expectedDriverId: string | null; // the trip's driver when the action was taken
+    actorEmail: string;
+    recordedAt: string;              // ISO time of the driver's action, used as startedAt / endedAt etc.
+    gps: GpsFix | null;              // the phone's last fix when the action was taken
+    payload: Record<string, any>;
+    state: OutboxEntryState;
+    attempts: number;
+    lastError?: string;
+}
+
+export type NewOutboxEntry = Omit<OutboxEntry, 'id' | 'state' | 'attempts' | 'lastError'>;
+
+export interface OutboxStatus {
+    online: boolean;
+    syncing: boolean;
+    queued: number;
+    blocked: OutboxEntry[]; // conflicts and failures waiting on the driver
+    lastSyncedAt: string | null;
+}
+
+const STORAGE_KEY = 'cvfms.driverOutbox';
+const MAX_ATTEMPTS = 5;          // non-network errors before an entry is parked as failed
+const SYNC_INTERVAL_MS = 30000;
+const REPLAY_TIMEOUT_MS = 20000; // a write the server never acknowledges (weak signal) counts as offline
+
+export class OutboxConflictError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'OutboxConflictError';
+    }
+}
+
+// The phone's storage has no room for the action (receipt and ticket photos are kept until synced)
+export class OutboxStorageFullError extends Error {
+    constructor() {
+        super("This phone's storage is full, so the action could not be saved. Connect to sync the actions already waiting, or free up space, then try again.");
+        this.name = 'OutboxStorageFullError';
+    }
+}
+
+class ReplayTimeoutError extends Error {
+    constructor() {
+        super('No response from the server.');
+        this.name = 'ReplayTimeoutError';
+    }
+}
+
+// --- Storage ---
+
+const readEntries = (): OutboxEntry[] => {
+    try {
+        return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    } catch {
+        return [];
+    }
+};
+
+const isQuotaExceeded = (error: any) => {
+    return error?.name === 'QuotaExceededError' || error?.name === 'NS_ERROR_DOM_QUOTA_REACHED' || error?.code === 22;
+};
+
+const writeEntries = (entries: OutboxEntry[]) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    } catch (error) {
+        if (isQuotaExceeded(error)) throw new OutboxStorageFullError();
+        throw error;
+    }
+    notify();
+};
+
+const updateEntry = (id: string, patch: Partial<OutboxEntry>) => {
+    writeEntries(readEntries().map(e => e.id === id ? { ...e, ...patch } : e));
+};
+
+const removeEntry = (id: string) => {
+    writeEntries(readEntries().filter(e => e.id !== id));
+};
+
+// --- Status ---
+
+let syncing = false;
+let lastSyncedAt: string | null = null;
+const listeners = new Set<(status: OutboxStatus) => void>();
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+export const getOutboxStatus = (): OutboxStatus => {
+    const entries = readEntries();
+    return {
+        online: isOnline(),
+        syncing,
+        queued: entries.filter(e => e.state === 'queued').length,
+        blocked: entries.filter(e => e.state !== 'queued'),
+        lastSyncedAt,
+    };
+};
+
+function notify() {
+    const status = getOutboxStatus();
+    listeners.forEach(listener => listener(status));
+}
+
+export const subscribeOutbox = (listener: (status: OutboxStatus) => void) => {
+    listeners.add(listener);
+    listener(getOutboxStatus());
+    return () => { listeners.delete(listener); };
+};
+
+// Firestore reports lost connectivity as 'unavailable'; fetch-based calls as network TypeErrors
+const isConnectivityError = (error: any) => {
+    return !isOnline() || error instanceof ReplayTimeoutError || error?.code === 'unavailable' || /offline|network|failed to fetch/i.test(error?.message || '');
+};
+
+// --- Replay ---
+
+const gpsText = (gps: LatLng | null) => gps ? `${gps.lat},${gps.lng}` : null;
+
+// Throws a conflict unless the trip is still this driver's and in one of the expected statuses
+const assertTripUnchanged = (trip: Trip | null, entry: OutboxEntry, allowed: TripStatus[]) => {
+    if (!trip) throw new OutboxConflictError('The trip no longer exists.');
+    if (entry.expectedDriverId && trip.driverId !== entry.expectedDriverId) {
+        throw new OutboxConflictError(`The trip was reassigned to ${trip.driverName || 'another driver'} while you were offline.`);
+    }
+    if (!tripStatusIn(trip, allowed)) {
+        throw new OutboxConflictError(`The trip is now '${trip.status}' and can no longer take this action.`);
+    }
+};
+
+// Plausibility checks flag the reading for review; they never fail the action itself
+const runOdometerChecks = async (trip: Trip, reading: OdometerReading, entry: OutboxEntry, kmRun?: number) => {
+    try {
+        await recordOdometerChecks(trip, reading, entry.id, kmRun);
+    } catch (error) {
+        console.error("Error checking odometer reading:", error);
+    }
+};
+
+// Keeps the vehicle's last known odometer in step (checking starts against it); never fails the action
+const runOdometerContinuity = async (trip: Trip, reading: OdometerReading, entry: OutboxEntry) => {
+    try {
+        if (reading.kind === 'start') await recordStartContinuity(trip, reading, entry.id);
+        else await recordVehicleOdometer(trip.vehicleId, reading.odometer, reading.recordedAt, reading.kind === 'end' ? 'trip-end' : 'breakdown', entry.id, trip.id);
+    } catch (error) {
+        console.error("Error updating vehicle odometer:", error);
+    }
+};
+
+const REPLAYERS: Record<OutboxActionKind, (entry: OutboxEntry) => Promise<void>> = {
+    // Stores the inspection; a failed critical item also grounds the trip before it starts
+    'inspection': async (entry) => {
+        const { inspectionId, ...inspection } = entry.payload as Omit<VehicleInspection, 'id' | 'inspectedAt' | 'gps'> & { inspectionId: string };
+        await InspectionRepository.createWithId(inspectionId, { ...inspection, inspectedAt: entry.recordedAt, gps: entry.gps });
+        if (inspection.passed) return;
+
+        const trip = await TripRepository.get(entry.tripId);
+        if (trip?.status === 'broken-down' && trip.inspectionId === inspectionId) return;
+        assertTripUnchanged(trip, entry, STARTABLE_TRIP_STATUSES);
+
+        // Opens a repair on the vehicle so it is closed through the usual Mark Repair Done
+        const reason = describeFailedInspection(inspection.failedCritical);
+        if (trip!.vehicleId) {
+            await VehicleRepository.update(trip!.vehicleId, {
+                repairs: appendToArray({
+                    status: 'in-progress',
+                    issue: reason,
+                    date: entry.recordedAt.split('T')[0],
+                    reportedBy: inspection.driverName || entry.actorEmail,
+                    timestamp: entry.recordedAt,
+                    inspectionId,
+                }),
+            });
+        }
+
+        // The passengers are still at the pickup, so that is where the replacement is sent
+        await TripRepository.transition(entry.tripId, 'broken-down', {
+            breakdownSource: 'inspection',
+            breakdownReason: reason,
+            breakdownLocation: trip!.pickup,
+            breakdownGPS: gpsText(trip!.pickupCoords || null) || 'N/A',
+            breakdownOdometer: null,
+            lastVisitedStop: null,
+            cancelledAt: entry.recordedAt,
+            inspectionId,
+        });
+
+        await logAction(entry.actorEmail, 'Trip Approval', 'INSPECTION_FAILED',
+            `Vehicle ${trip!.vehicleNumber} failed the pre-trip inspection for trip #${entry.tripSerialNumber}: ${inspection.failedCritical.join(', ')}`,
+            { targetId: entry.tripId, inspectionId, vehicleId: trip!.vehicleId || null }
+        );
+    },
+
+    'trip-start': async (entry) => {
+        const trip = await TripRepository.get(entry.tripId);
+        // Already applied by an earlier replay that did not get to clear the entry
+        if (trip?.status === 'in-progress' && trip.odometerStart === entry.payload.odometerStart) return;
+        assertTripUnchanged(trip, entry, STARTABLE_TRIP_STATUSES);
+
+        const reading = toOdometerReading('start', entry.payload.odometerStart, entry.gps, entry.recordedAt);
+        await TripRepository.transition(entry.tripId, 'in-progress', {
+            startedAt: entry.recordedAt,
+            odometerStart: entry.payload.odometerStart,
+            startGPS: gpsText(entry.gps),
+            startReading: reading,
+            inspectionId: entry.payload.inspectionId || null,
+        });
+        await runOdometerChecks(trip!, reading, entry);
+        await runOdometerContinuity(trip!, reading, entry);
+    },
+
+    'trip-end': async (entry) => {
+        const trip = await TripRepository.get(entry.tripId);
+        if (trip?.status === 'completed' && trip.odometerEnd === entry.payload.odometerEnd) return;
+        assertTripUnchanged(trip, entry, ['in-progress']);
+
+        const completion = { endedAt: entry.recordedAt, waitingMinutes: entry.payload.waitingMinutes || 0, kmRun: entry.payload.kmRun };
+        let costPatch = {};
+        try {
+            costPatch = await getCompletionCostPatch(trip!, completion);
+        } catch (error) {
+            console.error("Error pricing completed trip:", error); // completion must not fail on pricing
+        }
+
+        // Releases the vehicle and this driver
+        const reading = toOdometerReading('end', entry.payload.odometerEnd, entry.gps, entry.recordedAt);
+        await TripRepository.transition(entry.tripId, 'completed', {
+            ...completion,
+            odometerEnd: entry.payload.odometerEnd,
+            endGPS: gpsText(entry.gps),
+            endReading: reading,
+            ...costPatch,
+        });
+        await runOdometerChecks(trip!, reading, entry, entry.payload.kmRun);
+        await runOdometerContinuity(trip!, reading, entry);
+    },
+
+    'breakdown': async (entry) => {
+        const trip = await TripRepository.get(entry.tripId);
+        if (trip?.status === 'broken-down' && trip.breakdownOdometer === entry.payload.breakdownOdometer) return;
+        assertTripUnchanged(trip, entry, ['in-progress']);
+
+        // Also releases the driver and sends the vehicle to maintenance
+        const reading = toOdometerReading('breakdown', entry.payload.breakdownOdometer, entry.gps, entry.recordedAt);
+        await TripRepository.transition(entry.tripId, 'broken-down', {
+            ...entry.payload,
+            breakdownSource: 'driver',
+            cancelledAt: entry.recordedAt,
+            breakdownGPS: gpsText(entry.gps) || 'N/A',
+            odometerEndPrevious: entry.payload.breakdownOdometer,
+            breakdownReading: reading,
+        });
+        await runOdometerChecks(trip!, reading, entry);
+        await runOdometerContinuity(trip!, reading, entry);
+
+        await logAction(entry.actorEmail, 'Trip Approval', 'BREAKDOWN_REPORTED',
+            `Driver reported breakdown for ${trip!.vehicleNumber} during trip #${entry.tripSerialNumber}. Reason: ${entry.payload.breakdownReason}. Stop: ${entry.payload.lastVisitedStop}`,
+            { targetId: entry.tripId, tripId: entry.tripId, breakdownLocation: entry.payload.breakdownLocation, reportedAt: entry.recordedAt }
+        );
+    },
+
+    // Claims do not depend on the trip's state; the entry id doubles as the claim id
+    'fine-claim': async (entry) => {
+        await ClaimRepository.createWithId(entry.id, { ...(entry.payload as Omit<PoliceClaim, 'id'>), claimedDate: entry.recordedAt });
+    },
+
+    // Likewise for fuel fills, which wait for admin verification before counting anywhere
+    'fuel-log': async (entry) => {
+        await FuelLogRepository.createWithId(entry.id, {
+            ...(entry.payload as Omit<FuelLog, 'id'>),
+            timestamp: entry.recordedAt,
+            gps: entry.gps,
+            source: 'driver',
+            status: 'pending',
+        });
+    },
+};
+
+// With the persistent cache a write only settles once the server acknowledges it, which on a weak signal
+// may be never. The replayers are idempotent, so a write that lands after the timeout is simply replayed.
+const withReplayTimeout = (replay: Promise<void>) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new ReplayTimeoutError()), REPLAY_TIMEOUT_MS);
+    replay.then(resolve, reject).finally(() => clearTimeout(timer));
+});
+
+let flushing: Promise<void> | null = null;
+
+const runFlush = async () => {
+    if (!isOnline()) return;
+    syncing = true;
+    notify();
+
+    try {
+        // Later actions on a trip wait behind an unresolved conflict on the same trip. Actions with no
+        // trip (a fuel fill between trips) block nothing.
+        const blockedTrips = new Set(readEntries().filter(e => e.state !== 'queued' && e.tripId).map(e => e.tripId));
+
+        for (const entry of readEntries().filter(e => e.state === 'queued')) {
+            if (entry.tripId && blockedTrips.has(entry.tripId)) continue;
+            try {
+                await withReplayTimeout(REPLAYERS[entry.kind](entry));
+                removeEntry(entry.id);
+            } catch (error: any) {
+                if (error instanceof OutboxConflictError) {
+                    updateEntry(entry.id, { state: 'conflict', lastError: error.message });
+                    if (entry.tripId) blockedTrips.add(entry.tripId);
+                } else if (isConnectivityError(error)) {
+                    updateEntry(entry.id, { attempts: entry.attempts + 1, lastError: 'Waiting for connection' });
+                    break; // keep the order; try again when back online
+                } else {
+                    const attempts = entry.attempts + 1;
+                    const failed = attempts >= MAX_ATTEMPTS;
+                    updateEntry(entry.id, { attempts, state: failed ? 'failed' : 'queued', lastError: error?.message || String(error) });
+                    if (entry.tripId) blockedTrips.add(entry.tripId);
+                }
+            }
+        }
+        lastSyncedAt = new Date().toISOString();
+    } finally {
+        syncing = false;
+        notify();
+    }
+};
+
+// Replays queued actions; concurrent callers share one run
+export const flushOutbox = () => {
+    if (!flushing) flushing = runFlush().finally(() => { flushing = null; });
+    return flushing;
+};
+
+/**
+ * Queues a driver action and tries to sync straight away. Throws OutboxStorageFullError when the phone
+ * has no room to keep the action.
+ * @returns 'synced' when it reached the store, otherwise the state it was left in.
+ */
+export const submitDriverAction = async (action: NewOutboxEntry): Promise<'synced' | OutboxEntryState> => {
+    const entry: OutboxEntry = {
+        ...action,
+        id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        state: 'queued',
+        attempts: 0,
+    };
+    writeEntries([...readEntries(), entry]);
+    await flushOutbox();
+
+    const after = readEntries().find(e => e.id === entry.id);
+    return after ? after.state : 'synced';
+};
+
+export const getOutboxEntry = (id: string) => readEntries().find(e => e.id === id) || null;
+
+export const retryOutboxEntry = async (id: string) => {
+    updateEntry(id, { state: 'queued', attempts: 0, lastError: undefined });
+    await flushOutbox();
+};
+
+export const discardOutboxEntry = (id: string) => removeEntry(id);
+
+// Shows queued (not yet synced) actions on top of the stored trip, so the screens match what the driver did
+export const applyQueuedActions = <T extends Trip>(trip: T): T => {
+    return readEntries()
+        .filter(e => e.tripId === trip.id && e.state === 'queued')
+        .reduce((current, entry) => {
+            switch (entry.kind) {
+                case 'inspection':
+                    return entry.payload.passed ? current : { ...current, status: 'broken-down', breakdownSource: 'inspection', inspectionId: entry.payload.inspectionId };
+                case 'trip-start':
+                    return { ...current, status: 'in-progress', startedAt: entry.recordedAt, odometerStart: entry.payload.odometerStart };
+                case 'trip-end':
+                    return { ...current, status: 'completed', endedAt: entry.recordedAt, ...entry.payload };
+                case 'breakdown':
+                    return { ...current, status: 'broken-down', ...entry.payload };
+                default:
+                    return current;
+            }
+        }, trip);
+};
+
+// --- Background sync ---
+
+let syncUsers = 0;
+let stopSync: (() => void) | null = null;
+
+// Keeps replaying while at least one driver screen is open: on reconnect and every 30s
+export const startOutboxSync = () => {
+    syncUsers++;
+    if (!stopSync) {
+        const handleOnline = () => { notify(); flushOutbox(); };
+        const handleOffline = () => notify();
+        const handleStorage = (e: StorageEvent) => { if (e.key === STORAGE_KEY) notify(); };
+        const timer = setInterval(() => { if (readEntries().some(e => e.state === 'queued')) flushOutbox(); }, SYNC_INTERVAL_MS);
+
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        window.addEventListener('storage', handleStorage);
+        stopSync = () => {
+            clearInterval(timer);
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+            window.removeEventListener('storage', handleStorage);
+        };
+        flushOutbox();
+    }
+
+    return () => {
+        syncUsers--;
+        if (syncUsers === 0 && stopSync) {
+            stopSync();
+            stopSync = null;
+        }
+    };
+};
@@ -0,0 +1,140 @@
+import { DutySettings, Trip } from '../types';
+import { Availability, TimeWindow, formatWindow, getTripWindow } from './availability';
+import { ASSIGNED_TRIP_STATUSES, tripStatusIn } from './tripTransitions';
+
+// --- DUTY HOURS ---
+// A driver is on duty from a trip's start to its end as driven (or, until it starts, for its planned
+// window). Duty separated by less than the minimum rest counts as one shift. A driver is not offered
+// for a trip that would take the shift past the daily limit, leave less than the minimum rest in the
+// day, or take the last seven days past the weekly limit. Duty above the standard day is overtime.
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export interface DutyInterval extends TimeWindow {
+    tripId: string;
+    serialNumber?: string;
+    planned: boolean; // not started yet: the booking's estimated window
+}
+
+export interface DutyShift extends TimeWindow {
+    dutyMs: number;   // time actually on duty, breaks excluded
+    intervals: DutyInterval[];
+}
+
+const hours1 = (ms: number) => Math.round(ms / HOUR * 10) / 10;
+
+export const getTripDutyInterval = (trip: Trip, now: number = Date.now()): DutyInterval | null => {
+    const ids = { tripId: trip.id, serialNumber: trip.serialNumber };
+    const started = trip.startedAt ? new Date(trip.startedAt).getTime() : NaN;
+
+    if (trip.status === 'in-progress' && !isNaN(started)) return { ...ids, start: started, end: Math.max(started, now), planned: false };
+    if (trip.status === 'completed' || trip.status === 'broken-down') {
+        const ended = new Date(trip.endedAt || trip.cancelledAt || '').getTime();
+        return !isNaN(started) && !isNaN(ended) && ended >= started ? { ...ids, start: started, end: ended, planned: false } : null;
+    }
+    if (tripStatusIn(trip, ASSIGNED_TRIP_STATUSES)) {
+        const window = getTripWindow(trip);
+        return window ? { ...ids, ...window, planned: true } : null;
+    }
+    return null;
+};
+
+export const getDriverDutyIntervals = (driverId: string, trips: Trip[], excludeTripIds: string[] = [], now: number = Date.now()) => {
+    return trips
+        .filter(t => t.driverId === driverId && !excludeTripIds.includes(t.id))
+        .map(t => getTripDutyInterval(t, now))
+        .filter((i): i is DutyInterval => !!i);
+};
+
+// Length of the union of the intervals, clipped to [from, to]
+const dutyWithin = (intervals: TimeWindow[], from = -Infinity, to = Infinity) => {
+    let total = 0;
+    let coveredTo = -Infinity;
+    [...intervals].sort((a, b) => a.start - b.start).forEach(i => {
+        const start = Math.max(i.start, from, coveredTo);
+        const end = Math.min(i.end, to);
+        if (end > start) total += end - start;
+        coveredTo = Math.max(coveredTo, i.end);
+    });
+    return total;
+};
+
+export const buildDutyShifts = (intervals: DutyInterval[], minRestHours: number): DutyShift[] => {
+    const shifts: DutyShift[] = [];
+    [...intervals].sort((a, b) => a.start - b.start).forEach(interval => {
+        const current = shifts[shifts.length - 1];
+        if (current && interval.start - current.end < minRestHours * HOUR) {
+            current.intervals.push(interval);
+            current.end = Math.max(current.end, interval.end);
+        } else {
+            shifts.push({ start: interval.start, end: interval.end, dutyMs: 0, intervals: [interval] });
+        }
+    });
+    shifts.forEach(shift => { shift.dutyMs = dutyWithin(shift.intervals); });
+    return shifts;
+};
+
+/**
+ * Whether taking on `window` keeps the driver within the duty rules.
+ * @param excludeTripIds Trips being re-planned, which must not count against their own driver.
+ */
+export const getDriverDutyAvailability = (
+    driverId: string,
+    window: TimeWindow | null,
+    trips: Trip[],
+    settings: DutySettings,
+    excludeTripIds: string[] = []
+): Availability => {
+    if (!window) return { available: true };
+    const candidate: DutyInterval = { ...window, tripId: '', planned: true };
+    const intervals = [...getDriverDutyIntervals(driverId, trips, excludeTripIds), candidate];
+
+    const shift = buildDutyShifts(intervals, settings.minRestHours).find(s => s.intervals.includes(candidate))!;
+    if (shift.dutyMs > settings.maxDailyHours * HOUR) {
+        return { available: false, reason: `Would reach ${hours1(shift.dutyMs)} h duty in the shift (limit ${settings.maxDailyHours} h)` };
+    }
+    if (shift.end - shift.start > DAY - settings.minRestHours * HOUR) {
+        return { available: false, reason: `Less than ${settings.minRestHours} h rest: on duty ${formatWindow(shift)}` };
+    }
+
+    const weekMs = dutyWithin(intervals, window.end - 7 * DAY, window.end);
+    if (weekMs > settings.maxWeeklyHours * HOUR) {
+        return { available: false, reason: `Would reach ${hours1(weekMs)} h duty in 7 days (limit ${settings.maxWeeklyHours} h)` };
+    }
+    return { available: true };
+};
+
+// Duty driven so far today and over the last seven days
+export const getRecentDuty = (driverId: string, trips: Trip[], now: number = Date.now()) => {
+    const driven = getDriverDutyIntervals(driverId, trips, [], now).filter(i => !i.planned);
+    const midnight = new Date(now).setHours(0, 0, 0, 0);
+    return {
+        todayHours: hours1(dutyWithin(driven, midnight, now)),
+        weekHours: hours1(dutyWithin(driven, now - 7 * DAY, now)),
+    };
+};
+
+/**
+ * Driven duty in a payroll month ("YYYY-MM"), with overtime worked out per day (by the day each
+ * stretch of duty started) against the standard day.
+ */
+export const getMonthlyDuty = (driverId: string, trips: Trip[], period: string, settings: DutySettings) => {
+    const byDay: Record<string, DutyInterval[]> = {};
+    getDriverDutyIntervals(driverId, trips)
+        .filter(i => !i.planned)
+        .forEach(i => {
+            const d = new Date(i.start);
+            const day = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+            if (day.startsWith(period)) (byDay[day] ||= []).push(i);
+        });
+
+    let dutyMs = 0;
+    let overtimeMs = 0;
+    Object.values(byDay).forEach(intervals => {
+        const dayMs = dutyWithin(intervals);
+        dutyMs += dayMs;
+        overtimeMs += Math.max(0, dayMs - settings.standardDailyHours * HOUR);
+    });
+    return { dutyHours: hours1(dutyMs), overtimeHours: hours1(overtimeMs), days: Object.keys(byDay).length };
+};
@@ -4,6 +4,8 @@ import emailjs from '@emailjs/browser';
 const SERVICE_ID = import.meta.env.VITE_EMAILJS_SERVICE_ID;
 const TEMPLATE_ID = import.meta.env.VITE_EMAILJS_TEMPLATE_ID_LOGIN; // Generic template ID
 const PUBLIC_KEY = import.meta.env.VITE_EMAILJS_PUBLIC_KEY;
+// Template with a variable attachment named `paysheet_pdf` (EmailJS > Template > Attachments)
+const PAYSHEET_TEMPLATE_ID = import.meta.env.VITE_EMAILJS_TEMPLATE_ID_PAYSHEET;
 
 const APP_URL = "https://transport-system-three.vercel.app"; 
 
@@ -33,29 +35,33 @@ const getSignatureHTML = () => {
 };
 
 // --- 2. Generic Sender Function (FIXED: EmailJS is now live) ---
-const sendEmail = async (toEmail: string, toName: string, subject: string, content: string) => {
-  if (!SERVICE_ID || !TEMPLATE_ID || !PUBLIC_KEY) {
-    console.warn("Email service keys not configured. Skipping email.");
-    return;
-  }
-  
-  const finalContent = content + getSignatureHTML();
-
-  try {
-    const templateParams = {
-      to_email: toEmail,
-      to_name: toName,
-      subject: subject,
-      message_html: finalContent,
-    };
+// Resolves true once EmailJS accepts the message; failures are logged, not thrown
+const sendEmail = async (toEmail: string, toName: string, subject: string, content: string, templateId: string = TEMPLATE_ID, extraParams: Record<string, string> = {}) => {
+  if (!SERVICE_ID || !templateId || !PUBLIC_KEY) {
+    console.warn("Email service keys not configured. Skipping email.");
+    return false;
+  }
+  
+  const finalContent = content + getSignatureHTML();
+
+  try {
+    const templateParams = {
+      to_email: toEmail,
+      to_name: toName,
+      subject: subject,
+      message_html: finalContent,
+      ...extraParams,
+    };
 
     // 💥 FIX: Un-commented the actual EmailJS send call 💥
-    await emailjs.send(SERVICE_ID, TEMPLATE_ID, templateParams, PUBLIC_KEY);
-    console.log(`[EMAIL SENT] To: ${toEmail}, Subject: ${subject}`);
-
-  } catch (error) {
-    console.error("Failed to send email:", error);
-  }
+    await emailjs.send(SERVICE_ID, templateId, templateParams, PUBLIC_KEY);
+    console.log(`[EMAIL SENT] To: ${toEmail}, Subject: ${subject}`);
+    return true;
+
+  } catch (error) {
+    console.error("Failed to send email:", error);
+    return false;
+  }
 };
 
 // --- 3. Exported Functions ---
@@ -181,4 +187,18 @@ export const sendMergeRejectionToCandidate = async (candidateTrip: any, masterTr
         <p>Please submit a new request or contact administration for alternative arrangements.</p>
     `;
     await sendEmail(candidateTrip.email, candidateTrip.customerName, "Trip Consolidation Rejected", body);
-}
\ No newline at end of file
+}
+
+// PAYSHEET: Emails a driver their password-protected paysheet PDF (a data URL) as an attachment
+export const sendPaysheetEmail = async (driverEmail: string, driverName: string, period: string, pdfDataUrl: string) => {
+    const periodName = new Date(period).toLocaleString('en-US', { month: 'long', year: 'numeric' });
+    const body = `
+        <p>Dear ${driverName},</p>
+        <p>Your paysheet for <strong>${periodName}</strong> is attached.</p>
+        <div style="background: #eff6ff; padding: 15px; border-radius: 8px; border: 1px solid #93c5fd;">
+            <p>The PDF is password protected. Open it with your NIC number.</p>
+        </div>
+        <p>If anything on it looks wrong, please contact the transport office.</p>
+    `;
+    return sendEmail(driverEmail, driverName, `Paysheet: ${periodName}`, body, PAYSHEET_TEMPLATE_ID, { paysheet_pdf: pdfDataUrl });
+};
@@ -0,0 +1,90 @@
+import { CostReviewStatus, FinalCosting, Trip, TripQuote } from '../types';
+import { parseDistanceKm } from './availability';
+import { priceSavedTrip, quoteToTripPatch } from './tariffs';
+import { SettingsRepository, VehicleRepository } from '../repositories';
+
+// --- FINAL COSTING ---
+// At completion the trip is re-priced on the odometer km. The booking estimate is kept alongside, and
+// trips whose km or cost moved more than the configured threshold wait for admin review in TripApproval.
+
+// "LKR 1,250.50" -> 1250.5
+export const parseLkr = (cost?: string | number | null) => {
+    if (typeof cost === 'number') return cost;
+    return parseFloat((cost || '').replace(/[^0-9.]/g, '')) || 0;
+};
+
+const percentChange = (actual: number, estimated: number) => {
+    return estimated > 0 ? Math.round(((actual - estimated) / estimated) * 1000) / 10 : 0;
+};
+
+/**
+ * Compares the completion price with the booking estimate still on the trip.
+ * Trips without an estimate are never flagged, there is nothing to compare against.
+ */
+export const buildFinalCosting = (trip: Trip, quote: TripQuote, actualKm: number, thresholdPercent: number): FinalCosting => {
+    const estimatedKm = parseDistanceKm(trip.distance);
+    const estimatedCost = trip.costQuote?.total ?? parseLkr(trip.cost);
+    const kmVariancePercent = percentChange(actualKm, estimatedKm);
+    const costVariancePercent = percentChange(quote.total, estimatedCost);
+    const flagged = estimatedKm > 0 && estimatedCost > 0
+        && (Math.abs(kmVariancePercent) > thresholdPercent || Math.abs(costVariancePercent) > thresholdPercent);
+
+    return {
+        estimatedKm,
+        actualKm,
+        estimatedCost,
+        actualCost: quote.total,
+        estimateQuote: trip.costQuote || null,
+        kmVariancePercent,
+        costVariancePercent,
+        thresholdPercent,
+        flagged,
+        review: flagged ? 'pending' : null,
+        costedAt: new Date().toISOString(),
+    };
+};
+
+// Trip fields written at completion. `cost` becomes the actual; a flagged trip can still be reverted on review.
+export const finalCostingPatch = (trip: Trip, quote: TripQuote, actualKm: number, thresholdPercent: number) => ({
+    ...quoteToTripPatch(quote),
+    finalCosting: buildFinalCosting(trip, quote, actualKm, thresholdPercent),
+});
+
+/**
+ * Cost fields for a trip the driver has just ended. Reassigned trips keep their split settlement,
+ * and trips without a vehicle are left at their estimate.
+ */
+export const getCompletionCostPatch = async (trip: Trip, completion: { endedAt: string; waitingMinutes: number; kmRun: number }) => {
+    if (trip.costBreakdown || !trip.vehicleId) return {};
+    const [vehicle, settings] = await Promise.all([VehicleRepository.get(trip.vehicleId), SettingsRepository.getCosting()]);
+    const quote = await priceSavedTrip(vehicle, { ...trip, ...completion }, completion.kmRun);
+    return vehicle && quote.total > 0 ? finalCostingPatch(trip, quote, completion.kmRun, settings.varianceThresholdPercent) : {};
+};
+
+export const isAwaitingCostReview = (trip: Trip) => !!trip.finalCosting?.flagged && trip.finalCosting.review === 'pending';
+
+// Admin decision on a flagged trip: bill the actual, or fall back to the booking estimate
+export const costReviewPatch = (trip: Trip, decision: Exclude<CostReviewStatus, 'pending'>, reviewedBy: string) => {
+    const costing = trip.finalCosting!;
+    const reviewed: FinalCosting = { ...costing, review: decision, reviewedBy, reviewedAt: new Date().toISOString() };
+
+    if (decision === 'kept-estimate') {
+        return { cost: `LKR ${costing.estimatedCost}`, costQuote: costing.estimateQuote || null, finalCosting: reviewed };
+    }
+    return { cost: `LKR ${costing.actualCost}`, finalCosting: reviewed };
+};
+
+const signed = (percent: number) => `${percent > 0 ? '+' : ''}${percent}%`;
+
+// "Est. LKR 4,000 / Actual LKR 4,600 (+15%)" for completed trips, null before completion
+export const describeCostComparison = (trip: Pick<Trip, 'finalCosting'>) => {
+    const costing = trip.finalCosting;
+    if (!costing) return null;
+    return `Est. LKR ${costing.estimatedCost.toLocaleString()} / Actual LKR ${costing.actualCost.toLocaleString()} (${signed(costing.costVariancePercent)})`;
+};
+
+export const describeKmComparison = (trip: Pick<Trip, 'finalCosting'>) => {
+    const costing = trip.finalCosting;
+    if (!costing) return null;
+    return `Est. ${costing.estimatedKm} km / Actual ${costing.actualKm} km (${signed(costing.kmVariancePercent)})`;
+};
@@ -0,0 +1,166 @@
+import { FuelLog, Trip, Vehicle } from '../types';
+
+// --- FUEL ANOMALIES ---
+// Suspicious fuel activity worked out from `fuel_logs` and trip odometer readings: fills bigger than the
+// tank, KM/L far below what the vehicle usually does, refuels with next to no km driven since the last
+// fill, and odometer readings lower than the one before. Rejected fills are ignored; pending ones count,
+// since a suspicious receipt is exactly what the verifier needs to see.
+
+export type FuelAnomalyCode = 'over-tank' | 'low-km-per-liter' | 'no-km-refuel' | 'odometer-rollback';
+
+export interface FuelAnomaly {
+    id: string;
+    code: FuelAnomalyCode;
+    vehicleId: string | null;
+    vehicleNumber: string;
+    at: string;              // when the offending fill or reading was recorded
+    message: string;
+    fuelLogId: string | null;
+    tripId: string | null;
+}
+
+export const FUEL_ANOMALY_LABELS: Record<FuelAnomalyCode, string> = {
+    'over-tank': 'Fill Exceeds Tank',
+    'low-km-per-liter': 'Low KM/L',
+    'no-km-refuel': 'Refuel Without Driving',
+    'odometer-rollback': 'Odometer Went Backwards',
+};
+
+export interface FuelBaseline {
+    tankLiters: number;
+    kmPerLiter: number;
+}
+
+// Typical tank size and economy per vehicle type; a vehicle's own `tankCapacity` overrides the tank
+export const VEHICLE_TYPE_FUEL_BASELINES: Record<string, FuelBaseline> = {
+    'Car': { tankLiters: 45, kmPerLiter: 12 },
+    'Van': { tankLiters: 70, kmPerLiter: 9 },
+    'Bike': { tankLiters: 15, kmPerLiter: 40 },
+    'Bus': { tankLiters: 200, kmPerLiter: 4 },
+    'Lorry': { tankLiters: 150, kmPerLiter: 5 },
+    'Jeep': { tankLiters: 80, kmPerLiter: 8 },
+    'Three Wheeler': { tankLiters: 10, kmPerLiter: 25 },
+};
+const DEFAULT_FUEL_BASELINE: FuelBaseline = { tankLiters: 70, kmPerLiter: 9 };
+
+export const TANK_OVERFILL_TOLERANCE = 0.05;  // pump and gauge slack before a fill counts as too big
+export const LOW_KM_PER_LITER_RATIO = 0.65;   // flagged below 65% of the rolling average
+export const KM_PER_LITER_ROLLING_FILLS = 5;  // segments in the rolling average
+export const MIN_ROLLING_SEGMENTS = 3;        // until then the type baseline stands in
+export const NO_KM_REFUEL_KM = 10;            // km since the last fill below which a refuel is suspicious
+export const FUEL_ANOMALY_ALERT_DAYS = 30;    // how long an anomaly keeps its vehicle on the critical list
+
+export const getFuelBaseline = (vehicle: Pick<Vehicle, 'type'> & { tankCapacity?: number | string } | null | undefined): FuelBaseline => {
+    const base = VEHICLE_TYPE_FUEL_BASELINES[vehicle?.type || ''] || DEFAULT_FUEL_BASELINE;
+    const tank = Number(vehicle?.tankCapacity);
+    return tank > 0 ? { ...base, tankLiters: tank } : base;
+};
+
+interface OdometerPoint {
+    vehicleNumber: string;
+    odometer: number;
+    at: string;
+    source: string;          // "Fuel log (2024-05-01)" / "Trip #B12 start"
+    fuelLogId: string | null;
+    tripId: string | null;
+}
+
+const fillTime = (log: FuelLog) => log.timestamp || log.date || '';
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Odometer numbers a trip recorded, each credited to the vehicle it was read from. A reassigned trip's
+// breakdown reading (and its start, unless restarted after the breakdown) belongs to the original vehicle.
+const tripOdometerPoints = (trip: Trip): OdometerPoint[] => {
+    const label = `Trip #${trip.serialNumber || trip.id}`;
+    const breakdownAt = trip.breakdownReading?.recordedAt || null;
+    const originalVehicle = trip.originalVehicleNumber || trip.vehicleNumber || '';
+    const points: OdometerPoint[] = [];
+    const push = (vehicleNumber: string, odometer: unknown, at: string | null | undefined, what: string) => {
+        if (vehicleNumber && Number(odometer) > 0 && at) {
+            points.push({ vehicleNumber, odometer: Number(odometer), at, source: `${label} ${what}`, fuelLogId: null, tripId: trip.id });
+        }
+    };
+
+    const startAt = trip.startReading?.recordedAt || trip.startedAt;
+    const restarted = !!(breakdownAt && startAt && startAt > breakdownAt);
+    push(trip.originalVehicleNumber && !restarted ? originalVehicle : trip.vehicleNumber || '', trip.startReading?.odometer ?? trip.odometerStart, startAt, 'start');
+    push(originalVehicle, trip.breakdownReading?.odometer ?? trip.breakdownOdometer, breakdownAt, 'breakdown');
+    push(trip.vehicleNumber || '', trip.endReading?.odometer ?? trip.odometerEnd, trip.endReading?.recordedAt || trip.endedAt, 'end');
+    return points;
+};
+
+const detectForVehicle = (vehicle: Vehicle, fills: FuelLog[], readings: OdometerPoint[]): FuelAnomaly[] => {
+    const baseline = getFuelBaseline(vehicle);
+    const anomalies: FuelAnomaly[] = [];
+    const flag = (code: FuelAnomalyCode, at: string, message: string, fuelLogId: string | null, tripId: string | null) => {
+        anomalies.push({ id: `${code}-${fuelLogId || tripId}-${at}`, code, vehicleId: vehicle.id || null, vehicleNumber: vehicle.number, at, message, fuelLogId, tripId });
+    };
+
+    // Fill-by-fill checks, in the order the fills happened
+    const segments: number[] = []; // KM/L of each earlier fill-to-fill stretch
+    fills.forEach((log, i) => {
+        const liters = Number(log.liters);
+        const tripId = log.tripId || null;
+        if (liters > baseline.tankLiters * (1 + TANK_OVERFILL_TOLERANCE)) {
+            flag('over-tank', fillTime(log), `${liters} L filled into a ${baseline.tankLiters} L tank.`, log.id, tripId);
+        }
+
+        const previous = fills[i - 1];
+        if (!previous || !(liters > 0)) return;
+        const km = Number(log.odometer) - Number(previous.odometer);
+        if (km < 0) return; // reported as a rollback below
+
+        if (km < NO_KM_REFUEL_KM) {
+            flag('no-km-refuel', fillTime(log), `${liters} L bought ${km} km after the previous fill (${previous.date}).`, log.id, tripId);
+            return;
+        }
+
+        const kmPerLiter = km / liters;
+        const recent = segments.slice(-KM_PER_LITER_ROLLING_FILLS);
+        const expected = recent.length >= MIN_ROLLING_SEGMENTS
+            ? recent.reduce((sum, value) => sum + value, 0) / recent.length
+            : baseline.kmPerLiter;
+        if (kmPerLiter < expected * LOW_KM_PER_LITER_RATIO) {
+            const basis = recent.length >= MIN_ROLLING_SEGMENTS ? 'rolling average' : `${vehicle.type || 'fleet'} baseline`;
+            flag('low-km-per-liter', fillTime(log), `${round2(kmPerLiter)} km/L over ${km} km, against a ${basis} of ${round2(expected)} km/L.`, log.id, tripId);
+        }
+        segments.push(kmPerLiter);
+    });
+
+    // Every odometer number in time order, from fills and trips alike
+    const sorted = [...readings].sort((a, b) => a.at.localeCompare(b.at));
+    sorted.forEach((point, i) => {
+        const previous = sorted[i - 1];
+        if (previous && point.odometer < previous.odometer) {
+            flag('odometer-rollback', point.at, `${point.source} read ${point.odometer} km, lower than the ${previous.odometer} km from ${previous.source}.`, point.fuelLogId, point.tripId);
+        }
+    });
+
+    return anomalies;
+};
+
+export const isRecentFuelAnomaly = (anomaly: FuelAnomaly, now: Date = new Date()) => {
+    return now.getTime() - new Date(anomaly.at).getTime() <= FUEL_ANOMALY_ALERT_DAYS * 24 * 60 * 60 * 1000;
+};
+
+/**
+ * All fuel anomalies across the fleet, newest first. Trips are matched to vehicles by number (older
+ * trips carry no vehicleId on every reading), fills by id or number.
+ */
+export const detectFuelAnomalies = (vehicles: Vehicle[], fuelLogs: FuelLog[], trips: Trip[]): FuelAnomaly[] => {
+    const usableFills = fuelLogs.filter(log => log.status !== 'rejected' && Number(log.odometer) > 0);
+    const tripPoints = trips.flatMap(tripOdometerPoints);
+
+    return vehicles
+        .flatMap(vehicle => {
+            const fills = usableFills
+                .filter(log => log.vehicleId === vehicle.id || log.vehicleNumber === vehicle.number)
+                .sort((a, b) => fillTime(a).localeCompare(fillTime(b)));
+            const readings: OdometerPoint[] = [
+                ...fills.map(log => ({ vehicleNumber: vehicle.number, odometer: Number(log.odometer), at: fillTime(log), source: `Fuel log (${log.date})`, fuelLogId: log.id, tripId: log.tripId || null })),
+                ...tripPoints.filter(point => point.vehicleNumber === vehicle.number),
+            ];
+            return detectForVehicle(vehicle, fills, readings);
+        })
+        .sort((a, b) => b.at.localeCompare(a.at));
+};
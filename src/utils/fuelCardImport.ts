@@ -0,0 +1,170 @@
+import { FuelCardColumnMapping, FuelCardDateFormat, FuelCardSettings, FuelCardTransaction, FuelLog } from '../types';
+
+// --- FUEL CARD STATEMENTS ---
+// Finance uploads the monthly fuel card statement as CSV. Columns are picked by header name (saved in
+// settings/fuelCard, since each card provider lays the file out differently), each line is matched to a
+// logged fill of the same vehicle within the date and amount tolerances, and accepted matches are
+// stamped on the fuel log so the next statement does not match them again.
+
+export const FUEL_CARD_DATE_FORMATS: FuelCardDateFormat[] = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY'];
+
+export interface FuelCardMatch {
+    transaction: FuelCardTransaction;
+    log: FuelLog;
+    amountDiff: number;  // card amount minus logged cost
+    dayDiff: number;
+}
+
+export interface FuelCardReconciliation {
+    matches: FuelCardMatch[];
+    unmatchedTransactions: FuelCardTransaction[];
+    unmatchedLogs: FuelLog[];        // fills in the statement's date range with no card line
+    alreadyReconciled: FuelCardTransaction[];
+}
+
+// RFC 4180-style: quoted fields may hold commas, newlines and doubled quotes
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') quoted = false;
+            else field += ch;
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            row.push(field); field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(field); field = '';
+            rows.push(row); row = [];
+        } else {
+            field += ch;
+        }
+    }
+    if (field || row.length > 0) { row.push(field); rows.push(row); }
+    return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+// "wp cab-1234" and "WP CAB 1234" are the same plate
+export const normalizeVehicleNumber = (value: string) => (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const pad = (value: string) => value.padStart(2, '0');
+
+export const parseStatementDate = (value: string, format: FuelCardDateFormat): string | null => {
+    const parts = (value || '').trim().split(/[\s T]/)[0].split(/[-/.]/);
+    if (parts.length !== 3) return null;
+    const [year, month, day] = format === 'YYYY-MM-DD' ? parts
+        : format === 'DD/MM/YYYY' ? [parts[2], parts[1], parts[0]]
+        : [parts[2], parts[0], parts[1]];
+    const iso = `${year.length === 2 ? `20${year}` : year}-${pad(month)}-${pad(day)}`;
+    return /^\d{4}-\d{2}-\d{2}$/.test(iso) && !isNaN(new Date(iso).getTime()) ? iso : null;
+};
+
+// "LKR 12,500.00" -> 12500
+export const parseStatementAmount = (value: string) => {
+    const amount = parseFloat((value || '').replace(/[^0-9.-]/g, ''));
+    return isNaN(amount) ? null : amount;
+};
+
+/**
+ * Statement lines as transactions, using the mapped columns of the header row. Lines without a
+ * vehicle, a readable date or an amount are returned as errors rather than dropped silently.
+ */
+export const readCardTransactions = (rows: string[][], mapping: FuelCardColumnMapping) => {
+    const [header = [], ...lines] = rows;
+    const column = (name: string) => name ? header.findIndex(h => h.trim().toLowerCase() === name.trim().toLowerCase()) : -1;
+    const cols = {
+        vehicleNumber: column(mapping.vehicleNumber),
+        date: column(mapping.date),
+        amount: column(mapping.amount),
+        liters: column(mapping.liters),
+        reference: column(mapping.reference),
+    };
+
+    const missing = (['vehicleNumber', 'date', 'amount'] as const).filter(key => cols[key] < 0).map(key => mapping[key] || key);
+    if (missing.length > 0) {
+        return { transactions: [] as FuelCardTransaction[], errors: [`Column(s) not found in the file: ${missing.join(', ')}`] };
+    }
+
+    const transactions: FuelCardTransaction[] = [];
+    const errors: string[] = [];
+    lines.forEach((line, i) => {
+        const row = i + 2; // 1-based, after the header
+        const vehicleNumber = (line[cols.vehicleNumber] || '').trim();
+        const date = parseStatementDate(line[cols.date], mapping.dateFormat);
+        const amount = parseStatementAmount(line[cols.amount]);
+        if (!vehicleNumber || !date || amount === null) {
+            errors.push(`Row ${row}: ${!vehicleNumber ? 'no vehicle number' : !date ? `unreadable date "${line[cols.date] || ''}"` : `unreadable amount "${line[cols.amount] || ''}"`}`);
+            return;
+        }
+        transactions.push({
+            row,
+            vehicleNumber,
+            date,
+            amount,
+            liters: cols.liters >= 0 ? parseStatementAmount(line[cols.liters]) : null,
+            reference: cols.reference >= 0 ? (line[cols.reference] || '').trim() : '',
+        });
+    });
+    return { transactions, errors };
+};
+
+const daysBetween = (a: string, b: string) => Math.abs(Math.round((new Date(a).getTime() - new Date(b).getTime()) / 86400000));
+
+const isSameCardLine = (log: FuelLog, transaction: FuelCardTransaction) => {
+    const card = log.cardTransaction;
+    return !!card && normalizeVehicleNumber(card.vehicleNumber) === normalizeVehicleNumber(transaction.vehicleNumber)
+        && card.date === transaction.date && card.amount === transaction.amount && card.reference === transaction.reference;
+};
+
+/**
+ * Pairs card lines with logged fills. Each line takes the unreconciled fill of the same vehicle with
+ * the closest amount (then date) inside the tolerances; a fill is matched at most once. Rejected fills
+ * are never matched.
+ */
+export const reconcileFuelCard = (transactions: FuelCardTransaction[], logs: FuelLog[], settings: FuelCardSettings): FuelCardReconciliation => {
+    const usable = logs.filter(log => log.status !== 'rejected');
+    const open = usable.filter(log => !log.cardTransaction);
+    const taken = new Set<string>();
+    const matches: FuelCardMatch[] = [];
+    const unmatchedTransactions: FuelCardTransaction[] = [];
+    const alreadyReconciled: FuelCardTransaction[] = [];
+
+    transactions.forEach(transaction => {
+        if (usable.some(log => isSameCardLine(log, transaction))) {
+            alreadyReconciled.push(transaction);
+            return;
+        }
+        const vehicle = normalizeVehicleNumber(transaction.vehicleNumber);
+        const best = open
+            .filter(log => !taken.has(log.id) && normalizeVehicleNumber(log.vehicleNumber) === vehicle)
+            .map(log => ({
+                transaction,
+                log,
+                amountDiff: Math.round((transaction.amount - Number(log.cost)) * 100) / 100,
+                dayDiff: daysBetween(transaction.date, log.date),
+            }))
+            .filter(m => Math.abs(m.amountDiff) <= settings.amountToleranceLkr && m.dayDiff <= settings.dateToleranceDays)
+            .sort((a, b) => Math.abs(a.amountDiff) - Math.abs(b.amountDiff) || a.dayDiff - b.dayDiff)[0];
+
+        if (best) {
+            taken.add(best.log.id);
+            matches.push(best);
+        } else {
+            unmatchedTransactions.push(transaction);
+        }
+    });
+
+    const dates = transactions.map(t => t.date).sort();
+    const unmatchedLogs = dates.length === 0 ? [] : open
+        .filter(log => !taken.has(log.id) && log.date >= dates[0] && log.date <= dates[dates.length - 1])
+        .sort((a, b) => a.date.localeCompare(b.date));
+
+    return { matches, unmatchedTransactions, unmatchedLogs, alreadyReconciled };
+};
@@ -0,0 +1,44 @@
+import { FuelLog, FuelLogStatus } from '../types';
+
+// --- FUEL LOGS ---
+// Drivers log fills from the road with a receipt photo; those entries stay 'pending' until an admin
+// checks them against the receipt. Only verified fills (and older logs, which were all admin-entered)
+// count towards fuel cost and KM/L figures.
+
+export const isVerifiedFuelLog = (log: Pick<FuelLog, 'status'>) => !log.status || log.status === 'verified';
+
+export const FUEL_LOG_STATUS_LABELS: Record<FuelLogStatus, string> = {
+    pending: 'Awaiting verification',
+    verified: 'Verified',
+    rejected: 'Rejected',
+};
+
+export interface FuelEfficiency {
+    km: number;          // odometer distance between the first and last fill
+    liters: number;      // fuel bought after the first fill
+    kmPerLiter: number;
+    costPerKm: number;
+    fills: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * KM/L and fuel Cost/KM from a vehicle's verified fills (full-to-full: the first fill only marks the
+ * starting odometer). Null until there are two usable fills.
+ */
+export const getFuelEfficiency = (logs: FuelLog[]): FuelEfficiency | null => {
+    const fills = logs
+        .filter(isVerifiedFuelLog)
+        .filter(log => Number(log.odometer) > 0 && Number(log.liters) > 0)
+        .sort((a, b) => Number(a.odometer) - Number(b.odometer));
+    if (fills.length < 2) return null;
+
+    const km = Number(fills[fills.length - 1].odometer) - Number(fills[0].odometer);
+    const after = fills.slice(1);
+    const liters = after.reduce((sum, log) => sum + Number(log.liters), 0);
+    const cost = after.reduce((sum, log) => sum + (Number(log.cost) || 0), 0);
+    if (km <= 0 || liters <= 0) return null;
+
+    return { km, liters: round2(liters), kmPerLiter: round2(km / liters), costPerKm: round2(cost / km), fills: fills.length };
+};
@@ -0,0 +1,45 @@
+import { FuelLevel, InspectionCategory, InspectionChecklistItem, InspectionItemResult } from '../types';
+
+// --- PRE-TRIP INSPECTIONS ---
+// Before starting a trip the driver walks round the vehicle against the checklist for its type.
+// Any failed critical item grounds the trip: the vehicle goes to maintenance and the trip joins the
+// breakdown queue for a replacement. Non-critical failures are recorded but do not stop the start.
+
+export const INSPECTION_CATEGORY_LABELS: Record<InspectionCategory, string> = {
+    tyres: 'Tyres',
+    lights: 'Lights',
+    brakes: 'Brakes',
+    fuel: 'Fuel',
+    body: 'Body',
+    other: 'Other',
+};
+
+export const FUEL_LEVEL_LABELS: Record<FuelLevel, string> = {
+    'empty': 'Empty',
+    'quarter': '1/4',
+    'half': '1/2',
+    'three-quarter': '3/4',
+    'full': 'Full',
+};
+
+// Every item starts unanswered, so the driver has to look at each one and mark it OK or a problem
+export const newInspectionResults = (items: InspectionChecklistItem[]): InspectionItemResult[] => {
+    return items.map(item => ({
+        itemId: item.id,
+        label: item.label,
+        category: item.category,
+        critical: item.critical,
+        passed: null,
+        note: '',
+        photo: null,
+    }));
+};
+
+export const getUnansweredItems = (results: InspectionItemResult[]) => results.filter(r => r.passed === null);
+
+export const evaluateInspection = (results: InspectionItemResult[]) => {
+    const failedCritical = results.filter(r => r.critical && r.passed === false).map(r => r.label);
+    return { passed: failedCritical.length === 0, failedCritical };
+};
+
+export const describeFailedInspection = (failedCritical: string[]) => `Failed pre-trip inspection: ${failedCritical.join(', ')}`;
@@ -0,0 +1,116 @@
+import { LatLng, MergeMatch, Trip } from '../types';
+import { AVERAGE_SPEED_KMH } from './availability';
+import { estimateRoadKm, routeDistanceKm } from '../routing';
+
+// --- GEOGRAPHIC MERGE MATCHING ---
+// Two trips can share a vehicle when the candidate's stops fit into the master's route with a small
+// detour, both pickups are close in time and the master's vehicle has seats for everyone.
+
+export const MAX_DETOUR_KM = 15;
+export const MAX_DETOUR_MINUTES = 30;
+export const MAX_PICKUP_GAP_MINUTES = 60;
+
+const STOP_DWELL_MINUTES = 5;
+
+const isLatLng = (value: any): value is LatLng => {
+    return !!value && typeof value.lat === 'number' && typeof value.lng === 'number';
+};
+
+// Pickup followed by every stop that has coordinates, in travel order
+export const getTripStops = (trip: Trip): LatLng[] => {
+    return [trip.pickupCoords, ...(trip.destinationCoords || [])].filter(isLatLng);
+};
+
+/**
+ * Inserts `stops` into `route` one by one at the cheapest position (straight-line estimate), keeping their order
+ * (a passenger is never dropped before being picked up) and never ahead of the route's first pickup.
+ */
+const insertStopsInOrder = (route: LatLng[], stops: LatLng[]) => {
+    const result = [...route];
+    let minIndex = 1;
+
+    stops.forEach(stop => {
+        let bestIndex = result.length;
+        let bestCost = Infinity;
+
+        for (let i = minIndex; i <= result.length; i++) {
+            const prev = result[i - 1];
+            const next = result[i];
+            const cost = next
+                ? estimateRoadKm(prev, stop) + estimateRoadKm(stop, next) - estimateRoadKm(prev, next)
+                : estimateRoadKm(prev, stop);
+            if (cost < bestCost) {
+                bestCost = cost;
+                bestIndex = i;
+            }
+        }
+
+        result.splice(bestIndex, 0, stop);
+        minIndex = bestIndex + 1;
+    });
+
+    return result;
+};
+
+const getPickupTime = (trip: Trip) => {
+    if (!trip.date || !trip.time) return null;
+    const time = new Date(`${trip.date}T${trip.time}`).getTime();
+    return isNaN(time) ? null : time;
+};
+
+/**
+ * Scores how well `candidate` fits into `master`'s run. Returns null when the pair fails any hard
+ * limit (missing coordinates, different day, detour or pickup gap too large, not enough seats).
+ * The detour is measured with the routing service, the same distance used for booking costs.
+ * @param seatCapacity Seats in the master's vehicle, or null when no vehicle is assigned yet.
+ */
+export const evaluateMerge = async (master: Trip, candidate: Trip, seatCapacity: number | null): Promise<MergeMatch | null> => {
+    if (master.date !== candidate.date) return null;
+
+    const masterStops = getTripStops(master);
+    const candidateStops = getTripStops(candidate);
+    if (masterStops.length < 2 || candidateStops.length < 2) return null;
+
+    // Cheap checks first so the routing service is only called for plausible pairs
+    const combinedPassengers = (master.passengers || 1) + (candidate.passengers || 1);
+    if (seatCapacity !== null && seatCapacity < combinedPassengers) return null;
+
+    const masterPickup = getPickupTime(master);
+    const candidatePickup = getPickupTime(candidate);
+    const pickupGapMinutes = masterPickup !== null && candidatePickup !== null
+        ? Math.round(Math.abs(masterPickup - candidatePickup) / 60000)
+        : null;
+    if (pickupGapMinutes !== null && pickupGapMinutes > MAX_PICKUP_GAP_MINUTES) return null;
+
+    // Detour
+    const merged = insertStopsInOrder(masterStops, candidateStops);
+    const [mergedKm, masterKm] = await Promise.all([routeDistanceKm(merged), routeDistanceKm(masterStops)]);
+    const detourKm = Math.max(0, mergedKm - masterKm);
+    const detourMinutes = Math.round((detourKm / AVERAGE_SPEED_KMH) * 60 + candidateStops.length * STOP_DWELL_MINUTES);
+    if (detourKm > MAX_DETOUR_KM || detourMinutes > MAX_DETOUR_MINUTES) return null;
+
+    const detourFit = 1 - Math.max(detourKm / MAX_DETOUR_KM, detourMinutes / MAX_DETOUR_MINUTES);
+    const timeFit = pickupGapMinutes === null ? 0.5 : 1 - pickupGapMinutes / MAX_PICKUP_GAP_MINUTES;
+    const seatFit = seatCapacity === null ? 0.5 : 1;
+    const score = Math.round(100 * (0.5 * detourFit + 0.35 * timeFit + 0.15 * seatFit));
+
+    const explanation = [
+        `Detour ${detourKm.toFixed(1)} km / ${detourMinutes} min`,
+        pickupGapMinutes === null ? 'pickup time unknown' : `pickups ${pickupGapMinutes} min apart`,
+        seatCapacity === null
+            ? `${combinedPassengers} pax, no vehicle assigned yet`
+            : `${combinedPassengers} of ${seatCapacity} seats`,
+    ].join(', ');
+
+    return {
+        masterTripId: master.id,
+        score,
+        detourKm: Math.round(detourKm * 10) / 10,
+        detourMinutes,
+        pickupGapMinutes,
+        combinedPassengers,
+        seatCapacity,
+        explanation,
+        scannedAt: new Date().toISOString(),
+    };
+};
@@ -0,0 +1,124 @@
+import { GpsFix, LatLng, OdometerException, OdometerExceptionCode, OdometerReading, OdometerReadingKind, Trip } from '../types';
+import { OdometerExceptionRepository } from '../repositories';
+import { geocodeAddress, haversineKm } from '../routing';
+import { parseDistanceKm } from './availability';
+
+// --- ODOMETER PLAUSIBILITY ---
+// Every start / end / breakdown reading carries the phone's GPS fix. When the reading syncs it is checked
+// against where it should have been taken (pickup, final drop-off) and the end km against the planned
+// route. Anything implausible becomes an odometer exception for admin review in DriverManagement;
+// the trip itself is never held back by a check.
+
+export const ODOMETER_LOCATION_TOLERANCE_KM = 2;  // straight-line, on top of the fix's own accuracy
+export const GPS_FIX_MAX_AGE_MS = 5 * 60000;      // older fixes do not say where the reading was taken
+export const KM_OVER_ROUTE_PERCENT = 25;
+export const KM_OVER_ROUTE_MIN_KM = 5;            // short trips: small absolute detours are not flagged
+
+export type OdometerFinding = Pick<OdometerException, 'code' | 'message' | 'distanceKm' | 'plannedKm' | 'actualKm' | 'previousOdometer' | 'gapKm'>;
+
+// Actions queued before readings were stamped carry a bare { lat, lng }; Firestore rejects undefined fields
+export const toOdometerReading = (kind: OdometerReadingKind, odometer: number, gps: GpsFix | null, recordedAt: string): OdometerReading => ({
+    kind,
+    odometer,
+    gps: gps ? { lat: gps.lat, lng: gps.lng, accuracyM: gps.accuracyM ?? null, recordedAt: gps.recordedAt || recordedAt } : null,
+    recordedAt,
+});
+
+const km1 = (km: number) => Math.round(km * 10) / 10;
+
+const lastStopOf = async (trip: Trip): Promise<LatLng | null> => {
+    if (trip.destinationCoords?.length) return trip.destinationCoords[trip.destinationCoords.length - 1];
+    return geocodeAddress(trip.destination);
+};
+
+// Km the vehicle was expected to run: the replacement's share after a breakdown, else the booked route
+export const getPlannedKm = (trip: Trip) => {
+    const replacement = trip.costBreakdown?.lines?.find(line => line.role === 'replacement');
+    return replacement ? replacement.km : parseDistanceKm(trip.distance);
+};
+
+const checkLocation = (gps: GpsFix, expected: LatLng | null, code: OdometerExceptionCode, place: string): OdometerFinding | null => {
+    if (!expected) return null;
+    const distanceKm = haversineKm(gps, expected);
+    const tolerance = ODOMETER_LOCATION_TOLERANCE_KM + (gps.accuracyM || 0) / 1000;
+    if (distanceKm <= tolerance) return null;
+    return { code, message: `Reading taken ${km1(distanceKm)} km from the ${place}.`, distanceKm: km1(distanceKm) };
+};
+
+/**
+ * Plausibility findings for one reading, empty when it looks right.
+ * @param kmRun end readings only: odometer km for the trip, compared with the planned route.
+ */
+export const checkOdometerReading = async (trip: Trip, reading: OdometerReading, kmRun?: number): Promise<OdometerFinding[]> => {
+    const findings: OdometerFinding[] = [];
+    const gps = reading.gps;
+
+    if (!gps) {
+        findings.push({ code: 'no-gps', message: 'No GPS position was available when the reading was entered.' });
+    } else if (new Date(reading.recordedAt).getTime() - new Date(gps.recordedAt).getTime() > GPS_FIX_MAX_AGE_MS) {
+        const minutes = Math.round((new Date(reading.recordedAt).getTime() - new Date(gps.recordedAt).getTime()) / 60000);
+        findings.push({ code: 'stale-gps', message: `The last GPS position was ${minutes} min old when the reading was entered.` });
+    } else if (reading.kind === 'start' && trip.status !== 'reassigned') {
+        // A replacement vehicle starts wherever it was sent from, so only original starts are placed
+        const finding = checkLocation(gps, trip.pickupCoords || await geocodeAddress(trip.pickup), 'far-from-pickup', 'pickup');
+        if (finding) findings.push(finding);
+    } else if (reading.kind === 'end') {
+        const finding = checkLocation(gps, await lastStopOf(trip), 'far-from-destination', 'final destination');
+        if (finding) findings.push(finding);
+    }
+
+    if (reading.kind === 'end' && kmRun !== undefined) {
+        const plannedKm = getPlannedKm(trip);
+        const overKm = kmRun - plannedKm;
+        if (plannedKm > 0 && overKm > KM_OVER_ROUTE_MIN_KM && overKm / plannedKm * 100 > KM_OVER_ROUTE_PERCENT) {
+            findings.push({
+                code: 'km-over-route',
+                message: `${kmRun} km run against ${km1(plannedKm)} km planned (+${Math.round(overKm / plannedKm * 100)}%).`,
+                plannedKm: km1(plannedKm),
+                actualKm: kmRun,
+            });
+        }
+    }
+    return findings;
+};
+
+/**
+ * Files an exception per finding under the trip's driver. `sourceId` (the outbox entry) keeps the
+ * exception ids stable when a reading is replayed.
+ */
+export const fileOdometerExceptions = async (trip: Trip, reading: OdometerReading, sourceId: string, findings: OdometerFinding[]) => {
+    await Promise.all(findings.map(finding => OdometerExceptionRepository.createWithId(`${sourceId}-${finding.code}`, {
+        code: finding.code,
+        message: finding.message,
+        distanceKm: finding.distanceKm ?? null,
+        plannedKm: finding.plannedKm ?? null,
+        actualKm: finding.actualKm ?? null,
+        previousOdometer: finding.previousOdometer ?? null,
+        gapKm: finding.gapKm ?? null,
+        tripId: trip.id,
+        tripSerialNumber: trip.serialNumber || null,
+        driverId: trip.driverId || null,
+        driverName: trip.driverName || null,
+        vehicleNumber: trip.vehicleNumber || null,
+        reading,
+        createdAt: new Date().toISOString(),
+        review: 'pending',
+    })));
+};
+
+// Checks a synced reading and files whatever it finds
+export const recordOdometerChecks = async (trip: Trip, reading: OdometerReading, sourceId: string, kmRun?: number) => {
+    const findings = await checkOdometerReading(trip, reading, kmRun);
+    await fileOdometerExceptions(trip, reading, sourceId, findings);
+    return findings;
+};
+
+export const ODOMETER_EXCEPTION_LABELS: Record<OdometerExceptionCode, string> = {
+    'no-gps': 'No GPS',
+    'stale-gps': 'Old GPS fix',
+    'far-from-pickup': 'Away from pickup',
+    'far-from-destination': 'Away from destination',
+    'km-over-route': 'Km above route',
+    'odometer-gap': 'Unlogged km before start',
+    'odometer-rollback': 'Odometer went back',
+};
@@ -0,0 +1,83 @@
+import { OdometerException, OdometerReading, Trip, VehicleOdometer, VehicleOdometerSource } from '../types';
+import { SettingsRepository, VehicleRepository } from '../repositories';
+import { OdometerFinding, fileOdometerExceptions } from './odometerChecks';
+
+// --- ODOMETER CONTINUITY ---
+// Each vehicle keeps its last known odometer (`lastOdometer`), moved on by trip starts and ends,
+// breakdowns, services and verified fuel logs. A trip start is compared with it: a small gap is the
+// private km the settings allow, a bigger one or a reading lower than the last becomes an odometer
+// exception. An admin then puts a gap's km down to a trip or marks it unaccounted.
+
+export const VEHICLE_ODOMETER_SOURCE_LABELS: Record<VehicleOdometerSource, string> = {
+    'trip-start': 'Trip start',
+    'trip-end': 'Trip end',
+    'breakdown': 'Breakdown',
+    'service': 'Service',
+    'fuel-log': 'Fuel log',
+};
+
+export const describeVehicleOdometer = (reading: VehicleOdometer) => {
+    return `${reading.odometer} km (${VEHICLE_ODOMETER_SOURCE_LABELS[reading.source]}, ${new Date(reading.recordedAt).toLocaleString()})`;
+};
+
+/**
+ * How a start reading sits against the vehicle's last known odometer: null when within
+ * `toleranceKm` above it, else a gap or rollback finding.
+ */
+export const checkStartContinuity = (previous: VehicleOdometer | null | undefined, odometer: number, toleranceKm: number): OdometerFinding | null => {
+    if (!previous) return null;
+    const gapKm = Math.round((odometer - previous.odometer) * 10) / 10;
+    if (gapKm < 0) {
+        return {
+            code: 'odometer-rollback',
+            message: `Start reading ${odometer} km is ${-gapKm} km below the last known ${describeVehicleOdometer(previous)}.`,
+            previousOdometer: previous,
+            gapKm,
+        };
+    }
+    if (gapKm > toleranceKm) {
+        return {
+            code: 'odometer-gap',
+            message: `${gapKm} km since the last known ${describeVehicleOdometer(previous)}, above the ${toleranceKm} km allowed.`,
+            previousOdometer: previous,
+            gapKm,
+        };
+    }
+    return null;
+};
+
+/**
+ * Trips a gap's km could belong to: the vehicle's trips running between the last known reading and the
+ * flagged start (including the one that left that reading), newest first.
+ */
+export const getGapCandidateTrips = (exception: OdometerException, trips: Trip[]) => {
+    const previous = exception.previousOdometer;
+    if (!previous) return [];
+    const from = previous.recordedAt.split('T')[0];
+    const to = exception.reading.recordedAt;
+    return trips
+        .filter(t => t.id !== exception.tripId && !['cancelled', 'rejected'].includes(t.status))
+        .filter(t => t.vehicleNumber === exception.vehicleNumber || t.originalVehicleNumber === exception.vehicleNumber)
+        .filter(t => t.id === previous.tripId || ((t.startedAt || t.date) <= to && (t.endedAt || t.startedAt || t.date) >= from))
+        .sort((a, b) => (b.startedAt || b.date).localeCompare(a.startedAt || a.date));
+};
+
+export const recordVehicleOdometer = (vehicleId: string | null | undefined, odometer: number | null | undefined, recordedAt: string, source: VehicleOdometerSource, sourceId: string, tripId: string | null = null) => {
+    if (!vehicleId || !(Number(odometer) > 0)) return Promise.resolve(null);
+    return VehicleRepository.advanceOdometer(vehicleId, { odometer: Number(odometer), recordedAt, source, sourceId, tripId });
+};
+
+/**
+ * Advances the vehicle to a synced start reading and files a continuity exception when the start does
+ * not follow on from the last known odometer. A replay of the same start is not checked again.
+ */
+export const recordStartContinuity = async (trip: Trip, reading: OdometerReading, sourceId: string) => {
+    const previous = await recordVehicleOdometer(trip.vehicleId, reading.odometer, reading.recordedAt, 'trip-start', sourceId, trip.id);
+    // Replayed, or a later reading already synced: nothing to compare against
+    if (!previous || previous.sourceId === sourceId || previous.recordedAt > reading.recordedAt) return null;
+
+    const { startToleranceKm } = await SettingsRepository.getOdometer();
+    const finding = checkStartContinuity(previous, reading.odometer, startToleranceKm);
+    if (finding) await fileOdometerExceptions(trip, reading, sourceId, [finding]);
+    return finding;
+};
@@ -0,0 +1,146 @@
+import { PayrollAdjustment, PayrollBasis, PayrollLine, PayrollLineOverride, PayrollLines, PayrollRates, PoliceClaim, Trip } from '../types';
+import { tripStatusIn } from './tripTransitions';
+
+// --- PAYROLL CALCULATOR ---
+// Pre-fills a driver's month from data already on record: the fixed salary and mobile allowance from
+// settings/payroll, fuel allowance from km the driver ran, meals from the days spent driving and the
+// nights away, and fines from police claims settled in the month. What a driver ran is the completed
+// trips they drove plus, on a trip that broke down under them, the run up to the breakdown; the rest of
+// a reassigned trip is the replacement driver's. Each leg belongs to the month it ended in. Admins may
+// override any line; the record keeps the computed figure next to each override.
+
+export const PAYROLL_LINES: PayrollLine[] = ['salary', 'fuelAllowance', 'mobileAllowance', 'mealExpenses', 'otherExpenses', 'fineReimbursement'];
+
+export const PAYROLL_LINE_LABELS: Record<PayrollLine, string> = {
+    salary: 'Salary (Fixed)',
+    fuelAllowance: 'Fuel Allowance',
+    mobileAllowance: 'Mobile Allowance',
+    mealExpenses: 'Meal Allowance/Expenses',
+    otherExpenses: 'Other Expenses/BOI/Extra',
+    fineReimbursement: 'Fine Claims Reimbursement',
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const localDateKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const getTripKmRun = (trip: Trip) => {
+    const km = Number(trip.kmRun) || Number(trip.odometerEnd) - Number(trip.odometerStart);
+    return km > 0 ? km : 0;
+};
+
+interface DrivenLeg {
+    tripId: string;
+    km: number;
+    start: string;
+    end: string;
+    day: string; // the day the leg ended, which places it in a month
+}
+
+// Km up to a breakdown: the settlement's original-vehicle line once reassigned (the replacement's start
+// overwrites the odometer start), else the odometer at the breakdown
+const getBreakdownKm = (trip: Trip) => {
+    if (trip.originalDriverId) return trip.costBreakdown?.lines?.find(l => l.role === 'original')?.km || 0;
+    const km = Number(trip.breakdownOdometer || trip.breakdownReading?.odometer) - Number(trip.odometerStart);
+    return km > 0 ? km : 0;
+};
+
+// The run up to a breakdown on the road (not a vehicle grounded by its pre-trip inspection) and who drove it
+const getBreakdownLeg = (trip: Trip): { driverId: string | null | undefined, leg: DrivenLeg } | null => {
+    if (!trip.breakdownReason || trip.breakdownSource === 'inspection') return null;
+    const reassigned = !!trip.originalDriverId;
+    if (!reassigned && !tripStatusIn(trip, ['broken-down', 'cancelled'])) return null;
+
+    const end = trip.breakdownReading?.recordedAt || trip.cancelledAt;
+    if (!end) return null;
+    const startedAt = trip.originalStartedAt || (trip.startedAt && trip.startedAt <= end ? trip.startedAt : null);
+    return {
+        driverId: reassigned ? trip.originalDriverId : trip.driverId,
+        leg: { tripId: trip.id, km: getBreakdownKm(trip), start: startedAt || end, end, day: localDateKey(new Date(end)) },
+    };
+};
+
+const getDriverLegs = (driverId: string, trips: Trip[]) => {
+    return trips.flatMap(trip => {
+        const legs: DrivenLeg[] = [];
+        const breakdown = getBreakdownLeg(trip);
+        if (breakdown && breakdown.driverId === driverId) legs.push(breakdown.leg);
+        if (trip.status === 'completed' && trip.driverId === driverId) {
+            const start = trip.startedAt || trip.date;
+            legs.push({ tripId: trip.id, km: getTripKmRun(trip), start, end: trip.endedAt || start, day: trip.endedAt ? localDateKey(new Date(trip.endedAt)) : trip.date || '' });
+        }
+        return legs;
+    });
+};
+
+// Calendar days from start to end; every day but the last is a night away
+const getLegDays = (leg: DrivenLeg) => {
+    const start = new Date(leg.start);
+    const end = new Date(leg.end);
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) return [];
+    const days: string[] = [];
+    const day = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+    while (day <= end) {
+        days.push(localDateKey(day));
+        day.setDate(day.getDate() + 1);
+    }
+    return days;
+};
+
+export const computeDriverPayroll = (driverId: string, period: string, trips: Trip[], claims: PoliceClaim[], rates: PayrollRates) => {
+    const monthLegs = getDriverLegs(driverId, trips).filter(leg => leg.day.startsWith(period));
+    const settledClaims = claims.filter(c => c.driverId === driverId && c.status === 'settled' && (c.settlementDate || '').startsWith(period));
+
+    // Sets, so days and nights shared by back-to-back or merged trips are paid once
+    const tripDays = new Set<string>();
+    const nights = new Set<string>();
+    monthLegs.forEach(leg => {
+        const days = getLegDays(leg);
+        days.forEach(day => tripDays.add(day));
+        days.slice(0, -1).forEach(night => nights.add(night));
+    });
+
+    const basis: PayrollBasis = {
+        tripIds: Array.from(new Set(monthLegs.map(leg => leg.tripId))),
+        kmRun: round2(monthLegs.reduce((sum, leg) => sum + leg.km, 0)),
+        tripDays: tripDays.size,
+        outStationNights: nights.size,
+        claimIds: settledClaims.map(c => c.id),
+    };
+
+    const computed: PayrollLines = {
+        salary: rates.baseSalary,
+        fuelAllowance: round2(basis.kmRun * rates.fuelAllowancePerKm),
+        mobileAllowance: rates.mobileAllowance,
+        mealExpenses: round2(basis.tripDays * rates.mealAllowancePerTripDay + basis.outStationNights * rates.outStationNightAllowance),
+        otherExpenses: 0,
+        fineReimbursement: round2(settledClaims.reduce((sum, c) => sum + Number(c.amountSettled || 0), 0)),
+    };
+    return { basis, computed };
+};
+
+// Final figures: the override where there is one, else the computed line
+export const applyPayrollOverrides = (computed: PayrollLines, overrides: PayrollLineOverride[] = []): PayrollLines => {
+    const lines = { ...computed };
+    overrides.forEach(o => { lines[o.line] = o.value; });
+    return lines;
+};
+
+export const getAdjustmentTotal = (adjustments: PayrollAdjustment[] = []) => round2(adjustments.reduce((sum, a) => sum + Number(a.amount || 0), 0));
+
+// Net pay: the lines plus corrections carried in from locked months
+export const getPayrollTotal = (lines: PayrollLines, adjustments: PayrollAdjustment[] = []) => {
+    return round2(PAYROLL_LINES.reduce((sum, line) => sum + (lines[line] || 0), 0) + getAdjustmentTotal(adjustments));
+};
+
+// How a computed line was arrived at, for the entry form and the paysheet
+export const describePayrollLine = (line: PayrollLine, basis: PayrollBasis, rates: PayrollRates) => {
+    switch (line) {
+        case 'salary': return 'Monthly base salary';
+        case 'fuelAllowance': return `${basis.kmRun} km × LKR ${rates.fuelAllowancePerKm}`;
+        case 'mobileAllowance': return 'Monthly allowance';
+        case 'mealExpenses': return `${basis.tripDays} trip day(s) × LKR ${rates.mealAllowancePerTripDay} + ${basis.outStationNights} night(s) × LKR ${rates.outStationNightAllowance}`;
+        case 'otherExpenses': return 'Entered by admin';
+        case 'fineReimbursement': return `${basis.claimIds.length} settled claim(s)`;
+    }
+};
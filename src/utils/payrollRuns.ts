@@ -0,0 +1,107 @@
+import { PayrollRun, PayrollRunStatus } from '../types';
+import { StoreTransaction, appendToArray } from '../repositories/dataStore';
+
+// --- PAYROLL RUNS ---
+// Each month's payroll is a run: prepared in draft, checked by one admin (reviewed), signed off by a
+// different admin (approved), then marked paid and locked. Driver records can only be saved while the
+// run is a draft; a reviewed or approved run can be sent back to draft, a paid one cannot. Mistakes
+// found after locking are fixed with adjustments paid in the next open month.
+
+export const PAYROLL_RUN_STATUS_LABELS: Record<PayrollRunStatus, string> = {
+    draft: 'Draft',
+    reviewed: 'Reviewed',
+    approved: 'Approved',
+    paid: 'Paid',
+    locked: 'Locked',
+};
+
+export const PAYROLL_RUN_TRANSITIONS: Record<PayrollRunStatus, PayrollRunStatus[]> = {
+    draft: ['reviewed'],
+    reviewed: ['approved', 'draft'],
+    approved: ['paid', 'draft'],
+    paid: ['locked'],
+    locked: [],
+};
+
+// The action that moves a run to each status, for buttons and the audit log
+export const PAYROLL_RUN_ACTIONS: Record<PayrollRunStatus, string> = {
+    draft: 'Return to Draft',
+    reviewed: 'Mark Reviewed',
+    approved: 'Approve',
+    paid: 'Mark Paid',
+    locked: 'Lock',
+};
+
+export class PayrollRunError extends Error {
+    period: string;
+
+    constructor(period: string, message: string) {
+        super(message);
+        this.name = 'PayrollRunError';
+        this.period = period;
+    }
+}
+
+export interface PayrollActor {
+    email: string;
+    name: string;
+}
+
+export const toPayrollRun = (period: string, stored: Record<string, any> | null): PayrollRun => ({
+    id: period,
+    period,
+    status: 'draft',
+    reviewedBy: null,
+    approvedBy: null,
+    history: [],
+    ...(stored || {}),
+});
+
+export const isPayrollRunEditable = (run: PayrollRun | null | undefined) => !run || run.status === 'draft';
+
+// Approved by a second admin or later: the figures the bank file and emailed paysheets are made from
+export const isPayrollRunFinalised = (run: PayrollRun | null | undefined) => !!run && ['approved', 'paid', 'locked'].includes(run.status);
+
+// Why `actor` may not move the run to `to`, or null when they may
+export const getPayrollRunBlock = (run: PayrollRun, to: PayrollRunStatus, actor: PayrollActor): string | null => {
+    if (!PAYROLL_RUN_TRANSITIONS[run.status].includes(to)) {
+        return `The ${run.period} payroll is ${PAYROLL_RUN_STATUS_LABELS[run.status].toLowerCase()} and cannot move to ${PAYROLL_RUN_STATUS_LABELS[to].toLowerCase()}.`;
+    }
+    if (to === 'approved' && run.reviewedBy === actor.email) {
+        return `The ${run.period} payroll was reviewed by you; a different admin must approve it.`;
+    }
+    return null;
+};
+
+export const nextPeriod = (period: string) => {
+    const [year, month] = period.split('-').map(Number);
+    const next = new Date(year, month, 1); // month is 1-based, so this is the following month
+    return `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// The first month after `period` whose payroll is still a draft: where an adjustment to `period` is paid
+export const getAdjustmentTargetPeriod = (period: string, runs: PayrollRun[]) => {
+    let target = nextPeriod(period);
+    while (!isPayrollRunEditable(runs.find(r => r.period === target))) target = nextPeriod(target);
+    return target;
+};
+
+/**
+ * Moves a month's run inside a store transaction, recording who did it. Returning to draft clears the
+ * review and approval, so the month is checked again after changes.
+ * Throws PayrollRunError when the move is not allowed.
+ */
+export const applyPayrollRunTransition = async (transaction: StoreTransaction, period: string, to: PayrollRunStatus, actor: PayrollActor, note?: string) => {
+    const run = toPayrollRun(period, await transaction.get("payroll_runs", period));
+    const block = getPayrollRunBlock(run, to, actor);
+    if (block) throw new PayrollRunError(period, block);
+
+    const event = { from: run.status, to, by: actor.email, byName: actor.name, at: new Date().toISOString(), note: note || '' };
+    const patch: Record<string, any> = { period, status: to, history: appendToArray(event) };
+    if (to === 'reviewed') patch.reviewedBy = actor.email;
+    if (to === 'approved') patch.approvedBy = actor.email;
+    if (to === 'draft') { patch.reviewedBy = null; patch.approvedBy = null; }
+
+    transaction.set("payroll_runs", period, patch, { merge: true });
+    return { ...run, ...patch, history: [...run.history, event] } as PayrollRun;
+};
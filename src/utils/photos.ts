@@ -0,0 +1,27 @@
+// --- PHOTOS ---
+// Phone photos (inspection findings, fuel receipts) are shrunk to a small JPEG data URL and stored with
+// the record itself, so they can travel inside an offline outbox entry.
+
+export const PHOTO_MAX_PX = 800;   // longest side after compression
+export const PHOTO_QUALITY = 0.6;
+
+export const compressPhoto = (file: File): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onerror = () => reject(reader.error);
+        reader.onload = () => {
+            const img = new Image();
+            img.onerror = () => reject(new Error('The photo could not be read.'));
+            img.onload = () => {
+                const scale = Math.min(1, PHOTO_MAX_PX / Math.max(img.width, img.height));
+                const canvas = document.createElement('canvas');
+                canvas.width = Math.round(img.width * scale);
+                canvas.height = Math.round(img.height * scale);
+                canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+                resolve(canvas.toDataURL('image/jpeg', PHOTO_QUALITY));
+            };
+            img.src = reader.result as string;
+        };
+        reader.readAsDataURL(file);
+    });
+};
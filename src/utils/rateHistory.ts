@@ -0,0 +1,51 @@
+import { Vehicle } from '../types';
+
+// --- RATE IN FORCE ON THE TRIP DATE ---
+// VehicleManagement appends { rate, previousRate, date } to rateHistory on every change, so the rate for
+// any past trip can be recovered. Trips are costed at that rate, never at whatever the vehicle charges today.
+
+type RatedVehicle = Pick<Vehicle, 'ratePerKm'> & { rateHistory?: Vehicle['rateHistory'] };
+
+export interface AppliedRate {
+    ratePerKm: number;
+    effectiveFrom: string | null; // when that rate was set; null when the vehicle has no history
+}
+
+// Trip start as a timestamp; without a time the trip is treated as running at the end of its day
+export const getTripRateMoment = (trip: { date?: string; time?: string }) => {
+    if (!trip.date) return new Date();
+    const moment = new Date(`${trip.date}T${trip.time || '23:59'}`);
+    return isNaN(moment.getTime()) ? new Date() : moment;
+};
+
+export const getRateAt = (vehicle: RatedVehicle | null | undefined, at: Date): AppliedRate => {
+    if (!vehicle) return { ratePerKm: 0, effectiveFrom: null };
+
+    const history = (vehicle.rateHistory || [])
+        .filter(entry => entry && entry.date && !isNaN(new Date(entry.date).getTime()))
+        .slice()
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    if (history.length === 0) return { ratePerKm: Number(vehicle.ratePerKm) || 0, effectiveFrom: null };
+
+    const inForce = history.filter(entry => new Date(entry.date).getTime() <= at.getTime()).pop();
+    if (inForce) return { ratePerKm: Number(inForce.rate) || 0, effectiveFrom: inForce.date };
+
+    // Trip predates every logged change: the first change records what the rate was before it
+    const first = history[0];
+    return { ratePerKm: Number(first.previousRate) || Number(first.rate) || 0, effectiveFrom: null };
+};
+
+export const getRateForTrip = (vehicle: RatedVehicle | null | undefined, trip: { date?: string; time?: string }) => {
+    return getRateAt(vehicle, getTripRateMoment(trip));
+};
+
+// Trip cost at the rate in force on the trip date, plus the fields recorded on the trip
+export const costTripAtRate = (vehicle: RatedVehicle | null | undefined, trip: { date?: string; time?: string }, distanceKm: number) => {
+    const applied = getRateForTrip(vehicle, trip);
+    return {
+        cost: applied.ratePerKm > 0 ? Math.round(distanceKm * applied.ratePerKm) : 0,
+        appliedRatePerKm: applied.ratePerKm,
+        appliedRateEffectiveFrom: applied.effectiveFrom,
+    };
+};
@@ -0,0 +1,53 @@
+import { getDataStore, StoreTransaction } from '../repositories/dataStore';
+
+// --- TRIP SERIAL NUMBERS ---
+// Format: PREFIX-YYYYMMDD-NNN, e.g. N-20261019-007. One counter per prefix per day.
+//   TRP = user booking, ATR = admin quick booking, N = approved, B = breakdown reassignment, M = merged
+export type SerialPrefix = 'TRP' | 'ATR' | 'N' | 'B' | 'M';
+
+const COUNTERS = "serial_counters";
+// Every issued serial is registered here, so a reset or hand-edited counter can never hand out a duplicate
+const REGISTRY = "serial_numbers";
+
+const toDayKey = (date: Date) => {
+    return `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const formatSerialNumber = (prefix: SerialPrefix, dayKey: string, sequence: number) => {
+    return `${prefix}-${dayKey}-${String(sequence).padStart(3, '0')}`;
+};
+
+export class SerialNumberError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SerialNumberError';
+    }
+}
+
+/**
+ * Allocates the next serial for `prefix` inside the given transaction. Reads happen first, so
+ * it can be composed with other transactional work as long as it runs before any writes.
+ */
+export const allocateSerialNumber = async (transaction: StoreTransaction, prefix: SerialPrefix, date: Date = new Date()) => {
+    const dayKey = toDayKey(date);
+    const counterId = `${prefix}-${dayKey}`;
+
+    const counter = await transaction.get(COUNTERS, counterId);
+    const sequence = (counter?.lastSequence || 0) + 1;
+    const serialNumber = formatSerialNumber(prefix, dayKey, sequence);
+
+    if (await transaction.get(REGISTRY, serialNumber)) {
+        throw new SerialNumberError(`Serial ${serialNumber} has already been issued. Check the ${counterId} counter.`);
+    }
+
+    transaction.set(COUNTERS, counterId, { prefix, day: dayKey, lastSequence: sequence, updatedAt: new Date().toISOString() });
+    transaction.set(REGISTRY, serialNumber, { prefix, day: dayKey, sequence, issuedAt: new Date().toISOString() });
+
+    return serialNumber;
+};
+
+// Standalone allocation. Sequences are unique and increasing; a number is consumed even if the
+// booking that requested it fails afterwards, so finance may see gaps but never repeats.
+export const nextSerialNumber = async (prefix: SerialPrefix) => {
+    return getDataStore().runTransaction((transaction) => allocateSerialNumber(transaction, prefix));
+};
@@ -0,0 +1,129 @@
+import { CostLeg, LatLng, SplitCostBreakdown, Trip, VehicleCostLine } from '../types';
+import { geocodeAddress, parseLatLng, routeDistanceKm } from '../routing';
+
+// --- BREAKDOWN SPLIT-COST SETTLEMENT ---
+// A reassigned trip is paid to two vehicle owners:
+//   original    = km run up to the breakdown (odometer when recorded, otherwise routed pickup -> breakdown)
+//   replacement = empty leg from its start place to the breakdown + the remaining passenger route
+// Each vehicle is paid at its own rate for the trip date.
+
+export interface SettlementVehicle {
+    vehicleId?: string | null;
+    vehicleNumber: string;
+    ratePerKm: number;
+}
+
+export interface SplitCostInput {
+    trip: Trip;
+    originalVehicle: SettlementVehicle;
+    replacementVehicle: SettlementVehicle;
+    newVehicleStartPlace: string;
+    newVehicleStart?: LatLng | null; // resolved from newVehicleStartPlace when omitted
+}
+
+interface RouteStop {
+    address: string;
+    coords: LatLng | null;
+}
+
+// The driver's GPS fix when recorded, otherwise the readable breakdown address
+export const getBreakdownPoint = async (trip: Trip) => {
+    return parseLatLng(trip.breakdownGPS) || await geocodeAddress(trip.breakdownLocation);
+};
+
+// Drop-off stops in order, using saved coordinates where they line up with the addresses
+const resolveStops = async (trip: Trip): Promise<RouteStop[]> => {
+    const addresses = trip.destinations?.length ? trip.destinations : [trip.destination];
+    const saved = trip.destinationCoords?.length === addresses.length ? trip.destinationCoords : null;
+
+    const stops: RouteStop[] = [];
+    for (let i = 0; i < addresses.length; i++) {
+        stops.push({ address: addresses[i], coords: saved?.[i] || await geocodeAddress(addresses[i]) });
+    }
+    return stops;
+};
+
+// Splits stops at the driver's reported last visited stop (the pickup, or unknown, means none were reached)
+export const splitStopsAtBreakdown = <T extends { address: string }>(stops: T[], lastVisitedStop?: string | null) => {
+    const index = lastVisitedStop ? stops.findIndex(s => s.address === lastVisitedStop) : -1;
+    return { visited: stops.slice(0, index + 1), remaining: stops.slice(index + 1) };
+};
+
+const toCostLine = (role: VehicleCostLine['role'], vehicle: SettlementVehicle, legs: CostLeg[]): VehicleCostLine => {
+    const km = Math.round(legs.reduce((sum, leg) => sum + leg.km, 0) * 10) / 10;
+    return {
+        role,
+        vehicleId: vehicle.vehicleId || null,
+        vehicleNumber: vehicle.vehicleNumber,
+        ratePerKm: vehicle.ratePerKm,
+        km,
+        cost: Math.round(km * vehicle.ratePerKm),
+        legs,
+    };
+};
+
+const roundKm = (km: number) => Math.round(km * 10) / 10;
+
+export const settleBreakdownSplit = async ({ trip, originalVehicle, replacementVehicle, newVehicleStartPlace, newVehicleStart }: SplitCostInput): Promise<SplitCostBreakdown> => {
+    const breakdownPoint = await getBreakdownPoint(trip);
+    const stops = await resolveStops(trip);
+    const { visited, remaining } = splitStopsAtBreakdown(stops, trip.lastVisitedStop);
+
+    // 1. Original vehicle
+    const originalLegs: CostLeg[] = [];
+    const odometerStart = Number(trip.odometerStart) || 0;
+    const breakdownOdometer = Number(trip.breakdownOdometer) || 0;
+
+    if (odometerStart > 0 && breakdownOdometer >= odometerStart) {
+        originalLegs.push({ label: `Odometer ${odometerStart} → ${breakdownOdometer}`, km: breakdownOdometer - odometerStart, source: 'odometer' });
+    } else if (breakdownPoint) {
+        const pickupPoint = trip.pickupCoords || await geocodeAddress(trip.pickup);
+        const km = await routeDistanceKm([pickupPoint, ...visited.map(s => s.coords), breakdownPoint]);
+        originalLegs.push({ label: 'Pickup → breakdown point', km: roundKm(km), source: 'route' });
+    }
+
+    // 2. Replacement vehicle
+    const replacementLegs: CostLeg[] = [];
+    if (breakdownPoint) {
+        const startPoint = newVehicleStart || await geocodeAddress(newVehicleStartPlace);
+        const emptyKm = await routeDistanceKm([startPoint, breakdownPoint]);
+        replacementLegs.push({ label: `Empty leg from ${newVehicleStartPlace}`, km: roundKm(emptyKm), source: 'route' });
+
+        const passengerKm = await routeDistanceKm([breakdownPoint, ...remaining.map(s => s.coords)]);
+        replacementLegs.push({ label: `Breakdown point → ${remaining.length} remaining stop(s)`, km: roundKm(passengerKm), source: 'route' });
+    }
+
+    const original = toCostLine('original', originalVehicle, originalLegs);
+    const replacement = toCostLine('replacement', replacementVehicle, replacementLegs);
+
+    return {
+        oldVehicle: original.vehicleNumber,
+        oldCost: original.cost,
+        newVehicle: replacement.vehicleNumber,
+        newCost: replacement.cost,
+        newVehicleStartPlace,
+        lines: [original, replacement],
+        totalKm: roundKm(original.km + replacement.km),
+        totalCost: original.cost + replacement.cost,
+        settledAt: new Date().toISOString(),
+    };
+};
+
+/**
+ * How a trip's cost is shared between vehicles, for per-vehicle reporting.
+ * Reassigned trips use their settlement; everything else belongs to the trip's vehicle.
+ * @param totalCost The trip's total cost, already parsed from the "LKR ..." string.
+ */
+export const getTripCostShares = (trip: Trip, totalCost: number): { vehicleNumber: string; cost: number }[] => {
+    const breakdown = trip.costBreakdown;
+    if (breakdown?.lines?.length) {
+        return breakdown.lines.map(line => ({ vehicleNumber: line.vehicleNumber, cost: line.cost }));
+    }
+    if (breakdown?.oldVehicle || breakdown?.newVehicle) {
+        return [
+            { vehicleNumber: breakdown.oldVehicle, cost: Number(breakdown.oldCost) || 0 },
+            { vehicleNumber: breakdown.newVehicle, cost: Number(breakdown.newCost) || 0 },
+        ];
+    }
+    return trip.vehicleNumber ? [{ vehicleNumber: trip.vehicleNumber, cost: totalCost }] : [];
+};
@@ -0,0 +1,60 @@
+import { ApitBand, PayrollAdjustment, PayrollDeductions, PayrollLine, PayrollLines, StatutoryRuleSet } from '../types';
+import { PAYROLL_LINES, getPayrollTotal } from './payrollCalculator';
+
+// --- STATUTORY DEDUCTIONS ---
+// EPF (employee and employer shares) and ETF are a percentage of the contribution base; APIT is worked
+// out slab by slab on the taxable base. Each base is the sum of the payroll lines the rule set names,
+// so reimbursements such as fines stay out, plus any carried-in adjustments to those lines. The rule
+// set used is the latest one in force for the payroll month (settings/statutory).
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const getStatutoryRuleSet = (rules: StatutoryRuleSet[], period: string): StatutoryRuleSet | null => {
+    const inForce = rules.filter(r => r.effectiveFrom <= period).sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+    // A month before every rule set still gets the oldest one rather than no deductions at all
+    return inForce[0] || [...rules].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom))[0] || null;
+};
+
+const getBase = (lines: PayrollLines, adjustments: PayrollAdjustment[], included: PayrollLine[]) => {
+    const fromLines = PAYROLL_LINES.filter(line => included.includes(line)).reduce((sum, line) => sum + (lines[line] || 0), 0);
+    const fromAdjustments = adjustments.filter(a => included.includes(a.line)).reduce((sum, a) => sum + Number(a.amount || 0), 0);
+    return Math.max(0, round2(fromLines + fromAdjustments));
+};
+
+export const computeApit = (taxable: number, bands: ApitBand[]) => {
+    let tax = 0;
+    let lower = 0;
+    for (const band of bands) {
+        const upper = band.upTo ?? Infinity;
+        if (taxable > lower) tax += (Math.min(taxable, upper) - lower) * band.ratePercent / 100;
+        if (taxable <= upper) break;
+        lower = upper;
+    }
+    return round2(tax);
+};
+
+export const computeStatutoryDeductions = (lines: PayrollLines, adjustments: PayrollAdjustment[], rules: StatutoryRuleSet): PayrollDeductions => {
+    const grossPay = getPayrollTotal(lines, adjustments);
+    const contributionBase = getBase(lines, adjustments, rules.contributionLines);
+    const taxableBase = getBase(lines, adjustments, rules.apitLines);
+
+    const epfEmployee = round2(contributionBase * rules.epfEmployeePercent / 100);
+    const apit = rules.apitEnabled ? computeApit(taxableBase, rules.apitBands) : 0;
+    const epfEmployer = round2(contributionBase * rules.epfEmployerPercent / 100);
+    const etfEmployer = round2(contributionBase * rules.etfEmployerPercent / 100);
+    const totalDeductions = round2(epfEmployee + apit);
+
+    return {
+        effectiveFrom: rules.effectiveFrom,
+        grossPay,
+        contributionBase,
+        taxableBase,
+        epfEmployee,
+        apit,
+        totalDeductions,
+        netPay: round2(grossPay - totalDeductions),
+        epfEmployer,
+        etfEmployer,
+        employerCost: round2(grossPay + epfEmployer + etfEmployer),
+    };
+};
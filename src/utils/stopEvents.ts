@@ -0,0 +1,121 @@
+import { GpsFix, LatLng, StopEvent, Trip } from '../types';
+import { geocodeAddress, haversineKm } from '../routing';
+import { BREADCRUMB_MAX_ACCURACY_M } from './breadcrumbs';
+
+// --- STOP EVENTS ---
+// Stops are numbered pickup = 0, then each drop-off in order. While a trip is in progress the driver's
+// GPS raises an 'arrive' event on entering a stop's geofence and a 'depart' event on leaving it (a wider
+// exit radius stops a vehicle parked at the edge from flapping). The driver can also mark either by hand.
+// Time between arrive and depart is the waiting time billed under the vehicle tariff.
+
+export const STOP_GEOFENCE_RADIUS_M = 150;
+export const STOP_GEOFENCE_EXIT_RADIUS_M = 250;
+
+export interface TripStop {
+    index: number;
+    label: string;       // "Pickup", "Stop 2", "Drop-off"
+    address: string;
+    coords: LatLng | null;
+    isFinal: boolean;
+}
+
+export type StopState = 'pending' | 'arrived' | 'departed';
+
+export interface StopProgress extends TripStop {
+    state: StopState;
+    arrivedAt: string | null;
+    departedAt: string | null;
+    waitingMinutes: number | null; // once departed; never counted at the final drop-off, where the trip ends
+}
+
+/**
+ * Pickup followed by the drop-offs. `destinations` normally already ends with the final destination;
+ * older trips listed only the intermediate stops, so the destination is appended when missing.
+ */
+export const getTripStops = (trip: Pick<Trip, 'pickup' | 'pickupCoords' | 'destinations' | 'destination' | 'destinationCoords'>): TripStop[] => {
+    const dropOffs = (trip.destinations || []).filter((d: string) => d && d.trim());
+    const coordsLineUp = trip.destinationCoords?.length === dropOffs.length;
+    if (trip.destination && dropOffs[dropOffs.length - 1] !== trip.destination) dropOffs.push(trip.destination);
+
+    return [
+        { index: 0, label: 'Pickup', address: trip.pickup, coords: trip.pickupCoords || null, isFinal: false },
+        ...dropOffs.map((address: string, i: number) => ({
+            index: i + 1,
+            label: i === dropOffs.length - 1 ? 'Drop-off' : `Stop ${i + 1}`,
+            address,
+            coords: (coordsLineUp && trip.destinationCoords?.[i]) || null,
+            isFinal: i === dropOffs.length - 1,
+        })),
+    ];
+};
+
+// Fills in coordinates the booking did not save, so every stop can be geofenced
+export const resolveStopCoords = async (stops: TripStop[]): Promise<TripStop[]> => {
+    const resolved: TripStop[] = [];
+    for (const stop of stops) {
+        resolved.push(stop.coords ? stop : { ...stop, coords: await geocodeAddress(stop.address) });
+    }
+    return resolved;
+};
+
+const minutesBetween = (from: string, to: string) => Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000));
+
+// Where each stop stands given the events so far: first arrival and last departure win
+export const getStopProgress = (stops: TripStop[], events: StopEvent[] = []): StopProgress[] => {
+    return stops.map(stop => {
+        const own = events.filter(e => e.stopIndex === stop.index).sort((a, b) => a.at.localeCompare(b.at));
+        const arrivedAt = own.find(e => e.kind === 'arrive')?.at || null;
+        const departs = own.filter(e => e.kind === 'depart');
+        const departedAt = departs.length > 0 ? departs[departs.length - 1].at : null;
+        const state: StopState = departedAt ? 'departed' : arrivedAt ? 'arrived' : 'pending';
+
+        return {
+            ...stop,
+            state,
+            arrivedAt,
+            departedAt,
+            waitingMinutes: !stop.isFinal && arrivedAt && departedAt ? minutesBetween(arrivedAt, departedAt) : null,
+        };
+    });
+};
+
+export const getTripStopProgress = (trip: Trip) => getStopProgress(getTripStops(trip), trip.stopEvents || []);
+
+// Waiting time across all stops, as billed
+export const getTotalStopWaitingMinutes = (progress: StopProgress[]) => {
+    return progress.reduce((sum, stop) => sum + (stop.waitingMinutes || 0), 0);
+};
+
+/**
+ * Events a new GPS fix raises: leaving the stop the vehicle is at, or entering the next one it has not
+ * reached. Departed stops are not re-entered automatically; the driver can correct that by hand.
+ */
+export const evaluateStopGeofence = (stops: TripStop[], events: StopEvent[], fix: GpsFix): StopEvent[] => {
+    if (fix.accuracyM !== null && fix.accuracyM > BREADCRUMB_MAX_ACCURACY_M) return [];
+    const progress = getStopProgress(stops, events);
+    const distanceM = (stop: TripStop) => stop.coords ? haversineKm(fix, stop.coords) * 1000 : Infinity;
+    const event = (stop: TripStop, kind: StopEvent['kind']): StopEvent => ({
+        stopIndex: stop.index, kind, at: fix.recordedAt, source: 'geofence', gps: fix,
+    });
+
+    const current = progress.find(stop => stop.state === 'arrived');
+    if (current) {
+        return distanceM(current) > STOP_GEOFENCE_EXIT_RADIUS_M ? [event(current, 'depart')] : [];
+    }
+
+    const entered = progress
+        .filter(stop => stop.state === 'pending' && distanceM(stop) <= STOP_GEOFENCE_RADIUS_M)
+        .sort((a, b) => distanceM(a) - distanceM(b))[0];
+    return entered ? [event(entered, 'arrive')] : [];
+};
+
+// Driver's manual arrive / depart for a stop the geofence missed. Arriving somewhere closes the stop
+// the vehicle was still marked at, so only one stop is ever open.
+export const manualStopEvents = (progress: StopProgress[], stopIndex: number, kind: StopEvent['kind'], gps: GpsFix | null): StopEvent[] => {
+    const at = new Date().toISOString();
+    const open = kind === 'arrive' ? progress.filter(stop => stop.state === 'arrived' && stop.index !== stopIndex) : [];
+    return [
+        ...open.map(stop => ({ stopIndex: stop.index, kind: 'depart' as const, at, source: 'manual' as const, gps })),
+        { stopIndex, kind, at, source: 'manual', gps },
+    ];
+};
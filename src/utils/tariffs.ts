@@ -0,0 +1,170 @@
+import { LatLng, TariffLine, TariffRuleSet, Trip, TripQuote, Vehicle } from '../types';
+import { getRateForTrip, getTripRateMoment } from './rateHistory';
+import { estimateTripDurationMinutes } from './availability';
+import { geocodeAddress, routeDistanceKm } from '../routing';
+
+// --- TARIFF ENGINE ---
+// Prices a trip from the vehicle's rate in force on the trip date and its tariff rule set:
+//   base      = km x rate, or per-day rate + excess km for long trips
+//   minimum   = top-up when the base is below the minimum charge
+//   surcharge = night / holiday percentage of base + minimum
+//   extras    = waiting time beyond the free minutes, empty return leg
+// Vehicles without a tariff are priced at the flat rate per km, exactly as before.
+
+type TariffVehicle = Pick<Vehicle, 'ratePerKm'> & { rateHistory?: Vehicle['rateHistory']; tariffHistory?: TariffRuleSet[] };
+
+export interface TariffTripInput {
+    date?: string;
+    time?: string;
+    distanceKm: number;
+    durationMinutes?: number; // actual when known; otherwise estimated from the distance
+    waitingMinutes?: number;
+    returnKm?: number;        // last stop back to pickup
+}
+
+export const DEFAULT_TARIFF: Omit<TariffRuleSet, 'version' | 'effectiveFrom' | 'createdBy'> = {
+    minimumCharge: 0,
+    freeWaitingMinutes: 30,
+    waitingRatePerHour: 0,
+    nightStart: '22:00',
+    nightEnd: '06:00',
+    nightSurchargePercent: 0,
+    holidays: [],
+    holidaySurchargePercent: 0,
+    dayRate: 0,
+    dayRateAfterHours: 10,
+    dayKmAllowance: 100,
+    returnLegPercent: 0,
+};
+
+// Latest rule set whose effectiveFrom is at or before `at`, or null when none applies
+export const getTariffAt = (vehicle: TariffVehicle | null | undefined, at: Date): TariffRuleSet | null => {
+    const history = (vehicle?.tariffHistory || [])
+        .filter(rules => rules && !isNaN(new Date(rules.effectiveFrom).getTime()))
+        .slice()
+        .sort((a, b) => new Date(a.effectiveFrom).getTime() - new Date(b.effectiveFrom).getTime());
+    return history.filter(rules => new Date(rules.effectiveFrom).getTime() <= at.getTime()).pop() || null;
+};
+
+export const getCurrentTariff = (vehicle: TariffVehicle | null | undefined) => getTariffAt(vehicle, new Date());
+
+const toMinutes = (clock: string) => {
+    const [h, m] = (clock || '').split(':').map(Number);
+    return isNaN(h) ? null : h * 60 + (m || 0);
+};
+
+// True when `time` falls inside the night window, which may wrap past midnight (22:00-06:00)
+export const isNightTime = (time: string | undefined, rules: Pick<TariffRuleSet, 'nightStart' | 'nightEnd'>) => {
+    const at = toMinutes(time || '');
+    const start = toMinutes(rules.nightStart);
+    const end = toMinutes(rules.nightEnd);
+    if (at === null || start === null || end === null || start === end) return false;
+    return start < end ? at >= start && at < end : at >= start || at < end;
+};
+
+const lkr = (amount: number) => Math.round(amount);
+const km1 = (km: number) => Math.round(km * 10) / 10;
+
+export const priceTrip = (vehicle: TariffVehicle | null | undefined, input: TariffTripInput): TripQuote => {
+    const trip = { date: input.date, time: input.time };
+    const rate = getRateForTrip(vehicle, trip);
+    const rules = getTariffAt(vehicle, getTripRateMoment(trip));
+    const km = Math.max(0, input.distanceKm || 0);
+    const lines: TariffLine[] = [];
+
+    // 1. Base: per day for long trips, otherwise per km
+    const durationMinutes = input.durationMinutes ?? estimateTripDurationMinutes(km);
+    if (rules && rules.dayRate > 0 && rules.dayRateAfterHours > 0 && durationMinutes > rules.dayRateAfterHours * 60) {
+        const days = Math.max(1, Math.ceil(durationMinutes / (24 * 60)));
+        lines.push({ code: 'day-rate', label: `${days} day(s) x LKR ${rules.dayRate}`, amount: lkr(days * rules.dayRate) });
+
+        const excessKm = Math.max(0, km - days * (rules.dayKmAllowance || 0));
+        if (excessKm > 0) {
+            lines.push({ code: 'excess-km', label: `${km1(excessKm)} km over ${days * rules.dayKmAllowance} km allowance x LKR ${rate.ratePerKm}`, amount: lkr(excessKm * rate.ratePerKm) });
+        }
+    } else {
+        lines.push({ code: 'distance', label: `${km1(km)} km x LKR ${rate.ratePerKm}`, amount: lkr(km * rate.ratePerKm) });
+    }
+
+    if (rules) {
+        // 2. Minimum charge
+        const base = lines.reduce((sum, line) => sum + line.amount, 0);
+        if (km > 0 && rules.minimumCharge > base) {
+            lines.push({ code: 'minimum', label: `Minimum charge LKR ${rules.minimumCharge}`, amount: lkr(rules.minimumCharge - base) });
+        }
+
+        // 3. Surcharges on the trip charge
+        const tripCharge = lines.reduce((sum, line) => sum + line.amount, 0);
+        if (rules.nightSurchargePercent > 0 && isNightTime(input.time, rules)) {
+            lines.push({ code: 'night', label: `Night surcharge ${rules.nightSurchargePercent}% (${rules.nightStart}–${rules.nightEnd})`, amount: lkr(tripCharge * rules.nightSurchargePercent / 100) });
+        }
+        if (rules.holidaySurchargePercent > 0 && input.date && (rules.holidays || []).includes(input.date)) {
+            lines.push({ code: 'holiday', label: `Holiday surcharge ${rules.holidaySurchargePercent}%`, amount: lkr(tripCharge * rules.holidaySurchargePercent / 100) });
+        }
+
+        // 4. Waiting time
+        const chargeableWaiting = Math.max(0, (input.waitingMinutes || 0) - (rules.freeWaitingMinutes || 0));
+        if (chargeableWaiting > 0 && rules.waitingRatePerHour > 0) {
+            lines.push({ code: 'waiting', label: `Waiting ${chargeableWaiting} min x LKR ${rules.waitingRatePerHour}/h`, amount: lkr(chargeableWaiting / 60 * rules.waitingRatePerHour) });
+        }
+
+        // 5. Empty return leg
+        if (rules.returnLegPercent > 0 && (input.returnKm || 0) > 0) {
+            lines.push({ code: 'return-leg', label: `Empty return ${km1(input.returnKm!)} km at ${rules.returnLegPercent}% of rate`, amount: lkr(input.returnKm! * rate.ratePerKm * rules.returnLegPercent / 100) });
+        }
+    }
+
+    return {
+        lines,
+        total: lines.reduce((sum, line) => sum + line.amount, 0),
+        ratePerKm: rate.ratePerKm,
+        rateEffectiveFrom: rate.effectiveFrom,
+        tariffVersion: rules ? rules.version : null,
+        pricedAt: new Date().toISOString(),
+    };
+};
+
+// Routed distance from the last stop back to the pickup, for the empty return-leg charge
+export const getReturnLegKm = async (stops: { pickup?: LatLng | null; lastStop?: LatLng | null }) => {
+    if (!stops.pickup || !stops.lastStop) return 0;
+    return routeDistanceKm([stops.lastStop, stops.pickup]);
+};
+
+export const getTripReturnLegKm = async (trip: Trip) => {
+    const lastAddress = trip.destinations?.length ? trip.destinations[trip.destinations.length - 1] : trip.destination;
+    const lastStop = trip.destinationCoords?.length ? trip.destinationCoords[trip.destinationCoords.length - 1] : await geocodeAddress(lastAddress);
+    const pickup = trip.pickupCoords || await geocodeAddress(trip.pickup);
+    return getReturnLegKm({ pickup, lastStop });
+};
+
+// Minutes between start and end timestamps, when both were recorded
+export const getActualDurationMinutes = (trip: Pick<Trip, 'startedAt' | 'endedAt'>) => {
+    if (!trip.startedAt || !trip.endedAt) return undefined;
+    const minutes = (new Date(trip.endedAt).getTime() - new Date(trip.startedAt).getTime()) / 60000;
+    return isNaN(minutes) || minutes < 0 ? undefined : Math.round(minutes);
+};
+
+/**
+ * Prices a saved trip. Uses the actual duration and waiting time once recorded (completion, re-costing),
+ * estimates otherwise (approval). Only routes the return leg when the vehicle's tariff charges for it.
+ */
+export const priceSavedTrip = async (vehicle: TariffVehicle | null | undefined, trip: Trip, distanceKm: number) => {
+    const rules = getTariffAt(vehicle, getTripRateMoment(trip));
+    const returnKm = rules && rules.returnLegPercent > 0 ? await getTripReturnLegKm(trip) : 0;
+    return priceTrip(vehicle, {
+        date: trip.date,
+        time: trip.time,
+        distanceKm,
+        durationMinutes: getActualDurationMinutes(trip),
+        waitingMinutes: Number(trip.waitingMinutes) || 0,
+        returnKm,
+    });
+};
+
+// Fields written to the trip whenever it is priced
+export const quoteToTripPatch = (quote: TripQuote) => ({
+    cost: `LKR ${quote.total}`,
+    costQuote: quote,
+    appliedRatePerKm: quote.ratePerKm,
+    appliedRateEffectiveFrom: quote.rateEffectiveFrom,
+});
@@ -0,0 +1,230 @@
+import { Trip, TripStatus } from '../types';
+import { StoreTransaction } from '../repositories/dataStore';
+
+// --- STATUS GROUPS ---
+// Shared by every screen so the queues, availability checks and history lists agree.
+
+// Trips holding a driver and vehicle (used for availability / double-booking checks)
+export const ASSIGNED_TRIP_STATUSES: TripStatus[] = ['approved', 'reassigned', 'approved_merge_request', 'in-progress'];
+
+// Trips the driver can start today (odometer start not yet recorded)
+export const STARTABLE_TRIP_STATUSES: TripStatus[] = ['approved', 'reassigned'];
+
+// Trips shown in the admin Merge Candidates queue
+export const MERGE_QUEUE_STATUSES: TripStatus[] = ['pending_merge', 'awaiting_merge_approval', 'approved_merge_request', 'merge_rejected'];
+
+// Trips that no longer need any action from the user or driver
+export const CLOSED_TRIP_STATUSES: TripStatus[] = ['completed', 'cancelled', 'rejected', 'broken-down'];
+
+// Trips that contributed kilometres to a vehicle (mileage / service risk)
+export const MILEAGE_TRIP_STATUSES: TripStatus[] = ['completed', 'broken-down', 'reassigned'];
+
+// Legacy spellings found on older trip_requests documents
+const LEGACY_STATUS_ALIASES: Record<string, TripStatus> = {
+    're-assigned': 'reassigned',
+};
+
+export const normalizeTripStatus = (status: string | null | undefined): TripStatus => {
+    if (!status) return 'pending';
+    return LEGACY_STATUS_ALIASES[status] || (status as TripStatus);
+};
+
+// Builds a typed Trip from a Firestore document, normalising the status on the way in
+export const toTrip = (id: string, data: Record<string, any>): Trip => ({
+    ...data,
+    id,
+    status: normalizeTripStatus(data.status),
+} as Trip);
+
+export const tripStatusIn = (trip: { status?: string } | null | undefined, statuses: TripStatus[]) => {
+    return !!trip && statuses.includes(normalizeTripStatus(trip.status));
+};
+
+// --- STATE MACHINE ---
+
+// What a status move does to the driver (users doc) and vehicle (vehicles doc).
+// 'previous*' effects apply to the driver/vehicle being replaced when the move assigns new ones.
+type ResourceEffect = 'assign' | 'release' | 'maintenance';
+
+export interface TripSideEffects {
+    driver?: ResourceEffect;
+    vehicle?: ResourceEffect;
+    previousDriver?: ResourceEffect;
+    previousVehicle?: ResourceEffect;
+}
+
+const NONE: TripSideEffects = {};
+const ASSIGN: TripSideEffects = { driver: 'assign', vehicle: 'assign' };
+const RELEASE: TripSideEffects = { driver: 'release', vehicle: 'release' };
+const GROUND: TripSideEffects = { driver: 'release', vehicle: 'maintenance' };
+
+export const TRIP_TRANSITIONS: Record<TripStatus, Partial<Record<TripStatus, TripSideEffects>>> = {
+    'pending': {
+        'approved': ASSIGN,
+        'rejected': NONE,
+        'cancelled': NONE,
+        'pending_merge': NONE,
+        'awaiting_merge_approval': NONE,
+        'merged': NONE,
+    },
+    'pending_merge': {
+        'awaiting_merge_approval': NONE,
+        'pending': NONE,
+        'cancelled': NONE,
+        'merged': NONE,
+    },
+    'awaiting_merge_approval': {
+        'approved_merge_request': NONE,
+        'merge_rejected': NONE,
+        'pending': NONE,
+        'approved': NONE, // Master reverted to its original approved status
+        'merged': NONE,
+        'rejected': NONE,
+        'cancelled': NONE,
+    },
+    'approved_merge_request': {
+        'approved_merge_request': NONE, // Second consent arriving
+        'approved': { ...ASSIGN, previousDriver: 'release', previousVehicle: 'release' },
+        'merge_rejected': NONE,
+        'pending': NONE,
+        'cancelled': NONE,
+    },
+    'merge_rejected': {
+        'pending': NONE,
+        'approved': NONE,
+        'cancelled': NONE,
+    },
+    'approved': {
+        'in-progress': ASSIGN,
+        'broken-down': GROUND, // Failed pre-trip inspection
+        'awaiting_merge_approval': NONE,
+        'cancelled': RELEASE,
+    },
+    'reassigned': {
+        'in-progress': ASSIGN,
+        'broken-down': GROUND,
+        'cancelled': RELEASE,
+    },
+    'in-progress': {
+        'completed': RELEASE,
+        'broken-down': GROUND,
+        'cancelled': RELEASE,
+    },
+    'broken-down': {
+        'reassigned': { ...ASSIGN, previousDriver: 'release', previousVehicle: 'maintenance' },
+        'cancelled': GROUND,
+    },
+    'completed': {},
+    'cancelled': {},
+    'rejected': {},
+    'merged': {},
+};
+
+export class TripTransitionError extends Error {
+    from: TripStatus;
+    to: TripStatus;
+
+    constructor(from: TripStatus, to: TripStatus) {
+        super(`Trip cannot move from '${from}' to '${to}'.`);
+        this.name = 'TripTransitionError';
+        this.from = from;
+        this.to = to;
+    }
+}
+
+export const canTransition = (from: string, to: TripStatus) => {
+    return !!TRIP_TRANSITIONS[normalizeTripStatus(from)]?.[to];
+};
+
+export const getTransitionEffects = (from: string, to: TripStatus): TripSideEffects => {
+    const effects = TRIP_TRANSITIONS[normalizeTripStatus(from)]?.[to];
+    if (!effects) throw new TripTransitionError(normalizeTripStatus(from), to);
+    return effects;
+};
+
+// --- STORE APPLICATION ---
+
+const DRIVER_UPDATES: Record<ResourceEffect, (tripId: string) => Record<string, any>> = {
+    assign: (tripId) => ({ status: 'in-use', currentTripId: tripId }),
+    release: () => ({ status: 'available', currentTripId: null }),
+    maintenance: () => ({ status: 'available', currentTripId: null }),
+};
+
+const VEHICLE_UPDATES: Record<ResourceEffect, (tripId: string) => Record<string, any>> = {
+    assign: () => ({ status: 'in-use' }),
+    release: () => ({ status: 'available' }),
+    maintenance: (tripId) => ({ status: 'in-maintenance', lastTripId: tripId }),
+};
+
+export interface TripMove {
+    tripId: string;
+    to: TripStatus;
+    patch?: Partial<Trip>;
+}
+
+// Reads everything one move needs and returns the writes to perform afterwards
+const prepareTripMove = async (transaction: StoreTransaction, { tripId, to, patch = {} }: TripMove) => {
+    const stored = await transaction.get("trip_requests", tripId);
+    if (!stored) throw new Error(`Trip ${tripId} not found.`);
+
+    const current = toTrip(stored.id, stored);
+    const effects = getTransitionEffects(current.status, to);
+
+    const previousDriverId = current.driverId || null;
+    const previousVehicleId = current.vehicleId || null;
+    const nextDriverId = patch.driverId !== undefined ? patch.driverId : previousDriverId;
+    const nextVehicleId = patch.vehicleId !== undefined ? patch.vehicleId : previousVehicleId;
+
+    const driverWrites: { id: string, effect: ResourceEffect }[] = [];
+    const vehicleWrites: { id: string, effect: ResourceEffect }[] = [];
+
+    if (effects.driver && nextDriverId) driverWrites.push({ id: nextDriverId, effect: effects.driver });
+    if (effects.vehicle && nextVehicleId) vehicleWrites.push({ id: nextVehicleId, effect: effects.vehicle });
+    if (effects.previousDriver && previousDriverId && previousDriverId !== nextDriverId) {
+        driverWrites.push({ id: previousDriverId, effect: effects.previousDriver });
+    }
+    if (effects.previousVehicle && previousVehicleId && previousVehicleId !== nextVehicleId) {
+        vehicleWrites.push({ id: previousVehicleId, effect: effects.previousVehicle });
+    }
+
+    // A driver is only released if they have not already moved on to another trip
+    const drivers = await Promise.all(driverWrites.map(w => transaction.get("users", w.id)));
+
+    const updatedTrip = { ...patch, status: to };
+
+    return () => {
+        transaction.update("trip_requests", tripId, updatedTrip);
+
+        driverWrites.forEach((w, i) => {
+            const driver = drivers[i];
+            if (!driver) return;
+            const onOtherTrip = driver.currentTripId && driver.currentTripId !== tripId;
+            if (w.effect !== 'assign' && onOtherTrip) return;
+            transaction.update("users", w.id, DRIVER_UPDATES[w.effect](tripId));
+        });
+        vehicleWrites.forEach(w => {
+            transaction.update("vehicles", w.id, VEHICLE_UPDATES[w.effect](tripId));
+        });
+
+        return { ...current, ...updatedTrip } as Trip;
+    };
+};
+
+/**
+ * Moves one or more trips to new statuses inside an existing store transaction and applies
+ * the driver/vehicle side effects. All reads happen before any writes, so callers may add their
+ * own writes (e.g. deleting a merged candidate) after it resolves.
+ * Throws TripTransitionError when a move is not allowed from the stored status.
+ */
+export const applyTripTransitions = async (transaction: StoreTransaction, moves: TripMove[]) => {
+    const commits = [];
+    for (const move of moves) {
+        commits.push(await prepareTripMove(transaction, move));
+    }
+    return commits.map(commit => commit());
+};
+
+export const applyTripTransition = async (transaction: StoreTransaction, tripId: string, to: TripStatus, patch: Partial<Trip> = {}) => {
+    const [updated] = await applyTripTransitions(transaction, [{ tripId, to, patch }]);
+    return updated;
+};